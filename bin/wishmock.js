@@ -23,6 +23,18 @@ if (process.argv.includes('--version') || process.argv.includes('-v')) {
   }
 }
 
+// Handle the lint subcommand: check rule files against the protos and exit
+if (process.argv[2] === 'lint') {
+  try {
+    const { runLintCommand } = await import('../dist/cli/lint.js');
+    process.exit(await runLintCommand(process.argv.slice(3)));
+  } catch (e) {
+    console.error('[wishmock] Failed to run lint. Did you build?');
+    console.error(e);
+    process.exit(1);
+  }
+}
+
 // Handle --help flag
 if (process.argv.includes('--help') || process.argv.includes('-h')) {
   console.log(`
@@ -30,6 +42,10 @@ wishmock - gRPC mock server with hot reload and rule-based responses
 
 Usage:
   wishmock [options]
+  wishmock lint [--protos <dir>] [--rules <dir>] [--json]
+
+Commands:
+  lint              Check rule files against the protos (exits 1 on errors)
 
 Options:
   -v, --version     Show version number
@@ -45,6 +61,8 @@ Environment Variables:
   CONNECT_CORS_ENABLED        Enable CORS for Connect RPC (true/false, default: true)
   CONNECT_TLS_ENABLED         Enable TLS for Connect RPC (true/false, default: false)
   VALIDATION_ENABLED          Enable request validation (true/false)
+  AUTO_MOCK_ENABLED           Answer methods without rules from the proto schema (true/false)
+  TEMPLATE_SEED               Seed for reproducible template values (uuid, random, helpers)
   HOT_RELOAD_PROTOS           Enable proto hot reload (true/false)
   HOT_RELOAD_RULES            Enable rule hot reload (true/false)
   REFLECTION_DISABLE_REGEN    Disable reflection regeneration (auto-set if protoc missing)
@@ -64,6 +82,9 @@ Examples:
   # Start with validation enabled
   VALIDATION_ENABLED=true wishmock
 
+  # Check rule files against the protos
+  wishmock lint
+
   # Check server status (works without protoc)
   curl http://localhost:4319/admin/status
 
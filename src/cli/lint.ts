@@ -0,0 +1,71 @@
+/**
+ * `wishmock lint` command
+ *
+ * Loads the protos, lints every rule file against them and prints the
+ * diagnostics. The exit code is 1 when any error is found so the command
+ * can gate CI.
+ *
+ * Usage: wishmock lint [--protos <dir>] [--rules <dir>] [--json]
+ */
+
+import path from "path";
+import { loadProtos } from "../infrastructure/protoLoader.js";
+import { buildHandlersFromRoot } from "../infrastructure/grpcServer.js";
+import { lintRuleDir, type LintDiagnostic } from "../infrastructure/ruleLinter.js";
+
+interface LintOptions {
+  protoDir: string;
+  ruleDir: string;
+  json: boolean;
+}
+
+function parseArgs(args: string[]): LintOptions {
+  const options: LintOptions = { protoDir: "protos", ruleDir: path.join("rules", "grpc"), json: false };
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === "--json") options.json = true;
+    else if (arg === "--protos" && args[i + 1]) options.protoDir = args[++i];
+    else if (arg === "--rules" && args[i + 1]) options.ruleDir = args[++i];
+    else throw new Error(`unknown option: ${arg}`);
+  }
+  return options;
+}
+
+function formatDiagnostic(d: LintDiagnostic): string {
+  const where = d.line !== undefined ? `${d.file}:${d.line}` : d.file;
+  return `${where}  ${d.severity}  ${d.path || "(file)"}  ${d.message}`;
+}
+
+/**
+ * Run the lint command
+ *
+ * @param args Arguments after `lint`
+ * @returns Process exit code
+ */
+export async function runLintCommand(args: string[]): Promise<number> {
+  let options: LintOptions;
+  try {
+    options = parseArgs(args);
+  } catch (e: any) {
+    console.error(`[wishmock] ${e?.message || e}`);
+    console.error("Usage: wishmock lint [--protos <dir>] [--rules <dir>] [--json]");
+    return 2;
+  }
+
+  const { root, report } = await loadProtos(path.resolve(options.protoDir));
+  const noop = () => {};
+  const methods = buildHandlersFromRoot(root, new Map(), noop).values();
+  const diagnostics = lintRuleDir(path.resolve(options.ruleDir), methods);
+  const errors = diagnostics.filter((d) => d.severity === "error").length;
+
+  if (options.json) {
+    console.log(JSON.stringify({ ok: errors === 0, errors, warnings: diagnostics.length - errors, diagnostics }, null, 2));
+  } else {
+    for (const s of report.filter((r) => r.status === "skipped")) {
+      console.warn(`[wishmock] skipped proto ${s.file}: ${s.error || "unknown error"}`);
+    }
+    for (const d of diagnostics) console.log(formatDiagnostic(d));
+    console.log(`${errors} error(s), ${diagnostics.length - errors} warning(s)`);
+  }
+  return errors > 0 ? 1 : 0;
+}
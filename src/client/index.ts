@@ -0,0 +1,349 @@
+/**
+ * Typed client for the Wishmock admin API (`wishmock/client`)
+ *
+ * Wraps the `/admin/*` endpoints served on the HTTP admin port so tests and
+ * tools do not have to build their own `fetch` calls. It only relies on the
+ * global `fetch`, `FormData` and `Blob`, so it runs in Node 18+, Bun and
+ * browsers alike.
+ *
+ * A client created with a `session` sends `x-wishmock-session` on every admin
+ * call: stubs it adds, the scenario/sequence state it reads or resets and the
+ * journal it queries are those of that session only.
+ *
+ * @example
+ * const mock = new WishmockClient({ baseUrl: "http://localhost:4319" });
+ * await mock.addStub({ target: "helloworld.Greeter/SayHello", responses: [{ body: { message: "hi" } }] });
+ */
+
+import { SESSION_HEADER } from "../domain/session.js";
+import type { FaultProfile, ResponseOption, RuleDoc } from "../domain/types.js";
+import type { StubInfo } from "../domain/stubs/stubStore.js";
+import type { ScenarioInfo } from "../domain/scenarios/scenarioStore.js";
+import type { SequenceInfo } from "../domain/sequences/sequenceStore.js";
+import type { JournalEntry, JournalQuery } from "../domain/journal/requestJournal.js";
+import type { VerifySpec, VerifyResult } from "../domain/usecases/verifyRequests.js";
+import type { LintDiagnostic } from "../infrastructure/ruleLinter.js";
+import type { FileItem } from "../infrastructure/fileService.js";
+import type { HealthInfo, ServingStatus } from "../domain/health/healthStore.js";
+import type { StatusResponse, ServicesResponse } from "../interfaces/types.js";
+
+export type {
+  FaultProfile,
+  ResponseOption,
+  RuleDoc,
+  StubInfo,
+  ScenarioInfo,
+  SequenceInfo,
+  JournalEntry,
+  JournalQuery,
+  VerifySpec,
+  VerifyResult,
+  LintDiagnostic,
+  FileItem,
+  HealthInfo,
+  ServingStatus,
+  StatusResponse,
+  ServicesResponse,
+};
+
+/**
+ * Rule document posted as a runtime stub; `target` names the method
+ */
+export type StubDoc = RuleDoc & { target: string };
+
+export interface WishmockClientOptions {
+  /** Admin base URL (default: http://localhost:4319) */
+  baseUrl?: string;
+  /** Session every admin call is scoped to */
+  session?: string;
+  /** Extra headers sent with every admin call */
+  headers?: Record<string, string>;
+  /** Fetch implementation (default: the global fetch) */
+  fetch?: typeof fetch;
+}
+
+export interface SavedFile {
+  ok: boolean;
+  filename?: string;
+  saved: string;
+  /** Follow-up taken after a proto upload (noop or rolling-restart) */
+  action?: string;
+}
+
+export interface LintResult {
+  ok: boolean;
+  errors: number;
+  warnings: number;
+  diagnostics: LintDiagnostic[];
+}
+
+export interface AssetUploadResult {
+  bundle_version: string;
+  checksum: string;
+  filename: string;
+}
+
+export interface AssetRefreshResult {
+  status: string;
+  bundle_version?: string;
+  checksums?: Record<string, string>;
+}
+
+export interface JournalResult {
+  count: number;
+  capacity: number;
+  requests: JournalEntry[];
+}
+
+export const DEFAULT_ADMIN_URL = "http://localhost:4319";
+
+/**
+ * Wishmock admin API client
+ */
+export class WishmockClient {
+  readonly baseUrl: string;
+  readonly session?: string;
+  private readonly headers: Record<string, string>;
+  private readonly fetchFn: typeof fetch;
+
+  constructor(options: WishmockClientOptions = {}) {
+    this.baseUrl = (options.baseUrl || DEFAULT_ADMIN_URL).replace(/\/+$/, "");
+    this.session = options.session;
+    this.headers = { ...(options.headers || {}) };
+    if (options.session) this.headers[SESSION_HEADER] = options.session;
+    this.fetchFn = options.fetch || ((input, init) => fetch(input, init));
+  }
+
+  /**
+   * Client for the same server scoped to another session
+   */
+  withSession(session: string): WishmockClient {
+    return new WishmockClient({ baseUrl: this.baseUrl, session, headers: this.headers, fetch: this.fetchFn });
+  }
+
+  // Health and introspection
+
+  /** Whether the server is ready to serve calls */
+  async ready(): Promise<boolean> {
+    try {
+      const res = await this.fetchFn(`${this.baseUrl}/readiness`);
+      return res.ok;
+    } catch {
+      return false;
+    }
+  }
+
+  status(): Promise<StatusResponse> {
+    return this.request("GET", "/admin/status");
+  }
+
+  services(): Promise<ServicesResponse> {
+    return this.request("GET", "/admin/services");
+  }
+
+  /** Message or enum schema for a fully qualified type name */
+  schema(typeName: string): Promise<unknown> {
+    return this.request("GET", `/admin/schema/${encodeURIComponent(typeName)}`);
+  }
+
+  // Proto files
+
+  async listProtos(): Promise<FileItem[]> {
+    return (await this.request<{ files: FileItem[] }>("GET", "/admin/protos")).files;
+  }
+
+  async getProto(filename: string): Promise<string> {
+    return (await this.request<{ content: string }>("GET", `/admin/proto/${encodeURIComponent(filename)}`)).content;
+  }
+
+  putProto(filename: string, content: string): Promise<SavedFile> {
+    return this.request("PUT", `/admin/proto/${encodeURIComponent(filename)}`, { content });
+  }
+
+  uploadProto(filename: string, content: string): Promise<SavedFile> {
+    return this.request("POST", "/admin/upload/proto", { filename, content });
+  }
+
+  /** Upload a proto to a subdirectory (e.g. `common/types.proto`) */
+  uploadProtoAtPath(relPath: string, content: string): Promise<SavedFile> {
+    return this.request("POST", "/admin/upload/proto/path", { path: relPath, content });
+  }
+
+  // Rule files
+
+  async listRules(): Promise<FileItem[]> {
+    return (await this.request<{ files: FileItem[] }>("GET", "/admin/rules/grpc")).files;
+  }
+
+  async getRule(filename: string): Promise<string> {
+    return (await this.request<{ content: string }>("GET", `/admin/rule/grpc/${encodeURIComponent(filename)}`)).content;
+  }
+
+  putRule(filename: string, content: string): Promise<SavedFile> {
+    return this.request("PUT", `/admin/rule/grpc/${encodeURIComponent(filename)}`, { content });
+  }
+
+  uploadRule(filename: string, content: string): Promise<SavedFile> {
+    return this.request("POST", "/admin/upload/rule/grpc", { filename, content });
+  }
+
+  /** Lint the rule directory, or an unsaved rule file when one is given */
+  lintRules(source?: { filename: string; content: string }): Promise<LintResult> {
+    return this.request("POST", "/admin/rules/lint", source || {});
+  }
+
+  // Versioned asset bundles (when the server runs with an asset store)
+
+  uploadProtoAsset(filename: string, content: string): Promise<AssetUploadResult> {
+    return this.upload("/admin/assets/protos", filename, content);
+  }
+
+  uploadRuleAsset(filename: string, content: string): Promise<AssetUploadResult> {
+    return this.upload("/admin/assets/rules", filename, content);
+  }
+
+  refreshAssets(): Promise<AssetRefreshResult> {
+    return this.request("POST", "/admin/assets/refresh");
+  }
+
+  // Runtime stubs
+
+  addStub(doc: StubDoc): Promise<StubInfo> {
+    return this.request("POST", "/admin/stubs", doc);
+  }
+
+  async listStubs(): Promise<StubInfo[]> {
+    return (await this.request<{ stubs: StubInfo[] }>("GET", "/admin/stubs")).stubs;
+  }
+
+  async removeStub(id: string): Promise<void> {
+    await this.request("DELETE", `/admin/stubs/${encodeURIComponent(id)}`);
+  }
+
+  /** Remove every stub (of the client's session, when it has one) */
+  async resetStubs(): Promise<number> {
+    return (await this.request<{ removed: number }>("DELETE", "/admin/stubs")).removed;
+  }
+
+  // Scenarios
+
+  async listScenarios(): Promise<ScenarioInfo[]> {
+    return (await this.request<{ scenarios: ScenarioInfo[] }>("GET", "/admin/scenarios")).scenarios;
+  }
+
+  async getScenarioState(name: string): Promise<string> {
+    return (await this.request<{ state: string }>("GET", `/admin/scenarios/${encodeURIComponent(name)}`)).state;
+  }
+
+  async setScenarioState(name: string, state: string): Promise<void> {
+    await this.request("PUT", `/admin/scenarios/${encodeURIComponent(name)}`, { state });
+  }
+
+  /** Reset one scenario, or all of them when no name is given */
+  async resetScenarios(name?: string): Promise<void> {
+    await this.request("DELETE", name ? `/admin/scenarios/${encodeURIComponent(name)}` : "/admin/scenarios");
+  }
+
+  // Sequences
+
+  /** Sequence counters, optionally for one rule key */
+  async listSequences(rule?: string): Promise<SequenceInfo[]> {
+    const path = rule ? `/admin/sequences/${encodeURIComponent(rule)}` : "/admin/sequences";
+    return (await this.request<{ sequences: SequenceInfo[] }>("GET", path)).sequences;
+  }
+
+  /** Reset the counters of one rule key, or all of them */
+  async resetSequences(rule?: string): Promise<void> {
+    await this.request("DELETE", rule ? `/admin/sequences/${encodeURIComponent(rule)}` : "/admin/sequences");
+  }
+
+  // Request journal
+
+  /** Recorded calls, most recent last, filtered by a journal query */
+  findRequests(query: JournalQuery = {}): Promise<JournalResult> {
+    return this.request("POST", "/admin/requests/find", query);
+  }
+
+  async clearRequests(): Promise<void> {
+    await this.request("DELETE", "/admin/requests");
+  }
+
+  /** Check how many recorded calls match; see VerifyResult.near_misses on failure */
+  verify(spec: VerifySpec): Promise<VerifyResult> {
+    return this.request("POST", "/admin/verify", spec);
+  }
+
+  // Faults
+
+  async getFaults(): Promise<FaultProfile | null> {
+    return (await this.request<{ global: FaultProfile | null }>("GET", "/admin/faults")).global;
+  }
+
+  async setFaults(profile: FaultProfile): Promise<void> {
+    await this.request("PUT", "/admin/faults", profile);
+  }
+
+  async clearFaults(): Promise<void> {
+    await this.request("DELETE", "/admin/faults");
+  }
+
+  // gRPC health
+
+  getHealth(): Promise<HealthInfo> {
+    return this.request("GET", "/admin/health");
+  }
+
+  /** Force the status grpc.health.v1.Health reports for a service ("" = the overall server) */
+  async setHealth(service: string, status: ServingStatus): Promise<void> {
+    await this.request("PUT", service ? `/admin/health/${encodeURIComponent(service)}` : "/admin/health", { status });
+  }
+
+  /** Drop the status set for one service, or for all of them */
+  async clearHealth(service?: string): Promise<void> {
+    await this.request("DELETE", service ? `/admin/health/${encodeURIComponent(service)}` : "/admin/health");
+  }
+
+  /**
+   * Reset runtime state between tests: stubs, scenarios, sequences and the
+   * journal (of the client's session, when it has one)
+   */
+  async reset(): Promise<void> {
+    await this.resetStubs();
+    await this.resetScenarios();
+    await this.resetSequences();
+    await this.clearRequests();
+  }
+
+  private async request<T>(method: string, path: string, body?: unknown): Promise<T> {
+    const headers: Record<string, string> = { ...this.headers };
+    if (body !== undefined) headers["content-type"] = "application/json";
+    const res = await this.fetchFn(`${this.baseUrl}${path}`, {
+      method,
+      headers,
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    return parseResponse<T>(res, method, path);
+  }
+
+  private async upload<T>(path: string, filename: string, content: string): Promise<T> {
+    const form = new FormData();
+    form.append("file", new Blob([content]), filename);
+    const res = await this.fetchFn(`${this.baseUrl}${path}`, { method: "POST", headers: this.headers, body: form });
+    return parseResponse<T>(res, "POST", path);
+  }
+}
+
+async function parseResponse<T>(res: Response, method: string, path: string): Promise<T> {
+  const text = await res.text();
+  let payload: any = {};
+  try {
+    payload = text ? JSON.parse(text) : {};
+  } catch {
+    payload = text;
+  }
+  if (!res.ok) {
+    const message = typeof payload === "object" && payload?.error ? payload.error : text;
+    throw new Error(`${method} ${path} failed (HTTP ${res.status}): ${message}`);
+  }
+  return payload as T;
+}
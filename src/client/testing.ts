@@ -0,0 +1,90 @@
+/**
+ * Test helpers for Jest, Vitest and Bun (`wishmock/client/testing`)
+ *
+ * `startWishmock()` boots a Wishmock server on free ports for a test file and
+ * returns a client bound to it; `stub()` and `resetWishmock()` keep each test
+ * independent:
+ *
+ * @example
+ * let mock: WishmockInstance;
+ * beforeAll(async () => { mock = await startWishmock({ protoDirs: ["test/protos"], rules: "test/rules" }); });
+ * afterAll(() => mock.stop());
+ * beforeEach(() => resetWishmock(mock.client));
+ *
+ * The server runs in the test process (see createWishmock); unlike the
+ * client itself, this module needs Node or Bun.
+ */
+
+import { createWishmock, type Wishmock, type WishmockOptions } from "../wishmock.js";
+import { WishmockClient, type ResponseOption, type StubInfo } from "./index.js";
+
+export interface StartWishmockOptions extends WishmockOptions {
+  /** Session the returned client is scoped to */
+  session?: string;
+}
+
+export interface WishmockInstance {
+  /** Admin client bound to the server */
+  client: WishmockClient;
+  /** The underlying instance (addRule, reload, ...) */
+  server: Wishmock;
+  /** Admin base URL (e.g. http://127.0.0.1:41234) */
+  adminUrl: string;
+  httpPort: number;
+  grpcPort: number;
+  connectPort?: number;
+  /** host:port for native gRPC clients */
+  grpcAddress: string;
+  /** Base URL for Connect and gRPC-Web clients (when Connect is enabled) */
+  connectUrl?: string;
+  /** Stop the server */
+  stop(): Promise<void>;
+}
+
+/**
+ * Start a Wishmock server on free ports
+ *
+ * Ports default to 0, so each server picks a free port as it binds (no
+ * probing beforehand that parallel test files could race on). Server logs
+ * are silenced unless `log` is given.
+ */
+export async function startWishmock(options: StartWishmockOptions = {}): Promise<WishmockInstance> {
+  const { session, ...serverOptions } = options;
+  const server = createWishmock({ log: () => {}, ...serverOptions, httpPort: serverOptions.httpPort || 0 });
+  const ports = await server.start();
+  const adminUrl = `http://127.0.0.1:${ports.http}`;
+
+  return {
+    client: new WishmockClient({ baseUrl: adminUrl, session }),
+    server,
+    adminUrl,
+    httpPort: ports.http!,
+    grpcPort: ports.grpc,
+    connectPort: ports.connect,
+    grpcAddress: `127.0.0.1:${ports.grpc}`,
+    connectUrl: ports.connect ? `http://127.0.0.1:${ports.connect}` : undefined,
+    stop: () => server.stop(),
+  };
+}
+
+/**
+ * Stub one method for the current test
+ *
+ * @param client Admin client (its session scopes the stub)
+ * @param target Method as `package.Service/Method`
+ * @param responses Response option(s), e.g. `{ body: { message: "hi" } }`
+ */
+export function stub(
+  client: WishmockClient,
+  target: string,
+  responses: ResponseOption | ResponseOption[],
+): Promise<StubInfo> {
+  return client.addStub({ target, responses: Array.isArray(responses) ? responses : [responses] });
+}
+
+/**
+ * Drop stubs, scenario and sequence state and recorded calls; meant for `beforeEach`
+ */
+export function resetWishmock(client: WishmockClient): Promise<void> {
+  return client.reset();
+}
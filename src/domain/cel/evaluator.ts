@@ -0,0 +1,462 @@
+/**
+ * Sandboxed CEL evaluator
+ *
+ * Expressions are parsed into an AST and interpreted over plain data: only
+ * own properties of objects are reachable and only the functions below can
+ * be called, so an expression cannot reach prototypes, globals or host code.
+ *
+ * Values are JSON-shaped: numbers are JavaScript numbers (int, uint and
+ * double are not told apart) and a number compares equal to a numeric
+ * string, since int64 fields often arrive as strings. Errors follow CEL:
+ * `&&`, `||` and the `all` / `exists` macros absorb an error when another
+ * operand already decides the result.
+ */
+
+import { parseCel, type CelNode } from "./parser.js";
+
+interface Scope {
+  name: string;
+  value: unknown;
+  parent?: Scope;
+}
+
+type CelFunction = (target: unknown, args: unknown[]) => unknown;
+
+const MAX_CACHED = 500;
+const astCache = new Map<string, CelNode>();
+const regexCache = new Map<string, RegExp>();
+
+/**
+ * Parse an expression, reusing earlier parses of the same text
+ *
+ * @throws Error when the expression has a syntax error
+ */
+export function compileCel(expression: string): CelNode {
+  let ast = astCache.get(expression);
+  if (!ast) {
+    ast = parseCel(expression);
+    if (astCache.size >= MAX_CACHED) astCache.clear();
+    astCache.set(expression, ast);
+  }
+  return ast;
+}
+
+/**
+ * Evaluate an expression against named variables
+ *
+ * @throws Error on syntax errors and on evaluation errors (unknown fields,
+ *   type mismatches, ...)
+ */
+export function evaluateCel(expression: string, variables: Record<string, unknown>): unknown {
+  return evaluate(compileCel(expression), variables, undefined);
+}
+
+/**
+ * True when the expression evaluates to `true`; any error counts as false
+ */
+export function matchesCel(expression: string, variables: Record<string, unknown>): boolean {
+  try {
+    return evaluateCel(expression, variables) === true;
+  } catch {
+    return false;
+  }
+}
+
+function evaluate(node: CelNode, variables: Record<string, unknown>, scope: Scope | undefined): unknown {
+  const run = (n: CelNode) => evaluate(n, variables, scope);
+
+  switch (node.kind) {
+    case "literal":
+      return node.value;
+    case "ident":
+      return lookup(node.name, variables, scope);
+    case "select":
+      return selectField(run(node.operand), node.field);
+    case "index":
+      return indexValue(run(node.operand), run(node.index));
+    case "list":
+      return node.items.map(run);
+    case "map": {
+      const out: Record<string, unknown> = Object.create(null);
+      for (const entry of node.entries) {
+        const key = run(entry.key);
+        if (!["string", "number", "boolean"].includes(typeof key)) throw new Error(`unsupported map key type ${typeName(key)}`);
+        out[String(key)] = run(entry.value);
+      }
+      return out;
+    }
+    case "unary": {
+      const value = run(node.operand);
+      if (node.op === "!") return !requireBool(value, "!");
+      if (typeof value !== "number") throw noOverload("-", value);
+      return -value;
+    }
+    case "binary":
+      if (node.op === "&&" || node.op === "||") return logical(node.op, () => run(node.left), () => run(node.right));
+      return binary(node.op, run(node.left), run(node.right));
+    case "conditional":
+      return requireBool(run(node.test), "?:") ? run(node.then) : run(node.otherwise);
+    case "has":
+      return hasField(run(node.operand), node.field);
+    case "macro":
+      return macro(node, variables, scope);
+    case "call":
+      return call(node.name, node.target === undefined ? undefined : run(node.target), node.args.map(run), node.target !== undefined);
+  }
+}
+
+function lookup(name: string, variables: Record<string, unknown>, scope: Scope | undefined): unknown {
+  for (let s = scope; s; s = s.parent) {
+    if (s.name === name) return s.value;
+  }
+  if (Object.prototype.hasOwnProperty.call(variables, name) && variables[name] !== undefined) return variables[name];
+  throw new Error(`undeclared reference to '${name}'`);
+}
+
+function selectField(target: unknown, field: string): unknown {
+  if (isMapLike(target)) {
+    if (Object.prototype.hasOwnProperty.call(target, field) && target[field] !== undefined) return target[field];
+    throw new Error(`no such key: '${field}'`);
+  }
+  throw new Error(`type ${typeName(target)} has no field '${field}'`);
+}
+
+function hasField(target: unknown, field: string): boolean {
+  if (!isMapLike(target)) throw new Error(`has() on type ${typeName(target)}`);
+  if (!Object.prototype.hasOwnProperty.call(target, field)) return false;
+  const value = target[field];
+  if (Array.isArray(value)) return value.length > 0;
+  return value !== undefined && value !== null;
+}
+
+function indexValue(target: unknown, index: unknown): unknown {
+  if (Array.isArray(target)) {
+    const i = toNumber(index);
+    if (i === undefined || !Number.isInteger(i)) throw noOverload("[]", target, index);
+    if (i < 0 || i >= target.length) throw new Error(`index ${i} out of range for list of size ${target.length}`);
+    return target[i];
+  }
+  if (isMapLike(target)) {
+    if (!["string", "number", "boolean"].includes(typeof index)) throw noOverload("[]", target, index);
+    return selectField(target, String(index));
+  }
+  throw noOverload("[]", target, index);
+}
+
+function logical(op: "&&" | "||", left: () => unknown, right: () => unknown): boolean {
+  // The deciding value wins over an error on the other side
+  const decisive = op === "||";
+  let error: unknown;
+  for (const side of [left, right]) {
+    try {
+      if (requireBool(side(), op) === decisive) return decisive;
+    } catch (e) {
+      error = error ?? e;
+    }
+  }
+  if (error) throw error;
+  return !decisive;
+}
+
+function binary(op: string, left: unknown, right: unknown): unknown {
+  switch (op) {
+    case "==":
+      return equals(left, right);
+    case "!=":
+      return !equals(left, right);
+    case "<":
+    case "<=":
+    case ">":
+    case ">=": {
+      const order = compareValues(op, left, right);
+      return op === "<" ? order < 0 : op === "<=" ? order <= 0 : op === ">" ? order > 0 : order >= 0;
+    }
+    case "in":
+      if (Array.isArray(right)) return right.some((item) => equals(left, item));
+      if (isMapLike(right) && ["string", "number", "boolean"].includes(typeof left)) {
+        return Object.prototype.hasOwnProperty.call(right, String(left));
+      }
+      throw noOverload(op, left, right);
+    case "+":
+      if (typeof left === "string" && typeof right === "string") return left + right;
+      if (Array.isArray(left) && Array.isArray(right)) return [...left, ...right];
+      if (Buffer.isBuffer(left) && Buffer.isBuffer(right)) return Buffer.concat([left, right]);
+      break;
+  }
+
+  const pair = numericPair(left, right);
+  if (!pair) throw noOverload(op, left, right);
+  const [a, b] = pair;
+  switch (op) {
+    case "+": return a + b;
+    case "-": return a - b;
+    case "*": return a * b;
+    case "/":
+      if (b === 0) throw new Error("division by zero");
+      return a / b;
+    case "%":
+      if (b === 0) throw new Error("modulus by zero");
+      return a % b;
+  }
+  throw noOverload(op, left, right);
+}
+
+function compareValues(op: string, left: unknown, right: unknown): number {
+  const pair = numericPair(left, right);
+  if (pair) return pair[0] - pair[1];
+  if (typeof left === "string" && typeof right === "string") return left < right ? -1 : left > right ? 1 : 0;
+  if (typeof left === "boolean" && typeof right === "boolean") return Number(left) - Number(right);
+  if (Buffer.isBuffer(left) && Buffer.isBuffer(right)) return Buffer.compare(left, right);
+  throw noOverload(op, left, right);
+}
+
+function equals(left: unknown, right: unknown): boolean {
+  if (left === right) return true;
+  if (left === undefined || left === null || right === undefined || right === null) {
+    return (left ?? null) === (right ?? null);
+  }
+  const pair = numericPair(left, right);
+  if (pair) return pair[0] === pair[1];
+  if (Array.isArray(left) || Array.isArray(right)) {
+    return Array.isArray(left) && Array.isArray(right) && left.length === right.length && left.every((item, i) => equals(item, right[i]));
+  }
+  if (Buffer.isBuffer(left) || Buffer.isBuffer(right)) {
+    return Buffer.isBuffer(left) && Buffer.isBuffer(right) && left.equals(right);
+  }
+  if (isMapLike(left) && isMapLike(right)) {
+    const keys = Object.keys(left);
+    return keys.length === Object.keys(right).length &&
+      keys.every((k) => Object.prototype.hasOwnProperty.call(right, k) && equals(left[k], right[k]));
+  }
+  return false;
+}
+
+// Two numbers, or a number and a numeric string (int64 values often arrive as strings)
+function numericPair(left: unknown, right: unknown): [number, number] | undefined {
+  if (typeof left === "number" && typeof right === "number") return [left, right];
+  if (typeof left === "number" && typeof right === "string") {
+    const n = toNumber(right);
+    return n === undefined ? undefined : [left, n];
+  }
+  if (typeof left === "string" && typeof right === "number") {
+    const n = toNumber(left);
+    return n === undefined ? undefined : [n, right];
+  }
+  return undefined;
+}
+
+function macro(node: Extract<CelNode, { kind: "macro" }>, variables: Record<string, unknown>, scope: Scope | undefined): unknown {
+  const range = evaluate(node.range, variables, scope);
+  const items = Array.isArray(range) ? range : isMapLike(range) ? Object.keys(range) : undefined;
+  if (!items) throw new Error(`${node.name}() expects a list or map, got ${typeName(range)}`);
+  const run = (expr: CelNode, item: unknown) => evaluate(expr, variables, { name: node.variable, value: item, parent: scope });
+  const test = (item: unknown) => requireBool(run(node.args[0], item), node.name);
+
+  switch (node.name) {
+    case "all":
+    case "exists": {
+      const decisive = node.name === "exists";
+      let error: unknown;
+      for (const item of items) {
+        try {
+          if (test(item) === decisive) return decisive;
+        } catch (e) {
+          error = error ?? e;
+        }
+      }
+      if (error) throw error;
+      return !decisive;
+    }
+    case "exists_one":
+      return items.filter(test).length === 1;
+    case "filter":
+      return items.filter(test);
+    case "map": {
+      const [filter, transform] = node.args.length === 2 ? node.args : [undefined, node.args[0]];
+      const kept = filter ? items.filter((item) => requireBool(run(filter, item), "map")) : items;
+      return kept.map((item) => run(transform, item));
+    }
+  }
+}
+
+function call(name: string, target: unknown, args: unknown[], isMethod: boolean): unknown {
+  if (isMethod) {
+    const method = ownFunction(METHODS, name);
+    if (!method) throw new Error(`undeclared function '${name}'`);
+    return method(target, args);
+  }
+  const global = ownFunction(GLOBALS, name);
+  if (global) return global(undefined, args);
+  // Receiver-style functions also work globally: matches(s, re)
+  const method = ownFunction(METHODS, name);
+  if (method && args.length > 0) return method(args[0], args.slice(1));
+  throw new Error(`undeclared function '${name}'`);
+}
+
+// Own properties only, so names like "constructor" never resolve
+function ownFunction(table: Record<string, CelFunction>, name: string): CelFunction | undefined {
+  return Object.prototype.hasOwnProperty.call(table, name) ? table[name] : undefined;
+}
+
+const GLOBALS: Record<string, CelFunction> = {
+  size: (_, args) => size(arity("size", args, 1)[0]),
+  int: (_, args) => toInteger(arity("int", args, 1)[0], "int"),
+  uint: (_, args) => {
+    const value = toInteger(arity("uint", args, 1)[0], "uint");
+    if (value < 0) throw new Error("uint out of range");
+    return value;
+  },
+  double: (_, args) => {
+    const [value] = arity("double", args, 1);
+    const n = typeof value === "number" ? value : typeof value === "string" ? Number(value) : NaN;
+    if (Number.isNaN(n) && value !== "NaN") throw noOverload("double", value);
+    return n;
+  },
+  string: (_, args) => {
+    const [value] = arity("string", args, 1);
+    if (typeof value === "string") return value;
+    if (typeof value === "number" || typeof value === "boolean") return String(value);
+    if (Buffer.isBuffer(value)) return value.toString("utf8");
+    throw noOverload("string", value);
+  },
+  bool: (_, args) => {
+    const [value] = arity("bool", args, 1);
+    if (typeof value === "boolean") return value;
+    if (value === "true" || value === "false") return value === "true";
+    throw noOverload("bool", value);
+  },
+  bytes: (_, args) => {
+    const [value] = arity("bytes", args, 1);
+    if (Buffer.isBuffer(value)) return value;
+    if (typeof value === "string") return Buffer.from(value, "utf8");
+    throw noOverload("bytes", value);
+  },
+  dyn: (_, args) => arity("dyn", args, 1)[0],
+  type: (_, args) => typeName(arity("type", args, 1)[0]),
+};
+
+const METHODS: Record<string, CelFunction> = {
+  size: (target, args) => {
+    arity("size", args, 0);
+    return size(target);
+  },
+  contains: (target, args) => requireString(target, "contains").includes(requireString(arity("contains", args, 1)[0], "contains")),
+  startsWith: (target, args) => requireString(target, "startsWith").startsWith(requireString(arity("startsWith", args, 1)[0], "startsWith")),
+  endsWith: (target, args) => requireString(target, "endsWith").endsWith(requireString(arity("endsWith", args, 1)[0], "endsWith")),
+  matches: (target, args) => compileRegex(requireString(arity("matches", args, 1)[0], "matches")).test(requireString(target, "matches")),
+  lowerAscii: (target, args) => requireString(target, "lowerAscii", args).replace(/[A-Z]/g, (c) => c.toLowerCase()),
+  upperAscii: (target, args) => requireString(target, "upperAscii", args).replace(/[a-z]/g, (c) => c.toUpperCase()),
+  trim: (target, args) => requireString(target, "trim", args).trim(),
+  indexOf: (target, args) => requireString(target, "indexOf").indexOf(requireString(arity("indexOf", args, 1)[0], "indexOf")),
+  split: (target, args) => requireString(target, "split").split(requireString(arity("split", args, 1)[0], "split")),
+  replace: (target, args) => {
+    const [from, to] = arity("replace", args, 2);
+    return requireString(target, "replace").split(requireString(from, "replace")).join(requireString(to, "replace"));
+  },
+  join: (target, args) => {
+    if (!Array.isArray(target) || !target.every((x) => typeof x === "string")) throw noOverload("join", target);
+    return target.join(args.length > 0 ? requireString(arity("join", args, 1)[0], "join") : "");
+  },
+  // protovalidate extensions
+  isEmail: (target, args) => /^[^\s@<>()[\]\\,;:"]+@[A-Za-z0-9](?:[A-Za-z0-9-]{0,61}[A-Za-z0-9])?(?:\.[A-Za-z0-9](?:[A-Za-z0-9-]{0,61}[A-Za-z0-9])?)*$/.test(requireString(target, "isEmail", args)),
+  isHostname: (target, args) => isHostname(requireString(target, "isHostname", args)),
+  isIp: (target, args) => isIp(requireString(target, "isIp"), args.length > 0 ? toNumber(arity("isIp", args, 1)[0]) : undefined),
+  isUri: (target, args) => {
+    try {
+      return new URL(requireString(target, "isUri", args)).protocol.length > 1;
+    } catch {
+      return false;
+    }
+  },
+  unique: (target, args) => {
+    arity("unique", args, 0);
+    if (!Array.isArray(target)) throw noOverload("unique", target);
+    return target.every((item, i) => target.findIndex((other) => equals(item, other)) === i);
+  },
+};
+
+function size(value: unknown): number {
+  if (typeof value === "string") return [...value].length;
+  if (Array.isArray(value) || Buffer.isBuffer(value)) return value.length;
+  if (isMapLike(value)) return Object.keys(value).length;
+  throw noOverload("size", value);
+}
+
+function toInteger(value: unknown, fn: string): number {
+  if (typeof value === "number" && Number.isFinite(value)) return Math.trunc(value);
+  if (typeof value === "string" && /^[+-]?\d+$/.test(value.trim())) return Number(value);
+  throw noOverload(fn, value);
+}
+
+function compileRegex(pattern: string): RegExp {
+  let regex = regexCache.get(pattern);
+  if (!regex) {
+    // RE2 inline flags such as (?i) at the start become JavaScript flags
+    const inline = pattern.match(/^\(\?([ims]+)\)/);
+    regex = new RegExp(inline ? pattern.slice(inline[0].length) : pattern, inline ? inline[1] : "");
+    if (regexCache.size >= MAX_CACHED) regexCache.clear();
+    regexCache.set(pattern, regex);
+  }
+  return regex;
+}
+
+function isHostname(value: string): boolean {
+  if (value.length === 0 || value.length > 253) return false;
+  const labels = value.replace(/\.$/, "").split(".");
+  return labels.every((l) => /^[A-Za-z0-9](?:[A-Za-z0-9-]{0,61}[A-Za-z0-9])?$/.test(l)) && !/^\d+$/.test(labels[labels.length - 1]);
+}
+
+function isIp(value: string, version: number | undefined): boolean {
+  const v4 = /^(25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)(\.(25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)){3}$/.test(value);
+  let v6 = false;
+  if (!v4 && value.includes(":")) {
+    try {
+      v6 = new URL(`http://[${value}]/`).hostname.length > 2;
+    } catch {
+      v6 = false;
+    }
+  }
+  if (version === 4) return v4;
+  if (version === 6) return v6;
+  return v4 || v6;
+}
+
+function arity(fn: string, args: unknown[], count: number): unknown[] {
+  if (args.length !== count) throw new Error(`${fn}() expects ${count} argument${count === 1 ? "" : "s"}, got ${args.length}`);
+  return args;
+}
+
+function requireString(value: unknown, fn: string, extraArgs?: unknown[]): string {
+  if (extraArgs && extraArgs.length > 0) throw new Error(`${fn}() expects 0 arguments, got ${extraArgs.length}`);
+  if (typeof value !== "string") throw noOverload(fn, value);
+  return value;
+}
+
+function requireBool(value: unknown, op: string): boolean {
+  if (typeof value !== "boolean") throw new Error(`${op} expects a bool, got ${typeName(value)}`);
+  return value;
+}
+
+function isMapLike(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value) && !Buffer.isBuffer(value);
+}
+
+function toNumber(value: unknown): number | undefined {
+  if (typeof value === "number") return value;
+  if (typeof value !== "string" || value.trim() === "") return undefined;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : undefined;
+}
+
+function typeName(value: unknown): string {
+  if (value === null || value === undefined) return "null_type";
+  if (Array.isArray(value)) return "list";
+  if (Buffer.isBuffer(value)) return "bytes";
+  if (typeof value === "object") return "map";
+  if (typeof value === "number") return Number.isInteger(value) ? "int" : "double";
+  return typeof value === "boolean" ? "bool" : typeof value;
+}
+
+function noOverload(op: string, ...operands: unknown[]): Error {
+  return new Error(`no such overload: ${op}(${operands.map(typeName).join(", ")})`);
+}
@@ -0,0 +1,357 @@
+/**
+ * Parser for CEL (Common Expression Language) expressions
+ *
+ * Covers the CEL grammar used by rule conditions and protovalidate
+ * constraints: literals (int, uint, double, string, bytes, bool, null),
+ * lists, maps, field selection, indexing, function and method calls,
+ * the usual operators with CEL precedence, `?:`, and the macros `has`,
+ * `all`, `exists`, `exists_one`, `map` and `filter`. Message construction
+ * (`Type{...}`) is not supported.
+ */
+
+export type CelNode =
+  | { kind: "literal"; value: unknown }
+  | { kind: "ident"; name: string }
+  | { kind: "select"; operand: CelNode; field: string }
+  | { kind: "index"; operand: CelNode; index: CelNode }
+  | { kind: "call"; name: string; target?: CelNode; args: CelNode[] }
+  | { kind: "list"; items: CelNode[] }
+  | { kind: "map"; entries: { key: CelNode; value: CelNode }[] }
+  | { kind: "unary"; op: "!" | "-"; operand: CelNode }
+  | { kind: "binary"; op: string; left: CelNode; right: CelNode }
+  | { kind: "conditional"; test: CelNode; then: CelNode; otherwise: CelNode }
+  | { kind: "has"; operand: CelNode; field: string }
+  | { kind: "macro"; name: CelMacro; range: CelNode; variable: string; args: CelNode[] };
+
+export type CelMacro = "all" | "exists" | "exists_one" | "map" | "filter";
+
+interface Token {
+  type: "number" | "string" | "bytes" | "ident" | "op" | "eof";
+  value: string;
+  literal?: unknown;
+  pos: number;
+}
+
+const MACROS = new Set<string>(["all", "exists", "exists_one", "map", "filter"]);
+const RESERVED = new Set(["as", "break", "const", "continue", "else", "for", "function", "if", "import", "let", "loop", "package", "namespace", "return", "var", "void", "while"]);
+const OPERATORS = ["==", "!=", "<=", ">=", "&&", "||", "<", ">", "+", "-", "*", "/", "%", "!", "?", ":", ".", ",", "(", ")", "[", "]", "{", "}"];
+const RELATIONS = new Set(["==", "!=", "<", "<=", ">", ">=", "in"]);
+const MAX_DEPTH = 100;
+
+/**
+ * Parse a CEL expression
+ *
+ * @throws Error with the position of the first syntax error
+ */
+export function parseCel(source: string): CelNode {
+  return new Parser(tokenize(source)).parse();
+}
+
+class Parser {
+  private index = 0;
+  private depth = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): CelNode {
+    const node = this.expression();
+    const next = this.peek();
+    if (next.type !== "eof") throw syntaxError(`unexpected ${describe(next)}`, next.pos);
+    return node;
+  }
+
+  private expression(): CelNode {
+    if (++this.depth > MAX_DEPTH) throw syntaxError("expression is nested too deeply", this.peek().pos);
+    const test = this.or();
+    let node = test;
+    if (this.accept("?")) {
+      const then = this.or();
+      this.expect(":");
+      node = { kind: "conditional", test, then, otherwise: this.expression() };
+    }
+    this.depth--;
+    return node;
+  }
+
+  private or(): CelNode {
+    let node = this.and();
+    while (this.accept("||")) node = { kind: "binary", op: "||", left: node, right: this.and() };
+    return node;
+  }
+
+  private and(): CelNode {
+    let node = this.relation();
+    while (this.accept("&&")) node = { kind: "binary", op: "&&", left: node, right: this.relation() };
+    return node;
+  }
+
+  private relation(): CelNode {
+    let node = this.addition();
+    for (;;) {
+      const next = this.peek();
+      const op = next.type === "op" || (next.type === "ident" && next.value === "in") ? next.value : "";
+      if (!RELATIONS.has(op)) return node;
+      this.index++;
+      node = { kind: "binary", op, left: node, right: this.addition() };
+    }
+  }
+
+  private addition(): CelNode {
+    let node = this.multiplication();
+    for (let op = this.peekOp("+", "-"); op; op = this.peekOp("+", "-")) {
+      this.index++;
+      node = { kind: "binary", op, left: node, right: this.multiplication() };
+    }
+    return node;
+  }
+
+  private multiplication(): CelNode {
+    let node = this.unary();
+    for (let op = this.peekOp("*", "/", "%"); op; op = this.peekOp("*", "/", "%")) {
+      this.index++;
+      node = { kind: "binary", op, left: node, right: this.unary() };
+    }
+    return node;
+  }
+
+  private unary(): CelNode {
+    const op = this.peekOp("!", "-") as "!" | "-" | undefined;
+    if (!op) return this.member();
+    this.index++;
+    if (op === "-") {
+      // Fold "-<number>" into a single literal
+      const next = this.peek();
+      if (next.type === "number") {
+        this.index++;
+        return this.memberSuffix({ kind: "literal", value: -(next.literal as number) });
+      }
+    }
+    if (++this.depth > MAX_DEPTH) throw syntaxError("expression is nested too deeply", this.peek().pos);
+    const operand = this.unary();
+    this.depth--;
+    return { kind: "unary", op, operand };
+  }
+
+  private member(): CelNode {
+    return this.memberSuffix(this.primary());
+  }
+
+  private memberSuffix(start: CelNode): CelNode {
+    let node = start;
+    for (;;) {
+      if (this.accept(".")) {
+        const pos = this.peek().pos;
+        const name = this.identifier();
+        if (this.accept("(")) {
+          node = this.call(name, node, this.arguments(")"), pos);
+        } else {
+          node = { kind: "select", operand: node, field: name };
+        }
+      } else if (this.accept("[")) {
+        const index = this.expression();
+        this.expect("]");
+        node = { kind: "index", operand: node, index };
+      } else {
+        return node;
+      }
+    }
+  }
+
+  private primary(): CelNode {
+    const token = this.peek();
+    if (token.type === "number" || token.type === "string" || token.type === "bytes") {
+      this.index++;
+      return { kind: "literal", value: token.literal };
+    }
+    if (token.type === "ident") {
+      this.index++;
+      if (token.value === "true" || token.value === "false") return { kind: "literal", value: token.value === "true" };
+      if (token.value === "null") return { kind: "literal", value: null };
+      if (token.value === "in" || RESERVED.has(token.value)) throw syntaxError(`reserved word "${token.value}"`, token.pos);
+      if (this.accept("(")) return this.call(token.value, undefined, this.arguments(")"), token.pos);
+      return { kind: "ident", name: token.value };
+    }
+    if (this.accept(".")) {
+      // Leading dot: root-scoped identifier
+      const pos = this.peek().pos;
+      const name = this.identifier();
+      if (this.accept("(")) return this.call(name, undefined, this.arguments(")"), pos);
+      return { kind: "ident", name };
+    }
+    if (this.accept("(")) {
+      const node = this.expression();
+      this.expect(")");
+      return node;
+    }
+    if (this.accept("[")) {
+      return { kind: "list", items: this.arguments("]") };
+    }
+    if (this.accept("{")) {
+      const entries: { key: CelNode; value: CelNode }[] = [];
+      while (!this.accept("}")) {
+        const key = this.expression();
+        this.expect(":");
+        entries.push({ key, value: this.expression() });
+        if (!this.accept(",")) {
+          this.expect("}");
+          break;
+        }
+      }
+      return { kind: "map", entries };
+    }
+    throw syntaxError(`unexpected ${describe(token)}`, token.pos);
+  }
+
+  private call(name: string, target: CelNode | undefined, args: CelNode[], pos: number): CelNode {
+    if (!target && name === "has") {
+      const [arg] = args;
+      if (args.length !== 1 || arg.kind !== "select") throw syntaxError("has() expects a field selection such as has(request.name)", pos);
+      return { kind: "has", operand: arg.operand, field: arg.field };
+    }
+    if (target && MACROS.has(name)) {
+      const [variable, ...rest] = args;
+      const arity = name === "map" ? [1, 2] : [1];
+      if (variable?.kind !== "ident" || !arity.includes(rest.length)) {
+        throw syntaxError(`${name}() expects a variable name and ${name === "map" ? "an optional filter and a transform" : "a predicate"}`, pos);
+      }
+      return { kind: "macro", name: name as CelMacro, range: target, variable: variable.name, args: rest };
+    }
+    return { kind: "call", name, target, args };
+  }
+
+  // Comma-separated expressions up to `close`; a trailing comma is allowed
+  private arguments(close: ")" | "]"): CelNode[] {
+    const items: CelNode[] = [];
+    while (!this.accept(close)) {
+      items.push(this.expression());
+      if (!this.accept(",")) {
+        this.expect(close);
+        break;
+      }
+    }
+    return items;
+  }
+
+  private identifier(): string {
+    const token = this.peek();
+    if (token.type !== "ident") throw syntaxError(`expected a field name, got ${describe(token)}`, token.pos);
+    this.index++;
+    return token.value;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private peekOp(...ops: string[]): string | undefined {
+    const token = this.peek();
+    return token.type === "op" && ops.includes(token.value) ? token.value : undefined;
+  }
+
+  private accept(op: string): boolean {
+    if (!this.peekOp(op)) return false;
+    this.index++;
+    return true;
+  }
+
+  private expect(op: string): void {
+    const token = this.peek();
+    if (!this.accept(op)) throw syntaxError(`expected "${op}", got ${describe(token)}`, token.pos);
+  }
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < source.length) {
+    const ch = source[i];
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+    if (source.startsWith("//", i)) {
+      while (i < source.length && source[i] !== "\n") i++;
+      continue;
+    }
+
+    const quoted = source.slice(i).match(/^([rRbB]{0,2})('''|"""|'|")/);
+    if (quoted && /^(|[rR]|[bB]|[rR][bB]|[bB][rR])$/.test(quoted[1])) {
+      const { value, end } = readString(source, i + quoted[1].length, quoted[2], /[rR]/.test(quoted[1]));
+      const bytes = /[bB]/.test(quoted[1]);
+      tokens.push({ type: bytes ? "bytes" : "string", value: source.slice(i, end), literal: bytes ? Buffer.from(value, "utf8") : value, pos: i });
+      i = end;
+      continue;
+    }
+
+    const number = source.slice(i).match(/^(?:0[xX][0-9a-fA-F]+[uU]?|\d+(?:\.\d+)?(?:[eE][+-]?\d+)?[uU]?)/);
+    if (number) {
+      const text = number[0];
+      const digits = text.replace(/[uU]$/, "");
+      if (/[uU]$/.test(text) && /[.eE]/.test(digits) && !/^0[xX]/.test(digits)) throw syntaxError(`invalid number ${text}`, i);
+      tokens.push({ type: "number", value: text, literal: Number(digits), pos: i });
+      i += text.length;
+      continue;
+    }
+
+    const word = source.slice(i).match(/^[A-Za-z_][A-Za-z0-9_]*/);
+    if (word) {
+      tokens.push({ type: "ident", value: word[0], pos: i });
+      i += word[0].length;
+      continue;
+    }
+
+    const op = OPERATORS.find((o) => source.startsWith(o, i));
+    if (!op) throw syntaxError(`unexpected character "${ch}"`, i);
+    tokens.push({ type: "op", value: op, pos: i });
+    i += op.length;
+  }
+  tokens.push({ type: "eof", value: "", pos: source.length });
+  return tokens;
+}
+
+function readString(source: string, start: number, quote: string, raw: boolean): { value: string; end: number } {
+  let i = start + quote.length;
+  let value = "";
+  while (i < source.length) {
+    if (source.startsWith(quote, i)) return { value, end: i + quote.length };
+    const ch = source[i];
+    if (quote.length === 1 && ch === "\n") break;
+    if (ch === "\\" && !raw) {
+      const { text, length } = readEscape(source, i);
+      value += text;
+      i += length;
+      continue;
+    }
+    if (ch === "\\" && raw && source[i + 1] === quote[0]) {
+      value += source.slice(i, i + 2);
+      i += 2;
+      continue;
+    }
+    value += ch;
+    i++;
+  }
+  throw syntaxError("unterminated string", start);
+}
+
+const SIMPLE_ESCAPES: Record<string, string> = {
+  a: "\x07", b: "\b", f: "\f", n: "\n", r: "\r", t: "\t", v: "\v",
+  "\\": "\\", "'": "'", '"': '"', "`": "`", "?": "?",
+};
+
+function readEscape(source: string, i: number): { text: string; length: number } {
+  const next = source[i + 1];
+  if (next !== undefined && SIMPLE_ESCAPES[next] !== undefined) return { text: SIMPLE_ESCAPES[next], length: 2 };
+  const hex = source.slice(i + 1).match(/^(?:[xX]([0-9a-fA-F]{2})|u([0-9a-fA-F]{4})|U([0-9a-fA-F]{8}))/);
+  if (hex) return { text: String.fromCodePoint(parseInt(hex[1] ?? hex[2] ?? hex[3], 16)), length: 1 + hex[0].length };
+  const octal = source.slice(i + 1).match(/^[0-3][0-7]{2}/);
+  if (octal) return { text: String.fromCharCode(parseInt(octal[0], 8)), length: 4 };
+  throw syntaxError(`invalid escape sequence "\\${next ?? ""}"`, i);
+}
+
+function describe(token: Token): string {
+  return token.type === "eof" ? "end of expression" : `"${token.value}"`;
+}
+
+function syntaxError(message: string, pos: number): Error {
+  return new Error(`${message} at position ${pos}`);
+}
@@ -0,0 +1,211 @@
+/**
+ * Fault injection for chaos-testing clients against the mock
+ *
+ * A fault profile can be declared on a rule (`faults`) or set globally
+ * through the admin API. Rule profiles win over the global one. For each
+ * call the profile is turned into a plan (how long to stall, whether to
+ * fail, drop the connection or cut a stream short) that the shared
+ * handlers apply, so gRPC and Connect clients see the same faults.
+ */
+
+import type { FaultProfile, RuleDoc } from "../types.js";
+
+// gRPC status names indexed by their numeric code
+const STATUS_NAMES = [
+  "OK", "CANCELLED", "UNKNOWN", "INVALID_ARGUMENT", "DEADLINE_EXCEEDED", "NOT_FOUND",
+  "ALREADY_EXISTS", "PERMISSION_DENIED", "RESOURCE_EXHAUSTED", "FAILED_PRECONDITION",
+  "ABORTED", "OUT_OF_RANGE", "UNIMPLEMENTED", "INTERNAL", "UNAVAILABLE", "DATA_LOSS",
+  "UNAUTHENTICATED",
+];
+
+const PROFILE_KEYS = ["error", "latency", "stream_abort", "drop"];
+
+/** Spike chance used when `spike_ms` is set without `spike_probability` (p99) */
+const DEFAULT_SPIKE_PROBABILITY = 0.01;
+
+/**
+ * Faults chosen for a single call
+ */
+export interface FaultPlan {
+  /** Extra latency before answering */
+  delayMs: number;
+  /** Drop the connection instead of answering */
+  drop: boolean;
+  /** Status to fail the call with */
+  error?: { code: string; message: string };
+  /** Cut the response stream after this many messages */
+  abort?: { afterItems: number; code: string; message: string; drop: boolean };
+}
+
+/**
+ * Fault injector holding the global profile
+ */
+export class FaultInjector {
+  private global: FaultProfile | null = null;
+
+  /**
+   * @param random Source of randomness in [0, 1) (replaceable for tests)
+   */
+  constructor(private random: () => number = Math.random) {}
+
+  /** Profile applied to methods whose rule declares no `faults` */
+  getGlobal(): FaultProfile | null {
+    return this.global;
+  }
+
+  setGlobal(profile: FaultProfile | null): void {
+    this.global = profile;
+  }
+
+  /**
+   * Profile in effect for a call
+   *
+   * @param rule Rule for the method (if any)
+   */
+  profileFor(rule?: RuleDoc): FaultProfile | undefined {
+    return rule?.faults ?? this.global ?? undefined;
+  }
+
+  /**
+   * Roll the dice for one call
+   *
+   * @param profile Fault profile in effect
+   * @returns Plan to apply, or null when nothing is injected
+   */
+  plan(profile: FaultProfile | undefined): FaultPlan | null {
+    if (!profile) return null;
+    const plan: FaultPlan = { delayMs: this.sampleLatency(profile.latency), drop: false };
+
+    if (profile.drop && this.chance(profile.drop.probability)) {
+      plan.drop = true;
+    } else if (profile.error && this.chance(profile.error.probability)) {
+      const code = statusName(profile.error.code) ?? "UNAVAILABLE";
+      plan.error = { code, message: profile.error.message ?? `Injected ${code} fault` };
+    }
+
+    const abort = profile.stream_abort;
+    if (abort && this.chance(abort.probability ?? 1)) {
+      const code = statusName(abort.code) ?? "UNAVAILABLE";
+      const afterItems = Math.max(0, Math.floor(Number(abort.after_items ?? 0)) || 0);
+      plan.abort = {
+        afterItems,
+        code,
+        message: abort.message ?? `Stream aborted after ${afterItems} messages`,
+        drop: abort.drop === true,
+      };
+    }
+
+    const injected = plan.delayMs > 0 || plan.drop || plan.error || plan.abort;
+    return injected ? plan : null;
+  }
+
+  private chance(probability: number | undefined): boolean {
+    const p = Number(probability ?? 0);
+    return p > 0 && this.random() < p;
+  }
+
+  private sampleLatency(latency: FaultProfile["latency"]): number {
+    if (!latency) return 0;
+    if (latency.spike_ms !== undefined && this.chance(latency.spike_probability ?? DEFAULT_SPIKE_PROBABILITY)) {
+      return Math.max(0, latency.spike_ms);
+    }
+    let ms: number;
+    if (latency.distribution === "normal") {
+      // Box-Muller transform
+      const u = 1 - this.random();
+      const v = this.random();
+      const z = Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+      ms = (latency.mean_ms ?? 0) + z * (latency.stddev_ms ?? 0);
+    } else {
+      const min = latency.min_ms ?? 0;
+      const max = latency.max_ms ?? min;
+      ms = min + this.random() * (max - min);
+    }
+    return Math.max(0, Math.round(ms));
+  }
+}
+
+/**
+ * Resolve a status given by name or number
+ *
+ * @returns Status name, or undefined when not set or unknown
+ */
+function statusName(code: string | number | undefined): string | undefined {
+  if (code === undefined || code === "") return undefined;
+  const n = typeof code === "number" ? code : /^\d+$/.test(code) ? Number(code) : NaN;
+  if (Number.isInteger(n)) return STATUS_NAMES[n];
+  const name = String(code).toUpperCase();
+  return STATUS_NAMES.includes(name) ? name : undefined;
+}
+
+/**
+ * Check a fault profile before it is used
+ *
+ * @param profile Profile from a rule or the admin API
+ * @returns Error message, or null when valid
+ */
+export function validateFaultProfile(profile: unknown): string | null {
+  if (typeof profile !== "object" || profile === null || Array.isArray(profile)) {
+    return "faults must be an object";
+  }
+  const p = profile as Record<string, any>;
+  const unknown = Object.keys(p).filter((k) => !PROFILE_KEYS.includes(k));
+  if (unknown.length > 0) return `unknown fault: ${unknown.join(", ")} (expected ${PROFILE_KEYS.join(", ")})`;
+
+  const probability = (value: unknown, field: string, required: boolean) => {
+    if (value === undefined && !required) return null;
+    const n = Number(value);
+    return typeof value === "number" && n >= 0 && n <= 1 ? null : `${field} must be a number between 0 and 1`;
+  };
+  const code = (value: unknown, field: string) => {
+    if (value === undefined) return null;
+    const name = statusName(value as any);
+    return name && name !== "OK" ? null : `${field} must be a non-OK gRPC status name or number`;
+  };
+  const millis = (value: unknown, field: string) =>
+    value === undefined || (typeof value === "number" && value >= 0) ? null : `${field} must be a non-negative number`;
+
+  if (p.error !== undefined) {
+    const err = probability(p.error?.probability, "error.probability", true) ?? code(p.error.code, "error.code");
+    if (err) return err;
+  }
+  if (p.drop !== undefined) {
+    const err = probability(p.drop?.probability, "drop.probability", true);
+    if (err) return err;
+  }
+  if (p.stream_abort !== undefined) {
+    if (typeof p.stream_abort !== "object" || p.stream_abort === null) return "stream_abort must be an object";
+    const after = p.stream_abort.after_items;
+    if (after !== undefined && (!Number.isInteger(after) || after < 0)) {
+      return "stream_abort.after_items must be a non-negative integer";
+    }
+    const err = probability(p.stream_abort.probability, "stream_abort.probability", false)
+      ?? code(p.stream_abort.code, "stream_abort.code");
+    if (err) return err;
+  }
+  if (p.latency !== undefined) {
+    const l = p.latency;
+    if (typeof l !== "object" || l === null) return "latency must be an object";
+    if (l.distribution !== undefined && l.distribution !== "uniform" && l.distribution !== "normal") {
+      return "latency.distribution must be uniform or normal";
+    }
+    for (const field of ["min_ms", "max_ms", "mean_ms", "stddev_ms", "spike_ms"]) {
+      const err = millis(l[field], `latency.${field}`);
+      if (err) return err;
+    }
+    if (l.min_ms !== undefined && l.max_ms !== undefined && l.max_ms < l.min_ms) {
+      return "latency.max_ms must be greater than or equal to latency.min_ms";
+    }
+    const err = probability(l.spike_probability, "latency.spike_probability", false);
+    if (err) return err;
+  }
+  return null;
+}
+
+/**
+ * Global fault injector instance
+ *
+ * Shared by both gRPC and Connect RPC servers so a profile set through the
+ * admin API affects every protocol.
+ */
+export const faultInjector = new FaultInjector();
@@ -0,0 +1,133 @@
+/**
+ * Serving status behind the built-in gRPC health service
+ *
+ * wishmock answers `grpc.health.v1.Health/Check` and `Watch` on its gRPC and
+ * Connect ports. A service's status follows the instance's readiness: every
+ * loaded service (and the overall server, service "") is SERVING once the
+ * servers are up and NOT_SERVING while they reload or shut down. Statuses
+ * set through the admin API override that, so tests can flip a service to
+ * NOT_SERVING and watch their clients fail over.
+ *
+ * Each instance owns its store, since readiness belongs to the instance.
+ */
+
+export type ServingStatus = "UNKNOWN" | "SERVING" | "NOT_SERVING" | "SERVICE_UNKNOWN";
+
+/** Statuses in grpc.health.v1 enum order */
+export const SERVING_STATUSES: readonly ServingStatus[] = ["UNKNOWN", "SERVING", "NOT_SERVING", "SERVICE_UNKNOWN"];
+
+/** Fully qualified name of the health service */
+export const HEALTH_SERVICE = "grpc.health.v1.Health";
+
+export interface HealthInfo {
+  /** Whether the servers are up (not reloading or stopped) */
+  ready: boolean;
+  /** Current status per service; "" is the overall server */
+  services: Record<string, ServingStatus>;
+  /** Statuses set through the admin API */
+  overrides: Record<string, ServingStatus>;
+}
+
+interface Watcher {
+  service: string;
+  last: ServingStatus | null;
+  onStatus: (status: ServingStatus) => void;
+  onEnd: () => void;
+}
+
+export class HealthStore {
+  private ready = false;
+  private services = new Set<string>();
+  private overrides = new Map<string, ServingStatus>();
+  private watchers = new Set<Watcher>();
+
+  /** Follow the instance's readiness (NOT_SERVING everywhere while false) */
+  setReady(ready: boolean): void {
+    this.ready = ready;
+    this.notify();
+  }
+
+  isReady(): boolean {
+    return this.ready;
+  }
+
+  /** Replace the loaded services reported by the health service */
+  setServices(services: Iterable<string>): void {
+    this.services = new Set(services);
+    this.notify();
+  }
+
+  /**
+   * Status of a service, or null when it is unknown (Check answers NOT_FOUND)
+   *
+   * @param service Fully qualified service name; "" for the overall server
+   */
+  check(service: string): ServingStatus | null {
+    const override = this.overrides.get(service);
+    if (override === "SERVICE_UNKNOWN") return null;
+    if (override === undefined && service !== "" && !this.services.has(service)) return null;
+    if (!this.ready) return "NOT_SERVING";
+    return override ?? "SERVING";
+  }
+
+  /** Force a service's status (SERVICE_UNKNOWN makes it unknown) */
+  set(service: string, status: ServingStatus): void {
+    this.overrides.set(service, status);
+    this.notify();
+  }
+
+  /** Drop the status set for one service, or all of them */
+  clear(service?: string): void {
+    if (service === undefined) this.overrides.clear();
+    else this.overrides.delete(service);
+    this.notify();
+  }
+
+  getInfo(): HealthInfo {
+    const names = ["", ...[...this.services, ...this.overrides.keys()].filter((s) => s !== "").sort()];
+    const services: Record<string, ServingStatus> = {};
+    for (const name of new Set(names)) services[name] = this.check(name) ?? "SERVICE_UNKNOWN";
+    return { ready: this.ready, services, overrides: Object.fromEntries(this.overrides) };
+  }
+
+  /**
+   * Follow a service's status: the current one right away, then each change
+   *
+   * Unknown services are reported as SERVICE_UNKNOWN, as the Watch RPC does.
+   *
+   * @param service Fully qualified service name; "" for the overall server
+   * @param onStatus Receives each new status
+   * @param onEnd Called when the store ends the watch (see endWatches)
+   * @returns Function that stops watching
+   */
+  watch(service: string, onStatus: (status: ServingStatus) => void, onEnd: () => void): () => void {
+    const watcher: Watcher = { service, last: null, onStatus, onEnd };
+    this.watchers.add(watcher);
+    this.emit(watcher);
+    return () => {
+      this.watchers.delete(watcher);
+    };
+  }
+
+  /** End every open watch, so servers can shut down without waiting on them */
+  endWatches(): void {
+    const watchers = [...this.watchers];
+    this.watchers.clear();
+    for (const watcher of watchers) watcher.onEnd();
+  }
+
+  private notify(): void {
+    for (const watcher of [...this.watchers]) this.emit(watcher);
+  }
+
+  private emit(watcher: Watcher): void {
+    const status = this.check(watcher.service) ?? "SERVICE_UNKNOWN";
+    if (status === watcher.last) return;
+    watcher.last = status;
+    watcher.onStatus(status);
+  }
+}
+
+export function isServingStatus(value: unknown): value is ServingStatus {
+  return typeof value === "string" && (SERVING_STATUSES as readonly string[]).includes(value);
+}
@@ -0,0 +1,165 @@
+/**
+ * Request journal for verifying calls received by the mock
+ *
+ * Every request handled by the shared handlers (and therefore by both the
+ * gRPC and Connect RPC servers) is appended here together with the rule and
+ * response that answered it, the final status and the latency. Tests can
+ * then query the journal through the admin API to assert what the service
+ * under test actually sent.
+ *
+ * The journal is bounded: once full, the oldest entries are dropped.
+ */
+
+import type { MatchSpec } from "../types.js";
+import { matchesSpec } from "../usecases/selectResponse.js";
+
+/** Default number of entries kept in memory */
+export const DEFAULT_JOURNAL_CAPACITY = 1000;
+
+/**
+ * A single received call
+ */
+export interface JournalEntry {
+  /** Sequence number (increases monotonically, survives resets) */
+  id: number;
+  /** ISO timestamp when the call was received */
+  received_at: string;
+  /** Wire protocol (grpc, grpc-web, connect) when known */
+  protocol?: string;
+  /** Fully qualified service name (e.g., "helloworld.Greeter") */
+  service: string;
+  /** Method name (e.g., "SayHello") */
+  method: string;
+  /** Request metadata/headers */
+  metadata: Record<string, string>;
+  /** Session of the call (`x-wishmock-session`), when any */
+  session?: string;
+  /** Request as rules see it (aggregated object for client/bidi streams) */
+  request: unknown;
+  /** Rule key that answered the call (null when no rule was used) */
+  rule_key: string | null;
+  /** Index of the selected entry in the rule's `responses` (-1 for the built-in empty OK) */
+  response_index: number | null;
+  /** Whether the call was forwarded to the proxy upstream */
+  proxied: boolean;
+  /** Final status code name (e.g., "OK", "NOT_FOUND") */
+  status: string;
+  /** Error message for non-OK calls */
+  message?: string;
+  /** Time from receipt to completion in milliseconds */
+  latency_ms: number;
+}
+
+/**
+ * Journal query: service/method filters plus a match block using the rule operators
+ */
+export interface JournalQuery extends MatchSpec {
+  service?: string;
+  method?: string;
+  /** Only entries recorded under this session */
+  session?: string;
+  /** Only consider the most recent N matching entries */
+  limit?: number;
+}
+
+/**
+ * Bounded in-memory request journal
+ */
+export class RequestJournal {
+  private entries: JournalEntry[] = [];
+  private nextId = 1;
+  private capacity: number;
+
+  constructor(capacity: number = DEFAULT_JOURNAL_CAPACITY) {
+    this.capacity = capacity;
+  }
+
+  /**
+   * Read the capacity from REQUEST_JOURNAL_SIZE (0 disables the journal)
+   */
+  configureFromEnv(): void {
+    const raw = process.env.REQUEST_JOURNAL_SIZE;
+    const n = raw === undefined || raw === '' ? DEFAULT_JOURNAL_CAPACITY : parseInt(raw, 10);
+    this.setCapacity(Number.isFinite(n) && n >= 0 ? n : DEFAULT_JOURNAL_CAPACITY);
+  }
+
+  /**
+   * Change the capacity, dropping the oldest entries if needed
+   *
+   * @param capacity Maximum number of entries kept
+   */
+  setCapacity(capacity: number): void {
+    this.capacity = capacity;
+    this.trim();
+  }
+
+  getCapacity(): number {
+    return this.capacity;
+  }
+
+  /**
+   * Append a call to the journal
+   *
+   * @param entry Call details (id is assigned here)
+   * @returns Stored entry, or undefined when the journal is disabled
+   */
+  record(entry: Omit<JournalEntry, 'id'>): JournalEntry | undefined {
+    if (this.capacity <= 0) return undefined;
+    const stored: JournalEntry = { id: this.nextId++, ...entry };
+    this.entries.push(stored);
+    this.trim();
+    return stored;
+  }
+
+  /**
+   * Find entries matching a query, oldest first
+   *
+   * Service and method compare case-insensitively. `request` paths and
+   * `metadata` keys accept the same literals and operators as rule `match`
+   * blocks (regex, contains, in, gt/gte/lt/lte, exists, not, ...).
+   *
+   * @param query Optional filters
+   * @returns Matching entries
+   */
+  find(query: JournalQuery = {}): JournalEntry[] {
+    const service = query.service?.toLowerCase();
+    const method = query.method?.toLowerCase();
+    const matched = this.entries.filter((e) =>
+      (!service || e.service.toLowerCase() === service) &&
+      (!method || e.method.toLowerCase() === method) &&
+      (query.session === undefined || e.session === query.session) &&
+      matchesSpec({ metadata: query.metadata, request: query.request }, e.request, e.metadata)
+    );
+    if (query.limit !== undefined && query.limit >= 0) {
+      return matched.slice(Math.max(0, matched.length - query.limit));
+    }
+    return matched;
+  }
+
+  /** Number of entries currently held */
+  size(): number {
+    return this.entries.length;
+  }
+
+  /**
+   * Remove every entry, or the entries of one session
+   *
+   * @param session Optional session
+   */
+  clear(session?: string): void {
+    this.entries = session === undefined ? [] : this.entries.filter((e) => e.session !== session);
+  }
+
+  private trim(): void {
+    const excess = this.entries.length - Math.max(0, this.capacity);
+    if (excess > 0) this.entries.splice(0, excess);
+  }
+}
+
+/**
+ * Global request journal instance
+ *
+ * This instance is shared across both gRPC and Connect RPC servers
+ * so calls from every protocol end up in one place.
+ */
+export const requestJournal = new RequestJournal();
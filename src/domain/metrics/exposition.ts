@@ -0,0 +1,105 @@
+/**
+ * Prometheus / OpenMetrics text exposition
+ *
+ * Serializes metric families into the text formats scraped by Prometheus:
+ * - Prometheus text format 0.0.4 (default)
+ * - OpenMetrics 1.0 (when the scraper asks for application/openmetrics-text)
+ *
+ * The two differ only in the details that matter here: OpenMetrics names
+ * counter families without the `_total` suffix and ends with `# EOF`.
+ */
+
+export const PROMETHEUS_CONTENT_TYPE = "text/plain; version=0.0.4; charset=utf-8";
+export const OPENMETRICS_CONTENT_TYPE = "application/openmetrics-text; version=1.0.0; charset=utf-8";
+
+export type MetricLabels = Record<string, string>;
+
+/**
+ * Single sample of a counter or gauge
+ */
+export interface MetricSample {
+  labels: MetricLabels;
+  value: number;
+}
+
+/**
+ * Histogram series: per-bucket counts (not cumulative) plus sum and count
+ */
+export interface HistogramSample {
+  labels: MetricLabels;
+  /** Observations per bucket; the last entry is the +Inf bucket */
+  buckets: number[];
+  sum: number;
+  count: number;
+}
+
+export type MetricFamily =
+  | { name: string; help: string; type: "counter" | "gauge"; samples: MetricSample[] }
+  | { name: string; help: string; type: "histogram"; bounds: number[]; samples: HistogramSample[] };
+
+/**
+ * Render metric families in the Prometheus (or OpenMetrics) text format
+ *
+ * @param families Metric families to render
+ * @param openMetrics Whether to emit OpenMetrics 1.0 instead of Prometheus 0.0.4
+ * @returns Exposition text
+ */
+export function renderMetrics(families: MetricFamily[], openMetrics = false): string {
+  const lines: string[] = [];
+
+  for (const family of families) {
+    const familyName = openMetrics && family.type === "counter" ? family.name.replace(/_total$/, "") : family.name;
+    lines.push(`# HELP ${familyName} ${escapeHelp(family.help)}`);
+    lines.push(`# TYPE ${familyName} ${family.type}`);
+
+    if (family.type === "histogram") {
+      for (const sample of family.samples) {
+        let cumulative = 0;
+        family.bounds.forEach((bound, i) => {
+          cumulative += sample.buckets[i] || 0;
+          lines.push(`${family.name}_bucket${formatLabels({ ...sample.labels, le: formatNumber(bound) })} ${cumulative}`);
+        });
+        lines.push(`${family.name}_bucket${formatLabels({ ...sample.labels, le: "+Inf" })} ${sample.count}`);
+        lines.push(`${family.name}_sum${formatLabels(sample.labels)} ${formatNumber(sample.sum)}`);
+        lines.push(`${family.name}_count${formatLabels(sample.labels)} ${sample.count}`);
+      }
+    } else {
+      for (const sample of family.samples) {
+        lines.push(`${family.name}${formatLabels(sample.labels)} ${formatNumber(sample.value)}`);
+      }
+    }
+  }
+
+  if (openMetrics) {
+    lines.push("# EOF");
+  }
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Whether an Accept header asks for OpenMetrics
+ */
+export function acceptsOpenMetrics(accept: string | undefined): boolean {
+  return !!accept && accept.includes("application/openmetrics-text");
+}
+
+function formatLabels(labels: MetricLabels): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) return "";
+  return `{${entries.map(([k, v]) => `${k}="${escapeLabelValue(v)}"`).join(",")}}`;
+}
+
+function formatNumber(value: number): string {
+  if (value === Infinity) return "+Inf";
+  if (value === -Infinity) return "-Inf";
+  if (Number.isNaN(value)) return "NaN";
+  return String(value);
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/"/g, '\\"');
+}
+
+function escapeHelp(help: string): string {
+  return help.replace(/\\/g, "\\\\").replace(/\n/g, "\\n");
+}
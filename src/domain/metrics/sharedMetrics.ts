@@ -7,10 +7,25 @@
  * Metrics tracked:
  * - Validation checks and failures
  * - Rule matches and misses
- * - Request counts by protocol
- * - Error counts by protocol
+ * - Requests by protocol, service, method and status code
+ * - Request latency histograms
+ * - Stream message counts
+ * - Proto/rule reloads
+ *
+ * `getMetrics()` returns the JSON summary shown in /admin/status; `collect()`
+ * returns the labeled series served on /metrics.
  */
 
+import type { MetricFamily, HistogramSample, MetricLabels, MetricSample } from "./exposition.js";
+
+/**
+ * Latency histogram bucket bounds in seconds
+ *
+ * Starts at 1ms since most mocked calls answer well below the usual 5ms
+ * first bucket.
+ */
+export const LATENCY_BUCKETS = [0.001, 0.0025, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
 /**
  * Metrics for validation operations
  */
@@ -37,6 +52,25 @@ export interface RuleMatchingMetrics {
   matches_by_rule: Record<string, number>;
 }
 
+/**
+ * A finished call as seen by the shared handlers
+ */
+export interface RequestObservation {
+  /** Wire protocol (grpc, grpc-web, connect); "unknown" when not set */
+  protocol?: string;
+  service: string;
+  method: string;
+  /** Final status code name (e.g., "OK", "NOT_FOUND") */
+  status: string;
+  latencyMs: number;
+}
+
+/** Direction of a streamed message, from the server's point of view */
+export type StreamDirection = "received" | "sent";
+
+/** What a reload covered: protos and rules with a server restart, or rules only */
+export type ReloadKind = "full" | "rules";
+
 /**
  * Combined shared metrics
  */
@@ -51,7 +85,7 @@ export interface SharedMetrics {
  * This class provides thread-safe metrics tracking that can be shared
  * across both gRPC and Connect RPC servers.
  */
-class SharedMetricsTracker {
+export class SharedMetricsTracker {
   private validationChecks = 0;
   private validationFailures = 0;
   private validationFailuresByType: Map<string, number> = new Map();
@@ -60,6 +94,12 @@ class SharedMetricsTracker {
   private ruleMatches = 0;
   private ruleMisses = 0;
   private ruleMatchesByKey: Map<string, number> = new Map();
+  private ruleMissesByKey: Map<string, number> = new Map();
+
+  private requests: Map<string, MetricSample> = new Map();
+  private latencies: Map<string, HistogramSample> = new Map();
+  private streamMessages: Map<string, MetricSample> = new Map();
+  private reloads: Map<string, MetricSample> = new Map();
 
   /**
    * Record a validation check
@@ -96,9 +136,55 @@ class SharedMetricsTracker {
       this.ruleMatchesByKey.set(ruleKey, current + 1);
     } else {
       this.ruleMisses++;
+      this.ruleMissesByKey.set(ruleKey, (this.ruleMissesByKey.get(ruleKey) || 0) + 1);
     }
   }
 
+  /**
+   * Record a finished call (counter and latency histogram)
+   *
+   * @param call Protocol, method, final status and latency of the call
+   */
+  recordRequest(call: RequestObservation): void {
+    const labels = { protocol: call.protocol || "unknown", service: call.service, method: call.method };
+    increment(this.requests, { ...labels, code: call.status }, 1);
+
+    const key = seriesKey(labels);
+    let histogram = this.latencies.get(key);
+    if (!histogram) {
+      histogram = { labels, buckets: new Array(LATENCY_BUCKETS.length).fill(0), sum: 0, count: 0 };
+      this.latencies.set(key, histogram);
+    }
+    const seconds = call.latencyMs / 1000;
+    const bucket = LATENCY_BUCKETS.findIndex((bound) => seconds <= bound);
+    if (bucket >= 0) histogram.buckets[bucket]++;
+    histogram.sum += seconds;
+    histogram.count++;
+  }
+
+  /**
+   * Record messages of a streaming call
+   *
+   * @param service Service name
+   * @param method Method name
+   * @param direction Whether the server received or sent the messages
+   * @param count Number of messages
+   */
+  recordStreamMessages(service: string, method: string, direction: StreamDirection, count: number): void {
+    if (count <= 0) return;
+    increment(this.streamMessages, { service, method, direction }, count);
+  }
+
+  /**
+   * Record a proto/rule reload
+   *
+   * @param kind What was reloaded
+   * @param success Whether the reload completed
+   */
+  recordReload(kind: ReloadKind, success: boolean): void {
+    increment(this.reloads, { kind, result: success ? "success" : "failure" }, 1);
+  }
+
   /**
    * Get current metrics snapshot
    * 
@@ -120,6 +206,63 @@ class SharedMetricsTracker {
     };
   }
 
+  /**
+   * Labeled metric families for the /metrics endpoint
+   *
+   * @returns Metric families in a stable order
+   */
+  collect(): MetricFamily[] {
+    const ruleSamples: MetricSample[] = [];
+    for (const [rule, value] of this.ruleMatchesByKey) ruleSamples.push({ labels: { rule, result: "hit" }, value });
+    for (const [rule, value] of this.ruleMissesByKey) ruleSamples.push({ labels: { rule, result: "miss" }, value });
+
+    return [
+      {
+        name: "wishmock_requests_total",
+        help: "Calls handled, by protocol, method and final status code.",
+        type: "counter",
+        samples: [...this.requests.values()],
+      },
+      {
+        name: "wishmock_request_duration_seconds",
+        help: "Time from receipt to completion of a call.",
+        type: "histogram",
+        bounds: LATENCY_BUCKETS,
+        samples: [...this.latencies.values()],
+      },
+      {
+        name: "wishmock_stream_messages_total",
+        help: "Messages received and sent on streaming calls.",
+        type: "counter",
+        samples: [...this.streamMessages.values()],
+      },
+      {
+        name: "wishmock_validation_checks_total",
+        help: "Request validation checks performed.",
+        type: "counter",
+        samples: [{ labels: {}, value: this.validationChecks }],
+      },
+      {
+        name: "wishmock_validation_failures_total",
+        help: "Request validation failures, by message type.",
+        type: "counter",
+        samples: [...this.validationFailuresByType].map(([type, value]) => ({ labels: { type }, value })),
+      },
+      {
+        name: "wishmock_rule_matches_total",
+        help: "Rule lookups, by rule key and whether a rule answered (hit) or not (miss).",
+        type: "counter",
+        samples: ruleSamples,
+      },
+      {
+        name: "wishmock_reloads_total",
+        help: "Proto and rule reloads after boot, by kind and result.",
+        type: "counter",
+        samples: [...this.reloads.values()],
+      },
+    ];
+  }
+
   /**
    * Reset all metrics to zero
    * 
@@ -134,6 +277,26 @@ class SharedMetricsTracker {
     this.ruleMatches = 0;
     this.ruleMisses = 0;
     this.ruleMatchesByKey.clear();
+    this.ruleMissesByKey.clear();
+
+    this.requests.clear();
+    this.latencies.clear();
+    this.streamMessages.clear();
+    this.reloads.clear();
+  }
+}
+
+function seriesKey(labels: MetricLabels): string {
+  return JSON.stringify(labels);
+}
+
+function increment(series: Map<string, MetricSample>, labels: MetricLabels, by: number): void {
+  const key = seriesKey(labels);
+  const sample = series.get(key);
+  if (sample) {
+    sample.value += by;
+  } else {
+    series.set(key, { labels, value: by });
   }
 }
 
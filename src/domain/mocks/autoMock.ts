@@ -0,0 +1,257 @@
+/**
+ * Schema-generated responses for calls no rule answers
+ *
+ * With auto-mock enabled (AUTO_MOCK_ENABLED=true), a method without a rule
+ * file answers with a message built from its response type instead of
+ * UNIMPLEMENTED: enums take a declared value, nested messages are filled
+ * in, repeated fields get a few items and string fields follow their name
+ * (email, id, url, ...). Values come from a PRNG seeded with the request,
+ * so the same request always gets the same response.
+ */
+
+import protobuf from "protobufjs";
+import { createRandom, pickOne, randomHex, randomInt, randomUuid, type Random } from "../../utils/random.js";
+import { CITIES, COUNTRIES, FIRST_NAMES, LAST_NAMES, SENTENCES, STREETS } from "../../utils/fakeData.js";
+
+/** Messages streamed for server-streaming and bidi calls */
+const STREAM_ITEMS = 3;
+/** Nested message depth filled before fields are left unset */
+const MAX_DEPTH = 3;
+/** Base for generated timestamps (2024-01-01T00:00:00Z) */
+const BASE_EPOCH_SECONDS = 1704067200;
+const YEAR_SECONDS = 365 * 24 * 3600;
+
+const WRAPPER_TYPES = new Set([
+  ".google.protobuf.DoubleValue", ".google.protobuf.FloatValue", ".google.protobuf.Int64Value",
+  ".google.protobuf.UInt64Value", ".google.protobuf.Int32Value", ".google.protobuf.UInt32Value",
+  ".google.protobuf.BoolValue", ".google.protobuf.StringValue", ".google.protobuf.BytesValue",
+]);
+
+/**
+ * Generate a message for a type
+ *
+ * @param type Message type to fill
+ * @param seed Seed value; equal seeds give equal messages
+ * @returns Plain object accepted by `type.fromObject`
+ */
+export function generateMockMessage(type: protobuf.Type, seed: unknown): Record<string, unknown> {
+  const random = createRandom(`${type.fullName}|${stableStringify(seed)}`);
+  return fillMessage(type, random, 0);
+}
+
+/**
+ * Auto-mock switch shared by the gRPC and Connect handlers
+ */
+export class AutoMock {
+  private enabled = false;
+
+  /**
+   * Read the switch from AUTO_MOCK_ENABLED (default off)
+   */
+  configureFromEnv(): void {
+    const raw = String(process.env.AUTO_MOCK_ENABLED || "").toLowerCase();
+    this.enabled = raw === "true" || raw === "1";
+  }
+
+  setEnabled(enabled: boolean): void {
+    this.enabled = enabled;
+  }
+
+  isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  /**
+   * Build the single response of a unary or client-streaming call
+   *
+   * @param type Response message type
+   * @param request Request data the response is seeded from
+   */
+  message(type: protobuf.Type, request: unknown): Record<string, unknown> {
+    return generateMockMessage(type, request);
+  }
+
+  /**
+   * Build the messages of a server-streaming or bidi call
+   *
+   * @param type Response message type
+   * @param request Request data the responses are seeded from
+   */
+  stream(type: protobuf.Type, request: unknown): Record<string, unknown>[] {
+    return Array.from({ length: STREAM_ITEMS }, (_, index) => generateMockMessage(type, { request, index }));
+  }
+}
+
+/**
+ * Global auto-mock instance
+ */
+export const autoMock = new AutoMock();
+
+function fillMessage(type: protobuf.Type, random: Random, depth: number): Record<string, unknown> {
+  const out: Record<string, unknown> = {};
+  // Only one member of each oneof is set; proto3 `optional` fields always are
+  const skipped = new Set<string>();
+  for (const oneof of type.oneofsArray) {
+    if (oneof.fieldsArray.length <= 1) continue;
+    const chosen = oneof.fieldsArray[Math.floor(random() * oneof.fieldsArray.length)];
+    for (const f of oneof.fieldsArray) if (f !== chosen) skipped.add(f.name);
+  }
+
+  for (const field of type.fieldsArray) {
+    if (skipped.has(field.name)) continue;
+    field.resolve();
+    if (field instanceof protobuf.MapField) {
+      const entries: Record<string, unknown> = {};
+      for (let i = 1; i <= 2; i++) {
+        const value = fillValue(field, random, depth);
+        if (value !== undefined) entries[mapKey(field.keyType, field.name, i)] = value;
+      }
+      out[field.name] = entries;
+    } else if (field.repeated) {
+      const count = 2 + Math.floor(random() * 2);
+      const items: unknown[] = [];
+      for (let i = 0; i < count; i++) {
+        const value = fillValue(field, random, depth);
+        if (value !== undefined) items.push(value);
+      }
+      out[field.name] = items;
+    } else {
+      const value = fillValue(field, random, depth);
+      if (value !== undefined) out[field.name] = value;
+    }
+  }
+  return out;
+}
+
+function fillValue(field: protobuf.Field, random: Random, depth: number): unknown {
+  const resolved = field.resolvedType;
+  if (resolved instanceof protobuf.Enum) {
+    const values = Object.entries(resolved.values);
+    const declared = values.filter(([, n]) => n !== 0);
+    const pool = declared.length > 0 ? declared : values;
+    return pool.length > 0 ? pool[Math.floor(random() * pool.length)][0] : 0;
+  }
+  if (resolved instanceof protobuf.Type) {
+    const wellKnown = fillWellKnown(resolved, field, random);
+    if (wellKnown !== null) return wellKnown;
+    if (depth >= MAX_DEPTH) return undefined;
+    return fillMessage(resolved, random, depth + 1);
+  }
+  return fillScalar(field.type, field.name, random);
+}
+
+// Returns null for types that are not well-known, undefined for ones left unset
+function fillWellKnown(type: protobuf.Type, field: protobuf.Field, random: Random): unknown {
+  const name = type.fullName;
+  if (name === ".google.protobuf.Timestamp") {
+    return { seconds: BASE_EPOCH_SECONDS + Math.floor(random() * YEAR_SECONDS), nanos: 0 };
+  }
+  if (name === ".google.protobuf.Duration") {
+    return { seconds: 1 + Math.floor(random() * 3600), nanos: 0 };
+  }
+  if (WRAPPER_TYPES.has(name)) {
+    return { value: fillScalar(type.fields.value.type, field.name, random) };
+  }
+  if (name === ".google.protobuf.Empty" || name === ".google.protobuf.Struct") return {};
+  if (name.startsWith(".google.protobuf.")) return undefined;
+  return null;
+}
+
+function fillScalar(type: string, fieldName: string, random: Random): unknown {
+  const words = fieldName.replace(/([a-z0-9])([A-Z])/g, "$1_$2").toLowerCase().split(/_+/).filter(Boolean);
+  const has = (...names: string[]) => words.some((w) => names.includes(w));
+  const last = words[words.length - 1] ?? "";
+  const int = (min: number, max: number) => randomInt(random, min, max);
+  const pick = <T>(list: readonly T[]) => pickOne(random, list);
+
+  switch (type) {
+    case "bool":
+      return random() < 0.5;
+    case "bytes":
+      return Buffer.from(Array.from({ length: 8 }, () => int(0, 255))).toString("base64");
+    case "double":
+    case "float": {
+      if (has("lat", "latitude")) return round(random() * 180 - 90, 6);
+      if (has("lng", "lon", "longitude")) return round(random() * 360 - 180, 6);
+      if (has("price", "amount", "cost", "total", "balance", "fee")) return round(1 + random() * 499, 2);
+      return round(random() * 100, 2);
+    }
+    case "string":
+      return fillString(words, last, has, int, pick, random);
+    default:
+      // Integer types
+      if (has("age")) return int(18, 80);
+      if (has("year")) return int(2000, 2030);
+      if (has("month")) return int(1, 12);
+      if (has("day")) return int(1, 28);
+      if (has("hour", "hours")) return int(0, 23);
+      if (has("minute", "minutes", "second", "seconds")) return int(0, 59);
+      if (has("nanos")) return 0;
+      if (has("port")) return int(1024, 65535);
+      if (has("count", "qty", "quantity", "size", "num", "total")) return int(1, 10);
+      if (last === "at" || has("timestamp", "epoch")) return BASE_EPOCH_SECONDS + int(0, YEAR_SECONDS);
+      return int(1, 1000);
+  }
+}
+
+function fillString(
+  words: string[],
+  last: string,
+  has: (...names: string[]) => boolean,
+  int: (min: number, max: number) => number,
+  pick: <T>(list: readonly T[]) => T,
+  random: Random
+): string {
+  const n = int(1, 999);
+  if (has("email")) return `${pick(FIRST_NAMES).toLowerCase()}.${n}@example.com`;
+  if (has("url", "uri", "link", "website", "href")) {
+    const resource = words.filter((w) => !["url", "uri", "link", "website", "href"].includes(w)).join("-") || "resource";
+    return `https://example.com/${resource}/${n}`;
+  }
+  if (last === "id" || last === "uuid" || last === "guid") return randomUuid(random);
+  if (has("phone", "mobile")) return `+1-555-${String(int(0, 9999)).padStart(4, "0")}`;
+  if (last === "name") {
+    if (has("first", "given")) return pick(FIRST_NAMES);
+    if (has("last", "family", "sur")) return pick(LAST_NAMES);
+    if (has("user", "login", "nick")) return `${pick(FIRST_NAMES).toLowerCase()}${n}`;
+    if (words.length === 1 || has("full", "display")) return `${pick(FIRST_NAMES)} ${pick(LAST_NAMES)}`;
+    return `${capitalize(words[0])} ${n}`;
+  }
+  if (has("username", "login")) return `${pick(FIRST_NAMES).toLowerCase()}${n}`;
+  if (has("city")) return pick(CITIES);
+  if (has("country")) return pick(COUNTRIES);
+  if (has("address", "street")) return `${n} ${pick(STREETS)}`;
+  if (last === "at" || has("date", "time", "timestamp")) {
+    return new Date((BASE_EPOCH_SECONDS + int(0, YEAR_SECONDS)) * 1000).toISOString();
+  }
+  if (has("currency")) return pick(["USD", "EUR", "IDR", "JPY"]);
+  if (has("token", "secret", "hash")) return randomHex(random, 32);
+  if (has("version")) return `1.${int(0, 9)}.${int(0, 20)}`;
+  if (has("description", "summary", "message", "text", "comment", "note", "body", "title")) return pick(SENTENCES);
+  return `${words.join("_") || "value"}_${n}`;
+}
+
+function mapKey(keyType: string, fieldName: string, index: number): string {
+  if (keyType === "string") return `${fieldName}_${index}`;
+  if (keyType === "bool") return index === 1 ? "true" : "false";
+  return String(index);
+}
+
+function round(value: number, digits: number): number {
+  const f = 10 ** digits;
+  return Math.round(value * f) / f;
+}
+
+function capitalize(word: string): string {
+  return word.charAt(0).toUpperCase() + word.slice(1);
+}
+
+// JSON with sorted keys so equal requests hash the same regardless of key order
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`;
+  if (value && typeof value === "object" && !Buffer.isBuffer(value)) {
+    const entries = Object.keys(value).sort().map((k) => `${JSON.stringify(k)}:${stableStringify((value as any)[k])}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
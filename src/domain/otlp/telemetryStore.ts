@@ -0,0 +1,358 @@
+/**
+ * Telemetry store for the OTLP sink
+ *
+ * When the sink is enabled, wishmock accepts OTLP Export calls for traces,
+ * metrics and logs (gRPC on the gRPC port, HTTP on the admin port) and keeps
+ * what it receives here. Tests then query the admin API to assert the
+ * telemetry their service emitted, without running a real collector.
+ *
+ * Export requests arrive in the OTLP JSON encoding (protobuf payloads are
+ * decoded to it first) and are flattened into one record per span, metric
+ * and log record, with resource and attribute lists turned into plain
+ * objects. Each signal is bounded: once full, the oldest records are dropped.
+ */
+
+/** Default number of records kept per signal */
+export const DEFAULT_TELEMETRY_CAPACITY = 1000;
+
+export type TelemetrySignal = "traces" | "metrics" | "logs";
+
+/** Attribute list flattened to key → value */
+export type Attributes = Record<string, unknown>;
+
+export interface ScopeInfo {
+  name?: string;
+  version?: string;
+}
+
+interface RecordBase {
+  /** Sequence number (shared by all signals, survives clears) */
+  id: number;
+  /** ISO timestamp when the export was received */
+  received_at: string;
+  /** Resource attributes (e.g. `service.name`) */
+  resource: Attributes;
+  /** Instrumentation scope */
+  scope: ScopeInfo;
+}
+
+export interface SpanRecord extends RecordBase {
+  trace_id: string;
+  span_id: string;
+  parent_span_id?: string;
+  trace_state?: string;
+  name: string;
+  /** SpanKind (1 internal, 2 server, 3 client, 4 producer, 5 consumer) */
+  kind: number;
+  start_time_unix_nano: string;
+  end_time_unix_nano: string;
+  duration_ms: number;
+  attributes: Attributes;
+  events: { time_unix_nano?: string; name: string; attributes: Attributes }[];
+  links: { trace_id: string; span_id: string; attributes: Attributes }[];
+  /** StatusCode (0 unset, 1 ok, 2 error) and message */
+  status: { code: number; message?: string };
+}
+
+export type MetricType = "gauge" | "sum" | "histogram" | "exponential_histogram" | "summary";
+
+export interface MetricRecord extends RecordBase {
+  name: string;
+  description?: string;
+  unit?: string;
+  type: MetricType;
+  /** 1 delta, 2 cumulative (sums and histograms) */
+  aggregation_temporality?: number;
+  is_monotonic?: boolean;
+  /** Data points with snake_case fields and flattened attributes */
+  data_points: Record<string, unknown>[];
+}
+
+export interface LogRecordEntry extends RecordBase {
+  time_unix_nano?: string;
+  observed_time_unix_nano?: string;
+  severity_number?: number;
+  severity_text?: string;
+  event_name?: string;
+  body?: unknown;
+  attributes: Attributes;
+  trace_id?: string;
+  span_id?: string;
+}
+
+/**
+ * Query over stored records
+ *
+ * `attributes` compare as strings against the record's own attributes (for
+ * metrics: those of any data point) and then its resource attributes.
+ */
+export interface TelemetryQuery {
+  /** Span name, metric name or log event name */
+  name?: string;
+  trace_id?: string;
+  /** Logs only */
+  severity_text?: string;
+  attributes?: Record<string, string>;
+  /** Only the most recent N matching records */
+  limit?: number;
+}
+
+const METRIC_TYPES: [string, MetricType][] = [
+  ["gauge", "gauge"],
+  ["sum", "sum"],
+  ["histogram", "histogram"],
+  ["exponentialHistogram", "exponential_histogram"],
+  ["summary", "summary"],
+];
+
+/**
+ * Bounded in-memory store of received spans, metrics and logs
+ */
+export class TelemetryStore {
+  private enabled = false;
+  private capacity: number;
+  private nextId = 1;
+  private spans: SpanRecord[] = [];
+  private metrics: MetricRecord[] = [];
+  private logs: LogRecordEntry[] = [];
+
+  constructor(capacity: number = DEFAULT_TELEMETRY_CAPACITY) {
+    this.capacity = capacity;
+  }
+
+  /**
+   * Read OTLP_SINK_ENABLED and OTLP_SINK_SIZE (records kept per signal)
+   */
+  configureFromEnv(): void {
+    const flag = String(process.env.OTLP_SINK_ENABLED || '').toLowerCase();
+    this.enabled = flag === 'true' || flag === '1';
+    const raw = process.env.OTLP_SINK_SIZE;
+    const n = raw === undefined || raw === '' ? DEFAULT_TELEMETRY_CAPACITY : parseInt(raw, 10);
+    this.setCapacity(Number.isFinite(n) && n > 0 ? n : DEFAULT_TELEMETRY_CAPACITY);
+  }
+
+  setEnabled(enabled: boolean): void {
+    this.enabled = enabled;
+  }
+
+  /** Whether the OTLP receivers are served */
+  isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  setCapacity(capacity: number): void {
+    this.capacity = capacity;
+    this.trim();
+  }
+
+  getCapacity(): number {
+    return this.capacity;
+  }
+
+  /**
+   * Store the contents of an Export request
+   *
+   * @param signal Signal the request was exported on
+   * @param request Export request in the OTLP JSON encoding
+   * @returns Number of spans, metrics or log records stored
+   * @throws When the request is not an object
+   */
+  ingest(signal: TelemetrySignal, request: unknown): number {
+    if (!isObject(request)) throw new Error(`export request must be an object`);
+    const receivedAt = new Date().toISOString();
+    let stored = 0;
+
+    const resourceKey = { traces: "resourceSpans", metrics: "resourceMetrics", logs: "resourceLogs" }[signal];
+    const scopeKey = { traces: "scopeSpans", metrics: "scopeMetrics", logs: "scopeLogs" }[signal];
+    const itemKey = { traces: "spans", metrics: "metrics", logs: "logRecords" }[signal];
+
+    for (const rs of list(request[resourceKey])) {
+      const resource = flattenAttributes(rs.resource?.attributes);
+      for (const ss of list(rs[scopeKey])) {
+        const scope: ScopeInfo = { name: ss.scope?.name || undefined, version: ss.scope?.version || undefined };
+        for (const item of list(ss[itemKey])) {
+          const base: RecordBase = { id: this.nextId++, received_at: receivedAt, resource, scope };
+          if (signal === "traces") this.spans.push(toSpanRecord(base, item));
+          else if (signal === "metrics") this.metrics.push(toMetricRecord(base, item));
+          else this.logs.push(toLogRecord(base, item));
+          stored++;
+        }
+      }
+    }
+
+    this.trim();
+    return stored;
+  }
+
+  /** Stored spans matching a query, oldest first */
+  findSpans(query: TelemetryQuery = {}): SpanRecord[] {
+    return limit(this.spans.filter((s) =>
+      (query.name === undefined || s.name === query.name) &&
+      (query.trace_id === undefined || s.trace_id === query.trace_id.toLowerCase()) &&
+      matchesAttributes(query.attributes, [s.attributes], s.resource)
+    ), query.limit);
+  }
+
+  /** Stored metrics matching a query, oldest first */
+  findMetrics(query: TelemetryQuery = {}): MetricRecord[] {
+    return limit(this.metrics.filter((m) =>
+      (query.name === undefined || m.name === query.name) &&
+      matchesAttributes(query.attributes, m.data_points.map((p) => (p.attributes || {}) as Attributes), m.resource)
+    ), query.limit);
+  }
+
+  /** Stored log records matching a query, oldest first */
+  findLogs(query: TelemetryQuery = {}): LogRecordEntry[] {
+    return limit(this.logs.filter((l) =>
+      (query.name === undefined || l.event_name === query.name) &&
+      (query.trace_id === undefined || l.trace_id === query.trace_id.toLowerCase()) &&
+      (query.severity_text === undefined || (l.severity_text || '').toLowerCase() === query.severity_text.toLowerCase()) &&
+      matchesAttributes(query.attributes, [l.attributes], l.resource)
+    ), query.limit);
+  }
+
+  /** Drop the records of one signal, or of all of them */
+  clear(signal?: TelemetrySignal): void {
+    if (!signal || signal === "traces") this.spans = [];
+    if (!signal || signal === "metrics") this.metrics = [];
+    if (!signal || signal === "logs") this.logs = [];
+  }
+
+  /** Number of records currently held per signal */
+  counts(): { spans: number; metrics: number; logs: number } {
+    return { spans: this.spans.length, metrics: this.metrics.length, logs: this.logs.length };
+  }
+
+  private trim(): void {
+    for (const records of [this.spans, this.metrics, this.logs] as unknown[][]) {
+      if (records.length > this.capacity) records.splice(0, records.length - this.capacity);
+    }
+  }
+}
+
+function toSpanRecord(base: RecordBase, span: any): SpanRecord {
+  const start = String(span.startTimeUnixNano ?? "0");
+  const end = String(span.endTimeUnixNano ?? "0");
+  return {
+    ...base,
+    trace_id: String(span.traceId || "").toLowerCase(),
+    span_id: String(span.spanId || "").toLowerCase(),
+    parent_span_id: span.parentSpanId ? String(span.parentSpanId).toLowerCase() : undefined,
+    trace_state: span.traceState || undefined,
+    name: String(span.name || ""),
+    kind: Number(span.kind ?? 0),
+    start_time_unix_nano: start,
+    end_time_unix_nano: end,
+    duration_ms: durationMs(start, end),
+    attributes: flattenAttributes(span.attributes),
+    events: list(span.events).map((e) => ({
+      time_unix_nano: e.timeUnixNano !== undefined ? String(e.timeUnixNano) : undefined,
+      name: String(e.name || ""),
+      attributes: flattenAttributes(e.attributes),
+    })),
+    links: list(span.links).map((l) => ({
+      trace_id: String(l.traceId || "").toLowerCase(),
+      span_id: String(l.spanId || "").toLowerCase(),
+      attributes: flattenAttributes(l.attributes),
+    })),
+    status: { code: Number(span.status?.code ?? 0), message: span.status?.message || undefined },
+  };
+}
+
+function toMetricRecord(base: RecordBase, metric: any): MetricRecord {
+  const [key, type] = METRIC_TYPES.find(([k]) => isObject(metric[k])) ?? ["gauge", "gauge" as MetricType];
+  const data = metric[key] || {};
+  return {
+    ...base,
+    name: String(metric.name || ""),
+    description: metric.description || undefined,
+    unit: metric.unit || undefined,
+    type,
+    aggregation_temporality: data.aggregationTemporality !== undefined ? Number(data.aggregationTemporality) : undefined,
+    is_monotonic: data.isMonotonic !== undefined ? !!data.isMonotonic : undefined,
+    data_points: list(data.dataPoints).map((p) => snakeCase(p) as Record<string, unknown>),
+  };
+}
+
+function toLogRecord(base: RecordBase, log: any): LogRecordEntry {
+  return {
+    ...base,
+    time_unix_nano: log.timeUnixNano !== undefined ? String(log.timeUnixNano) : undefined,
+    observed_time_unix_nano: log.observedTimeUnixNano !== undefined ? String(log.observedTimeUnixNano) : undefined,
+    severity_number: log.severityNumber !== undefined ? Number(log.severityNumber) : undefined,
+    severity_text: log.severityText || undefined,
+    event_name: log.eventName || undefined,
+    body: log.body !== undefined ? anyValue(log.body) : undefined,
+    attributes: flattenAttributes(log.attributes),
+    trace_id: log.traceId ? String(log.traceId).toLowerCase() : undefined,
+    span_id: log.spanId ? String(log.spanId).toLowerCase() : undefined,
+  };
+}
+
+/**
+ * Flatten an OTLP KeyValue list into an object
+ */
+export function flattenAttributes(attributes: unknown): Attributes {
+  const out: Attributes = {};
+  for (const kv of list(attributes)) {
+    if (typeof kv.key === "string") out[kv.key] = anyValue(kv.value);
+  }
+  return out;
+}
+
+function anyValue(value: any): unknown {
+  if (!isObject(value)) return undefined;
+  if ("stringValue" in value) return value.stringValue;
+  if ("boolValue" in value) return value.boolValue;
+  if ("intValue" in value) {
+    const n = Number(value.intValue);
+    return Number.isSafeInteger(n) ? n : String(value.intValue);
+  }
+  if ("doubleValue" in value) return Number(value.doubleValue);
+  if ("arrayValue" in value) return list(value.arrayValue?.values).map(anyValue);
+  if ("kvlistValue" in value) return flattenAttributes(value.kvlistValue?.values);
+  if ("bytesValue" in value) return value.bytesValue;
+  return undefined;
+}
+
+// Data point fields in snake_case; attribute lists flattened
+function snakeCase(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(snakeCase);
+  if (!isObject(value)) return value;
+  const out: Record<string, unknown> = {};
+  for (const [key, v] of Object.entries(value)) {
+    const name = key.replace(/[A-Z]/g, (c) => `_${c.toLowerCase()}`);
+    out[name] = key === "attributes" || key === "filteredAttributes" ? flattenAttributes(v) : snakeCase(v);
+  }
+  return out;
+}
+
+function matchesAttributes(expected: Record<string, string> | undefined, own: Attributes[], resource: Attributes): boolean {
+  if (!expected) return true;
+  return Object.entries(expected).every(([key, value]) =>
+    own.some((attrs) => key in attrs && String(attrs[key]) === value) ||
+    (key in resource && String(resource[key]) === value)
+  );
+}
+
+function durationMs(start: string, end: string): number {
+  try {
+    return Number(BigInt(end) - BigInt(start)) / 1e6;
+  } catch {
+    return 0;
+  }
+}
+
+function limit<T>(records: T[], n: number | undefined): T[] {
+  return n !== undefined && n >= 0 ? records.slice(Math.max(0, records.length - n)) : records;
+}
+
+function list(value: unknown): any[] {
+  return Array.isArray(value) ? value : [];
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+export const telemetryStore = new TelemetryStore();
@@ -0,0 +1,110 @@
+/**
+ * Scenario state tracking for stateful rules
+ * 
+ * A rule may declare a `scenario` name; each of its responses can then
+ * require the scenario to be in a given state (`required_state`) and move
+ * it to another state once selected (`new_state`). This lets a set of rules
+ * mock multi-step flows (e.g., CreateOrder -> GetOrder PENDING -> Pay ->
+ * GetOrder PAID) without swapping rule bundles between steps.
+ * 
+ * The store is shared by both gRPC and Connect RPC servers so that a flow
+ * can be driven from either protocol.
+ */
+
+/** State every scenario starts in (and returns to on reset) */
+export const SCENARIO_STARTED = "Started";
+
+/**
+ * Snapshot of a single scenario
+ */
+export interface ScenarioInfo {
+  /** Scenario name as declared by rules */
+  name: string;
+  /** Current state */
+  state: string;
+  /** ISO timestamp of the last transition (undefined if never moved) */
+  updated_at?: string;
+  /** Session the state belongs to (undefined for the global state) */
+  session?: string;
+}
+
+/**
+ * Scenario state store
+ * 
+ * Scenarios that were never touched are reported in the `Started` state.
+ * Each session (see domain/session) has its own states; calls outside a
+ * session use the global ones.
+ */
+export class ScenarioStore {
+  // Session ("" for global) -> scenario name -> state
+  private states: Map<string, Map<string, { state: string; updatedAt: Date }>> = new Map();
+
+  /**
+   * Get the current state of a scenario
+   * 
+   * @param name Scenario name
+   * @param session Optional session
+   * @returns Current state (defaults to `Started`)
+   */
+  getState(name: string, session?: string): string {
+    return this.states.get(session ?? "")?.get(name)?.state ?? SCENARIO_STARTED;
+  }
+
+  /**
+   * Move a scenario to a new state
+   * 
+   * @param name Scenario name
+   * @param state New state
+   * @param session Optional session
+   */
+  setState(name: string, state: string, session?: string): void {
+    let scope = this.states.get(session ?? "");
+    if (!scope) {
+      scope = new Map();
+      this.states.set(session ?? "", scope);
+    }
+    scope.set(name, { state, updatedAt: new Date() });
+  }
+
+  /**
+   * Reset one scenario, or all scenarios when no name is given
+   * 
+   * Without a session, resetting all scenarios also resets every session.
+   * 
+   * @param name Optional scenario name
+   * @param session Optional session
+   */
+  reset(name?: string, session?: string): void {
+    if (name === undefined) {
+      if (session === undefined) this.states.clear();
+      else this.states.delete(session);
+      return;
+    }
+    this.states.get(session ?? "")?.delete(name);
+  }
+
+  /**
+   * List scenarios that have moved away from their initial state
+   * 
+   * @param session Optional session to filter by
+   * @returns Scenario snapshots sorted by name (global state first among equals)
+   */
+  list(session?: string): ScenarioInfo[] {
+    const out: ScenarioInfo[] = [];
+    for (const [scope, states] of this.states) {
+      if (session !== undefined && scope !== session) continue;
+      for (const [name, v] of states) {
+        out.push({ name, state: v.state, updated_at: v.updatedAt.toISOString(), ...(scope ? { session: scope } : {}) });
+      }
+    }
+    return out.sort((a, b) => a.name.localeCompare(b.name) || (a.session ?? "").localeCompare(b.session ?? ""));
+  }
+}
+
+/**
+ * Global scenario store instance
+ * 
+ * This instance is shared across both gRPC and Connect RPC servers
+ * so scenario transitions are visible to every protocol.
+ */
+export const scenarioStore = new ScenarioStore();
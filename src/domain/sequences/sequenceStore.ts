@@ -0,0 +1,119 @@
+/**
+ * Call counters for sequenced responses
+ *
+ * A response may declare a `sequence` of steps; the Nth call that selects
+ * it gets the Nth step (e.g., fail with UNAVAILABLE once, then succeed).
+ * Counters are kept per rule document and response so several sequenced
+ * responses in one rule advance independently, and a stub for a method
+ * counts apart from the method's file rule.
+ *
+ * The store is shared by both gRPC and Connect RPC servers so a retry
+ * flow can be driven from either protocol.
+ */
+
+/**
+ * Snapshot of a single sequence counter
+ */
+export interface SequenceInfo {
+  /** Rule key (e.g., helloworld.greeter.sayhello) */
+  rule: string;
+  /** Index of the sequenced response within the rule */
+  response_index: number;
+  /** Stub the counter belongs to (undefined for the file rule) */
+  stub?: string;
+  /** Calls served so far */
+  calls: number;
+  /** Session the counter belongs to (undefined for the global counter) */
+  session?: string;
+}
+
+/**
+ * Sequence counter store
+ *
+ * Each session (see domain/session) counts its own calls; calls outside a
+ * session use the global counters.
+ */
+export class SequenceStore {
+  // Session ("" for global) -> rule key -> stub id ("" for the file rule) -> response index -> calls
+  private counters: Map<string, Map<string, Map<string, Map<number, number>>>> = new Map();
+
+  /**
+   * Count a call and return its position
+   *
+   * @param rule Rule key
+   * @param responseIndex Index of the selected response within the rule
+   * @param session Optional session
+   * @param stub Id of the stub serving the call (omitted for the file rule)
+   * @returns Zero-based number of the call
+   */
+  next(rule: string, responseIndex: number, session?: string, stub?: string): number {
+    let scope = this.counters.get(session ?? "");
+    if (!scope) {
+      scope = new Map();
+      this.counters.set(session ?? "", scope);
+    }
+    let sources = scope.get(rule);
+    if (!sources) {
+      sources = new Map();
+      scope.set(rule, sources);
+    }
+    let responses = sources.get(stub ?? "");
+    if (!responses) {
+      responses = new Map();
+      sources.set(stub ?? "", responses);
+    }
+    const calls = responses.get(responseIndex) ?? 0;
+    responses.set(responseIndex, calls + 1);
+    return calls;
+  }
+
+  /**
+   * Reset the counters of one rule, or of all rules when no key is given
+   *
+   * Without a session, resetting all rules also resets every session.
+   *
+   * @param rule Optional rule key
+   * @param session Optional session
+   */
+  reset(rule?: string, session?: string): void {
+    if (rule === undefined) {
+      if (session === undefined) this.counters.clear();
+      else this.counters.delete(session);
+      return;
+    }
+    this.counters.get(session ?? "")?.delete(rule);
+  }
+
+  /**
+   * List counters that have served at least one call
+   *
+   * @param rule Optional rule key to filter by
+   * @param session Optional session to filter by
+   * @returns Counter snapshots sorted by rule and response index
+   */
+  list(rule?: string, session?: string): SequenceInfo[] {
+    const out: SequenceInfo[] = [];
+    for (const [scope, rules] of this.counters) {
+      if (session !== undefined && scope !== session) continue;
+      for (const [key, sources] of rules) {
+        if (rule !== undefined && key !== rule) continue;
+        for (const [stub, responses] of sources) {
+          for (const [response_index, calls] of responses) {
+            out.push({ rule: key, response_index, ...(stub ? { stub } : {}), calls, ...(scope ? { session: scope } : {}) });
+          }
+        }
+      }
+    }
+    return out.sort((a, b) =>
+      a.rule.localeCompare(b.rule) || (a.stub ?? "").localeCompare(b.stub ?? "") ||
+      a.response_index - b.response_index || (a.session ?? "").localeCompare(b.session ?? ""));
+  }
+}
+
+/**
+ * Global sequence store instance
+ *
+ * This instance is shared across both gRPC and Connect RPC servers
+ * so every protocol advances the same counters.
+ */
+export const sequenceStore = new SequenceStore();
@@ -0,0 +1,23 @@
+/**
+ * Test sessions
+ *
+ * A call carrying `x-wishmock-session` metadata belongs to that session:
+ * stubs created for the session apply to it, and its scenario state,
+ * sequence counters and journal entries are kept apart from other
+ * sessions. Calls without the header share the global state, so suites
+ * running in parallel against one instance do not interfere.
+ */
+
+/** Metadata key naming the session of a call */
+export const SESSION_HEADER = "x-wishmock-session";
+
+/**
+ * Session named by call metadata
+ *
+ * @param metadata Call metadata
+ * @returns Session id, or undefined for calls outside any session
+ */
+export function sessionOf(metadata: Record<string, unknown> | undefined): string | undefined {
+  const value = metadata?.[SESSION_HEADER];
+  return typeof value === "string" && value.trim() !== "" ? value.trim() : undefined;
+}
@@ -0,0 +1,134 @@
+/**
+ * Runtime stubs created through the admin API
+ *
+ * A stub is a rule document held in memory instead of a file. Stubs are
+ * layered over the file rules: the newest stub for a method that has a
+ * response for the call answers it, otherwise the file rule does. A stub
+ * created with a session only applies to calls carrying the same
+ * `x-wishmock-session` metadata, so parallel tests can stub the same method
+ * without seeing each other's stubs.
+ *
+ * The store is shared by both gRPC and Connect RPC servers and survives
+ * rule reloads; resetting it restores the file rules.
+ */
+
+import crypto from "crypto";
+import type { MetadataMap, RuleDoc } from "../types.js";
+import { hasMatchingResponse } from "../usecases/selectResponse.js";
+import { sessionOf } from "../session.js";
+
+/**
+ * A stored stub
+ */
+export interface StubInfo {
+  /** Generated id (used to delete the stub) */
+  id: string;
+  /** Rule key the stub answers (e.g., helloworld.greeter.sayhello) */
+  rule: string;
+  /** Session the stub is scoped to, when any */
+  session?: string;
+  /** ISO timestamp of creation */
+  created_at: string;
+  /** Rule document served for the method */
+  doc: RuleDoc;
+}
+
+/**
+ * In-memory stub store
+ */
+export class StubStore {
+  private stubs: StubInfo[] = [];
+
+  /**
+   * Add a stub in front of the existing rules for a method
+   *
+   * @param rule Rule key
+   * @param doc Rule document
+   * @param session Optional session scope
+   * @returns Stored stub
+   */
+  add(rule: string, doc: RuleDoc, session?: string): StubInfo {
+    const stub: StubInfo = {
+      id: crypto.randomUUID(),
+      rule: rule.toLowerCase(),
+      ...(session ? { session } : {}),
+      created_at: new Date().toISOString(),
+      doc,
+    };
+    this.stubs.push(stub);
+    return stub;
+  }
+
+  /**
+   * Remove one stub
+   *
+   * @returns Whether a stub with the id existed
+   */
+  remove(id: string): boolean {
+    const before = this.stubs.length;
+    this.stubs = this.stubs.filter((s) => s.id !== id);
+    return this.stubs.length < before;
+  }
+
+  /**
+   * Remove every stub, or those of one session
+   *
+   * @param session Optional session scope
+   * @returns Number of removed stubs
+   */
+  reset(session?: string): number {
+    const before = this.stubs.length;
+    this.stubs = session === undefined ? [] : this.stubs.filter((s) => s.session !== session);
+    return before - this.stubs.length;
+  }
+
+  /**
+   * List stubs, oldest first
+   *
+   * @param session Optional session scope to filter by
+   */
+  list(session?: string): StubInfo[] {
+    return session === undefined ? [...this.stubs] : this.stubs.filter((s) => s.session === session);
+  }
+
+  /**
+   * Rule document a stub contributes to a call, if any
+   *
+   * Stubs of the caller's session are tried before global ones, newest
+   * first; the first with a response for the call wins.
+   *
+   * @param rule Rule key of the called method
+   * @param req Request as rules see it
+   * @param metadata Call metadata (carries the session)
+   * @returns The stub's document, or undefined to use the file rule
+   */
+  resolve(rule: string, req: unknown, metadata: MetadataMap): RuleDoc | undefined {
+    return this.resolveStub(rule, req, metadata)?.doc;
+  }
+
+  /**
+   * Stub that answers a call, if any (see resolve)
+   *
+   * @param rule Rule key of the called method
+   * @param req Request as rules see it
+   * @param metadata Call metadata (carries the session)
+   * @returns The stub, or undefined to use the file rule
+   */
+  resolveStub(rule: string, req: unknown, metadata: MetadataMap): StubInfo | undefined {
+    if (this.stubs.length === 0) return undefined;
+    const session = sessionOf(metadata);
+    const candidates = this.stubs
+      .filter((s) => s.rule === rule && (s.session === undefined || s.session === session))
+      .reverse()
+      .sort((a, b) => Number(b.session !== undefined) - Number(a.session !== undefined));
+    return candidates.find((s) => hasMatchingResponse(s.doc, req, metadata));
+  }
+}
+
+/**
+ * Global stub store instance
+ *
+ * This instance is shared across both gRPC and Connect RPC servers
+ * so a stub answers calls from every protocol.
+ */
+export const stubStore = new StubStore();
@@ -1,11 +1,21 @@
 export interface MatchSpec {
   metadata?: Record<string, unknown>;
   request?: Record<string, unknown>;
+  // CEL expression over request and metadata; must evaluate to true
+  cel?: string;
+  // Nested match blocks: at least one (any) / every one (all) must pass
+  any?: MatchSpec[];
+  all?: MatchSpec[];
 }
 
 export interface ResponseOption {
   when?: Record<string, unknown>;
+  // Match block that must also pass for this response; the rule loader sets it from
+  // a file's top-level match when a method's rules span several files
+  match?: MatchSpec;
   body?: unknown;
+  // Initial metadata (gRPC) / HTTP response headers (Connect); values are templated
+  headers?: Record<string, string | number | boolean>;
   trailers?: Record<string, string | number | boolean>;
   delay_ms?: number;
   // Higher number wins among matched candidates; defaults to 0
@@ -18,11 +28,81 @@ export interface ResponseOption {
   stream_loop?: boolean;
   // Randomize order of stream_items in each loop iteration
   stream_random_order?: boolean;
+  // Only eligible while the rule's scenario is in this state
+  required_state?: string;
+  // Move the rule's scenario to this state once this response is selected
+  new_state?: string;
+  // Rich error details (google.rpc.Status) sent with a non-OK grpc-status trailer
+  error?: {
+    details?: ErrorDetail[];
+  };
+  // Steps served in order, one per call selecting this response; each step
+  // overrides the fields above (e.g. fail once with UNAVAILABLE, then succeed)
+  sequence?: SequenceStep[];
+  // What happens after the last step: repeat it (default), start over, or
+  // fail with FAILED_PRECONDITION
+  sequence_end?: "repeat_last" | "cycle" | "error";
+}
+
+export type SequenceStep = Omit<ResponseOption, "when" | "match" | "priority" | "required_state" | "sequence" | "sequence_end">;
+
+// A google.rpc error detail: "@type" names the message (e.g. google.rpc.ErrorInfo),
+// the other keys are its fields in proto JSON form
+export interface ErrorDetail {
+  "@type": string;
+  [field: string]: unknown;
 }
 
 export interface RuleDoc {
+  // Method the file answers (e.g. helloworld.Greeter/SayHello); defaults to the file name
+  target?: string;
   match?: MatchSpec;
   responses?: ResponseOption[];
+  // Scenario name shared by rules that drive one stateful flow
+  scenario?: string;
+  // Fault injection applied to every call of this method (overrides the global profile)
+  faults?: FaultProfile;
+  // Bidi streams: "per_message" answers each inbound message as it arrives
+  // (request.* is that message, stream.index its position); default "aggregate"
+  bidi_mode?: "aggregate" | "per_message";
+}
+
+export interface FaultProfile {
+  // Fail the call with a status instead of answering
+  error?: {
+    probability: number;
+    // Status name (e.g. UNAVAILABLE) or number; defaults to UNAVAILABLE
+    code?: string | number;
+    message?: string;
+  };
+  // Extra latency added before the call is answered
+  latency?: {
+    // uniform: min_ms..max_ms; normal: mean_ms +/- stddev_ms. Defaults to uniform
+    distribution?: "uniform" | "normal";
+    min_ms?: number;
+    max_ms?: number;
+    mean_ms?: number;
+    stddev_ms?: number;
+    // Tail spike that replaces the sampled latency
+    spike_ms?: number;
+    // Chance of a spike; defaults to 0.01 (the p99)
+    spike_probability?: number;
+  };
+  // Terminate server/bidi streams after a number of messages
+  stream_abort?: {
+    // Messages sent before the abort; defaults to 0
+    after_items?: number;
+    // Defaults to 1 (every stream)
+    probability?: number;
+    code?: string | number;
+    message?: string;
+    // Drop the connection instead of sending a status
+    drop?: boolean;
+  };
+  // Drop the connection without sending any status
+  drop?: {
+    probability: number;
+  };
 }
 
 export type MetadataMap = Record<string, unknown>;
@@ -37,6 +37,12 @@ export interface NormalizedRequest {
   
   /** Whether this is a server streaming response */
   responseStream: boolean;
+
+  /** Wire protocol the request arrived on (recorded in the request journal) */
+  protocol?: "grpc" | "grpc-web" | "connect";
+
+  /** Remote address of the caller (recorded in the access log) */
+  peer?: string;
 }
 
 /**
@@ -92,6 +98,9 @@ export interface NormalizedError {
   
   /** Optional error details (e.g., validation violations) */
   details?: any[];
+
+  /** Drop the connection instead of sending the status (fault injection) */
+  drop?: boolean;
 }
 
 /**
@@ -9,6 +9,18 @@
  * - Validation runtime for request validation
  * - Rule matcher for rule matching
  * - Response selector for response selection
+ * - Scenario store for stateful rules
+ * - Sequence store for sequenced responses
+ * - Proxy runtime for forwarding unmatched calls upstream
+ * - Request journal for verifying received calls
+ * - Shared metrics for the /metrics endpoint
+ * - Tracing runtime for OpenTelemetry server spans
+ * - Logging runtime for the access log
+ * - Fault injector for chaos testing (latency, errors, drops, stream aborts)
+ * - Auto-mock for answering unruled calls from the response schema
+ *
+ * Stores and runtimes come from the call's HandlerContext: the process-wide
+ * ones by default, or those of a createWishmock() instance.
  * 
  * Performance Characteristics:
  * - Latency: ~0.002ms mean per request (P95: 0.003ms)
@@ -26,9 +38,45 @@ import type {
   NormalizedResponse,
   NormalizedError,
 } from "../types/normalized.js";
-import { runtime as validationRuntime } from "../../infrastructure/validation/runtime.js";
-import { selectResponse } from "./selectResponse.js";
-import { sharedMetrics } from "../metrics/sharedMetrics.js";
+import { isNormalizedError } from "../types/normalized.js";
+import { runtime as loggingRuntime } from "../../infrastructure/logging/runtime.js";
+import { toLogger, type Logger, type LoggerLike } from "../../infrastructure/logging/logger.js";
+import type { UpstreamCall, UpstreamStatus } from "../../infrastructure/proxy/types.js";
+import { selectResponseEntry, hasMatchingResponse } from "./selectResponse.js";
+import { resolveScenarioRule, advanceScenario } from "./scenarioState.js";
+import { advanceSequence } from "./sequenceState.js";
+import { sessionOf } from "../session.js";
+import type { FaultPlan } from "../faults/faultInjector.js";
+import { defaultHandlerContext, type HandlerContext } from "./handlerContext.js";
+
+/**
+ * Per-call details collected while a request is handled (for the request
+ * journal, metrics and stream fault injection)
+ */
+interface CallTrace {
+  service: string;
+  method: string;
+  metadata: Record<string, string>;
+  request: unknown;
+  protocol?: NormalizedRequest["protocol"];
+  peer?: string;
+  /** Logger the call is handled with (receives the access entry) */
+  logger: Logger;
+  /** Stores and runtimes the call is handled against */
+  context: HandlerContext;
+  ruleKey: string | null;
+  /** Stub answering the call (unset when the file rule does) */
+  stubId?: string;
+  responseIndex: number | null;
+  proxied: boolean;
+  faults: FaultPlan | null;
+  /** Messages read from a client/bidi stream */
+  messagesReceived: number;
+  /** Messages written to a server/bidi stream */
+  messagesSent: number;
+  receivedAt: Date;
+  startedAt: number;
+}
 
 /**
  * Handle a unary request (single request, single response)
@@ -41,45 +89,84 @@ import { sharedMetrics } from "../metrics/sharedMetrics.js";
  * 
  * @param request Normalized request
  * @param rulesIndex Map of rule keys to rule documents
- * @param logger Logger function
+ * @param logger Logger (or a function receiving every message)
+ * @param context Stores and runtimes to use (default: the process-wide ones)
  * @returns Promise resolving to normalized response or error
  */
 export async function handleUnaryRequest(
   request: NormalizedRequest,
   rulesIndex: Map<string, RuleDoc>,
-  logger: (...args: any[]) => void
+  logger: LoggerLike,
+  context: HandlerContext = defaultHandlerContext
+): Promise<NormalizedResponse | NormalizedError> {
+  const log = toLogger(logger);
+  const trace = beginTrace(log, context, request);
+  const result = await processUnaryRequest(request, rulesIndex, log, trace);
+  finishTrace(trace, result);
+  return result;
+}
+
+async function processUnaryRequest(
+  request: NormalizedRequest,
+  rulesIndex: Map<string, RuleDoc>,
+  logger: Logger,
+  trace: CallTrace
 ): Promise<NormalizedResponse | NormalizedError> {
-  const { service, method, data, metadata, requestType } = request;
+  const { metrics, faults, proxy, autoMock } = trace.context;
+  const { service, method, data, metadata, requestType, responseType } = request;
   const ruleKey = `${service}.${method}`.toLowerCase();
 
   try {
     // Step 1: Validate request
-    const validationError = validateRequest(requestType, data);
+    const validationError = validateRequest(trace.context, requestType, data);
     if (validationError) {
-      logger(`[shared] ${service}/${method} - validation failed`);
+      logger.debug(`[shared] ${service}/${method} - validation failed`);
       return validationError;
     }
 
-    logger(`[shared] ${service}/${method} - validation passed`);
+    logger.debug(`[shared] ${service}/${method} - validation passed`);
 
     // Step 2: Match rule
-    const rule = rulesIndex.get(ruleKey);
+    const rule = findRule(trace, rulesIndex, ruleKey, data, metadata);
 
     // Track rule match attempt
-    sharedMetrics.recordRuleMatchAttempt(ruleKey, !!rule);
+    metrics.recordRuleMatchAttempt(ruleKey, !!rule);
+
+    // Inject faults from the rule's profile (or the global one)
+    trace.faults = faults.plan(faults.profileFor(rule));
+    const fault = await injectFaults(trace.faults, service, method, logger);
+    if (fault) {
+      return fault;
+    }
+
+    if (shouldForward(trace.context, rule, data, metadata)) {
+      logger.debug(`[shared] ${service}/${method} - no rule matched, forwarding to ${proxy.getTarget()}`);
+      trace.proxied = true;
+      return await lastResult(forwardToUpstream(
+        trace.context,
+        { ...request, messages: [data], requestStream: false, responseStream: false },
+        data,
+        logger
+      ));
+    }
 
     if (!rule) {
-      logger(`[shared] ${service}/${method} - no rule matched`);
+      if (autoMock.isEnabled()) {
+        logger.debug(`[shared] ${service}/${method} - no rule matched, auto-mocking ${responseType.fullName}`);
+        return { data: autoMock.message(responseType, data) };
+      }
+      logger.debug(`[shared] ${service}/${method} - no rule matched`);
       return {
         code: "UNIMPLEMENTED",
         message: `No rule matched for ${service}/${method}`,
       };
     }
 
-    logger(`[shared] ${service}/${method} - rule matched: ${ruleKey}`);
+    logger.debug(`[shared] ${service}/${method} - rule matched: ${ruleKey}`);
+    trace.ruleKey = ruleKey;
 
     // Step 3: Select response
-    const selected = selectResponse(rule, data, metadata);
+    const selected = selectScenarioResponse(rule, data, metadata, service, method, logger, trace);
     const responseData = selected?.body ?? {};
 
     // Step 4: Check for error response
@@ -92,24 +179,26 @@ export async function handleUnaryRequest(
         const message = String(trailers["grpc-message"] ?? "mock error");
         const code = grpcStatusToCode(status);
 
-        logger(`[shared] ${service}/${method} - returning error: ${code}`);
+        logger.debug(`[shared] ${service}/${method} - returning error: ${code}`);
 
         return {
           code,
           message,
+          ...(selected?.error?.details && { details: selected.error.details }),
         };
       }
     }
 
     // Step 5: Return normalized response
-    logger(`[shared] ${service}/${method} - returning success response`);
+    logger.debug(`[shared] ${service}/${method} - returning success response`);
 
     return {
       data: responseData,
+      metadata: extractHeaders(selected?.headers),
       trailer: extractTrailers(trailers),
     };
   } catch (error: any) {
-    logger(`[shared] ${service}/${method} - internal error:`, error?.message || error);
+    logger.error(`[shared] ${service}/${method} - internal error:`, error?.message || error);
 
     return {
       code: "INTERNAL",
@@ -131,22 +220,25 @@ export async function handleUnaryRequest(
  * 4. Track metrics and emit events for monitoring
  * 5. Return error if validation fails, null if passes
  * 
+ * @param context Stores and runtimes of the call
  * @param requestType Protobuf type for the request
  * @param data Request data
  * @returns NormalizedError if validation fails, null otherwise
  */
 function validateRequest(
+  context: HandlerContext,
   requestType: any,
   data: unknown
 ): NormalizedError | null {
+  const { validation, metrics } = context;
   // Skip if validation is not active (VALIDATION_ENABLED=false)
-  if (!validationRuntime.active()) {
+  if (!validation.active()) {
     return null;
   }
 
   // Get the fully qualified type name for validator lookup
   const typeName = requestType.fullName || requestType.name;
-  const validator = validationRuntime.getValidator(typeName);
+  const validator = validation.getValidator(typeName);
 
   if (!validator) {
     // No validator for this type (no constraints defined in proto)
@@ -159,7 +251,7 @@ function validateRequest(
 
     if (!result.ok) {
       // Validation failed - track metrics for monitoring
-      sharedMetrics.recordValidationCheck(typeName, false);
+      metrics.recordValidationCheck(typeName, false);
 
       // Emit validation failure events for observability
       // These events can be consumed by monitoring systems
@@ -168,7 +260,7 @@ function validateRequest(
         if (Array.isArray(violations) && violations.length > 0) {
           // Emit one event per violation for detailed tracking
           for (const v of violations) {
-            validationRuntime.emitValidationEvent({
+            validation.emitValidationEvent({
               typeName,
               result: "failure",
               details: {
@@ -180,7 +272,7 @@ function validateRequest(
           }
         } else {
           // Fallback: emit a single failure event if no violations array
-          validationRuntime.emitValidationEvent({
+          validation.emitValidationEvent({
             typeName,
             result: "failure",
             details: { grpc_status: "InvalidArgument" },
@@ -200,11 +292,11 @@ function validateRequest(
     }
 
     // Validation passed - track success metrics
-    sharedMetrics.recordValidationCheck(typeName, true);
+    metrics.recordValidationCheck(typeName, true);
 
     // Emit validation success event for monitoring
     try {
-      validationRuntime.emitValidationEvent({
+      validation.emitValidationEvent({
         typeName,
         result: "success",
         details: {},
@@ -224,6 +316,386 @@ function validateRequest(
   }
 }
 
+/**
+ * Select a response honoring the rule's scenario state
+ * 
+ * Only responses allowed by the current scenario state are considered, and
+ * the scenario is moved to the selected response's `new_state` (if any).
+ * Rules without a `scenario` behave exactly like plain selectResponse.
+ * Sequenced responses are resolved to the step for this call.
+ * 
+ * @param rule Matched rule document
+ * @param data Request data (or aggregated stream request)
+ * @param metadata Request metadata
+ * @param service Service name (for logging)
+ * @param method Method name (for logging)
+ * @param logger Logger
+ * @param trace Call trace receiving the selected response index
+ * @param streamIndex Position of the inbound message (interactive bidi streams)
+ * @returns Selected (templated) response option
+ */
+function selectScenarioResponse(
+  rule: RuleDoc,
+  data: unknown,
+  metadata: Record<string, string>,
+  service: string,
+  method: string,
+  logger: Logger,
+  trace: CallTrace,
+  streamIndex?: number
+) {
+  const { scenarios, sequences, templateSeed } = trace.context;
+  const session = sessionOf(metadata);
+  const resolved = resolveScenarioRule(rule, scenarios, session);
+  const { response: entry, index } = selectResponseEntry(resolved, data, metadata, streamIndex, undefined, templateSeed);
+  // Report the index within the full rule, not the scenario-filtered view
+  trace.responseIndex = index < 0 ? -1 : (rule.responses || []).indexOf(resolved.responses![index]);
+  const { response: selected, step } = advanceSequence(trace.ruleKey ?? `${service}.${method}`.toLowerCase(), trace.responseIndex, entry, sequences, session, trace.stubId);
+  if (step !== undefined) {
+    logger.debug(`[shared] ${service}/${method} - sequence ${step < 0 ? "exhausted" : `step ${step + 1}/${entry.sequence!.length}`}`);
+  }
+  const next = advanceScenario(rule, selected, scenarios, session);
+  if (next !== undefined) {
+    logger.debug(`[shared] ${service}/${method} - scenario ${rule.scenario} -> ${next}`);
+  }
+  return selected;
+}
+
+/**
+ * Start tracing a call
+ * 
+ * Streaming handlers fill in service, method and metadata once the first
+ * message arrives.
+ * 
+ * @param logger Logger the call is handled with
+ * @param context Stores and runtimes the call is handled against
+ * @param request Normalized request (omitted for client/bidi streams)
+ * @returns New call trace
+ */
+function beginTrace(logger: Logger, context: HandlerContext, request?: NormalizedRequest): CallTrace {
+  return {
+    logger,
+    context,
+    service: request?.service ?? "",
+    method: request?.method ?? "",
+    metadata: request?.metadata ?? {},
+    request: request?.data,
+    protocol: request?.protocol,
+    peer: request?.peer,
+    ruleKey: null,
+    responseIndex: null,
+    proxied: false,
+    faults: null,
+    messagesReceived: 0,
+    messagesSent: 0,
+    receivedAt: new Date(),
+    startedAt: performance.now(),
+  };
+}
+
+/**
+ * Record a finished call in the request journal, the shared metrics, the
+ * access log and (for calls carrying trace context) as a server span
+ * 
+ * @param trace Call trace
+ * @param outcome Final response or error (undefined means OK)
+ */
+function finishTrace(trace: CallTrace, outcome: NormalizedResponse | NormalizedError | undefined): void {
+  // Streams that ended before any message arrived have nothing to record
+  if (!trace.service) {
+    return;
+  }
+  const { metrics, journal, tracing } = trace.context;
+  const error = outcome && isNormalizedError(outcome) ? outcome : undefined;
+  const latencyMs = Math.round((performance.now() - trace.startedAt) * 1000) / 1000;
+  metrics.recordRequest({
+    protocol: trace.protocol,
+    service: trace.service,
+    method: trace.method,
+    status: error ? error.code : "OK",
+    latencyMs,
+  });
+  metrics.recordStreamMessages(trace.service, trace.method, "received", trace.messagesReceived);
+  metrics.recordStreamMessages(trace.service, trace.method, "sent", trace.messagesSent);
+  journal.record({
+    received_at: trace.receivedAt.toISOString(),
+    protocol: trace.protocol,
+    service: trace.service,
+    method: trace.method,
+    metadata: trace.metadata,
+    session: sessionOf(trace.metadata),
+    request: trace.request,
+    rule_key: trace.ruleKey,
+    response_index: trace.responseIndex,
+    proxied: trace.proxied,
+    status: error ? error.code : "OK",
+    message: error?.message,
+    latency_ms: latencyMs,
+  });
+  const access = loggingRuntime.accessEntry({
+    timestamp: trace.receivedAt.toISOString(),
+    protocol: trace.protocol,
+    peer: trace.peer,
+    service: trace.service,
+    method: trace.method,
+    status: error ? error.code : "OK",
+    message: error?.message,
+    latency_ms: latencyMs,
+    rule_key: trace.ruleKey,
+    response_index: trace.responseIndex,
+    proxied: trace.proxied,
+    session: sessionOf(trace.metadata),
+    messages_received: trace.messagesReceived || undefined,
+    messages_sent: trace.messagesSent || undefined,
+    request: trace.request,
+    response: outcome && !error ? (outcome as NormalizedResponse).data : undefined,
+  });
+  if (access) {
+    trace.logger.access(access);
+  }
+  tracing.recordServerCall({
+    service: trace.service,
+    method: trace.method,
+    metadata: trace.metadata,
+    protocol: trace.protocol,
+    status: error ? error.code : "OK",
+    message: error?.message,
+    ruleKey: trace.ruleKey,
+    responseIndex: trace.responseIndex,
+    proxied: trace.proxied,
+    receivedAt: trace.receivedAt,
+    latencyMs,
+  });
+}
+
+/**
+ * Relay a streaming handler's results and journal the call once it ends
+ * 
+ * A stream abandoned by the consumer before completion (e.g., the client
+ * cancelled) is recorded as CANCELLED.
+ * 
+ * @param results Results of the streaming handler
+ * @param trace Call trace
+ * @returns Async generator yielding the same results
+ */
+async function* traceStream(
+  results: AsyncGenerator<NormalizedResponse | NormalizedError>,
+  trace: CallTrace
+): AsyncGenerator<NormalizedResponse | NormalizedError> {
+  let outcome: NormalizedError | undefined;
+  let completed = false;
+  try {
+    for await (const result of results) {
+      if (isNormalizedError(result)) {
+        outcome = result;
+      } else {
+        trace.messagesSent++;
+      }
+      yield result;
+    }
+    completed = true;
+  } finally {
+    finishTrace(trace, outcome ?? (completed ? undefined : { code: "CANCELLED", message: "Call cancelled" }));
+  }
+}
+
+/**
+ * Apply the per-call fault plan before the call is answered
+ * 
+ * Waits for the injected latency, then decides whether the call is dropped
+ * or failed. Stream aborts are applied separately by abortStream.
+ * 
+ * @param plan Fault plan for the call (null when no faults apply)
+ * @param service Service name (for logging)
+ * @param method Method name (for logging)
+ * @param logger Logger
+ * @returns Error to answer with, or null to continue normally
+ */
+async function injectFaults(
+  plan: FaultPlan | null,
+  service: string,
+  method: string,
+  logger: Logger
+): Promise<NormalizedError | null> {
+  if (!plan) {
+    return null;
+  }
+
+  if (plan.delayMs > 0) {
+    logger.debug(`[shared] ${service}/${method} - fault: delaying ${plan.delayMs}ms`);
+    await new Promise((resolve) => setTimeout(resolve, plan.delayMs));
+  }
+
+  if (plan.drop) {
+    logger.debug(`[shared] ${service}/${method} - fault: dropping connection`);
+    return { code: "UNAVAILABLE", message: "Connection dropped by fault injection", drop: true };
+  }
+
+  if (plan.error) {
+    logger.debug(`[shared] ${service}/${method} - fault: returning ${plan.error.code}`);
+    return { ...plan.error };
+  }
+
+  return null;
+}
+
+/**
+ * Cut a response stream short when the call's fault plan says so
+ * 
+ * Once the planned number of messages has been relayed, the next message
+ * is replaced by the abort status (or a dropped connection) and the
+ * underlying stream is closed.
+ * 
+ * @param results Results of the streaming handler
+ * @param trace Call trace carrying the fault plan
+ * @param logger Logger
+ * @returns Async generator yielding the (possibly truncated) results
+ */
+async function* abortStream(
+  results: AsyncGenerator<NormalizedResponse | NormalizedError>,
+  trace: CallTrace,
+  logger: Logger
+): AsyncGenerator<NormalizedResponse | NormalizedError> {
+  let sent = 0;
+  for await (const result of results) {
+    const abort = trace.faults?.abort;
+    if (abort && !isNormalizedError(result)) {
+      if (sent >= abort.afterItems) {
+        logger.debug(`[shared] ${trace.service}/${trace.method} - fault: aborting stream after ${sent} messages`);
+        yield { code: abort.code, message: abort.message, drop: abort.drop || undefined };
+        return;
+      }
+      sent++;
+    }
+    yield result;
+  }
+}
+
+/**
+ * Rule answering a call: a runtime stub with a response for it, else the file rule
+ *
+ * @param trace Trace of the call (records the stub that answers)
+ * @param rulesIndex Map of rule keys to rule documents
+ * @param ruleKey Rule key of the called method
+ * @param data Request data (or aggregated stream request)
+ * @param metadata Request metadata
+ * @returns Rule document, or undefined when the method has no rule
+ */
+function findRule(
+  trace: CallTrace,
+  rulesIndex: Map<string, RuleDoc>,
+  ruleKey: string,
+  data: unknown,
+  metadata: Record<string, string>
+): RuleDoc | undefined {
+  const stub = trace.context.stubs.resolveStub(ruleKey, data, metadata);
+  trace.stubId = stub?.id;
+  return stub?.doc ?? rulesIndex.get(ruleKey);
+}
+
+/**
+ * Decide whether a call goes to the proxy upstream instead of the rules
+ * 
+ * Only applies while a proxy target is configured. A call is forwarded when
+ * there is no rule for the method, or when the rule has neither a matching
+ * `when` response nor a fallback (so recorded rules keep growing as new
+ * requests come in).
+ * 
+ * @param context Stores and runtimes of the call
+ * @param rule Rule document for the method (if any)
+ * @param data Request data (or aggregated stream request)
+ * @param metadata Request metadata
+ * @returns True if the call should be forwarded
+ */
+function shouldForward(
+  context: HandlerContext,
+  rule: RuleDoc | undefined,
+  data: unknown,
+  metadata: Record<string, string>
+): boolean {
+  if (!context.proxy.active()) {
+    return false;
+  }
+  return !rule || !hasMatchingResponse(resolveScenarioRule(rule, context.scenarios, sessionOf(metadata)), data, metadata);
+}
+
+/**
+ * Forward a call upstream and normalize what comes back
+ * 
+ * Messages are relayed as they arrive. The last message is held back until
+ * the upstream finishes so it can carry the upstream trailers; a non-OK
+ * upstream status is relayed as an error. Unary-style responses also carry
+ * the upstream initial metadata.
+ * 
+ * @param context Stores and runtimes of the call
+ * @param call Call to forward
+ * @param recordAs Request as rules see it (for recording)
+ * @param logger Logger
+ * @returns Async generator yielding normalized responses or errors
+ */
+async function* forwardToUpstream(
+  context: HandlerContext,
+  call: UpstreamCall,
+  recordAs: unknown,
+  logger: Logger
+): AsyncGenerator<NormalizedResponse | NormalizedError> {
+  const { service, method } = call;
+  const upstream = context.proxy.forward(call, recordAs, logger);
+  const pending: unknown[] = [];
+
+  let status: UpstreamStatus;
+  try {
+    let next = await upstream.next();
+    while (!next.done) {
+      if (pending.length > 0) {
+        yield { data: pending.shift() };
+      }
+      pending.push(next.value);
+      next = await upstream.next();
+    }
+    status = next.value;
+  } finally {
+    // A cancelled downstream call ends the upstream call too
+    await upstream.return(undefined as never);
+  }
+  if (status.code !== 0) {
+    if (pending.length > 0) {
+      yield { data: pending.shift() };
+    }
+    const code = grpcStatusToCode(status.code);
+    logger.debug(`[shared] ${service}/${method} - upstream returned error: ${code}`);
+    yield {
+      code,
+      message: status.message || `Upstream error for ${service}/${method}`,
+    };
+    return;
+  }
+
+  logger.debug(`[shared] ${service}/${method} - upstream returned success response`);
+  if (call.responseStream && pending.length === 0) {
+    return;
+  }
+  const headers = !call.responseStream && Object.keys(status.headers).length > 0 ? status.headers : undefined;
+  yield {
+    data: pending.length > 0 ? pending.shift() : {},
+    metadata: headers,
+    trailer: extractTrailers(status.trailers),
+  };
+}
+
+/**
+ * Drain a forwarded call that produces a single response
+ */
+async function lastResult(
+  results: AsyncGenerator<NormalizedResponse | NormalizedError>
+): Promise<NormalizedResponse | NormalizedError> {
+  let last: NormalizedResponse | NormalizedError = { data: {} };
+  for await (const result of results) {
+    last = result;
+  }
+  return last;
+}
+
 /**
  * Convert gRPC status code to status code name
  * 
@@ -293,6 +765,28 @@ function extractTrailers(
   return Object.keys(result).length > 0 ? result : undefined;
 }
 
+/**
+ * Extract headers from response option
+ * 
+ * Converts the rule's (already templated) headers to strings so they can be
+ * sent as gRPC initial metadata or HTTP response headers.
+ * 
+ * @param headers Headers from response option (can contain mixed types)
+ * @returns Headers as string record or undefined if empty
+ */
+function extractHeaders(
+  headers: Record<string, string | number | boolean> | undefined
+): Record<string, string> | undefined {
+  if (!headers || Object.keys(headers).length === 0) {
+    return undefined;
+  }
+  return Object.fromEntries(
+    Object.entries(headers)
+      .filter(([, value]) => value !== undefined && value !== null)
+      .map(([key, value]) => [key, String(value)])
+  );
+}
+
 /**
  * Fisher-Yates shuffle algorithm for truly random array shuffling
  * 
@@ -322,36 +816,75 @@ function fisherYatesShuffle<T>(array: T[]): T[] {
  * 
  * @param request Normalized request
  * @param rulesIndex Map of rule keys to rule documents
- * @param logger Logger function
+ * @param logger Logger (or a function receiving every message)
+ * @param context Stores and runtimes to use (default: the process-wide ones)
  * @returns Async generator yielding normalized responses or errors
  */
 export async function* handleServerStreamingRequest(
   request: NormalizedRequest,
   rulesIndex: Map<string, RuleDoc>,
-  logger: (...args: any[]) => void
+  logger: LoggerLike,
+  context: HandlerContext = defaultHandlerContext
+): AsyncGenerator<NormalizedResponse | NormalizedError> {
+  const log = toLogger(logger);
+  const trace = beginTrace(log, context, request);
+  yield* traceStream(abortStream(processServerStreamingRequest(request, rulesIndex, log, trace), trace, log), trace);
+}
+
+async function* processServerStreamingRequest(
+  request: NormalizedRequest,
+  rulesIndex: Map<string, RuleDoc>,
+  logger: Logger,
+  trace: CallTrace
 ): AsyncGenerator<NormalizedResponse | NormalizedError> {
-  const { service, method, data, metadata, requestType } = request;
+  const { metrics, faults, proxy, autoMock } = trace.context;
+  const { service, method, data, metadata, requestType, responseType } = request;
   const ruleKey = `${service}.${method}`.toLowerCase();
 
   try {
     // Step 1: Validate request
-    const validationError = validateRequest(requestType, data);
+    const validationError = validateRequest(trace.context, requestType, data);
     if (validationError) {
-      logger(`[shared] ${service}/${method} - validation failed`);
+      logger.debug(`[shared] ${service}/${method} - validation failed`);
       yield validationError;
       return;
     }
 
-    logger(`[shared] ${service}/${method} - validation passed`);
+    logger.debug(`[shared] ${service}/${method} - validation passed`);
 
     // Step 2: Match rule
-    const rule = rulesIndex.get(ruleKey);
+    const rule = findRule(trace, rulesIndex, ruleKey, data, metadata);
 
     // Track rule match attempt
-    sharedMetrics.recordRuleMatchAttempt(ruleKey, !!rule);
+    metrics.recordRuleMatchAttempt(ruleKey, !!rule);
+
+    // Inject faults from the rule's profile (or the global one)
+    trace.faults = faults.plan(faults.profileFor(rule));
+    const fault = await injectFaults(trace.faults, service, method, logger);
+    if (fault) {
+      yield fault;
+      return;
+    }
+
+    if (shouldForward(trace.context, rule, data, metadata)) {
+      logger.debug(`[shared] ${service}/${method} - no rule matched, forwarding to ${proxy.getTarget()}`);
+      trace.proxied = true;
+      yield* forwardToUpstream(
+        trace.context,
+        { ...request, messages: [data], requestStream: false, responseStream: true },
+        data,
+        logger
+      );
+      return;
+    }
 
     if (!rule) {
-      logger(`[shared] ${service}/${method} - no rule matched`);
+      if (autoMock.isEnabled()) {
+        logger.debug(`[shared] ${service}/${method} - no rule matched, auto-mocking ${responseType.fullName}`);
+        for (const item of autoMock.stream(responseType, data)) yield { data: item };
+        return;
+      }
+      logger.debug(`[shared] ${service}/${method} - no rule matched`);
       yield {
         code: "UNIMPLEMENTED",
         message: `No rule matched for ${service}/${method}`,
@@ -359,11 +892,12 @@ export async function* handleServerStreamingRequest(
       return;
     }
 
-    logger(`[shared] ${service}/${method} - rule matched: ${ruleKey}`);
+    logger.debug(`[shared] ${service}/${method} - rule matched: ${ruleKey}`);
+    trace.ruleKey = ruleKey;
 
     // Step 3: Select response and get streaming configuration
     // The selectResponse function evaluates the rule and returns the matched response option
-    const selected = selectResponse(rule, data, metadata);
+    const selected = selectScenarioResponse(rule, data, metadata, service, method, logger, trace);
 
     // Extract streaming configuration from the selected response option
     // stream_items: array of messages to stream (defaults to single body)
@@ -389,12 +923,13 @@ export async function* handleServerStreamingRequest(
         const message = String(trailers["grpc-message"] ?? "mock error");
         const code = grpcStatusToCode(status);
 
-        logger(`[shared] ${service}/${method} - returning error: ${code}`);
+        logger.debug(`[shared] ${service}/${method} - returning error: ${code}`);
 
         // Yield error and stop streaming
         yield {
           code,
           message,
+          ...(selected?.error?.details && { details: selected.error.details }),
         };
         return;
       }
@@ -406,7 +941,8 @@ export async function* handleServerStreamingRequest(
     }
 
     // Step 4: Stream responses
-    logger(`[shared] ${service}/${method} - streaming ${baseItems.length} items (loop: ${shouldLoop}, random: ${randomOrder})`);
+    logger.debug(`[shared] ${service}/${method} - streaming ${baseItems.length} items (loop: ${shouldLoop}, random: ${randomOrder})`);
+    let headers = extractHeaders(selected?.headers);
 
     // Loop indefinitely if stream_loop is true, otherwise stream once
     do {
@@ -418,11 +954,13 @@ export async function* handleServerStreamingRequest(
         // Use the shuffled item directly
         const item = items[i];
 
-        // Yield the response message
+        // Yield the response message (headers go out with the first one)
         yield {
           data: item,
+          metadata: headers,
           trailer: extractTrailers(trailers),
         };
+        headers = undefined;
 
         // Delay between items (except after last item if not looping)
         // This simulates realistic streaming behavior with time between messages
@@ -432,9 +970,9 @@ export async function* handleServerStreamingRequest(
       }
     } while (shouldLoop);
 
-    logger(`[shared] ${service}/${method} - streaming complete`);
+    logger.debug(`[shared] ${service}/${method} - streaming complete`);
   } catch (error: any) {
-    logger(`[shared] ${service}/${method} - internal error:`, error?.message || error);
+    logger.error(`[shared] ${service}/${method} - internal error:`, error?.message || error);
 
     yield {
       code: "INTERNAL",
@@ -454,18 +992,35 @@ export async function* handleServerStreamingRequest(
  * 
  * @param requests Async iterable of normalized requests
  * @param rulesIndex Map of rule keys to rule documents
- * @param logger Logger function
+ * @param logger Logger (or a function receiving every message)
+ * @param context Stores and runtimes to use (default: the process-wide ones)
  * @returns Promise resolving to normalized response or error
  */
 export async function handleClientStreamingRequest(
   requests: AsyncIterable<NormalizedRequest>,
   rulesIndex: Map<string, RuleDoc>,
-  logger: (...args: any[]) => void
+  logger: LoggerLike,
+  context: HandlerContext = defaultHandlerContext
+): Promise<NormalizedResponse | NormalizedError> {
+  const log = toLogger(logger);
+  const trace = beginTrace(log, context);
+  const result = await processClientStreamingRequest(requests, rulesIndex, log, trace);
+  finishTrace(trace, result);
+  return result;
+}
+
+async function processClientStreamingRequest(
+  requests: AsyncIterable<NormalizedRequest>,
+  rulesIndex: Map<string, RuleDoc>,
+  logger: Logger,
+  trace: CallTrace
 ): Promise<NormalizedResponse | NormalizedError> {
+  const { validation, metrics, faults, proxy, autoMock } = trace.context;
   let service = "";
   let method = "";
   let metadata: Record<string, string> = {};
   let requestType: any = null;
+  let responseType: any = null;
   const messages: any[] = [];
 
   try {
@@ -479,14 +1034,17 @@ export async function handleClientStreamingRequest(
         method = request.method;
         metadata = request.metadata;
         requestType = request.requestType;
+        responseType = request.responseType;
+        Object.assign(trace, { service, method, metadata, protocol: request.protocol, peer: request.peer });
       }
+      trace.messagesReceived++;
 
       // Validate each message in per_message mode
       // This mode validates messages as they arrive (fail-fast)
-      if (validationRuntime.active() && validationRuntime.mode() === 'per_message') {
-        const validationError = validateRequest(request.requestType, request.data);
+      if (validation.active() && validation.mode() === 'per_message') {
+        const validationError = validateRequest(trace.context, request.requestType, request.data);
         if (validationError) {
-          logger(`[shared] ${service}/${method} - validation failed on message ${messages.length + 1}`);
+          logger.debug(`[shared] ${service}/${method} - validation failed on message ${messages.length + 1}`);
           return validationError;
         }
       }
@@ -496,22 +1054,22 @@ export async function handleClientStreamingRequest(
     }
 
     const ruleKey = `${service}.${method}`.toLowerCase();
-    logger(`[shared] ${service}/${method} - received ${messages.length} messages`);
+    logger.debug(`[shared] ${service}/${method} - received ${messages.length} messages`);
 
     // Step 2: Validate in aggregate mode
     // This mode validates all messages after collection is complete
     // Useful when validation depends on the full set of messages
-    if (validationRuntime.active() && validationRuntime.mode() === 'aggregate') {
+    if (validation.active() && validation.mode() === 'aggregate') {
       for (let i = 0; i < messages.length; i++) {
-        const validationError = validateRequest(requestType, messages[i]);
+        const validationError = validateRequest(trace.context, requestType, messages[i]);
         if (validationError) {
-          logger(`[shared] ${service}/${method} - aggregate validation failed on message ${i + 1}`);
+          logger.debug(`[shared] ${service}/${method} - aggregate validation failed on message ${i + 1}`);
           return validationError;
         }
       }
     }
 
-    logger(`[shared] ${service}/${method} - validation passed`);
+    logger.debug(`[shared] ${service}/${method} - validation passed`);
 
     // Step 3: Build aggregated request object
     // This object provides convenient access to the message stream for rule matching
@@ -523,25 +1081,49 @@ export async function handleClientStreamingRequest(
       last: messages[messages.length - 1],  // Last message
       count: messages.length, // Total message count
     };
+    trace.request = aggregatedRequest;
 
     // Step 4: Match rule
-    const rule = rulesIndex.get(ruleKey);
+    const rule = findRule(trace, rulesIndex, ruleKey, aggregatedRequest, metadata);
 
     // Track rule match attempt
-    sharedMetrics.recordRuleMatchAttempt(ruleKey, !!rule);
+    metrics.recordRuleMatchAttempt(ruleKey, !!rule);
+
+    // Inject faults from the rule's profile (or the global one)
+    trace.faults = faults.plan(faults.profileFor(rule));
+    const fault = await injectFaults(trace.faults, service, method, logger);
+    if (fault) {
+      return fault;
+    }
+
+    if (shouldForward(trace.context, rule, aggregatedRequest, metadata)) {
+      logger.debug(`[shared] ${service}/${method} - no rule matched, forwarding to ${proxy.getTarget()}`);
+      trace.proxied = true;
+      return await lastResult(forwardToUpstream(
+        trace.context,
+        { service, method, metadata, messages, requestType, responseType, requestStream: true, responseStream: false },
+        { stream: messages },
+        logger
+      ));
+    }
 
     if (!rule) {
-      logger(`[shared] ${service}/${method} - no rule matched`);
+      if (autoMock.isEnabled() && responseType) {
+        logger.debug(`[shared] ${service}/${method} - no rule matched, auto-mocking ${responseType.fullName}`);
+        return { data: autoMock.message(responseType, messages) };
+      }
+      logger.debug(`[shared] ${service}/${method} - no rule matched`);
       return {
         code: "UNIMPLEMENTED",
         message: `No rule matched for ${service}/${method}`,
       };
     }
 
-    logger(`[shared] ${service}/${method} - rule matched: ${ruleKey}`);
+    logger.debug(`[shared] ${service}/${method} - rule matched: ${ruleKey}`);
+    trace.ruleKey = ruleKey;
 
     // Step 5: Select response
-    const selected = selectResponse(rule, aggregatedRequest, metadata);
+    const selected = selectScenarioResponse(rule, aggregatedRequest, metadata, service, method, logger, trace);
     const responseData = selected?.body ?? {};
 
     // Step 6: Check for error response
@@ -554,24 +1136,26 @@ export async function handleClientStreamingRequest(
         const message = String(trailers["grpc-message"] ?? "mock error");
         const code = grpcStatusToCode(status);
 
-        logger(`[shared] ${service}/${method} - returning error: ${code}`);
+        logger.debug(`[shared] ${service}/${method} - returning error: ${code}`);
 
         return {
           code,
           message,
+          ...(selected?.error?.details && { details: selected.error.details }),
         };
       }
     }
 
     // Step 7: Return normalized response
-    logger(`[shared] ${service}/${method} - returning success response`);
+    logger.debug(`[shared] ${service}/${method} - returning success response`);
 
     return {
       data: responseData,
+      metadata: extractHeaders(selected?.headers),
       trailer: extractTrailers(trailers),
     };
   } catch (error: any) {
-    logger(`[shared] ${service}/${method} - internal error:`, error?.message || error);
+    logger.error(`[shared] ${service}/${method} - internal error:`, error?.message || error);
 
     return {
       code: "INTERNAL",
@@ -580,6 +1164,77 @@ export async function handleClientStreamingRequest(
   }
 }
 
+/**
+ * Answer one inbound message of a per_message bidi stream
+ * 
+ * The message is matched against the rule's responses with `request.*`
+ * bound to it and `stream.index` set to its position. The reply (its body,
+ * or each of its `stream_items`) is sent right away. Messages that match no
+ * response get no reply.
+ * 
+ * @param rule Rule for the method
+ * @param message Inbound message
+ * @param index Position of the message in the stream (0-based)
+ * @param metadata Request metadata
+ * @param service Service name (for logging)
+ * @param method Method name (for logging)
+ * @param logger Logger
+ * @param trace Call trace
+ * @returns True once an error was sent and the call must end
+ */
+async function* replyToMessage(
+  rule: RuleDoc,
+  message: unknown,
+  index: number,
+  metadata: Record<string, string>,
+  service: string,
+  method: string,
+  logger: Logger,
+  trace: CallTrace
+): AsyncGenerator<NormalizedResponse | NormalizedError, boolean> {
+  const selected = selectScenarioResponse(rule, message, metadata, service, method, logger, trace, index);
+  if (trace.responseIndex === -1) {
+    logger.debug(`[shared] ${service}/${method} - message ${index}: no response matched, not replying`);
+    return false;
+  }
+
+  const trailers = selected.trailers as Record<string, string | number | boolean> | undefined;
+  if (trailers) {
+    const statusRaw = trailers["grpc-status"];
+    const status = typeof statusRaw === "number" ? statusRaw : Number(statusRaw ?? 0);
+
+    if (status && status !== 0) {
+      const code = grpcStatusToCode(status);
+      logger.debug(`[shared] ${service}/${method} - message ${index}: returning error: ${code}`);
+      yield {
+        code,
+        message: String(trailers["grpc-message"] ?? "mock error"),
+        ...(selected.error?.details && { details: selected.error.details }),
+      };
+      return true;
+    }
+  }
+
+  if (selected.delay_ms) {
+    await new Promise((resolve) => setTimeout(resolve, selected.delay_ms));
+  }
+
+  const items = selected.stream_items || [selected.body ?? {}];
+  const streamDelay = selected.stream_delay_ms || 100;
+  logger.debug(`[shared] ${service}/${method} - message ${index}: replying with ${items.length} item(s)`);
+  for (let i = 0; i < items.length; i++) {
+    yield {
+      data: items[i],
+      metadata: i === 0 ? extractHeaders(selected.headers) : undefined,
+      trailer: extractTrailers(trailers),
+    };
+    if (i < items.length - 1) {
+      await new Promise((resolve) => setTimeout(resolve, streamDelay));
+    }
+  }
+  return false;
+}
+
 /**
  * Handle bidirectional streaming request (multiple requests, multiple responses)
  * 
@@ -589,24 +1244,43 @@ export async function handleClientStreamingRequest(
  * 3. Aggregates requests into a single request object
  * 4. Matches rule and yields multiple responses
  * 
+ * Rules with `bidi_mode: per_message` instead answer each request as it
+ * arrives (see replyToMessage).
+ * 
  * @param requests Async iterable of normalized requests
  * @param rulesIndex Map of rule keys to rule documents
- * @param logger Logger function
+ * @param logger Logger (or a function receiving every message)
+ * @param context Stores and runtimes to use (default: the process-wide ones)
  * @returns Async generator yielding normalized responses or errors
  */
 export async function* handleBidiStreamingRequest(
   requests: AsyncIterable<NormalizedRequest>,
   rulesIndex: Map<string, RuleDoc>,
-  logger: (...args: any[]) => void
+  logger: LoggerLike,
+  context: HandlerContext = defaultHandlerContext
 ): AsyncGenerator<NormalizedResponse | NormalizedError> {
+  const log = toLogger(logger);
+  const trace = beginTrace(log, context);
+  yield* traceStream(abortStream(processBidiStreamingRequest(requests, rulesIndex, log, trace), trace, log), trace);
+}
+
+async function* processBidiStreamingRequest(
+  requests: AsyncIterable<NormalizedRequest>,
+  rulesIndex: Map<string, RuleDoc>,
+  logger: Logger,
+  trace: CallTrace
+): AsyncGenerator<NormalizedResponse | NormalizedError> {
+  const { validation, metrics, faults, proxy, autoMock } = trace.context;
   let service = "";
   let method = "";
   let metadata: Record<string, string> = {};
   let requestType: any = null;
+  let responseType: any = null;
   const messages: any[] = [];
+  let interactiveRule: RuleDoc | undefined;
 
   try {
-    // Step 1: Collect all requests
+    // Step 1: Collect all requests (or answer each one in per_message mode)
     for await (const request of requests) {
       // Capture metadata from first request
       if (messages.length === 0) {
@@ -614,37 +1288,75 @@ export async function* handleBidiStreamingRequest(
         method = request.method;
         metadata = request.metadata;
         requestType = request.requestType;
+        responseType = request.responseType;
+        Object.assign(trace, { service, method, metadata, protocol: request.protocol, peer: request.peer });
+
+        const firstRuleKey = `${service}.${method}`.toLowerCase();
+        const firstRule = findRule(trace, rulesIndex, firstRuleKey, request.data, metadata);
+        if (firstRule?.bidi_mode === "per_message") {
+          logger.debug(`[shared] ${service}/${method} - rule matched: ${firstRuleKey} (replying per message)`);
+          metrics.recordRuleMatchAttempt(firstRuleKey, true);
+          trace.ruleKey = firstRuleKey;
+          interactiveRule = firstRule;
+
+          trace.faults = faults.plan(faults.profileFor(firstRule));
+          const fault = await injectFaults(trace.faults, service, method, logger);
+          if (fault) {
+            yield fault;
+            return;
+          }
+        }
       }
+      trace.messagesReceived++;
 
-      // Validate each message in per_message mode
-      if (validationRuntime.active() && validationRuntime.mode() === 'per_message') {
-        const validationError = validateRequest(request.requestType, request.data);
+      // Validate each message in per_message mode (always, when replying per message)
+      if (validation.active() && (validation.mode() === 'per_message' || interactiveRule)) {
+        const validationError = validateRequest(trace.context, request.requestType, request.data);
         if (validationError) {
-          logger(`[shared] ${service}/${method} - validation failed on message ${messages.length + 1}`);
+          logger.debug(`[shared] ${service}/${method} - validation failed on message ${messages.length + 1}`);
           yield validationError;
           return;
         }
       }
 
       messages.push(request.data);
+
+      if (interactiveRule) {
+        trace.request = {
+          stream: messages,
+          items: messages,
+          first: messages[0],
+          last: messages[messages.length - 1],
+          count: messages.length,
+        };
+        const ended = yield* replyToMessage(interactiveRule, request.data, messages.length - 1, metadata, service, method, logger, trace);
+        if (ended) {
+          return;
+        }
+      }
+    }
+
+    if (interactiveRule) {
+      logger.debug(`[shared] ${service}/${method} - stream closed after ${messages.length} messages`);
+      return;
     }
 
     const ruleKey = `${service}.${method}`.toLowerCase();
-    logger(`[shared] ${service}/${method} - received ${messages.length} messages`);
+    logger.debug(`[shared] ${service}/${method} - received ${messages.length} messages`);
 
     // Step 2: Validate in aggregate mode
-    if (validationRuntime.active() && validationRuntime.mode() === 'aggregate') {
+    if (validation.active() && validation.mode() === 'aggregate') {
       for (let i = 0; i < messages.length; i++) {
-        const validationError = validateRequest(requestType, messages[i]);
+        const validationError = validateRequest(trace.context, requestType, messages[i]);
         if (validationError) {
-          logger(`[shared] ${service}/${method} - aggregate validation failed on message ${i + 1}`);
+          logger.debug(`[shared] ${service}/${method} - aggregate validation failed on message ${i + 1}`);
           yield validationError;
           return;
         }
       }
     }
 
-    logger(`[shared] ${service}/${method} - validation passed`);
+    logger.debug(`[shared] ${service}/${method} - validation passed`);
 
     // Step 3: Build aggregated request object
     const aggregatedRequest = {
@@ -654,15 +1366,41 @@ export async function* handleBidiStreamingRequest(
       last: messages[messages.length - 1],
       count: messages.length,
     };
+    trace.request = aggregatedRequest;
 
     // Step 4: Match rule
-    const rule = rulesIndex.get(ruleKey);
+    const rule = findRule(trace, rulesIndex, ruleKey, aggregatedRequest, metadata);
 
     // Track rule match attempt
-    sharedMetrics.recordRuleMatchAttempt(ruleKey, !!rule);
+    metrics.recordRuleMatchAttempt(ruleKey, !!rule);
+
+    // Inject faults from the rule's profile (or the global one)
+    trace.faults = faults.plan(faults.profileFor(rule));
+    const fault = await injectFaults(trace.faults, service, method, logger);
+    if (fault) {
+      yield fault;
+      return;
+    }
+
+    if (shouldForward(trace.context, rule, aggregatedRequest, metadata)) {
+      logger.debug(`[shared] ${service}/${method} - no rule matched, forwarding to ${proxy.getTarget()}`);
+      trace.proxied = true;
+      yield* forwardToUpstream(
+        trace.context,
+        { service, method, metadata, messages, requestType, responseType, requestStream: true, responseStream: true },
+        { stream: messages },
+        logger
+      );
+      return;
+    }
 
     if (!rule) {
-      logger(`[shared] ${service}/${method} - no rule matched`);
+      if (autoMock.isEnabled() && responseType) {
+        logger.debug(`[shared] ${service}/${method} - no rule matched, auto-mocking ${responseType.fullName}`);
+        for (const item of autoMock.stream(responseType, messages)) yield { data: item };
+        return;
+      }
+      logger.debug(`[shared] ${service}/${method} - no rule matched`);
       yield {
         code: "UNIMPLEMENTED",
         message: `No rule matched for ${service}/${method}`,
@@ -670,10 +1408,11 @@ export async function* handleBidiStreamingRequest(
       return;
     }
 
-    logger(`[shared] ${service}/${method} - rule matched: ${ruleKey}`);
+    logger.debug(`[shared] ${service}/${method} - rule matched: ${ruleKey}`);
+    trace.ruleKey = ruleKey;
 
     // Step 5: Select response and get streaming configuration
-    const selected = selectResponse(rule, aggregatedRequest, metadata);
+    const selected = selectScenarioResponse(rule, aggregatedRequest, metadata, service, method, logger, trace);
     const baseItems = selected?.stream_items || [selected?.body || {}];
     const streamDelay = selected?.stream_delay_ms || 100;
     const shouldLoop = selected?.stream_loop || false;
@@ -690,11 +1429,12 @@ export async function* handleBidiStreamingRequest(
         const message = String(trailers["grpc-message"] ?? "mock error");
         const code = grpcStatusToCode(status);
 
-        logger(`[shared] ${service}/${method} - returning error: ${code}`);
+        logger.debug(`[shared] ${service}/${method} - returning error: ${code}`);
 
         yield {
           code,
           message,
+          ...(selected?.error?.details && { details: selected.error.details }),
         };
         return;
       }
@@ -706,7 +1446,8 @@ export async function* handleBidiStreamingRequest(
     }
 
     // Step 6: Stream responses
-    logger(`[shared] ${service}/${method} - streaming ${baseItems.length} items (loop: ${shouldLoop}, random: ${randomOrder})`);
+    logger.debug(`[shared] ${service}/${method} - streaming ${baseItems.length} items (loop: ${shouldLoop}, random: ${randomOrder})`);
+    let headers = extractHeaders(selected?.headers);
 
     do {
       const items = randomOrder ? fisherYatesShuffle(baseItems) : baseItems;
@@ -717,8 +1458,10 @@ export async function* handleBidiStreamingRequest(
 
         yield {
           data: item,
+          metadata: headers,
           trailer: extractTrailers(trailers),
         };
+        headers = undefined;
 
         // Delay between items (except after last item if not looping)
         if (i < items.length - 1 || shouldLoop) {
@@ -727,9 +1470,9 @@ export async function* handleBidiStreamingRequest(
       }
     } while (shouldLoop);
 
-    logger(`[shared] ${service}/${method} - streaming complete`);
+    logger.debug(`[shared] ${service}/${method} - streaming complete`);
   } catch (error: any) {
-    logger(`[shared] ${service}/${method} - internal error:`, error?.message || error);
+    logger.error(`[shared] ${service}/${method} - internal error:`, error?.message || error);
 
     yield {
       code: "INTERNAL",
@@ -0,0 +1,67 @@
+import { StubStore, stubStore } from "../stubs/stubStore.js";
+import { ScenarioStore, scenarioStore } from "../scenarios/scenarioStore.js";
+import { SequenceStore, sequenceStore } from "../sequences/sequenceStore.js";
+import { RequestJournal, requestJournal } from "../journal/requestJournal.js";
+import { FaultInjector, faultInjector } from "../faults/faultInjector.js";
+import { SharedMetricsTracker, sharedMetrics } from "../metrics/sharedMetrics.js";
+import { AutoMock, autoMock } from "../mocks/autoMock.js";
+import { ValidationRuntime, runtime as validationRuntime } from "../../infrastructure/validation/runtime.js";
+import { ProxyRuntime, runtime as proxyRuntime } from "../../infrastructure/proxy/runtime.js";
+import { TracingRuntime, runtime as tracingRuntime } from "../../infrastructure/tracing/runtime.js";
+
+/**
+ * Stores and runtimes the shared request handlers work against
+ *
+ * Handlers default to the process-wide instances. Each createWishmock()
+ * instance builds its own context (see createHandlerContext), so instances
+ * in one process keep their stubs, state, calls and settings apart.
+ */
+export interface HandlerContext {
+  stubs: StubStore;
+  scenarios: ScenarioStore;
+  sequences: SequenceStore;
+  journal: RequestJournal;
+  faults: FaultInjector;
+  metrics: SharedMetricsTracker;
+  validation: ValidationRuntime;
+  proxy: ProxyRuntime;
+  tracing: TracingRuntime;
+  autoMock: AutoMock;
+  /**
+   * Seed for generated template values when a call carries no
+   * x-wishmock-seed header (default: the process seed, see setTemplateSeed)
+   */
+  templateSeed?: string;
+}
+
+/** The process-wide stores and runtimes */
+export const defaultHandlerContext: HandlerContext = {
+  stubs: stubStore,
+  scenarios: scenarioStore,
+  sequences: sequenceStore,
+  journal: requestJournal,
+  faults: faultInjector,
+  metrics: sharedMetrics,
+  validation: validationRuntime,
+  proxy: proxyRuntime,
+  tracing: tracingRuntime,
+  autoMock,
+};
+
+/**
+ * Create a context with fresh stores and runtimes
+ */
+export function createHandlerContext(): HandlerContext {
+  return {
+    stubs: new StubStore(),
+    scenarios: new ScenarioStore(),
+    sequences: new SequenceStore(),
+    journal: new RequestJournal(),
+    faults: new FaultInjector(),
+    metrics: new SharedMetricsTracker(),
+    validation: new ValidationRuntime(),
+    proxy: new ProxyRuntime(),
+    tracing: new TracingRuntime(),
+    autoMock: new AutoMock(),
+  };
+}
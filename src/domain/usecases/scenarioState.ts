@@ -0,0 +1,38 @@
+import type { ResponseOption, RuleDoc } from "../types.js";
+import type { ScenarioStore } from "../scenarios/scenarioStore.js";
+
+/**
+ * Narrow a rule to the responses allowed by its scenario's current state.
+ * 
+ * Responses without `required_state` are always eligible. Rules without a
+ * `scenario` are returned unchanged so stateless rules keep their behavior.
+ * 
+ * @param rule Rule document
+ * @param store Scenario store to read the current state from
+ * @param session Session whose state applies (global when undefined)
+ * @returns Rule whose responses match the current scenario state
+ */
+export function resolveScenarioRule(rule: RuleDoc, store: ScenarioStore, session?: string): RuleDoc {
+  if (!rule.scenario || !rule.responses) return rule;
+  const state = store.getState(rule.scenario, session);
+  return {
+    ...rule,
+    responses: rule.responses.filter((r) => r.required_state === undefined || String(r.required_state) === state),
+  };
+}
+
+/**
+ * Apply the scenario transition declared by the selected response.
+ * 
+ * @param rule Rule document the response was selected from
+ * @param selected Selected response option
+ * @param store Scenario store to update
+ * @param session Session whose state moves (global when undefined)
+ * @returns The new state, or undefined when no transition happened
+ */
+export function advanceScenario(rule: RuleDoc, selected: ResponseOption | undefined, store: ScenarioStore, session?: string): string | undefined {
+  if (!rule.scenario || selected?.new_state === undefined) return undefined;
+  const next = String(selected.new_state);
+  store.setState(rule.scenario, next, session);
+  return next;
+}
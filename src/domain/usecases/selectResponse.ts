@@ -1,64 +1,126 @@
 import { getValue as get } from "../../utils/objectUtils.js";
-import type { MetadataMap, ResponseOption, RuleDoc } from "../types.js";
+import type { MatchSpec, MetadataMap, ResponseOption, RuleDoc } from "../types.js";
 import { renderTemplate, createTemplateContext } from "./templateEngine.js";
+import { matchesCel } from "../cel/evaluator.js";
+
+// Selected response plus its position in ruleDoc.responses (-1 for the built-in empty OK)
+export interface ResponseSelection {
+  response: ResponseOption;
+  index: number;
+}
 
 // Pure use case: select a response given rule, request and metadata
 export function selectResponse(ruleDoc: RuleDoc | undefined, req: unknown, metadata: MetadataMap, streamIndex?: number, streamTotal?: number): ResponseOption {
-  if (!ruleDoc) return defaultOk();
+  return selectResponseEntry(ruleDoc, req, metadata, streamIndex, streamTotal).response;
+}
+
+// Same as selectResponse, but also reports which response entry was chosen;
+// templateSeed seeds generated values when the call has no x-wishmock-seed header
+export function selectResponseEntry(ruleDoc: RuleDoc | undefined, req: unknown, metadata: MetadataMap, streamIndex?: number, streamTotal?: number, templateSeed?: string): ResponseSelection {
+  if (!ruleDoc) return { response: defaultOk(), index: -1 };
+
+  const list = ruleDoc.responses || [];
+
+  if (!matchesTopLevel(ruleDoc, req, metadata)) {
+    const fallback = fallbackOrDefault(ruleDoc, req, metadata);
+    return { response: fallback, index: list.indexOf(fallback) };
+  }
 
-  const match = ruleDoc.match || {};
-  // AND matching for top-level match.metadata
-  if (match.metadata) {
-    for (const [k, v] of Object.entries(match.metadata)) {
+  // Collect candidates whose 'when' matches
+  // (fallback entries without 'when' are considered if no candidates)
+  const stream = streamIndex !== undefined ? { index: streamIndex, total: streamTotal } : undefined;
+  const candidates = list.filter((r) => r.when && whenMatches(r.when, req, metadata, stream) && matchesSpec(r.match, req, metadata));
+
+  // No conditional match -> fallback
+  const chosen = candidates.length > 0 ? pickHighestPriority(candidates, list) : fallbackOrDefault(ruleDoc, req, metadata);
+  return {
+    response: applyTemplating(chosen, req, metadata, streamIndex, streamTotal, templateSeed),
+    index: list.indexOf(chosen),
+  };
+}
+
+// True when the rule would answer with one of its own responses rather than the
+// built-in empty OK (used by proxy mode to decide whether to forward a call)
+export function hasMatchingResponse(ruleDoc: RuleDoc | undefined, req: unknown, metadata: MetadataMap): boolean {
+  if (!ruleDoc) return false;
+  const list = ruleDoc.responses || [];
+  if (list.some((r) => !r.when && matchesSpec(r.match, req, metadata))) return true;
+  if (!matchesTopLevel(ruleDoc, req, metadata)) return false;
+  return list.some((r) => r.when && whenMatches(r.when, req, metadata) && matchesSpec(r.match, req, metadata));
+}
+
+// AND matching of a match block (metadata keys, request paths, a CEL expression and
+// nested any/all groups) with the rule operators
+export function matchesSpec(spec: MatchSpec | undefined, req: unknown, metadata: MetadataMap): boolean {
+  if (spec?.cel !== undefined && !matchesCel(String(spec.cel), { request: req, metadata })) return false;
+  const nested = (s: unknown) => isPlainObject(s) && matchesSpec(s, req, metadata);
+  if (spec?.any !== undefined && !matchesGroup(spec.any, "any", nested)) return false;
+  if (spec?.all !== undefined && !matchesGroup(spec.all, "all", nested)) return false;
+  if (spec?.metadata) {
+    for (const [k, v] of Object.entries(spec.metadata)) {
       const actual = (metadata as any)[k];
-      if (!compare(actual, v)) return fallbackOrDefault(ruleDoc);
+      if (!compare(actual, v)) return false;
     }
   }
-  // AND matching for top-level match.request
-  if (match.request) {
-    for (const [k, v] of Object.entries(match.request)) {
+  if (spec?.request) {
+    for (const [k, v] of Object.entries(spec.request)) {
       const actual = get(req as any, k);
-      if (!compare(actual, v)) return fallbackOrDefault(ruleDoc);
+      if (!compare(actual, v)) return false;
     }
   }
+  return true;
+}
 
-  const list = ruleDoc.responses || [];
+// AND matching for top-level match.metadata and match.request
+function matchesTopLevel(ruleDoc: RuleDoc, req: unknown, metadata: MetadataMap): boolean {
+  return matchesSpec(ruleDoc.match, req, metadata);
+}
 
-  // Collect candidates whose 'when' matches
-  const candidates: ResponseOption[] = [];
-  for (const r of list) {
-    if (!r.when) continue; // fallback entries are considered if no candidates
-    let ok = true;
-    for (const [k, v] of Object.entries(r.when)) {
-      const val = k.startsWith("request.")
-        ? get(req as any, k.slice(8))
-        : get({ request: req, metadata }, k);
-      if (!compare(val, v)) { ok = false; break; }
+// `stream.*` keys (e.g. stream.index) resolve only when a stream position is given;
+// the `cel` key holds an expression over request, metadata and stream instead of a path,
+// and `any` / `all` hold lists of nested when blocks
+function whenMatches(when: Record<string, unknown>, req: unknown, metadata: MetadataMap, stream?: { index: number; total?: number }): boolean {
+  for (const [k, v] of Object.entries(when)) {
+    if (k === "cel") {
+      if (!matchesCel(String(v), { request: req, metadata, stream })) return false;
+      continue;
+    }
+    if (k === "any" || k === "all") {
+      const nested = (w: unknown) => isPlainObject(w) && whenMatches(w, req, metadata, stream);
+      if (!matchesGroup(v, k, nested)) return false;
+      continue;
     }
-    if (ok) candidates.push(r);
+    const val = k.startsWith("request.")
+      ? get(req as any, k.slice(8))
+      : get({ request: req, metadata, stream }, k);
+    if (!compare(val, v)) return false;
   }
+  return true;
+}
 
-  if (candidates.length > 0) {
-    return applyTemplating(pickHighestPriority(candidates, list), req, metadata, streamIndex, streamTotal);
-  }
-  // No conditional match -> fallback
-  return applyTemplating(fallbackOrDefault(ruleDoc), req, metadata, streamIndex, streamTotal);
+// `any` needs one passing block, `all` every block; a non-list never matches
+function matchesGroup(blocks: unknown, mode: "any" | "all", matches: (block: unknown) => boolean): boolean {
+  if (!Array.isArray(blocks)) return false;
+  return mode === "any" ? blocks.some(matches) : blocks.every(matches);
 }
 
-function fallbackOrDefault(ruleDoc: RuleDoc): ResponseOption {
+// Entries without `when` whose own match (if any) passes
+function fallbackOrDefault(ruleDoc: RuleDoc, req: unknown, metadata: MetadataMap): ResponseOption {
   const list = ruleDoc.responses || [];
-  const fallbacks = list.filter(x => !x.when);
+  const fallbacks = list.filter(x => !x.when && matchesSpec(x.match, req, metadata));
   if (fallbacks.length > 0) return pickHighestPriority(fallbacks, list);
   return defaultOk();
 }
 
-function applyTemplating(response: ResponseOption, req: unknown, metadata: MetadataMap, streamIndex?: number, streamTotal?: number): ResponseOption {
+function applyTemplating(response: ResponseOption, req: unknown, metadata: MetadataMap, streamIndex?: number, streamTotal?: number, templateSeed?: string): ResponseOption {
   const context = createTemplateContext(
     req,
     metadata,
-    streamIndex !== undefined && streamTotal !== undefined
+    streamIndex !== undefined
       ? { index: streamIndex, total: streamTotal }
-      : undefined
+      : undefined,
+    undefined,
+    templateSeed
   );
 
   const templatedResponse = { ...response };
@@ -67,17 +129,29 @@ function applyTemplating(response: ResponseOption, req: unknown, metadata: Metad
     templatedResponse.body = renderTemplate(templatedResponse.body, context);
   }
 
+  if (templatedResponse.headers) {
+    templatedResponse.headers = renderTemplate(templatedResponse.headers, context) as ResponseOption["headers"];
+  }
+
   if (templatedResponse.stream_items) {
     templatedResponse.stream_items = templatedResponse.stream_items.map((item, index) => {
       const itemContext = createTemplateContext(
         req,
         metadata,
-        { index, total: templatedResponse.stream_items!.length }
+        { index, total: templatedResponse.stream_items!.length },
+        undefined,
+        templateSeed
       );
       return renderTemplate(item, itemContext);
     });
   }
 
+  if (templatedResponse.sequence) {
+    templatedResponse.sequence = templatedResponse.sequence.map((step) =>
+      applyTemplating(step, req, metadata, streamIndex, streamTotal, templateSeed)
+    );
+  }
+
   return templatedResponse;
 }
 
@@ -103,7 +177,10 @@ function defaultOk(): ResponseOption {
 }
 
 // Compare actual value against expected which may be a literal or an operator object
-function compare(actual: unknown, expected: unknown): boolean {
+// Operator keys understood by compare() (also checked by the rule linter)
+export const MATCH_OPERATORS = ["not", "exists", "regex", "flags", "contains", "in", "gt", "gte", "lt", "lte", "eq", "ne"] as const;
+
+export function compare(actual: unknown, expected: unknown): boolean {
   // Primitive or nullish: fallback to string equality
   if (!isPlainObject(expected)) {
     return String(actual ?? "") === String(expected ?? "");
@@ -184,8 +261,7 @@ function compare(actual: unknown, expected: unknown): boolean {
 
   // If we reached here and at least one operator was present, treat as matched; otherwise fall back to equality
   const keys = Object.keys(obj);
-  const known = ["not", "exists", "regex", "flags", "contains", "in", "gt", "gte", "lt", "lte", "eq", "ne"];
-  const hasKnown = keys.some((k) => known.includes(k));
+  const hasKnown = keys.some((k) => (MATCH_OPERATORS as readonly string[]).includes(k));
   if (hasKnown) return true;
   // Unknown shape -> default equality against the object string
   return String(actual ?? "") === String(expected ?? "");
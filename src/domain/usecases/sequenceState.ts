@@ -0,0 +1,45 @@
+import type { ResponseOption } from "../types.js";
+import type { SequenceStore } from "../sequences/sequenceStore.js";
+
+/** Step served once a sequence ending in `error` has run out */
+const EXHAUSTED_STEP = { trailers: { "grpc-status": 9, "grpc-message": "sequence exhausted" } };
+
+/**
+ * Resolve the step of a sequenced response for the current call.
+ *
+ * Responses without `sequence` are returned unchanged. Otherwise the call
+ * is counted and the matching step's fields override the response's own.
+ *
+ * @param rule Rule key owning the response
+ * @param responseIndex Index of the response within the rule
+ * @param selected Selected response option
+ * @param store Sequence store holding the call counters
+ * @param session Session whose counter advances (global when undefined)
+ * @param stub Id of the stub owning the response (omitted for the file rule)
+ * @returns Response to serve and the step served (-1 once exhausted)
+ */
+export function advanceSequence(
+  rule: string,
+  responseIndex: number,
+  selected: ResponseOption,
+  store: SequenceStore,
+  session?: string,
+  stub?: string
+): { response: ResponseOption; step?: number } {
+  const steps = selected.sequence;
+  if (!steps || steps.length === 0) return { response: selected };
+
+  const call = store.next(rule, responseIndex, session, stub);
+  const { sequence: _steps, sequence_end: end, ...base } = selected;
+  let step: number;
+  if (call < steps.length) {
+    step = call;
+  } else if (end === "cycle") {
+    step = call % steps.length;
+  } else if (end === "error") {
+    return { response: { trailers: { ...EXHAUSTED_STEP.trailers } }, step: -1 };
+  } else {
+    step = steps.length - 1;
+  }
+  return { response: { ...base, ...steps[step] }, step };
+}
@@ -1,38 +1,107 @@
 import { getValue as get } from "../../utils/objectUtils.js";
+import { createRandom, randomUuid, type Random } from "../../utils/random.js";
+import { createTemplateHelpers, type TemplateHelpers } from "./templateHelpers.js";
 import type { MetadataMap } from "../types.js";
 
+/** Request header carrying a per-request seed for generated template data */
+export const TEMPLATE_SEED_HEADER = 'x-wishmock-seed';
+
+/** Upper bound on items produced by utils.repeat() */
+const MAX_REPEAT = 1000;
+
+let globalSeed: string | undefined;
+
+/**
+ * Set the seed used when a request carries no x-wishmock-seed header
+ *
+ * With a seed, uuid(), random() and the sample-data helpers return the same
+ * values for every call, so responses can be snapshotted. Pass undefined or
+ * an empty string to go back to unseeded randomness.
+ */
+export function setTemplateSeed(seed: string | number | undefined): void {
+  globalSeed = seed === undefined || seed === '' ? undefined : String(seed);
+}
+
 export interface TemplateContext {
   request: unknown;
   metadata: MetadataMap;
   stream?: {
     index: number;
-    total: number;
+    // Unknown while a bidi stream is still open
+    total?: number;
     isFirst: boolean;
     isLast: boolean;
   };
   utils: TemplateUtils;
+  // Item position inside utils.repeat() and $each; $each also binds the item
+  index?: number;
+  item?: unknown;
 }
 
-export interface TemplateUtils {
+export interface TemplateUtils extends TemplateHelpers {
   now: () => number;
   uuid: () => string;
   random: (min?: number, max?: number) => number;
   format: (template: string, ...args: unknown[]) => string;
+  repeat: (count: number, expression: string) => unknown[];
 }
 
+/** Result of an `$if` without `$else` whose condition is false; the key is dropped */
+const OMIT = Symbol('omit');
+
+/** Filters usable after a pipe: `{{request.name | default('anon')}}` */
+const FILTERS: Record<string, (value: unknown, ...args: unknown[]) => unknown> = {
+  default: (value, fallback) => (value === undefined || value === null || value === '' ? fallback : value),
+};
+
+/**
+ * Render a response template
+ *
+ * Strings have their `{{expr}}` tokens substituted; a string that is a single
+ * token keeps the value's type (number, boolean, list, object). Objects may
+ * be `$if` / `$each` directives:
+ *
+ *   { $if: "{{expr}}", $then: <template>, $else: <template> }
+ *   { $each: "{{expr}}", $as: "item", $template: <template> }
+ *
+ * An `$each` directive inside a list contributes its items to that list.
+ */
 export function renderTemplate(template: unknown, context: TemplateContext): unknown {
+  const result = renderValue(template, context);
+  return result === OMIT ? undefined : result;
+}
+
+function renderValue(template: unknown, context: TemplateContext): unknown {
   if (typeof template === 'string') {
     return renderStringTemplate(template, context);
   }
 
   if (Array.isArray(template)) {
-    return template.map(item => renderTemplate(item, context));
+    const items: unknown[] = [];
+    for (const item of template) {
+      if (isDirective(item, '$each')) {
+        items.push(...renderEach(item, context));
+        continue;
+      }
+      const value = renderValue(item, context);
+      if (value !== OMIT) items.push(value);
+    }
+    return items;
+  }
+
+  if (isDirective(template, '$if')) {
+    return renderIf(template, context);
+  }
+
+  if (isDirective(template, '$each')) {
+    return renderEach(template, context);
   }
 
   if (template && typeof template === 'object') {
     const result: Record<string, unknown> = {};
     for (const [key, value] of Object.entries(template)) {
-      result[key] = renderTemplate(value, context);
+      const rendered = renderValue(value, context);
+      if (rendered !== OMIT) result[key] = rendered;
     }
     return result;
   }
@@ -40,7 +109,58 @@ export function renderTemplate(template: unknown, context: TemplateContext): unk
   return template;
 }
 
-function renderStringTemplate(template: string, context: TemplateContext): string {
+function isDirective(value: unknown, name: '$if' | '$each'): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value) && name in value;
+}
+
+function renderIf(directive: Record<string, unknown>, context: TemplateContext): unknown {
+  if (isTruthy(evaluateDirectiveValue(directive.$if, context))) {
+    return '$then' in directive ? renderValue(directive.$then, context) : OMIT;
+  }
+  return '$else' in directive ? renderValue(directive.$else, context) : OMIT;
+}
+
+function renderEach(directive: Record<string, unknown>, context: TemplateContext): unknown[] {
+  const list = evaluateDirectiveValue(directive.$each, context);
+  if (!Array.isArray(list)) return [];
+
+  const name = typeof directive.$as === 'string' && directive.$as ? directive.$as : 'item';
+  const items: unknown[] = [];
+  list.forEach((item, index) => {
+    const itemContext = { ...context, [name]: item, index } as TemplateContext;
+    const value = renderValue(directive.$template, itemContext);
+    if (value !== OMIT) items.push(value);
+  });
+  return items;
+}
+
+// Directive operands may be written as a template ("{{request.vip}}") or a bare expression (request.vip)
+function evaluateDirectiveValue(value: unknown, context: TemplateContext): unknown {
+  if (typeof value === 'string' && !value.includes('{{')) {
+    try {
+      return evaluateExpression(value.trim(), context);
+    } catch {
+      return undefined;
+    }
+  }
+  return renderValue(value, context);
+}
+
+function isTruthy(value: unknown): boolean {
+  return Array.isArray(value) ? value.length > 0 : Boolean(value);
+}
+
+function renderStringTemplate(template: string, context: TemplateContext): unknown {
+  // A string that is a single expression keeps the value's type
+  const single = template.match(/^\{\{([^}]+)\}\}$/);
+  if (single) {
+    try {
+      return evaluateExpression(single[1].trim(), context);
+    } catch {
+      return template;
+    }
+  }
+
   return template.replace(/\{\{([^}]+)\}\}/g, (match, expression) => {
     try {
       const trimmed = expression.trim();
@@ -53,6 +173,42 @@ function renderStringTemplate(template: string, context: TemplateContext): strin
 }
 
 function evaluateExpression(expr: string, context: TemplateContext): unknown {
+  // Handle filters ("request.name | default('anon')")
+  const piped = splitOperators(expr, ['|']);
+  if (piped) {
+    return piped.operands.slice(1).reduce(
+      (value, filter) => applyFilter(filter, value, context),
+      evaluateExpression(piped.operands[0], context)
+    );
+  }
+
+  // Handle comparisons ("request.count > 0", "request.status == 'ACTIVE'")
+  const comparison = splitOperators(expr, ['==', '!=', '>=', '<=', '>', '<']);
+  if (comparison) {
+    if (comparison.operators.length !== 1) throw new Error(`chained comparison: ${expr}`);
+    const [left, right] = comparison.operands.map((operand) => evaluateExpression(operand, context));
+    return compareValues(comparison.operators[0], left, right);
+  }
+
+  // Handle arithmetic ("request.qty * 2", "stream.index + 1")
+  const arithmetic = splitOperators(expr, ['+', '-', '*', '/', '%']);
+  if (arithmetic) {
+    return evaluateArithmetic(arithmetic, context);
+  }
+
+  // Handle literals
+  if (/^-?\d+(\.\d+)?$/.test(expr)) {
+    return Number(expr);
+  }
+
+  if (/^(['"]).*\1$/.test(expr)) {
+    return expr.slice(1, -1);
+  }
+
+  if (expr === 'true' || expr === 'false') {
+    return expr === 'true';
+  }
+
   // Handle function calls
   if (expr.includes('(')) {
     return evaluateFunction(expr, context);
@@ -79,6 +235,95 @@ function evaluateExpression(expr: string, context: TemplateContext): unknown {
   return get(context, expr);
 }
 
+function applyFilter(filter: string, value: unknown, context: TemplateContext): unknown {
+  const m = filter.match(/^(\w+)(?:\((.*)\))?$/);
+  const fn = m ? FILTERS[m[1]] : undefined;
+  if (!m || !fn) throw new Error(`unknown filter: ${filter}`);
+  return fn(value, ...(m[2] ? parseArguments(m[2], context) : []));
+}
+
+function compareValues(op: string, left: unknown, right: unknown): boolean {
+  if (op === '==' || op === '!=') {
+    const equal = left === right || (left != null && right != null && String(left) === String(right));
+    return op === '==' ? equal : !equal;
+  }
+  const a = Number(left);
+  const b = Number(right);
+  if (left == null || right == null || Number.isNaN(a) || Number.isNaN(b)) return false;
+  if (op === '>') return a > b;
+  if (op === '>=') return a >= b;
+  if (op === '<') return a < b;
+  return a <= b;
+}
+
+/**
+ * Split an expression at top-level operators written with surrounding spaces
+ *
+ * Returns null when the expression has none of the operators. Operators
+ * inside quotes or parentheses belong to function arguments and are left
+ * alone. Longer operators must come first in `operators`.
+ */
+function splitOperators(expr: string, operators: string[]): { operands: string[]; operators: string[] } | null {
+  const operands: string[] = [];
+  const found: string[] = [];
+  let start = 0;
+  let quote = '';
+  let parenDepth = 0;
+
+  for (let i = 0; i < expr.length; i++) {
+    const ch = expr[i];
+    if (quote) {
+      if (ch === '\\') i++;
+      else if (ch === quote) quote = '';
+      continue;
+    }
+    if (ch === "'" || ch === '"') { quote = ch; continue; }
+    if (ch === '(') { parenDepth++; continue; }
+    if (ch === ')') { parenDepth = Math.max(0, parenDepth - 1); continue; }
+    if (parenDepth > 0 || expr[i - 1] !== ' ') continue;
+    const op = operators.find((o) => expr.startsWith(o, i) && expr[i + o.length] === ' ');
+    if (op) {
+      operands.push(expr.slice(start, i).trim());
+      found.push(op);
+      start = i + op.length;
+      i += op.length - 1;
+    }
+  }
+
+  if (found.length === 0) return null;
+  operands.push(expr.slice(start).trim());
+  return { operands, operators: found };
+}
+
+function evaluateArithmetic(
+  { operands, operators }: { operands: string[]; operators: string[] },
+  context: TemplateContext
+): number {
+  const values = operands.map((operand) => {
+    const value = Number(evaluateExpression(operand, context));
+    if (operand === '' || !Number.isFinite(value)) {
+      throw new Error(`not a number: ${operand}`);
+    }
+    return value;
+  });
+
+  // Multiplicative operators bind tighter than additive ones
+  const terms = [values[0]];
+  const additive: string[] = [];
+  operators.forEach((op, i) => {
+    const right = values[i + 1];
+    if (op === '+' || op === '-') {
+      terms.push(right);
+      additive.push(op);
+      return;
+    }
+    const left = terms.pop() as number;
+    terms.push(op === '*' ? left * right : op === '/' ? left / right : left % right);
+  });
+
+  return additive.reduce((sum, op, i) => (op === '+' ? sum + terms[i + 1] : sum - terms[i + 1]), terms[0]);
+}
+
 function evaluateFunction(expr: string, context: TemplateContext): unknown {
   const funcMatch = expr.match(/^(\w+(?:\.\w+)*)\((.*)\)$/);
   if (!funcMatch) return expr;
@@ -171,26 +416,49 @@ function parseArguments(argsStr: string, context: TemplateContext): unknown[] {
 export function createTemplateContext(
   request: unknown,
   metadata: MetadataMap,
-  streamInfo?: { index: number; total: number },
-  utilsOverrides?: Partial<TemplateUtils>
+  streamInfo?: { index: number; total?: number },
+  utilsOverrides?: Partial<TemplateUtils>,
+  defaultSeed?: string
 ): TemplateContext {
-  const defaultUtils: TemplateUtils = {
-    now: () => Date.now(),
-    uuid: () => crypto.randomUUID(),
-    random: (min = 0, max = 1) => Math.random() * (max - min) + min,
-    format: (template: string, ...args: unknown[]) => template.replace(/%s/g, () => String(args.shift() ?? '')),
-  };
+  // Seeded contexts differ per stream item so items don't repeat each other
+  const seed = resolveSeed(metadata, defaultSeed);
+  const random: Random = seed !== undefined
+    ? createRandom(streamInfo ? `${seed}#${streamInfo.index}` : seed)
+    : Math.random;
 
-  return {
+  const context: TemplateContext = {
     request,
     metadata,
     stream: streamInfo
       ? {
         ...streamInfo,
         isFirst: streamInfo.index === 0,
-        isLast: streamInfo.index === streamInfo.total - 1,
+        isLast: streamInfo.total !== undefined && streamInfo.index === streamInfo.total - 1,
       }
       : undefined,
-    utils: { ...defaultUtils, ...(utilsOverrides || {}) },
+    utils: undefined as unknown as TemplateUtils,
+  };
+
+  const defaultUtils: TemplateUtils = {
+    ...createTemplateHelpers(random, () => context.utils.now()),
+    now: () => Date.now(),
+    uuid: () => (seed !== undefined ? randomUuid(random) : crypto.randomUUID()),
+    random: (min = 0, max = 1) => random() * (max - min) + min,
+    format: (template: string, ...args: unknown[]) => template.replace(/%s/g, () => String(args.shift() ?? '')),
+    repeat: (count: number, expression: string) => {
+      const length = Math.min(MAX_REPEAT, Math.max(0, Math.floor(Number(count) || 0)));
+      return Array.from({ length }, (_, index) => evaluateExpression(String(expression).trim(), { ...context, index }));
+    },
   };
+
+  context.utils = { ...defaultUtils, ...(utilsOverrides || {}) };
+  return context;
+}
+
+// The call's header wins, then the instance's seed, then the process seed
+function resolveSeed(metadata: MetadataMap, defaultSeed?: string): string | undefined {
+  const header = metadata?.[TEMPLATE_SEED_HEADER];
+  const value = Array.isArray(header) ? header[0] : header;
+  if (value !== undefined && value !== null && String(value) !== '') return String(value);
+  return defaultSeed ?? globalSeed;
 }
@@ -0,0 +1,108 @@
+import crypto from "crypto";
+import { pickOne, randomInt, type Random } from "../../utils/random.js";
+import { CITIES, COMPANIES, COUNTRIES, FIRST_NAMES, LAST_NAMES, LOREM_WORDS, STREETS } from "../../utils/fakeData.js";
+
+/**
+ * Sample-data helpers available to templates as `utils.*`
+ *
+ * Every helper draws from the random source it was created with, so a
+ * seeded source reproduces the same data.
+ */
+export interface TemplateHelpers {
+  int: (min?: number, max?: number) => number;
+  firstName: () => string;
+  lastName: () => string;
+  name: () => string;
+  username: () => string;
+  email: (name?: unknown) => string;
+  phone: () => string;
+  company: () => string;
+  street: () => string;
+  city: () => string;
+  country: () => string;
+  zip: () => string;
+  address: () => string;
+  lorem: (words?: number) => string;
+  sentence: () => string;
+  paragraph: (sentences?: number) => string;
+  isoDate: (offset?: string | number) => string;
+  date: (offset?: string | number) => string;
+  formatNumber: (value: unknown, decimals?: number, locale?: string) => string;
+  base64: (value: unknown) => string;
+  fromBase64: (value: unknown) => string;
+  hash: (value: unknown, algorithm?: string) => string;
+  pick: (...values: unknown[]) => unknown;
+}
+
+const OFFSET_UNITS: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  m: 60_000,
+  h: 3_600_000,
+  d: 86_400_000,
+  w: 604_800_000,
+};
+
+/**
+ * Parse a time offset such as "+2d", "-90m", "1.5h" or a number of milliseconds
+ *
+ * @throws Error when the offset is not understood
+ */
+export function parseOffset(offset: string | number | undefined): number {
+  if (offset === undefined || offset === '') return 0;
+  if (typeof offset === 'number') return offset;
+  const m = String(offset).trim().match(/^([+-]?)(\d+(?:\.\d+)?)(ms|s|m|h|d|w)?$/);
+  if (!m) throw new Error(`invalid time offset: ${offset}`);
+  const [, sign, amount, unit = 'ms'] = m;
+  return (sign === '-' ? -1 : 1) * Number(amount) * OFFSET_UNITS[unit];
+}
+
+/**
+ * Create the helpers over a random source
+ *
+ * @param random Random source (seeded or Math.random)
+ * @param now Clock used by the date helpers
+ */
+export function createTemplateHelpers(random: Random, now: () => number): TemplateHelpers {
+  const int = (min: number, max: number) => randomInt(random, min, max);
+  const words = (count: number) => Array.from({ length: Math.max(1, count) }, () => pickOne(random, LOREM_WORDS));
+  const sentence = () => {
+    const text = words(int(6, 12)).join(' ');
+    return `${text.charAt(0).toUpperCase()}${text.slice(1)}.`;
+  };
+
+  return {
+    int: (min = 0, max = 100) => int(Math.ceil(min), Math.floor(max)),
+    firstName: () => pickOne(random, FIRST_NAMES),
+    lastName: () => pickOne(random, LAST_NAMES),
+    name: () => `${pickOne(random, FIRST_NAMES)} ${pickOne(random, LAST_NAMES)}`,
+    username: () => `${pickOne(random, FIRST_NAMES).toLowerCase()}${int(1, 999)}`,
+    email: (name?: unknown) => {
+      const local = name !== undefined && name !== null && String(name).trim() !== ''
+        ? String(name).trim().toLowerCase().replace(/[^a-z0-9]+/g, '.').replace(/^\.+|\.+$/g, '')
+        : `${pickOne(random, FIRST_NAMES)}.${pickOne(random, LAST_NAMES)}${int(1, 99)}`.toLowerCase();
+      return `${local}@example.com`;
+    },
+    phone: () => `+1-555-${String(int(0, 9999)).padStart(4, '0')}`,
+    company: () => pickOne(random, COMPANIES),
+    street: () => `${int(1, 999)} ${pickOne(random, STREETS)}`,
+    city: () => pickOne(random, CITIES),
+    country: () => pickOne(random, COUNTRIES),
+    zip: () => String(int(10000, 99999)),
+    address: () => `${int(1, 999)} ${pickOne(random, STREETS)}, ${pickOne(random, CITIES)} ${int(10000, 99999)}, ${pickOne(random, COUNTRIES)}`,
+    lorem: (count = 8) => words(count).join(' '),
+    sentence,
+    paragraph: (count = 3) => Array.from({ length: Math.max(1, count) }, sentence).join(' '),
+    isoDate: (offset?: string | number) => new Date(now() + parseOffset(offset)).toISOString(),
+    date: (offset?: string | number) => new Date(now() + parseOffset(offset)).toISOString().slice(0, 10),
+    formatNumber: (value: unknown, decimals = 0, locale = 'en-US') =>
+      new Intl.NumberFormat(locale, { minimumFractionDigits: decimals, maximumFractionDigits: decimals }).format(Number(value)),
+    base64: (value: unknown) => Buffer.from(String(value ?? ''), 'utf8').toString('base64'),
+    fromBase64: (value: unknown) => Buffer.from(String(value ?? ''), 'base64').toString('utf8'),
+    hash: (value: unknown, algorithm = 'sha256') => crypto.createHash(algorithm).update(String(value ?? '')).digest('hex'),
+    pick: (...values: unknown[]) => {
+      const list = values.length === 1 && Array.isArray(values[0]) ? values[0] : values;
+      return list.length > 0 ? pickOne(random, list) : undefined;
+    },
+  };
+}
@@ -0,0 +1,160 @@
+import { getValue as get } from "../../utils/objectUtils.js";
+import type { MatchSpec } from "../types.js";
+import type { JournalEntry, RequestJournal } from "../journal/requestJournal.js";
+import { compare, matchesSpec } from "./selectResponse.js";
+import { parseCel } from "../cel/parser.js";
+
+// Operators accepted for the expected call count
+const COUNT_OPERATORS = ["eq", "ne", "gt", "gte", "lt", "lte", "in", "not"];
+
+/** Count expectation used when none is given: called at least once */
+export const DEFAULT_EXPECTED_COUNT = { gte: 1 };
+
+/**
+ * What to verify: a match block (same grammar as rule `match`) scoped to a
+ * service/method, plus the expected number of matching calls.
+ */
+export interface VerifySpec extends MatchSpec {
+  service?: string;
+  method?: string;
+  /** Only count calls recorded under this session */
+  session?: string;
+  /** Literal count or operator object such as `{ eq: 2 }` / `{ gte: 1 }` */
+  count?: unknown;
+}
+
+/** A single condition a recorded call did not satisfy */
+export interface ConditionMismatch {
+  /** `service`, `method`, `request.<path>`, `metadata.<key>`, `cel`, `any` or `all` */
+  field: string;
+  expected: unknown;
+  actual: unknown;
+}
+
+/** A recorded call that came close to matching */
+export interface NearMiss {
+  id: number;
+  received_at: string;
+  service: string;
+  method: string;
+  request: unknown;
+  metadata: Record<string, string>;
+  mismatches: ConditionMismatch[];
+}
+
+export interface VerifyResult {
+  pass: boolean;
+  expected: unknown;
+  actual: number;
+  /** Closest non-matching calls (only reported when verification fails) */
+  near_misses: NearMiss[];
+}
+
+/**
+ * Check that a count expectation uses a known shape
+ *
+ * @param count Expected count from the verify body
+ * @returns Error message, or null when valid
+ */
+export function validateCountSpec(count: unknown): string | null {
+  if (count === undefined || typeof count === "number") return null;
+  if (typeof count === "object" && count !== null && !Array.isArray(count)) {
+    const keys = Object.keys(count);
+    if (keys.length > 0 && keys.every((k) => COUNT_OPERATORS.includes(k))) return null;
+  }
+  return `count must be a number or an object using ${COUNT_OPERATORS.join(", ")}`;
+}
+
+/**
+ * Check the `cel` expression and `any`/`all` groups of a match block
+ *
+ * @param spec Match block from the verify body (groups are checked recursively)
+ * @returns Error message, or null when valid
+ */
+export function validateMatchConditions(spec: Record<string, unknown>, at = ""): string | null {
+  if (spec.cel !== undefined) {
+    if (typeof spec.cel !== "string") return `${at}cel must be a string`;
+    try {
+      parseCel(spec.cel);
+    } catch (e: any) {
+      return `${at}cel is invalid: ${e?.message || e}`;
+    }
+  }
+  for (const key of ["any", "all"] as const) {
+    const blocks = spec[key];
+    if (blocks === undefined) continue;
+    if (!Array.isArray(blocks)) return `${at}${key} must be a list of match blocks`;
+    for (const [i, block] of blocks.entries()) {
+      if (typeof block !== "object" || block === null || Array.isArray(block)) {
+        return `${at}${key}[${i}] must be a match block`;
+      }
+      const error = validateMatchConditions(block as Record<string, unknown>, `${at}${key}[${i}].`);
+      if (error) return error;
+    }
+  }
+  return null;
+}
+
+/**
+ * Verify received calls against a spec
+ *
+ * Counts journal entries that satisfy every condition and compares the count
+ * with the expectation. On failure, the calls that failed the fewest
+ * conditions are reported together with what did not match.
+ *
+ * @param journal Request journal to inspect
+ * @param spec Verification spec
+ * @param maxNearMisses Maximum number of near misses to report
+ * @returns Verification result
+ */
+export function verifyRequests(journal: RequestJournal, spec: VerifySpec, maxNearMisses = 5): VerifyResult {
+  const expected = spec.count ?? DEFAULT_EXPECTED_COUNT;
+  const evaluated = journal.find({ session: spec.session }).map((entry) => ({ entry, mismatches: mismatchesFor(entry, spec) }));
+  const actual = evaluated.filter((e) => e.mismatches.length === 0).length;
+  const pass = compare(actual, expected);
+
+  const near_misses = pass
+    ? []
+    : evaluated
+        .filter((e) => e.mismatches.length > 0)
+        // Fewest failed conditions first, most recent first among equals
+        .sort((a, b) => a.mismatches.length - b.mismatches.length || b.entry.id - a.entry.id)
+        .slice(0, maxNearMisses)
+        .map(({ entry, mismatches }) => ({
+          id: entry.id,
+          received_at: entry.received_at,
+          service: entry.service,
+          method: entry.method,
+          request: entry.request,
+          metadata: entry.metadata,
+          mismatches,
+        }));
+
+  return { pass, expected, actual, near_misses };
+}
+
+function mismatchesFor(entry: JournalEntry, spec: VerifySpec): ConditionMismatch[] {
+  const out: ConditionMismatch[] = [];
+  if (spec.service && entry.service.toLowerCase() !== spec.service.toLowerCase()) {
+    out.push({ field: "service", expected: spec.service, actual: entry.service });
+  }
+  if (spec.method && entry.method.toLowerCase() !== spec.method.toLowerCase()) {
+    out.push({ field: "method", expected: spec.method, actual: entry.method });
+  }
+  for (const [k, v] of Object.entries(spec.metadata || {})) {
+    const actual = entry.metadata[k];
+    if (!compare(actual, v)) out.push({ field: `metadata.${k}`, expected: v, actual });
+  }
+  for (const [k, v] of Object.entries(spec.request || {})) {
+    const actual = get(entry.request as any, k);
+    if (!compare(actual, v)) out.push({ field: `request.${k}`, expected: v, actual });
+  }
+  // CEL and any/all groups pass or fail as a whole
+  for (const key of ["cel", "any", "all"] as const) {
+    if (spec[key] === undefined) continue;
+    if (!matchesSpec({ [key]: spec[key] }, entry.request, entry.metadata)) {
+      out.push({ field: key, expected: spec[key], actual: false });
+    }
+  }
+  return out;
+}
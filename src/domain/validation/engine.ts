@@ -17,6 +17,7 @@ import type {
   AnyConstraintOps,
 } from "./types.js";
 import type { OneofConstraint } from "./types.js";
+import { evaluateCel } from "../cel/evaluator.js";
 
 const regexCache = new Map<string, RegExp>();
 
@@ -30,15 +31,15 @@ function getOrCompileRegex(pattern: string, flags?: string): RegExp {
   return regex;
 }
 
-// Simple CEL expression evaluator
-function evaluateCelExpression(expression: string, context: Record<string, any>): boolean {
+// CEL constraint check: message fields are variables and `this` is the message.
+// protovalidate expressions return a bool, or a string that is empty when valid.
+function evaluateCelExpression(expression: string, context: Record<string, any>): { ok: boolean; message?: string } {
   try {
-    // Basic evaluator: expose fields as identifiers and allow `this.*` via binding.
-    // Use `with` to scope lookups to the context object.
-    const fn = new Function('ctx', `with (ctx) { return (${expression}); }`);
-    return Boolean(fn.call(context, context));
-  } catch (error) {
-    return false;
+    const result = evaluateCel(expression, { ...context, this: context });
+    if (typeof result === "string") return result === "" ? { ok: true } : { ok: false, message: result };
+    return { ok: result === true };
+  } catch {
+    return { ok: false };
   }
 }
 
@@ -420,10 +421,10 @@ function validateCel(
   const violations: FieldViolation[] = [];
   
   const result = evaluateCelExpression(expression, message);
-  if (!result) {
+  if (!result.ok) {
     violations.push({
       field: "",
-      description: celMessage || `failed CEL validation: ${expression}`,
+      description: celMessage || result.message || `failed CEL validation: ${expression}`,
       rule: "cel",
     });
   }
@@ -5,7 +5,14 @@ import fs from "fs";
 import path from "path";
 import protobuf from "protobufjs";
 import type { RuleDoc } from "../domain/types.js";
+import type { NormalizedError } from "../domain/types/normalized.js";
 import { registerServices, type ConnectServiceMeta } from "./serviceRegistry.js";
+import { toConnectErrorDetails } from "./errorDetails.js";
+import { SESSION_HEADER } from "../domain/session.js";
+import { toLogger, type LoggerLike } from "./logging/logger.js";
+import { HEALTH_SERVICE, type HealthStore } from "../domain/health/healthStore.js";
+import { decodeHealthCheckRequest } from "./health/healthService.js";
+import type { HandlerContext } from "../domain/usecases/handlerContext.js";
 import { createRequire } from "module";
 
 // Load google-protobuf for descriptor parsing
@@ -31,10 +38,12 @@ export interface ConnectServerConfig {
   protoRoot: protobuf.Root;
   /** Index of rules for matching requests */
   rulesIndex: Map<string, RuleDoc>;
-  /** Logger function */
-  logger: (...args: any[]) => void;
-  /** Error logger function */
-  errorLogger: (...args: any[]) => void;
+  /** Logger (or a function receiving every message) */
+  logger: LoggerLike;
+  /** Serve grpc.health.v1.Health from this store (unless the protos define it) */
+  health?: HealthStore;
+  /** Stores and runtimes calls are handled against (default: the process-wide ones) */
+  context?: HandlerContext;
   /** Optional TLS configuration */
   tls?: {
     enabled: boolean;
@@ -105,17 +114,18 @@ export async function createConnectServer(
     ],
     protoRoot,
     rulesIndex,
-    logger,
-    errorLogger,
     tls,
+    health,
+    context,
   } = config;
+  const logger = toLogger(config.logger);
 
   // Register services from protobuf root
-  logger("Registering Connect RPC services from protobuf root...");
-  const services = registerServices(protoRoot, rulesIndex, logger, errorLogger);
+  logger.info("Registering Connect RPC services from protobuf root...");
+  const services = registerServices(protoRoot, rulesIndex, logger, context);
   
   if (services.size === 0) {
-    errorLogger("Warning: No services registered for Connect RPC");
+    logger.warn("No services registered for Connect RPC");
   }
 
   // Load reflection descriptor set
@@ -140,13 +150,13 @@ export async function createConnectServer(
       
       if (reflectionDescriptors.length > 0) {
         reflectionEnabled = true;
-        logger(`Connect RPC reflection enabled with ${reflectionDescriptors.length} descriptors`);
+        logger.info(`Connect RPC reflection enabled with ${reflectionDescriptors.length} descriptors`);
       }
     } else {
-      logger("Connect RPC reflection disabled: descriptor set not found at bin/.descriptors.bin");
+      logger.info("Connect RPC reflection disabled: descriptor set not found at bin/.descriptors.bin");
     }
   } catch (e: any) {
-    errorLogger("Failed to load reflection descriptors:", e?.message || e);
+    logger.error("Failed to load reflection descriptors:", e?.message || e);
   }
 
   // Initialize metrics
@@ -171,9 +181,9 @@ export async function createConnectServer(
         ca: tls.caPath ? fs.readFileSync(tls.caPath) : undefined,
       };
       httpServer = createHttpsServer(tlsOptions, handleRequest);
-      logger("Connect RPC server created with TLS");
+      logger.info("Connect RPC server created with TLS");
     } catch (e: any) {
-      errorLogger("Failed to create TLS server, falling back to HTTP:", e?.message || e);
+      logger.error("Failed to create TLS server, falling back to HTTP:", e?.message || e);
       httpServer = createServer(handleRequest);
     }
   } else {
@@ -377,7 +387,7 @@ export async function createConnectServer(
             message: "Unsupported reflection request type",
           }));
         } catch (e: any) {
-          errorLogger("Reflection request error:", e?.message || e);
+          logger.error("Reflection request error:", e?.message || e);
           res.writeHead(500, { "Content-Type": "application/json" });
           res.end(JSON.stringify({
             code: "internal",
@@ -387,7 +397,7 @@ export async function createConnectServer(
       });
       
       req.on("error", (e: any) => {
-        errorLogger("Reflection request stream error:", e?.message || e);
+        logger.error("Reflection request stream error:", e?.message || e);
         res.writeHead(500, { "Content-Type": "application/json" });
         res.end(JSON.stringify({
           code: "internal",
@@ -428,6 +438,12 @@ export async function createConnectServer(
 
       const [, serviceName, methodName] = match;
       const fullServiceName = serviceName; // e.g., "helloworld.Greeter"
+
+      // Built-in health service, unless the loaded protos define one
+      if (health && fullServiceName === HEALTH_SERVICE && !services.has(HEALTH_SERVICE)) {
+        handleHealthRpc(req, res, methodName, health);
+        return;
+      }
       
       // Look up the service
       const serviceMeta = services.get(fullServiceName);
@@ -453,6 +469,13 @@ export async function createConnectServer(
         return;
       }
 
+      // Bidi streaming reads enveloped messages as they arrive instead of the whole body
+      if (methodMeta.requestStream && methodMeta.responseStream) {
+        const { handleBidiStreamingRequest } = await import("../domain/usecases/handleRequest.js");
+        await handleBidiStreamingRpc(req, res, serviceMeta, methodMeta, handleBidiStreamingRequest);
+        return;
+      }
+
       // Read request body
       const chunks: Buffer[] = [];
       req.on("data", (chunk: Buffer) => {
@@ -509,16 +532,16 @@ export async function createConnectServer(
             // Server streaming
             await handleServerStreamingRpc(req, res, serviceMeta, methodMeta, requestData, handleServerStreamingRequest);
           } else {
-            // Client streaming and bidi streaming not yet supported via HTTP
+            // Client streaming not yet supported via HTTP
             metrics.errors_total++;
             res.writeHead(501, { "Content-Type": "application/json" });
             res.end(JSON.stringify({
               code: "unimplemented",
-              message: "Client streaming and bidirectional streaming not yet supported via Connect HTTP",
+              message: "Client streaming not yet supported via Connect HTTP",
             }));
           }
         } catch (parseError: any) {
-          errorLogger("Failed to parse request:", parseError?.message || parseError);
+          logger.error("Failed to parse request:", parseError?.message || parseError);
           metrics.errors_total++;
           res.writeHead(400, { "Content-Type": "application/json" });
           res.end(JSON.stringify({
@@ -529,7 +552,7 @@ export async function createConnectServer(
       });
 
       req.on("error", (err: any) => {
-        errorLogger("Request stream error:", err?.message || err);
+        logger.error("Request stream error:", err?.message || err);
         metrics.errors_total++;
         res.writeHead(500, { "Content-Type": "application/json" });
         res.end(JSON.stringify({
@@ -538,7 +561,7 @@ export async function createConnectServer(
         }));
       });
     } catch (error: any) {
-      errorLogger("RPC request error:", error?.message || error);
+      logger.error("RPC request error:", error?.message || error);
       metrics.errors_total++;
       res.writeHead(500, { "Content-Type": "application/json" });
       res.end(JSON.stringify({
@@ -548,6 +571,64 @@ export async function createConnectServer(
     }
   }
 
+  /**
+   * Handle grpc.health.v1.Health Check and Watch
+   *
+   * Answers like the other methods: a JSON body for Check, and for Watch one
+   * JSON message per line, sent whenever the status changes, until the
+   * client disconnects or the server shuts down.
+   */
+  function handleHealthRpc(req: any, res: any, methodName: string, store: HealthStore) {
+    const fail = (statusCode: number, code: string, message: string) => {
+      metrics.errors_total++;
+      res.writeHead(statusCode, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ code, message }));
+    };
+    if (methodName !== "Check" && methodName !== "Watch") {
+      return fail(404, "not_found", `Method ${methodName} not found in service ${HEALTH_SERVICE}`);
+    }
+
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk: Buffer) => chunks.push(chunk));
+    req.on("end", () => {
+      let service: string;
+      try {
+        const body = Buffer.concat(chunks);
+        const contentType = String(req.headers["content-type"] || "");
+        const binary = !contentType.includes("json")
+          && (contentType.includes("application/proto") || contentType.includes("application/grpc"));
+        if (binary) {
+          // gRPC and gRPC-Web bodies carry a 5-byte length prefix
+          service = decodeHealthCheckRequest(contentType.includes("application/grpc") ? body.subarray(5) : body);
+        } else {
+          const text = body.toString("utf-8");
+          service = String((text ? JSON.parse(text) : {}).service || "");
+        }
+      } catch (e: any) {
+        return fail(400, "invalid_argument", `Failed to parse request: ${e?.message || "unknown error"}`);
+      }
+
+      if (methodName === "Check") {
+        const status = store.check(service);
+        if (!status) return fail(404, "not_found", `unknown service ${service}`);
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ status }));
+        return;
+      }
+
+      res.writeHead(200, { "Content-Type": "application/json", "Transfer-Encoding": "chunked" });
+      const stop = store.watch(
+        service,
+        (status) => res.write(JSON.stringify({ status }) + "\n"),
+        () => {
+          res.write(JSON.stringify({ error: { code: "unavailable", message: "server shutting down" } }) + "\n");
+          res.end();
+        }
+      );
+      res.on("close", stop);
+    });
+  }
+
   /**
    * Handle unary RPC request
    */
@@ -561,41 +642,47 @@ export async function createConnectServer(
   ) {
     try {
       // Create normalized request
+      const protocol = detectProtocol(req);
       const normalizedRequest = {
         service: serviceMeta.fullServiceName,
         method: methodMeta.methodName,
         metadata: extractMetadataFromHeaders(req.headers),
+        peer: peerOf(req),
         data: requestData,
         requestType: methodMeta.requestType,
         responseType: methodMeta.responseType,
         requestStream: false,
         responseStream: false,
+        protocol: protocol === "grpc_web" ? "grpc-web" : protocol,
       };
 
       // Call shared handler
-      const result = await handleUnaryRequest(normalizedRequest, rulesIndex, logger);
+      const result = await handleUnaryRequest(normalizedRequest, rulesIndex, logger, context);
 
       // Check if result is an error
       if ("code" in result && result.code !== "OK") {
         // Increment error counter for non-OK responses
         metrics.errors_total++;
+
+        // Dropped connection (fault injection)
+        if (result.drop) {
+          req.socket.destroy();
+          return;
+        }
         
         // Send error response
-        const statusCode = mapErrorCodeToHttpStatus(result.code);
+        const body = toConnectError(result);
+        const statusCode = mapErrorCodeToHttpStatus(body.code.toUpperCase());
         res.writeHead(statusCode, { "Content-Type": "application/json" });
-        res.end(JSON.stringify({
-          code: result.code.toLowerCase(),
-          message: result.message,
-          details: result.details,
-        }));
+        res.end(JSON.stringify(body));
         return;
       }
 
-      // Send success response
-      res.writeHead(200, { "Content-Type": "application/json" });
+      // Send success response (rule headers go out as HTTP headers)
+      res.writeHead(200, { ...result.metadata, "Content-Type": "application/json" });
       res.end(JSON.stringify(result.data || {}));
     } catch (error: any) {
-      errorLogger("Unary RPC error:", error?.message || error);
+      logger.error("Unary RPC error:", error?.message || error);
       metrics.errors_total++;
       res.writeHead(500, { "Content-Type": "application/json" });
       res.end(JSON.stringify({
@@ -618,52 +705,62 @@ export async function createConnectServer(
   ) {
     try {
       // Create normalized request
+      const protocol = detectProtocol(req);
       const normalizedRequest = {
         service: serviceMeta.fullServiceName,
         method: methodMeta.methodName,
         metadata: extractMetadataFromHeaders(req.headers),
+        peer: peerOf(req),
         data: requestData,
         requestType: methodMeta.requestType,
         responseType: methodMeta.responseType,
         requestStream: false,
         responseStream: true,
+        protocol: protocol === "grpc_web" ? "grpc-web" : protocol,
       };
 
-      // Set headers for streaming
-      res.writeHead(200, {
-        "Content-Type": "application/json",
-        "Transfer-Encoding": "chunked",
-      });
+      // Headers are sent with the first result so rule headers can be included
+      const writeHead = (headers?: Record<string, string>) => {
+        if (res.headersSent) return;
+        res.writeHead(200, {
+          ...headers,
+          "Content-Type": "application/json",
+          "Transfer-Encoding": "chunked",
+        });
+      };
 
       // Call shared handler and stream responses
-      const generator = handleServerStreamingRequest(normalizedRequest, rulesIndex, logger);
+      const generator = handleServerStreamingRequest(normalizedRequest, rulesIndex, logger, context);
       
       for await (const result of generator) {
         // Check if result is an error
         if ("code" in result && result.code !== "OK") {
           // Increment error counter for non-OK responses
           metrics.errors_total++;
+
+          // Dropped connection (fault injection)
+          if (result.drop) {
+            req.socket.destroy();
+            return;
+          }
           
           // Send error and end stream
-          res.write(JSON.stringify({
-            error: {
-              code: result.code.toLowerCase(),
-              message: result.message,
-              details: result.details,
-            }
-          }) + "\n");
+          writeHead();
+          res.write(JSON.stringify({ error: toConnectError(result) }) + "\n");
           res.end();
           return;
         }
 
         // Send response message
+        writeHead(result.metadata);
         res.write(JSON.stringify(result.data || {}) + "\n");
       }
 
       // End the stream
+      writeHead();
       res.end();
     } catch (error: any) {
-      errorLogger("Server streaming RPC error:", error?.message || error);
+      logger.error("Server streaming RPC error:", error?.message || error);
       metrics.errors_total++;
       
       // Try to send error if response not yet sent
@@ -678,6 +775,140 @@ export async function createConnectServer(
     }
   }
 
+  /**
+   * Handle bidirectional streaming RPC request
+   * 
+   * Uses the Connect streaming protocol (application/connect+json or
+   * application/connect+proto): both directions carry enveloped messages
+   * ([flags:1byte][length:4bytes][message]) and the response ends with an
+   * end-stream message holding the error or trailers. Inbound messages are
+   * handed to the shared handler as they arrive, so per_message rules can
+   * reply while the client is still sending.
+   */
+  async function handleBidiStreamingRpc(
+    req: any,
+    res: any,
+    serviceMeta: ConnectServiceMeta,
+    methodMeta: any,
+    handleBidiStreamingRequest: any
+  ) {
+    const contentType = String(req.headers["content-type"] || "");
+    const binary = contentType.startsWith("application/connect+proto");
+    if (!binary && !contentType.startsWith("application/connect+json")) {
+      metrics.errors_total++;
+      res.writeHead(415, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({
+        code: "unimplemented",
+        message: "Bidirectional streaming requires application/connect+json or application/connect+proto",
+      }));
+      return;
+    }
+
+    const protocol = detectProtocol(req);
+    const metadata = extractMetadataFromHeaders(req.headers);
+    const peer = peerOf(req);
+
+    async function* requestGenerator() {
+      for await (const payload of readEnvelopes(req)) {
+        yield {
+          service: serviceMeta.fullServiceName,
+          method: methodMeta.methodName,
+          metadata,
+          data: binary
+            ? methodMeta.requestType.decode(payload)
+            : JSON.parse(payload.toString("utf-8") || "{}"),
+          requestType: methodMeta.requestType,
+          responseType: methodMeta.responseType,
+          requestStream: true,
+          responseStream: true,
+          protocol: protocol === "grpc_web" ? "grpc-web" : protocol,
+          peer,
+        };
+      }
+    }
+
+    const writeEnvelope = (flags: number, payload: Buffer) => {
+      const header = Buffer.alloc(5);
+      header[0] = flags;
+      header.writeUInt32BE(payload.length, 1);
+      res.write(Buffer.concat([header, payload]));
+    };
+    // Headers are sent with the first result so rule headers can be included
+    const writeHead = (headers?: Record<string, string>) => {
+      if (res.headersSent) return;
+      res.writeHead(200, { ...headers, "Content-Type": binary ? "application/connect+proto" : "application/connect+json" });
+    };
+    const endStream = (body: Record<string, unknown>) => {
+      writeHead();
+      writeEnvelope(0x02, Buffer.from(JSON.stringify(body)));
+      res.end();
+    };
+
+    try {
+      let trailer: Record<string, string> | undefined;
+      for await (const result of handleBidiStreamingRequest(requestGenerator(), rulesIndex, logger, context)) {
+        // Check if result is an error
+        if ("code" in result && result.code !== "OK") {
+          metrics.errors_total++;
+
+          // Dropped connection (fault injection)
+          if (result.drop) {
+            req.socket.destroy();
+            return;
+          }
+
+          endStream({ error: toConnectError(result) });
+          return;
+        }
+
+        writeHead(result.metadata);
+        trailer = result.trailer ?? trailer;
+        const type = methodMeta.responseType;
+        writeEnvelope(0, binary
+          ? Buffer.from(type.encode(type.fromObject(result.data || {})).finish())
+          : Buffer.from(JSON.stringify(result.data || {})));
+      }
+
+      // Trailers travel as end-stream metadata (values are lists)
+      const trailerMetadata = trailer
+        ? Object.fromEntries(Object.entries(trailer).map(([k, v]) => [k, [v]]))
+        : undefined;
+      endStream(trailerMetadata ? { metadata: trailerMetadata } : {});
+    } catch (error: any) {
+      logger.error("Bidi streaming RPC error:", error?.message || error);
+      metrics.errors_total++;
+      if (!res.writableEnded) {
+        endStream({ error: { code: "internal", message: error?.message || "Internal server error" } });
+      }
+    }
+  }
+
+  /**
+   * Read enveloped messages from a Connect streaming request body
+   * 
+   * Yields each message payload as soon as it has fully arrived.
+   */
+  async function* readEnvelopes(stream: AsyncIterable<Buffer>): AsyncGenerator<Buffer> {
+    let buffered = Buffer.alloc(0);
+    for await (const chunk of stream) {
+      buffered = Buffer.concat([buffered, chunk]);
+      while (buffered.length >= 5) {
+        const length = buffered.readUInt32BE(1);
+        if (buffered.length < 5 + length) {
+          break;
+        }
+        const flags = buffered[0];
+        const payload = buffered.subarray(5, 5 + length);
+        buffered = buffered.subarray(5 + length);
+        // End-stream flag: nothing more to read
+        if (flags & 0x02) {
+          return;
+        }
+        yield payload;
+      }
+    }
+  }
+
   /**
    * Extract metadata from HTTP headers
    */
@@ -694,7 +925,7 @@ export async function createConnectServer(
       if (value !== undefined) {
         const normalizedKey = key.toLowerCase();
         metadata[normalizedKey] = Array.isArray(value) 
-          ? (value.length === 1 ? String(value[0]) : value.join(', '))
+          ? (value.length === 1 || normalizedKey === SESSION_HEADER ? String(value[0]) : value.join(', '))
           : String(value);
       }
     }
@@ -702,6 +933,14 @@ export async function createConnectServer(
     return metadata;
   }
 
+  /**
+   * Remote address of an HTTP request (e.g., "127.0.0.1:52344")
+   */
+  function peerOf(req: any): string | undefined {
+    const address = req.socket?.remoteAddress;
+    return address ? `${address}:${req.socket.remotePort}` : undefined;
+  }
+
   /**
    * Map error code to HTTP status code
    */
@@ -729,6 +968,24 @@ export async function createConnectServer(
     return statusMap[code] || 500;
   }
 
+  /**
+   * Build the Connect error body for a normalized error
+   * 
+   * Status details declared by rules are sent as `{ type, value, debug }`.
+   * Details that cannot be encoded turn the error into INTERNAL.
+   */
+  function toConnectError(error: NormalizedError): { code: string; message: string; details?: unknown[] } {
+    try {
+      return {
+        code: error.code.toLowerCase(),
+        message: error.message,
+        details: toConnectErrorDetails(error.details),
+      };
+    } catch (e: any) {
+      return { code: "internal", message: `Invalid error details: ${e?.message || e}` };
+    }
+  }
+
   /**
    * Handle incoming HTTP requests
    */
@@ -809,7 +1066,8 @@ export async function createConnectServer(
       
       httpServer.listen(port, () => {
         httpServer.removeListener("error", errorHandler);
-        logger(`Connect RPC server listening on port ${port}`);
+        const address = httpServer.address();
+        logger.info(`Connect RPC server listening on port ${typeof address === "object" && address ? address.port : port}`);
         resolve();
       });
     });
@@ -830,7 +1088,7 @@ export async function createConnectServer(
         if (err) {
           reject(err);
         } else {
-          logger("Connect RPC server stopped");
+          logger.info("Connect RPC server stopped");
           resolve();
         }
       });
@@ -0,0 +1,206 @@
+/**
+ * Rich error details (google.rpc.Status)
+ *
+ * Rules can attach standard `google.rpc` detail messages (ErrorInfo,
+ * RetryInfo, BadRequest, ...) to an error response. Each entry names its
+ * message in `@type` and lists the fields in proto JSON form. This module
+ * encodes them for the wire: packed into a `google.rpc.Status` for the
+ * gRPC `grpc-status-details-bin` trailer, or as Connect error details.
+ */
+
+import protobuf from "protobufjs";
+import type { ErrorDetail } from "../domain/types.js";
+
+const TYPE_URL_PREFIX = "type.googleapis.com/";
+
+const str = (id: number) => ({ type: "string", id });
+const list = (type: string, id: number) => ({ type, id, rule: "repeated" });
+const stringMap = (id: number): protobuf.IMapField => ({ keyType: "string", type: "string", id });
+
+// google/rpc/status.proto and google/rpc/error_details.proto
+const root = protobuf.Root.fromJSON({
+  nested: {
+    google: {
+      nested: {
+        protobuf: {
+          nested: {
+            Any: { fields: { type_url: str(1), value: { type: "bytes", id: 2 } } },
+            Duration: { fields: { seconds: { type: "int64", id: 1 }, nanos: { type: "int32", id: 2 } } },
+          },
+        },
+        rpc: {
+          nested: {
+            Status: {
+              fields: { code: { type: "int32", id: 1 }, message: str(2), details: list("google.protobuf.Any", 3) },
+            },
+            ErrorInfo: {
+              fields: { reason: str(1), domain: str(2), metadata: stringMap(3) },
+            },
+            RetryInfo: { fields: { retry_delay: { type: "google.protobuf.Duration", id: 1 } } },
+            DebugInfo: { fields: { stack_entries: list("string", 1), detail: str(2) } },
+            QuotaFailure: {
+              fields: { violations: list("Violation", 1) },
+              nested: { Violation: { fields: { subject: str(1), description: str(2) } } },
+            },
+            PreconditionFailure: {
+              fields: { violations: list("Violation", 1) },
+              nested: { Violation: { fields: { type: str(1), subject: str(2), description: str(3) } } },
+            },
+            BadRequest: {
+              fields: { field_violations: list("FieldViolation", 1) },
+              nested: {
+                FieldViolation: {
+                  fields: {
+                    field: str(1),
+                    description: str(2),
+                    reason: str(3),
+                    localized_message: { type: "LocalizedMessage", id: 4 },
+                  },
+                },
+              },
+            },
+            RequestInfo: { fields: { request_id: str(1), serving_data: str(2) } },
+            ResourceInfo: { fields: { resource_type: str(1), resource_name: str(2), owner: str(3), description: str(4) } },
+            Help: {
+              fields: { links: list("Link", 1) },
+              nested: { Link: { fields: { description: str(1), url: str(2) } } },
+            },
+            LocalizedMessage: { fields: { locale: str(1), message: str(2) } },
+          },
+        },
+      },
+    },
+  },
+}).resolveAll();
+
+const StatusType = root.lookupType("google.rpc.Status");
+
+/**
+ * Error detail encoded as protobuf bytes
+ */
+export interface EncodedErrorDetail {
+  /** Fully qualified message name (e.g. google.rpc.ErrorInfo) */
+  typeName: string;
+  value: Uint8Array;
+  /** Fields as declared in the rule (minus `@type`) */
+  debug: Record<string, unknown>;
+}
+
+/**
+ * Whether an error carries rule-declared status details
+ *
+ * Other details (such as raw validation violations) have no `@type` and
+ * keep their legacy JSON treatment.
+ */
+export function hasStatusDetails(details: unknown[] | undefined): details is unknown[] {
+  return Array.isArray(details) && details.some(isStatusDetail);
+}
+
+function isStatusDetail(detail: unknown): detail is ErrorDetail {
+  return typeof detail === "object" && detail !== null && typeof (detail as any)["@type"] === "string";
+}
+
+/**
+ * Look up a supported detail message
+ *
+ * @param typeName Message name, with or without the type.googleapis.com/ prefix
+ * @returns Message type, or null when it is not a google.rpc detail
+ */
+export function lookupErrorDetailType(typeName: string): protobuf.Type | null {
+  const name = typeName.startsWith(TYPE_URL_PREFIX) ? typeName.slice(TYPE_URL_PREFIX.length) : typeName;
+  if (!name.startsWith("google.rpc.") || name === "google.rpc.Status") return null;
+  const type = root.lookup(name);
+  return type instanceof protobuf.Type ? type : null;
+}
+
+/**
+ * Encode the status details of an error
+ *
+ * @param details Error details (entries without `@type` are skipped)
+ * @returns Encoded details in declaration order
+ * @throws Error when a detail names an unsupported type or field
+ */
+export function encodeErrorDetails(details: unknown[]): EncodedErrorDetail[] {
+  return details.filter(isStatusDetail).map((detail) => {
+    const type = lookupErrorDetailType(detail["@type"]);
+    if (!type) throw new Error(`unsupported error detail type: ${detail["@type"]}`);
+    const { "@type": _, ...debug } = detail;
+    const message = type.fromObject(toProtoObject(type, debug));
+    return { typeName: type.fullName.slice(1), value: type.encode(message).finish(), debug };
+  });
+}
+
+/**
+ * Encode an error as a serialized google.rpc.Status
+ *
+ * @param code Numeric gRPC status code
+ * @param message Status message
+ * @param details Error details
+ * @returns Value for the `grpc-status-details-bin` trailer
+ */
+export function encodeGrpcStatusDetails(code: number, message: string, details: unknown[]): Buffer {
+  const status = StatusType.fromObject({
+    code,
+    message,
+    details: encodeErrorDetails(details).map((d) => ({ type_url: TYPE_URL_PREFIX + d.typeName, value: d.value })),
+  });
+  return Buffer.from(StatusType.encode(status).finish());
+}
+
+/**
+ * Convert error details to the Connect wire format
+ *
+ * Status details become `{ type, value, debug }` with base64 protobuf
+ * bytes, as Connect clients expect. Other entries are passed through.
+ *
+ * @param details Error details
+ * @returns Connect error details
+ * @throws Error when a detail names an unsupported type or field
+ */
+export function toConnectErrorDetails(details: unknown[] | undefined): unknown[] | undefined {
+  if (!hasStatusDetails(details)) return details;
+  const encoded = encodeErrorDetails(details);
+  let next = 0;
+  return details.map((detail) => {
+    if (!isStatusDetail(detail)) return detail;
+    const d = encoded[next++];
+    return {
+      type: d.typeName,
+      value: Buffer.from(d.value).toString("base64").replace(/=+$/, ""),
+      debug: d.debug,
+    };
+  });
+}
+
+/**
+ * Map proto JSON field names (snake_case or lowerCamelCase) onto the
+ * message's fields, parsing Duration strings such as "1.5s"
+ */
+function toProtoObject(type: protobuf.Type, value: unknown): Record<string, unknown> {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new Error(`${type.fullName.slice(1)} must be an object`);
+  }
+  const out: Record<string, unknown> = {};
+  for (const [key, v] of Object.entries(value)) {
+    const field = type.fields[key] ?? type.fields[key.replace(/[A-Z]/g, (c) => `_${c.toLowerCase()}`)];
+    if (!field) throw new Error(`${type.fullName.slice(1)} has no field ${key}`);
+    const nested = field.resolvedType;
+    if (nested instanceof protobuf.Type && !field.map) {
+      const convert = (item: unknown) =>
+        nested.fullName === ".google.protobuf.Duration" && typeof item === "string"
+          ? parseDuration(item)
+          : toProtoObject(nested, item);
+      out[field.name] = field.repeated && Array.isArray(v) ? v.map(convert) : convert(v);
+    } else {
+      out[field.name] = v;
+    }
+  }
+  return out;
+}
+
+function parseDuration(text: string): { seconds: number; nanos: number } {
+  const m = /^(-?)(\d+)(?:\.(\d{1,9}))?s$/.exec(text.trim());
+  if (!m) throw new Error(`invalid duration: ${text} (expected e.g. "1.5s")`);
+  const sign = m[1] ? -1 : 1;
+  return { seconds: sign * Number(m[2]), nanos: sign * Number((m[3] ?? "").padEnd(9, "0")) };
+}
@@ -12,6 +12,7 @@ import {
   sendGrpcResponse,
   sendGrpcError,
   extractGrpcMetadata,
+  grpcPeerOf,
 } from "./protocolAdapter.js";
 import {
   handleUnaryRequest,
@@ -19,7 +20,9 @@ import {
   handleClientStreamingRequest,
   handleBidiStreamingRequest,
 } from "../domain/usecases/handleRequest.js";
+import type { HandlerContext } from "../domain/usecases/handlerContext.js";
 import type { NormalizedRequest } from "../domain/types/normalized.js";
+import { toLogger, type LoggerLike } from "./logging/logger.js";
 import { isNormalizedError } from "../domain/types/normalized.js";
 import { normalizeTypeName } from "./utils/protoUtils.js";
 
@@ -42,7 +45,13 @@ export interface HandlerMeta {
   requestStream: boolean;
   responseStream: boolean;
 }
-export function buildHandlersFromRoot(rootNamespace: protobuf.Root, rulesIndex: RulesIndex, log: (...a: any[]) => void, err: (...a: any[]) => void): Map<string, HandlerMeta> {
+export function buildHandlersFromRoot(
+  rootNamespace: protobuf.Root,
+  rulesIndex: RulesIndex,
+  logger: LoggerLike,
+  context?: HandlerContext
+): Map<string, HandlerMeta> {
+  const log = toLogger(logger);
   const servicesMap = new Map<string, HandlerMeta>();
 
   type JsonNS = {
@@ -83,7 +92,7 @@ export function buildHandlersFromRoot(rootNamespace: protobuf.Root, rulesIndex:
               );
 
               // Call shared handler
-              const result = await handleUnaryRequest(normalizedRequest, rulesIndex, log);
+              const result = await handleUnaryRequest(normalizedRequest, rulesIndex, log, context);
 
               // Check if result is an error
               if (isNormalizedError(result)) {
@@ -92,7 +101,7 @@ export function buildHandlersFromRoot(rootNamespace: protobuf.Root, rulesIndex:
                 sendGrpcResponse(call, result, false, false, callback);
               }
             } catch (error: any) {
-              err(`[grpc] ${fqmn} - handler error:`, error?.message || error);
+              log.error(`[grpc] ${fqmn} - handler error:`, error?.message || error);
               callback({
                 code: grpc.status.INTERNAL,
                 message: error?.message || "Internal error",
@@ -113,7 +122,7 @@ export function buildHandlersFromRoot(rootNamespace: protobuf.Root, rulesIndex:
               );
 
               // Call shared handler (async generator)
-              for await (const result of handleServerStreamingRequest(normalizedRequest, rulesIndex, log)) {
+              for await (const result of handleServerStreamingRequest(normalizedRequest, rulesIndex, log, context)) {
                 // Check if call was cancelled
                 if ((call as any).cancelled) {
                   break;
@@ -131,7 +140,7 @@ export function buildHandlersFromRoot(rootNamespace: protobuf.Root, rulesIndex:
               // End the stream
               call.end();
             } catch (error: any) {
-              err(`[grpc] ${fqmn} - handler error:`, error?.message || error);
+              log.error(`[grpc] ${fqmn} - handler error:`, error?.message || error);
               const grpcError: grpc.ServiceError = {
                 name: 'INTERNAL',
                 message: error?.message || "Internal error",
@@ -146,6 +155,7 @@ export function buildHandlersFromRoot(rootNamespace: protobuf.Root, rulesIndex:
           // Client streaming: use shared handler
           handler = (call: grpc.ServerReadableStream<any, any>, callback: grpc.sendUnaryData<any>) => {
             const metadata = extractGrpcMetadata(call.metadata);
+            const peer = grpcPeerOf(call);
 
             // Create async generator from call stream using event listeners
             async function* requestGenerator(): AsyncGenerator<NormalizedRequest> {
@@ -175,6 +185,8 @@ export function buildHandlersFromRoot(rootNamespace: protobuf.Root, rulesIndex:
                   responseType: resType,
                   requestStream: true,
                   responseStream: false,
+                  protocol: "grpc",
+                  peer,
                 };
                 yield normalizedRequest;
               }
@@ -183,7 +195,7 @@ export function buildHandlersFromRoot(rootNamespace: protobuf.Root, rulesIndex:
             // Call shared handler asynchronously
             (async () => {
               try {
-                const result = await handleClientStreamingRequest(requestGenerator(), rulesIndex, log);
+                const result = await handleClientStreamingRequest(requestGenerator(), rulesIndex, log, context);
 
                 // Check if result is an error
                 if (isNormalizedError(result)) {
@@ -192,7 +204,7 @@ export function buildHandlersFromRoot(rootNamespace: protobuf.Root, rulesIndex:
                   sendGrpcResponse(call, result, true, false, callback);
                 }
               } catch (error: any) {
-                err(`[grpc] ${fqmn} - handler error:`, error?.message || error);
+                log.error(`[grpc] ${fqmn} - handler error:`, error?.message || error);
                 callback({
                   code: grpc.status.INTERNAL,
                   message: error?.message || "Internal error",
@@ -204,37 +216,58 @@ export function buildHandlersFromRoot(rootNamespace: protobuf.Root, rulesIndex:
           // Bidirectional streaming: use shared handler
           handler = (call: grpc.ServerDuplexStream<any, any>) => {
             const metadata = extractGrpcMetadata(call.metadata);
+            const peer = grpcPeerOf(call);
+
+            // Buffer messages from the moment the call starts; listeners are
+            // attached here so nothing emitted before the handler runs is lost
+            const chunks: any[] = [];
+            let ended = false;
+            let failure: unknown = null;
+            let wake: (() => void) | null = null;
+            const notify = () => {
+              wake?.();
+              wake = null;
+            };
+            call.on("data", (chunk) => {
+              chunks.push(chunk);
+              notify();
+            });
+            call.on("end", () => {
+              ended = true;
+              notify();
+            });
+            call.on("error", (e) => {
+              // A cancelled call simply ends the request stream
+              if ((e as any)?.code !== grpc.status.CANCELLED) {
+                failure = e;
+              }
+              ended = true;
+              notify();
+            });
 
-            // Create async generator from call stream using event listeners
+            // Create async generator yielding messages as they arrive, so
+            // per_message rules can reply before the client finishes sending
             async function* requestGenerator(): AsyncGenerator<NormalizedRequest> {
-              const chunks: any[] = [];
-              const endPromise = new Promise<void>((resolve, reject) => {
-                call.on("data", (chunk) => {
-                  chunks.push(chunk);
-                });
-                call.on("end", () => resolve());
-                call.on("error", (e) => {
-                  if ((e as any)?.code !== grpc.status.CANCELLED) {
-                    reject(e);
-                  }
-                });
-              });
-
-              await endPromise;
-
-              // Yield all collected chunks
-              for (const chunk of chunks) {
-                const normalizedRequest: NormalizedRequest = {
-                  service: fqService,
-                  method: methodName,
-                  metadata,
-                  data: chunk,
-                  requestType: reqType,
-                  responseType: resType,
-                  requestStream: true,
-                  responseStream: true,
-                };
-                yield normalizedRequest;
+              while (true) {
+                if (chunks.length > 0) {
+                  const normalizedRequest: NormalizedRequest = {
+                    service: fqService,
+                    method: methodName,
+                    metadata,
+                    data: chunks.shift(),
+                    requestType: reqType,
+                    responseType: resType,
+                    requestStream: true,
+                    responseStream: true,
+                    protocol: "grpc",
+                    peer,
+                  };
+                  yield normalizedRequest;
+                  continue;
+                }
+                if (failure) throw failure;
+                if (ended) return;
+                await new Promise<void>((resolve) => (wake = resolve));
               }
             }
 
@@ -242,7 +275,7 @@ export function buildHandlersFromRoot(rootNamespace: protobuf.Root, rulesIndex:
             (async () => {
               try {
                 // Call shared handler (async generator)
-                for await (const result of handleBidiStreamingRequest(requestGenerator(), rulesIndex, log)) {
+                for await (const result of handleBidiStreamingRequest(requestGenerator(), rulesIndex, log, context)) {
                   // Check if call was cancelled
                   if ((call as any).cancelled) {
                     break;
@@ -260,7 +293,7 @@ export function buildHandlersFromRoot(rootNamespace: protobuf.Root, rulesIndex:
                 // End the stream
                 call.end();
               } catch (error: any) {
-                err(`[grpc] ${fqmn} - handler error:`, error?.message || error);
+                log.error(`[grpc] ${fqmn} - handler error:`, error?.message || error);
                 const grpcError: grpc.ServiceError = {
                   name: 'INTERNAL',
                   message: error?.message || "Internal error",
@@ -294,8 +327,8 @@ export function buildHandlersFromRoot(rootNamespace: protobuf.Root, rulesIndex:
     }
   }
 
-  if (servicesMap.size === 0) log("(warn) No services discovered from protos (JSON)");
-  else log(`(info) Discovered services: ${[...servicesMap.keys()].join(", ")}`);
+  if (servicesMap.size === 0) log.warn("No services discovered from protos (JSON)");
+  else log.info(`Discovered services: ${[...servicesMap.keys()].join(", ")}`);
   return servicesMap;
 }
 
@@ -308,16 +341,18 @@ export interface GrpcServerDependencies {
 export async function createGrpcServer(
   rootNamespace: protobuf.Root,
   rulesIndex: RulesIndex,
-  log: (...a: any[]) => void,
-  err: (...a: any[]) => void,
-  opts?: { protoDir?: string; entryFiles?: string[] },
+  logger: LoggerLike,
+  opts?: { protoDir?: string | string[]; entryFiles?: string[]; context?: HandlerContext },
   deps?: GrpcServerDependencies
 ) {
   const g = deps?.grpc || grpc;
   const pl = deps?.protoLoader || protoLoader;
   const wrapper = deps?.wrapServerWithReflection || wrapServerWithReflection;
+  const protoDirs = opts?.protoDir === undefined ? [] : ([] as string[]).concat(opts.protoDir).map(d => path.resolve(d));
+  const protoDir = protoDirs[0];
 
-  const servicesMap = buildHandlersFromRoot(rootNamespace, rulesIndex, log, err);
+  const log = toLogger(logger);
+  const servicesMap = buildHandlersFromRoot(rootNamespace, rulesIndex, log, opts?.context);
   // Prepare raw server; will wrap with reflection after loading package definitions
   const rawServer = new g.Server();
 
@@ -331,15 +366,14 @@ export async function createGrpcServer(
     if (opts?.entryFiles && opts.entryFiles.length) {
       // Use only the entry files; proto-loader will resolve imports using includeDirs.
       files = opts.entryFiles.map(f => path.resolve(f));
-    } else if (opts?.protoDir) {
+    } else if (protoDir) {
       // No explicit entry files; include only top‑level .proto files in protoDir
       // (exclude nested vendor trees like envoy/* that may be incomplete).
-      const base = path.resolve(opts.protoDir);
-      const top = fs.readdirSync(base)
+      const top = protoDirs.flatMap(base => fs.readdirSync(base)
         .map(name => path.join(base, name))
         .filter(p => {
           try { return fs.statSync(p).isFile() && p.endsWith('.proto'); } catch { return false; }
-        });
+        }));
       files = top.length ? top : undefined;
     } else if (filesFromRoot && filesFromRoot.length) {
       // Recursively include all .proto files under protoDir so reflection has
@@ -347,17 +381,16 @@ export async function createGrpcServer(
       // (Only used when protoDir is unavailable.)
       // Filter to only main proto files, not dependencies
       files = filesFromRoot.filter(f => {
-        const rel = opts?.protoDir ? path.relative(opts.protoDir, f) : path.basename(f);
+        const rel = protoDir ? path.relative(protoDir, f) : path.basename(f);
         return !rel.includes('/') && rel.endsWith('.proto');
       });
     }
 
     if (files && files.length) {
-      // Build include paths: protoDir as the primary include path (+ common subdirs if present)
+      // Build include paths: each protoDir as a primary include path (+ common subdirs if present)
       let includeDirs: string[] = [];
-      if (opts?.protoDir) {
-        const base = path.resolve(opts.protoDir);
-        includeDirs = [base];
+      for (const base of protoDirs) {
+        includeDirs.push(base);
         const pushIfDir = (d: string) => { try { if (fs.existsSync(d) && fs.statSync(d).isDirectory()) includeDirs.push(d); } catch { } };
         // Add all first-level subdirectories under base
         try {
@@ -380,8 +413,8 @@ export async function createGrpcServer(
         includeDirs = Array.from(new Set(includeDirs));
       }
 
-      log(`(info) Reflection: proto-loader files: ${files.map(f => path.relative(opts?.protoDir || process.cwd(), f)).join(", ")}`);
-      log(`(info) Reflection: includeDirs: ${includeDirs.map(d => path.relative(process.cwd(), d)).join(", ")}`);
+      log.debug(`Reflection: proto-loader files: ${files.map(f => path.relative(protoDir || process.cwd(), f)).join(", ")}`);
+      log.debug(`Reflection: includeDirs: ${includeDirs.map(d => path.relative(process.cwd(), d)).join(", ")}`);
 
       // Load ALL entry files in a single call so proto-loader retains a complete
       // descriptor set (including transitive dependencies like google/type/*).
@@ -400,7 +433,7 @@ export async function createGrpcServer(
           const hasDT = !!(packageObject as any)?.google?.type?.DateTime;
           const dt: any = (packageObject as any)?.google?.type?.DateTime;
           const fdpLen = Array.isArray(dt?.fileDescriptorProtos) ? dt.fileDescriptorProtos.length : 0;
-          log(`(info) Reflection: google.type.DateTime present: ${hasDT} descriptors: ${fdpLen}`);
+          log.debug(`Reflection: google.type.DateTime present: ${hasDT} descriptors: ${fdpLen}`);
           const calSvc: any = (packageObject as any)?.calendar?.Events;
           const calSvcDef: any = calSvc?.service;
           if (calSvcDef) {
@@ -409,19 +442,19 @@ export async function createGrpcServer(
             const resType: any = getEvent?.responseType;
             const reqLen = Array.isArray(reqType?.fileDescriptorProtos) ? reqType.fileDescriptorProtos.length : 0;
             const resLen = Array.isArray(resType?.fileDescriptorProtos) ? resType.fileDescriptorProtos.length : 0;
-            log(`(info) Reflection: calendar.Events/GetEvent descriptors — req: ${reqLen} res: ${resLen}`);
+            log.debug(`Reflection: calendar.Events/GetEvent descriptors — req: ${reqLen} res: ${resLen}`);
           }
         } catch { }
         for (const f of files) {
-          log(`(info) Reflection: loaded ${path.relative(opts?.protoDir || process.cwd(), f)}`);
+          log.debug(`Reflection: loaded ${path.relative(protoDir || process.cwd(), f)}`);
         }
       } catch (e: any) {
-        log(`(warn) Reflection: failed to load proto definitions: ${e?.message || e}`);
+        log.warn(`Reflection: failed to load proto definitions: ${e?.message || e}`);
       }
     }
   } catch (e) {
     // If this fails, server still works; only reflection may be limited
-    err("(warn) Failed to load package definition for reflection:", e);
+    log.warn("Failed to load package definition for reflection:", e);
   }
 
   function lowerFirst(s: string) { return s ? s.charAt(0).toLowerCase() + s.slice(1) : s; }
@@ -457,10 +490,10 @@ export async function createGrpcServer(
   for (const [fullServiceName, { impl }] of byService.entries()) {
     const serviceDef = getServiceDef(fullServiceName);
     if (serviceDef) {
-      log(`(info) Reflection: using proto-loader def for ${fullServiceName}`);
+      log.debug(`Reflection: using proto-loader def for ${fullServiceName}`);
       s.addService(serviceDef, impl as any);
     } else {
-      log(`(warn) Reflection: missing proto-loader def for ${fullServiceName}; using fallback definition`);
+      log.warn(`Reflection: missing proto-loader def for ${fullServiceName}; using fallback definition`);
       // Fallback: register using manual definition (no reflection metadata)
       const def: any = {};
       for (const [fqmn, meta] of servicesMap.entries()) {
@@ -0,0 +1,100 @@
+import * as grpc from "@grpc/grpc-js";
+import protobuf from "protobufjs";
+import {
+  HEALTH_SERVICE,
+  SERVING_STATUSES,
+  type HealthStore,
+  type ServingStatus,
+} from "../../domain/health/healthStore.js";
+import { toLogger, type LoggerLike } from "../logging/logger.js";
+
+// grpc.health.v1 messages, built in so the service works whatever the proto directory holds
+const healthRoot = protobuf.Root.fromJSON({
+  nested: {
+    HealthCheckRequest: { fields: { service: { type: "string", id: 1 } } },
+    HealthCheckResponse: { fields: { status: { type: "int32", id: 1 } } },
+  },
+});
+const HealthCheckRequest = healthRoot.lookupType("HealthCheckRequest");
+const HealthCheckResponse = healthRoot.lookupType("HealthCheckResponse");
+
+/**
+ * Decode a binary HealthCheckRequest
+ *
+ * @returns Requested service name ("" for the overall server)
+ */
+export function decodeHealthCheckRequest(buf: Uint8Array): string {
+  return String((HealthCheckRequest.decode(buf) as any).service || "");
+}
+
+/** Encode a binary HealthCheckResponse */
+export function encodeHealthCheckResponse(status: ServingStatus): Buffer {
+  return Buffer.from(HealthCheckResponse.encode({ status: SERVING_STATUSES.indexOf(status) }).finish());
+}
+
+const raw = (buf: Buffer) => buf;
+
+/**
+ * Serve grpc.health.v1.Health (Check and Watch) on a gRPC server
+ *
+ * Statuses come from the health store. Left alone when the loaded protos
+ * define the health service, so rules mocking it keep working.
+ *
+ * @param server gRPC server (before it is started)
+ * @param store Health store of the instance
+ * @param loadedServices Fully qualified names of services already registered
+ * @param logger Logger (or a function receiving every message)
+ * @returns Whether the service was added
+ */
+export function addHealthService(
+  server: grpc.Server,
+  store: HealthStore,
+  loadedServices: Set<string>,
+  logger: LoggerLike
+): boolean {
+  const log = toLogger(logger);
+  if (loadedServices.has(HEALTH_SERVICE)) {
+    log.info(`[health] ${HEALTH_SERVICE} is defined by the loaded protos; not serving the built-in health service`);
+    return false;
+  }
+  const method = (name: string, responseStream: boolean) => ({
+    path: `/${HEALTH_SERVICE}/${name}`,
+    requestStream: false,
+    responseStream,
+    requestSerialize: raw,
+    requestDeserialize: raw,
+    responseSerialize: raw,
+    responseDeserialize: raw,
+  });
+  server.addService({ Check: method("Check", false), Watch: method("Watch", true) }, {
+    Check: (call: grpc.ServerUnaryCall<Buffer, Buffer>, callback: grpc.sendUnaryData<Buffer>) => {
+      let service: string;
+      try {
+        service = decodeHealthCheckRequest(call.request);
+      } catch (e: any) {
+        return callback({ code: grpc.status.INVALID_ARGUMENT, details: `invalid HealthCheckRequest: ${e?.message || e}` });
+      }
+      const status = store.check(service);
+      if (!status) return callback({ code: grpc.status.NOT_FOUND, details: `unknown service ${service}` });
+      callback(null, encodeHealthCheckResponse(status));
+    },
+    Watch: (call: grpc.ServerWritableStream<Buffer, Buffer>) => {
+      let service: string;
+      try {
+        service = decodeHealthCheckRequest(call.request);
+      } catch (e: any) {
+        call.emit("error", { code: grpc.status.INVALID_ARGUMENT, details: `invalid HealthCheckRequest: ${e?.message || e}` });
+        return;
+      }
+      const stop = store.watch(
+        service,
+        (status) => call.write(encodeHealthCheckResponse(status)),
+        // Ended by the server going away; clients retry Watch on UNAVAILABLE
+        () => call.emit("error", { code: grpc.status.UNAVAILABLE, details: "server shutting down" })
+      );
+      call.on("cancelled", stop);
+      call.on("close", stop);
+    },
+  });
+  return true;
+}
@@ -0,0 +1,52 @@
+import fs from "fs";
+import path from "path";
+
+/**
+ * Append-only log file rotated by size
+ *
+ * When a write would take the file past `maxBytes`, the file is renamed to
+ * `<file>.1` (older ones shift to `.2`, `.3`, ...) and a new file is started;
+ * files beyond `maxFiles` are deleted. Writes are synchronous so lines are
+ * never lost or reordered on exit.
+ */
+export class RotatingFileSink {
+  private fd: number | null = null;
+  private size = 0;
+
+  constructor(
+    readonly file: string,
+    private readonly maxBytes: number,
+    private readonly maxFiles: number
+  ) {}
+
+  write(line: string): void {
+    const data = Buffer.from(line.endsWith("\n") ? line : `${line}\n`);
+    if (this.fd === null) this.open();
+    if (this.maxBytes > 0 && this.size > 0 && this.size + data.length > this.maxBytes) this.rotate();
+    fs.writeSync(this.fd!, data);
+    this.size += data.length;
+  }
+
+  close(): void {
+    if (this.fd === null) return;
+    try { fs.closeSync(this.fd); } catch {}
+    this.fd = null;
+  }
+
+  private open(): void {
+    fs.mkdirSync(path.dirname(this.file), { recursive: true });
+    this.fd = fs.openSync(this.file, "a");
+    this.size = fs.fstatSync(this.fd).size;
+  }
+
+  private rotate(): void {
+    this.close();
+    try { fs.rmSync(`${this.file}.${this.maxFiles}`, { force: true }); } catch {}
+    for (let i = this.maxFiles - 1; i >= 1; i--) {
+      if (fs.existsSync(`${this.file}.${i}`)) fs.renameSync(`${this.file}.${i}`, `${this.file}.${i + 1}`);
+    }
+    if (this.maxFiles > 0) fs.renameSync(this.file, `${this.file}.1`);
+    else fs.rmSync(this.file, { force: true });
+    this.open();
+  }
+}
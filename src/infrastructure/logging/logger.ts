@@ -0,0 +1,146 @@
+import { format } from "util";
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+export type LogFormat = "pretty" | "json";
+export type LogFn = (...args: any[]) => void;
+
+export const LOG_LEVELS: readonly LogLevel[] = ["debug", "info", "warn", "error"];
+
+/**
+ * One finished call, as written to the access log
+ */
+export interface AccessLogEntry {
+  /** ISO timestamp when the call was received */
+  timestamp: string;
+  protocol?: "grpc" | "grpc-web" | "connect";
+  /** Remote address of the caller, when known */
+  peer?: string;
+  service: string;
+  method: string;
+  /** gRPC status code name */
+  status: string;
+  message?: string;
+  latency_ms: number;
+  rule_key: string | null;
+  response_index: number | null;
+  proxied: boolean;
+  session?: string;
+  messages_received?: number;
+  messages_sent?: number;
+  /** Request message (client streams: the messages received); only with ACCESS_LOG_BODIES */
+  request?: unknown;
+  /** Response message (unary and client streams); only with ACCESS_LOG_BODIES */
+  response?: unknown;
+}
+
+/**
+ * Logger used across the servers and the shared request handlers
+ */
+export interface Logger {
+  debug(...args: unknown[]): void;
+  info(...args: unknown[]): void;
+  warn(...args: unknown[]): void;
+  error(...args: unknown[]): void;
+  /** Write an access log entry for a finished call */
+  access(entry: AccessLogEntry): void;
+}
+
+/** A Logger, or a plain function that receives messages of every level */
+export type LoggerLike = Logger | LogFn;
+
+/**
+ * Turn a plain log function into a Logger (Loggers are returned as-is)
+ *
+ * @param log Logger or function receiving debug/info/warn messages (and access lines)
+ * @param errorLog Function receiving error messages (default: log)
+ */
+export function toLogger(log: LoggerLike, errorLog?: LogFn): Logger {
+  if (typeof log !== "function") return log;
+  return {
+    debug: log,
+    info: log,
+    warn: log,
+    error: errorLog ?? log,
+    access: (entry) => log(formatAccessPretty(entry)),
+  };
+}
+
+export interface LoggerOptions {
+  /** Minimum level written; access entries are written at info */
+  level: LogLevel;
+  format: LogFormat;
+  /** Receives each formatted line (without trailing newline) */
+  write: (line: string, level: LogLevel) => void;
+}
+
+/**
+ * Create a Logger writing formatted lines to a sink
+ *
+ * pretty keeps the `[wishmock] message` lines (non-info levels are tagged
+ * `(warn)`, `(error)`, `(debug)`); json writes one object per line.
+ */
+export function createLogger(options: LoggerOptions): Logger {
+  const threshold = LOG_LEVELS.indexOf(options.level);
+  const enabled = (level: LogLevel) => LOG_LEVELS.indexOf(level) >= threshold;
+
+  const message = (level: LogLevel) => (...args: unknown[]) => {
+    if (!enabled(level)) return;
+    const text = format(...args);
+    if (options.format === "json") {
+      options.write(JSON.stringify({ time: new Date().toISOString(), level, msg: text }), level);
+    } else {
+      options.write(`[wishmock] ${level === "info" ? "" : `(${level}) `}${text}`, level);
+    }
+  };
+
+  return {
+    debug: message("debug"),
+    info: message("info"),
+    warn: message("warn"),
+    error: message("error"),
+    access: (entry) => {
+      if (!enabled("info")) return;
+      if (options.format === "json") {
+        options.write(JSON.stringify({ time: entry.timestamp, level: "info", type: "access", ...entry }), "info");
+      } else {
+        options.write(`[wishmock] ${formatAccessPretty(entry)}`, "info");
+      }
+    },
+  };
+}
+
+/**
+ * One-line human-readable form of an access entry
+ */
+export function formatAccessPretty(entry: AccessLogEntry): string {
+  const parts = [
+    `[access] ${entry.protocol ?? "-"} ${entry.service}/${entry.method} ${entry.status} ${entry.latency_ms}ms`,
+  ];
+  if (entry.peer) parts.push(`peer=${entry.peer}`);
+  if (entry.rule_key) parts.push(`rule=${entry.rule_key}${entry.response_index !== null ? `#${entry.response_index}` : ""}`);
+  if (entry.proxied) parts.push("proxied");
+  if (entry.session) parts.push(`session=${entry.session}`);
+  if (entry.messages_received) parts.push(`received=${entry.messages_received}`);
+  if (entry.messages_sent) parts.push(`sent=${entry.messages_sent}`);
+  if (entry.message) parts.push(`message=${JSON.stringify(entry.message)}`);
+  if (entry.request !== undefined) parts.push(`request=${JSON.stringify(entry.request)}`);
+  if (entry.response !== undefined) parts.push(`response=${JSON.stringify(entry.response)}`);
+  return parts.join(" ");
+}
+
+/**
+ * Copy a message with the values of sensitive keys replaced by "[REDACTED]"
+ *
+ * @param value Message (plain object, array or scalar)
+ * @param keys Lower-case key names to redact, at any depth
+ */
+export function redact(value: unknown, keys: Set<string>): unknown {
+  if (Array.isArray(value)) return value.map((v) => redact(v, keys));
+  if (!value || typeof value !== "object") return value;
+  if (Buffer.isBuffer(value) || value instanceof Uint8Array) return Buffer.from(value).toString("base64");
+  const out: Record<string, unknown> = {};
+  for (const [key, v] of Object.entries(value)) {
+    out[key] = keys.has(key.toLowerCase()) ? "[REDACTED]" : redact(v, keys);
+  }
+  return out;
+}
@@ -0,0 +1,187 @@
+import {
+  createLogger,
+  redact,
+  LOG_LEVELS,
+  type AccessLogEntry,
+  type LogFormat,
+  type Logger,
+  type LogLevel,
+} from "./logger.js";
+import { RotatingFileSink } from "./fileSink.js";
+
+const DEFAULT_REDACT_KEYS = ["password", "passwd", "secret", "token", "access_token", "refresh_token", "api_key", "apikey", "authorization", "credit_card", "card_number"];
+const DEFAULT_FILE_MAX_BYTES = 10 * 1024 * 1024;
+const DEFAULT_FILE_MAX_FILES = 5;
+
+export interface LoggingOptions {
+  level: LogLevel;
+  format: LogFormat;
+  /** Log file (rotated by size); unset writes to stdout/stderr */
+  file?: string;
+  fileMaxBytes: number;
+  /** Rotated files kept next to the active one */
+  fileMaxFiles: number;
+  /** Write an access entry per finished call */
+  access: boolean;
+  /** Include request/response messages in access entries */
+  accessBodies: boolean;
+  /** Keys whose values are redacted from logged messages (case-insensitive) */
+  redactKeys: string[];
+}
+
+export interface LoggingInfo {
+  level: LogLevel;
+  format: LogFormat;
+  file?: string;
+  access_log: boolean;
+  access_log_bodies: boolean;
+}
+
+const DEFAULTS: LoggingOptions = {
+  level: "info",
+  format: "pretty",
+  fileMaxBytes: DEFAULT_FILE_MAX_BYTES,
+  fileMaxFiles: DEFAULT_FILE_MAX_FILES,
+  access: true,
+  accessBodies: false,
+  redactKeys: DEFAULT_REDACT_KEYS,
+};
+
+/**
+ * Process-wide logger: the default for the servers and request handlers,
+ * and the writer of the access log
+ *
+ * The runtime itself is a Logger, so references taken before
+ * configureFromEnv() follow later configuration.
+ */
+class LoggingRuntime implements Logger {
+  private options: LoggingOptions = { ...DEFAULTS };
+  private sink: RotatingFileSink | null = null;
+  private logger: Logger = this.build();
+  private redactKeys: Set<string> = new Set(DEFAULTS.redactKeys);
+
+  /**
+   * Read LOG_LEVEL, LOG_FORMAT, LOG_FILE, LOG_FILE_MAX_SIZE, LOG_FILE_MAX_FILES,
+   * ACCESS_LOG, ACCESS_LOG_BODIES and LOG_REDACT_KEYS
+   */
+  configureFromEnv(): void {
+    const env = process.env;
+    const level = String(env.LOG_LEVEL || '').toLowerCase();
+    const format = String(env.LOG_FORMAT || '').toLowerCase();
+    const access = String(env.ACCESS_LOG ?? '').toLowerCase();
+    const bodies = String(env.ACCESS_LOG_BODIES || '').toLowerCase();
+    const maxBytes = parseSize(env.LOG_FILE_MAX_SIZE);
+    const maxFiles = parseInt(env.LOG_FILE_MAX_FILES || '', 10);
+    this.configure({
+      level: (LOG_LEVELS as readonly string[]).includes(level) ? (level as LogLevel) : DEFAULTS.level,
+      format: format === 'json' ? 'json' : 'pretty',
+      file: String(env.LOG_FILE || '').trim() || undefined,
+      fileMaxBytes: maxBytes ?? DEFAULTS.fileMaxBytes,
+      fileMaxFiles: Number.isFinite(maxFiles) && maxFiles >= 0 ? maxFiles : DEFAULTS.fileMaxFiles,
+      access: !(access === 'false' || access === '0'),
+      accessBodies: bodies === 'true' || bodies === '1',
+      redactKeys: env.LOG_REDACT_KEYS !== undefined
+        ? env.LOG_REDACT_KEYS.split(',').map((k) => k.trim()).filter(Boolean)
+        : DEFAULTS.redactKeys,
+    });
+  }
+
+  /**
+   * Replace the configuration (unset fields take their defaults)
+   */
+  configure(options: Partial<LoggingOptions>): void {
+    this.sink?.close();
+    this.options = { ...DEFAULTS, ...options };
+    this.redactKeys = new Set(this.options.redactKeys.map((k) => k.toLowerCase()));
+    this.logger = this.build();
+  }
+
+  getInfo(): LoggingInfo {
+    return {
+      level: this.options.level,
+      format: this.options.format,
+      file: this.options.file,
+      access_log: this.options.access,
+      access_log_bodies: this.options.accessBodies,
+    };
+  }
+
+  debug(...args: unknown[]): void {
+    this.logger.debug(...args);
+  }
+
+  info(...args: unknown[]): void {
+    this.logger.info(...args);
+  }
+
+  warn(...args: unknown[]): void {
+    this.logger.warn(...args);
+  }
+
+  error(...args: unknown[]): void {
+    this.logger.error(...args);
+  }
+
+  access(entry: AccessLogEntry): void {
+    this.logger.access(entry);
+  }
+
+  /**
+   * Apply the access log settings to a finished call's entry
+   *
+   * @returns The entry to write (bodies dropped unless enabled, otherwise
+   * redacted), or null when the access log is off
+   */
+  accessEntry(entry: AccessLogEntry): AccessLogEntry | null {
+    if (!this.options.access) return null;
+    const { request, response, ...rest } = entry;
+    return this.options.accessBodies
+      ? { ...rest, request: redact(request, this.redactKeys), response: redact(response, this.redactKeys) }
+      : rest;
+  }
+
+  /** Close the log file (it is reopened on the next write) */
+  close(): void {
+    this.sink?.close();
+  }
+
+  private build(): Logger {
+    const { file, fileMaxBytes, fileMaxFiles } = this.options;
+    this.sink = file ? new RotatingFileSink(file, fileMaxBytes, fileMaxFiles) : null;
+    const sink = this.sink;
+    const toConsole = (line: string, level: LogLevel) =>
+      level === "warn" || level === "error" ? console.error(line) : console.log(line);
+    // A log file that cannot be written must not make logging calls throw
+    // inside the servers: report it once and write to the console instead
+    let sinkFailed = false;
+    return createLogger({
+      level: this.options.level,
+      format: this.options.format,
+      write: sink
+        ? (line, level) => {
+            if (!sinkFailed) {
+              try {
+                sink.write(line);
+                return;
+              } catch (e: any) {
+                sinkFailed = true;
+                sink.close();
+                console.error(`[wishmock] (error) cannot write log file ${sink.file}: ${e?.message || e}; logging to the console instead`);
+              }
+            }
+            toConsole(line, level);
+          }
+        : toConsole,
+    });
+  }
+}
+
+// "10485760", "512k", "10m", "1g"
+function parseSize(raw: string | undefined): number | undefined {
+  const match = String(raw || '').trim().toLowerCase().match(/^(\d+)\s*([kmg]?)b?$/);
+  if (!match) return undefined;
+  const unit = { '': 1, k: 1024, m: 1024 ** 2, g: 1024 ** 3 }[match[2] as '' | 'k' | 'm' | 'g'];
+  return parseInt(match[1], 10) * unit;
+}
+
+export const runtime = new LoggingRuntime();
@@ -0,0 +1,66 @@
+import * as grpc from "@grpc/grpc-js";
+import type { TelemetryStore } from "../../domain/otlp/telemetryStore.js";
+import { decodeExportRequest, OTLP_EXPORT_PATHS, type OtlpSignal } from "./schema.js";
+import { toLogger, type LoggerLike } from "../logging/logger.js";
+
+const SERVICES: Record<OtlpSignal, string> = {
+  traces: "opentelemetry.proto.collector.trace.v1.TraceService",
+  metrics: "opentelemetry.proto.collector.metrics.v1.MetricsService",
+  logs: "opentelemetry.proto.collector.logs.v1.LogsService",
+};
+
+const raw = (buf: Buffer) => buf;
+
+/**
+ * Serve the OTLP collector Export RPCs (traces, metrics, logs) on a gRPC server
+ *
+ * Payloads are decoded with the built-in OTLP schema and stored in the
+ * telemetry store. Services already provided by the loaded protos (e.g. a
+ * rule-mocked collector) are left alone.
+ *
+ * @param server gRPC server (before it is started)
+ * @param store Store received telemetry goes to
+ * @param loadedServices Fully qualified names of services already registered
+ * @param logger Logger (or a function receiving every message)
+ * @returns Services added
+ */
+export function addOtlpCollectorServices(
+  server: grpc.Server,
+  store: TelemetryStore,
+  loadedServices: Set<string>,
+  logger: LoggerLike
+): string[] {
+  const log = toLogger(logger);
+  const added: string[] = [];
+  for (const signal of Object.keys(SERVICES) as OtlpSignal[]) {
+    const service = SERVICES[signal];
+    if (loadedServices.has(service)) {
+      log.info(`[otlp] ${service} is defined by the loaded protos; not serving the built-in sink for ${signal}`);
+      continue;
+    }
+    const definition: grpc.ServiceDefinition = {
+      Export: {
+        path: OTLP_EXPORT_PATHS[signal],
+        requestStream: false,
+        responseStream: false,
+        requestSerialize: raw,
+        requestDeserialize: raw,
+        responseSerialize: raw,
+        responseDeserialize: raw,
+      },
+    };
+    server.addService(definition, {
+      Export: (call: grpc.ServerUnaryCall<Buffer, Buffer>, callback: grpc.sendUnaryData<Buffer>) => {
+        try {
+          store.ingest(signal, decodeExportRequest(signal, call.request));
+        } catch (e: any) {
+          return callback({ code: grpc.status.INVALID_ARGUMENT, details: `invalid OTLP ${signal} export: ${e?.message || e}` });
+        }
+        // An empty Export*ServiceResponse means full success
+        callback(null, Buffer.alloc(0));
+      },
+    });
+    added.push(service);
+  }
+  return added;
+}
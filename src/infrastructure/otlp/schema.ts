@@ -0,0 +1,259 @@
+/**
+ * OTLP wire schema (traces, metrics, logs and the collector Export requests)
+ *
+ * Built in rather than loaded from .proto files so the sink and the span
+ * exporter work wherever wishmock is installed, whatever the proto directory
+ * holds. Field numbers follow opentelemetry-proto v1; field names are the
+ * lowerCamelCase names of the OTLP JSON encoding, so decoded messages come
+ * out in that encoding. Enums are carried as int32, as OTLP JSON does.
+ */
+
+import protobuf from "protobufjs";
+import type { TelemetrySignal } from "../../domain/otlp/telemetryStore.js";
+
+export type OtlpSignal = TelemetrySignal;
+
+const repeated = (type: string, id: number) => ({ rule: "repeated", type, id });
+const field = (type: string, id: number) => ({ type, id });
+
+const otlpRoot = protobuf.Root.fromJSON({
+  nested: {
+    // common/v1, resource/v1
+    AnyValue: {
+      oneofs: { value: { oneof: ["stringValue", "boolValue", "intValue", "doubleValue", "arrayValue", "kvlistValue", "bytesValue"] } },
+      fields: {
+        stringValue: field("string", 1),
+        boolValue: field("bool", 2),
+        intValue: field("int64", 3),
+        doubleValue: field("double", 4),
+        arrayValue: field("ArrayValue", 5),
+        kvlistValue: field("KeyValueList", 6),
+        bytesValue: field("bytes", 7),
+      },
+    },
+    ArrayValue: { fields: { values: repeated("AnyValue", 1) } },
+    KeyValueList: { fields: { values: repeated("KeyValue", 1) } },
+    KeyValue: { fields: { key: field("string", 1), value: field("AnyValue", 2) } },
+    InstrumentationScope: {
+      fields: {
+        name: field("string", 1),
+        version: field("string", 2),
+        attributes: repeated("KeyValue", 3),
+        droppedAttributesCount: field("uint32", 4),
+      },
+    },
+    Resource: { fields: { attributes: repeated("KeyValue", 1), droppedAttributesCount: field("uint32", 2) } },
+
+    // trace/v1
+    ResourceSpans: { fields: { resource: field("Resource", 1), scopeSpans: repeated("ScopeSpans", 2), schemaUrl: field("string", 3) } },
+    ScopeSpans: { fields: { scope: field("InstrumentationScope", 1), spans: repeated("Span", 2), schemaUrl: field("string", 3) } },
+    Span: {
+      fields: {
+        traceId: field("bytes", 1),
+        spanId: field("bytes", 2),
+        traceState: field("string", 3),
+        parentSpanId: field("bytes", 4),
+        flags: field("fixed32", 16),
+        name: field("string", 5),
+        kind: field("int32", 6),
+        startTimeUnixNano: field("fixed64", 7),
+        endTimeUnixNano: field("fixed64", 8),
+        attributes: repeated("KeyValue", 9),
+        droppedAttributesCount: field("uint32", 10),
+        events: repeated("SpanEvent", 11),
+        droppedEventsCount: field("uint32", 12),
+        links: repeated("SpanLink", 13),
+        droppedLinksCount: field("uint32", 14),
+        status: field("SpanStatus", 15),
+      },
+    },
+    SpanEvent: {
+      fields: {
+        timeUnixNano: field("fixed64", 1),
+        name: field("string", 2),
+        attributes: repeated("KeyValue", 3),
+        droppedAttributesCount: field("uint32", 4),
+      },
+    },
+    SpanLink: {
+      fields: {
+        traceId: field("bytes", 1),
+        spanId: field("bytes", 2),
+        traceState: field("string", 3),
+        attributes: repeated("KeyValue", 4),
+        droppedAttributesCount: field("uint32", 5),
+        flags: field("fixed32", 6),
+      },
+    },
+    SpanStatus: { fields: { message: field("string", 2), code: field("int32", 3) } },
+
+    // metrics/v1
+    ResourceMetrics: { fields: { resource: field("Resource", 1), scopeMetrics: repeated("ScopeMetrics", 2), schemaUrl: field("string", 3) } },
+    ScopeMetrics: { fields: { scope: field("InstrumentationScope", 1), metrics: repeated("Metric", 2), schemaUrl: field("string", 3) } },
+    Metric: {
+      oneofs: { data: { oneof: ["gauge", "sum", "histogram", "exponentialHistogram", "summary"] } },
+      fields: {
+        name: field("string", 1),
+        description: field("string", 2),
+        unit: field("string", 3),
+        gauge: field("Gauge", 5),
+        sum: field("Sum", 7),
+        histogram: field("Histogram", 9),
+        exponentialHistogram: field("ExponentialHistogram", 10),
+        summary: field("Summary", 11),
+        metadata: repeated("KeyValue", 12),
+      },
+    },
+    Gauge: { fields: { dataPoints: repeated("NumberDataPoint", 1) } },
+    Sum: {
+      fields: {
+        dataPoints: repeated("NumberDataPoint", 1),
+        aggregationTemporality: field("int32", 2),
+        isMonotonic: field("bool", 3),
+      },
+    },
+    Histogram: { fields: { dataPoints: repeated("HistogramDataPoint", 1), aggregationTemporality: field("int32", 2) } },
+    ExponentialHistogram: {
+      fields: { dataPoints: repeated("ExponentialHistogramDataPoint", 1), aggregationTemporality: field("int32", 2) },
+    },
+    Summary: { fields: { dataPoints: repeated("SummaryDataPoint", 1) } },
+    NumberDataPoint: {
+      oneofs: { value: { oneof: ["asDouble", "asInt"] } },
+      fields: {
+        attributes: repeated("KeyValue", 7),
+        startTimeUnixNano: field("fixed64", 2),
+        timeUnixNano: field("fixed64", 3),
+        asDouble: field("double", 4),
+        asInt: field("sfixed64", 6),
+        exemplars: repeated("Exemplar", 5),
+        flags: field("uint32", 8),
+      },
+    },
+    HistogramDataPoint: {
+      fields: {
+        attributes: repeated("KeyValue", 9),
+        startTimeUnixNano: field("fixed64", 2),
+        timeUnixNano: field("fixed64", 3),
+        count: field("fixed64", 4),
+        sum: field("double", 5),
+        bucketCounts: repeated("fixed64", 6),
+        explicitBounds: repeated("double", 7),
+        exemplars: repeated("Exemplar", 8),
+        flags: field("uint32", 10),
+        min: field("double", 11),
+        max: field("double", 12),
+      },
+    },
+    ExponentialHistogramDataPoint: {
+      fields: {
+        attributes: repeated("KeyValue", 1),
+        startTimeUnixNano: field("fixed64", 2),
+        timeUnixNano: field("fixed64", 3),
+        count: field("fixed64", 4),
+        sum: field("double", 5),
+        scale: field("sint32", 6),
+        zeroCount: field("fixed64", 7),
+        positive: field("ExponentialBuckets", 8),
+        negative: field("ExponentialBuckets", 9),
+        flags: field("uint32", 10),
+        exemplars: repeated("Exemplar", 11),
+        min: field("double", 12),
+        max: field("double", 13),
+        zeroThreshold: field("double", 14),
+      },
+    },
+    ExponentialBuckets: { fields: { offset: field("sint32", 1), bucketCounts: repeated("uint64", 2) } },
+    SummaryDataPoint: {
+      fields: {
+        attributes: repeated("KeyValue", 7),
+        startTimeUnixNano: field("fixed64", 2),
+        timeUnixNano: field("fixed64", 3),
+        count: field("fixed64", 4),
+        sum: field("double", 5),
+        quantileValues: repeated("ValueAtQuantile", 6),
+        flags: field("uint32", 8),
+      },
+    },
+    ValueAtQuantile: { fields: { quantile: field("double", 1), value: field("double", 2) } },
+    Exemplar: {
+      oneofs: { value: { oneof: ["asDouble", "asInt"] } },
+      fields: {
+        filteredAttributes: repeated("KeyValue", 7),
+        timeUnixNano: field("fixed64", 2),
+        asDouble: field("double", 3),
+        asInt: field("sfixed64", 6),
+        spanId: field("bytes", 4),
+        traceId: field("bytes", 5),
+      },
+    },
+
+    // logs/v1
+    ResourceLogs: { fields: { resource: field("Resource", 1), scopeLogs: repeated("ScopeLogs", 2), schemaUrl: field("string", 3) } },
+    ScopeLogs: { fields: { scope: field("InstrumentationScope", 1), logRecords: repeated("LogRecord", 2), schemaUrl: field("string", 3) } },
+    LogRecord: {
+      fields: {
+        timeUnixNano: field("fixed64", 1),
+        observedTimeUnixNano: field("fixed64", 11),
+        severityNumber: field("int32", 2),
+        severityText: field("string", 3),
+        body: field("AnyValue", 5),
+        attributes: repeated("KeyValue", 6),
+        droppedAttributesCount: field("uint32", 7),
+        flags: field("fixed32", 8),
+        traceId: field("bytes", 9),
+        spanId: field("bytes", 10),
+        eventName: field("string", 12),
+      },
+    },
+
+    // collector/{trace,metrics,logs}/v1
+    ExportTraceServiceRequest: { fields: { resourceSpans: repeated("ResourceSpans", 1) } },
+    ExportMetricsServiceRequest: { fields: { resourceMetrics: repeated("ResourceMetrics", 1) } },
+    ExportLogsServiceRequest: { fields: { resourceLogs: repeated("ResourceLogs", 1) } },
+  },
+});
+
+const REQUEST_TYPES: Record<OtlpSignal, protobuf.Type> = {
+  traces: otlpRoot.lookupType("ExportTraceServiceRequest"),
+  metrics: otlpRoot.lookupType("ExportMetricsServiceRequest"),
+  logs: otlpRoot.lookupType("ExportLogsServiceRequest"),
+};
+
+/** gRPC method path of each signal's collector Export RPC */
+export const OTLP_EXPORT_PATHS: Record<OtlpSignal, string> = {
+  traces: "/opentelemetry.proto.collector.trace.v1.TraceService/Export",
+  metrics: "/opentelemetry.proto.collector.metrics.v1.MetricsService/Export",
+  logs: "/opentelemetry.proto.collector.logs.v1.LogsService/Export",
+};
+
+// Ids are bytes on the wire and hex strings in OTLP JSON
+const ID_FIELDS = new Set(["traceId", "spanId", "parentSpanId"]);
+
+/**
+ * Decode a protobuf Export request into the OTLP JSON encoding
+ *
+ * @throws When the payload is not a valid Export request
+ */
+export function decodeExportRequest(signal: OtlpSignal, payload: Uint8Array): unknown {
+  const type = REQUEST_TYPES[signal];
+  const object = type.toObject(type.decode(payload), { longs: String, bytes: String });
+  return mapIds(object, (id) => Buffer.from(id, "base64").toString("hex"));
+}
+
+/**
+ * Encode an Export request given in the OTLP JSON encoding as protobuf
+ */
+export function encodeExportRequest(signal: OtlpSignal, request: unknown): Uint8Array {
+  const type = REQUEST_TYPES[signal];
+  return type.encode(type.fromObject(mapIds(request, (id) => Buffer.from(id, "hex")) as Record<string, unknown>)).finish();
+}
+
+function mapIds(value: unknown, convert: (id: string) => unknown): unknown {
+  if (Array.isArray(value)) return value.map((v) => mapIds(v, convert));
+  if (!value || typeof value !== "object") return value;
+  const out: Record<string, unknown> = {};
+  for (const [key, v] of Object.entries(value)) {
+    out[key] = ID_FIELDS.has(key) && typeof v === "string" ? (v ? convert(v) : undefined) : mapIds(v, convert);
+  }
+  return out;
+}
@@ -13,7 +13,7 @@ export type ProtoLoadResult = {
   report: ProtoFileStatus[];
 };
 
-function createRoot(protoDir: string): protobuf.Root {
+function createRoot(protoDirs: string[]): protobuf.Root {
   const root = new protobuf.Root();
   const exists = (p: string) => {
     try {
@@ -30,38 +30,46 @@ function createRoot(protoDir: string): protobuf.Root {
       if (exists(rel)) return rel;
     }
 
-    const fromRoot = path.resolve(protoDir, target);
-    if (exists(fromRoot)) return fromRoot;
+    for (const dir of protoDirs) {
+      const fromRoot = path.resolve(dir, target);
+      if (exists(fromRoot)) return fromRoot;
+    }
 
-    return path.resolve(path.dirname(origin || protoDir), target);
+    return path.resolve(path.dirname(origin || protoDirs[0]), target);
   };
   return root;
 }
 
-export async function loadProtos(protoDir: string): Promise<ProtoLoadResult> {
-  const files = fs.readdirSync(protoDir).filter(f => f.endsWith(".proto"));
+/**
+ * Load the top-level .proto files of one or more directories into one root
+ *
+ * Imports resolve against the importing file, then each directory in order.
+ */
+export async function loadProtos(protoDir: string | string[]): Promise<ProtoLoadResult> {
+  const dirs = typeof protoDir === "string" ? [protoDir] : protoDir;
+  const entries = dirs.flatMap((dir) => fs.readdirSync(dir)
+    .filter(f => f.endsWith(".proto"))
+    .map(f => ({ file: f, abs: path.join(dir, f) })));
   const report: ProtoFileStatus[] = [];
 
-  if (files.length === 0) {
-    return { root: createRoot(protoDir), report };
+  if (entries.length === 0) {
+    return { root: createRoot(dirs), report };
   }
 
-  const filePaths = files.map(f => path.join(protoDir, f));
-  const root = createRoot(protoDir);
+  const root = createRoot(dirs);
 
   try {
-    const rootNamespace = await root.load(filePaths);
-    for (const f of files) report.push({ file: f, status: "loaded" });
+    const rootNamespace = await root.load(entries.map(e => e.abs));
+    for (const { file } of entries) report.push({ file, status: "loaded" });
     return { root: rootNamespace, report };
   } catch (e: any) {
-    const rootNamespace = createRoot(protoDir);
-    for (const f of files) {
-      const abs = path.join(protoDir, f);
+    const rootNamespace = createRoot(dirs);
+    for (const { file, abs } of entries) {
       try {
         await rootNamespace.load(abs);
-        report.push({ file: f, status: "loaded" });
+        report.push({ file, status: "loaded" });
       } catch (err: any) {
-        report.push({ file: f, status: "skipped", error: String(err?.message || err) });
+        report.push({ file, status: "skipped", error: String(err?.message || err) });
       }
     }
     if (!report.some(r => r.status === "loaded")) throw e;
@@ -13,6 +13,8 @@ import protobuf from "protobufjs";
 import type { IncomingHttpHeaders } from "node:http";
 import * as grpc from "@grpc/grpc-js";
 import type { NormalizedRequest, NormalizedResponse, NormalizedError } from "../domain/types/normalized.js";
+import { encodeGrpcStatusDetails, hasStatusDetails, toConnectErrorDetails } from "./errorDetails.js";
+import { SESSION_HEADER } from "../domain/session.js";
 
 /**
  * Connect RPC context containing request metadata and protocol information
@@ -35,6 +37,9 @@ export interface ConnectContext {
   
   /** Abort signal for cancellation */
   signal?: AbortSignal;
+
+  /** Remote address of the caller */
+  peer?: string;
 }
 
 /**
@@ -160,9 +165,10 @@ export function extractMetadata(context: ConnectContext): Record<string, string>
     
     // Handle array values (multiple headers with same name)
     // Example: multiple "cookie" headers should be joined
+    // A repeated session header names one session: the first wins
     if (Array.isArray(value)) {
       // Optimization: avoid join for single-element arrays
-      metadata[normalizedKey] = value.length === 1 ? String(value[0]) : value.join(', ');
+      metadata[normalizedKey] = value.length === 1 || normalizedKey === SESSION_HEADER ? String(value[0]) : value.join(', ');
     } else {
       metadata[normalizedKey] = String(value);
     }
@@ -352,6 +358,8 @@ export function normalizeConnectUnaryRequest(
     responseType,
     requestStream: false,
     responseStream: false,
+    protocol: context.protocol,
+    peer: context.peer,
   };
 }
 
@@ -408,6 +416,8 @@ export function normalizeConnectServerStreamingRequest(
     responseType,
     requestStream: false,
     responseStream: true,
+    protocol: context.protocol,
+    peer: context.peer,
   };
 }
 
@@ -443,6 +453,8 @@ export function normalizeConnectClientStreamingRequest(
     responseType,
     requestStream: true,
     responseStream: false,
+    protocol: context.protocol,
+    peer: context.peer,
   };
 }
 
@@ -478,6 +490,8 @@ export function normalizeConnectBidiStreamingRequest(
     responseType,
     requestStream: true,
     responseStream: true,
+    protocol: context.protocol,
+    peer: context.peer,
   };
 }
 
@@ -691,7 +705,7 @@ export function sendConnectError(error: NormalizedError): ConnectError {
   return {
     code: mapNormalizedErrorCodeToConnect(error.code),
     message: error.message,
-    details: error.details,
+    details: toConnectErrorDetails(error.details),
   };
 }
 
@@ -1062,6 +1076,20 @@ export function createConnectContext(
 // gRPC Protocol Adapter Functions
 // ============================================================================
 
+/**
+ * Remote address of a gRPC call (e.g., "ipv4:127.0.0.1:52344")
+ * 
+ * @param call gRPC call
+ * @returns Peer address, or undefined when the call does not expose one
+ */
+export function grpcPeerOf(call: { getPeer?: () => string }): string | undefined {
+  try {
+    return call.getPeer?.() || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
 /**
  * Extract metadata from gRPC call metadata
  * 
@@ -1084,14 +1112,16 @@ export function extractGrpcMetadata(metadata: grpc.Metadata | undefined): Record
     if (typeof getMap === "function") {
       const map = getMap.call(metadata) as Record<string, unknown>;
       
-      // Convert all values to strings for consistency
+      // Convert all values to strings for consistency; binary (-bin) values
+      // become base64, as Connect and gRPC-Web carry them
+      const toString = (v: unknown) => (Buffer.isBuffer(v) ? v.toString("base64") : String(v));
       for (const [key, value] of Object.entries(map)) {
         if (value !== undefined && value !== null) {
           // Handle array values (multiple headers with same name)
           if (Array.isArray(value)) {
-            record[key] = value.length === 1 ? String(value[0]) : value.map(String).join(',');
+            record[key] = value.length === 1 ? toString(value[0]) : value.map(toString).join(',');
           } else {
-            record[key] = String(value);
+            record[key] = toString(value);
           }
         }
       }
@@ -1131,6 +1161,8 @@ export function normalizeGrpcUnaryRequest(
     responseType,
     requestStream: false,
     responseStream: false,
+    protocol: "grpc",
+    peer: grpcPeerOf(call),
   };
 }
 
@@ -1162,6 +1194,8 @@ export function normalizeGrpcServerStreamingRequest(
     responseType,
     requestStream: false,
     responseStream: true,
+    protocol: "grpc",
+    peer: grpcPeerOf(call),
   };
 }
 
@@ -1194,6 +1228,8 @@ export function normalizeGrpcClientStreamingRequest(
     responseType,
     requestStream: true,
     responseStream: false,
+    protocol: "grpc",
+    peer: grpcPeerOf(call),
   };
 }
 
@@ -1226,6 +1262,8 @@ export function normalizeGrpcBidiStreamingRequest(
     responseType,
     requestStream: true,
     responseStream: true,
+    protocol: "grpc",
+    peer: grpcPeerOf(call),
   };
 }
 
@@ -1377,6 +1415,40 @@ export function sendGrpcUnaryResponse(
   callback(null, response.data);
 }
 
+/**
+ * Build the gRPC error for a normalized error
+ * 
+ * Rule-declared status details are packed into a google.rpc.Status and
+ * sent as the `grpc-status-details-bin` trailer; other details are sent
+ * as JSON in the status message (legacy validation format). Details that
+ * cannot be encoded turn the error into INTERNAL so the rule gets fixed.
+ * 
+ * @param error Normalized error to send
+ * @returns gRPC service error
+ */
+function toGrpcServiceError(error: NormalizedError): grpc.ServiceError {
+  const code = mapNormalizedErrorCodeToGrpc(error.code);
+  const metadata = new grpc.Metadata();
+
+  if (hasStatusDetails(error.details)) {
+    try {
+      metadata.set('grpc-status-details-bin', encodeGrpcStatusDetails(code, error.message, error.details));
+      return { name: error.code, message: error.message, code, details: error.message, metadata };
+    } catch (e: any) {
+      const message = `Invalid error details: ${e?.message || e}`;
+      return { name: 'INTERNAL', message, code: grpc.status.INTERNAL, details: message, metadata: new grpc.Metadata() };
+    }
+  }
+
+  return {
+    name: error.code,
+    message: error.message,
+    code,
+    details: error.details ? JSON.stringify(error.details) : '',
+    metadata,
+  };
+}
+
 /**
  * Send normalized error via gRPC unary call
  * 
@@ -1390,13 +1462,7 @@ export function sendGrpcUnaryError(
   callback: grpc.sendUnaryData<any>,
   error: NormalizedError
 ): void {
-  const grpcError: grpc.ServiceError = {
-    name: error.code,
-    message: error.message,
-    code: mapNormalizedErrorCodeToGrpc(error.code),
-    details: error.details ? JSON.stringify(error.details) : '',
-    metadata: new grpc.Metadata(),
-  };
+  const grpcError = toGrpcServiceError(error);
   
   callback(grpcError);
 }
@@ -1462,13 +1528,7 @@ export function sendGrpcServerStreamingError(
   call: grpc.ServerWritableStream<any, any>,
   error: NormalizedError
 ): void {
-  const grpcError: grpc.ServiceError = {
-    name: error.code,
-    message: error.message,
-    code: mapNormalizedErrorCodeToGrpc(error.code),
-    details: error.details ? JSON.stringify(error.details) : '',
-    metadata: new grpc.Metadata(),
-  };
+  const grpcError = toGrpcServiceError(error);
   
   call.destroy(grpcError);
 }
@@ -1526,13 +1586,7 @@ export function sendGrpcClientStreamingError(
   callback: grpc.sendUnaryData<any>,
   error: NormalizedError
 ): void {
-  const grpcError: grpc.ServiceError = {
-    name: error.code,
-    message: error.message,
-    code: mapNormalizedErrorCodeToGrpc(error.code),
-    details: error.details ? JSON.stringify(error.details) : '',
-    metadata: new grpc.Metadata(),
-  };
+  const grpcError = toGrpcServiceError(error);
   
   callback(grpcError);
 }
@@ -1598,13 +1652,7 @@ export function sendGrpcBidiStreamingError(
   call: grpc.ServerDuplexStream<any, any>,
   error: NormalizedError
 ): void {
-  const grpcError: grpc.ServiceError = {
-    name: error.code,
-    message: error.message,
-    code: mapNormalizedErrorCodeToGrpc(error.code),
-    details: error.details ? JSON.stringify(error.details) : '',
-    metadata: new grpc.Metadata(),
-  };
+  const grpcError = toGrpcServiceError(error);
   
   call.destroy(grpcError);
 }
@@ -1664,6 +1712,7 @@ export function sendGrpcResponse(
  * 
  * Automatically detects the streaming pattern and calls the appropriate
  * error send function. For unary and client streaming, a callback must be provided.
+ * Errors flagged with `drop` close the client's connection instead.
  * 
  * @param call gRPC call (any streaming pattern)
  * @param error Normalized error to send
@@ -1681,6 +1730,11 @@ export function sendGrpcError(
   responseStream: boolean,
   callback?: grpc.sendUnaryData<any>
 ): void {
+  // Dropped connection (fault injection); send the status if the transport is not reachable
+  if (error.drop && dropGrpcConnection(call)) {
+    return;
+  }
+
   // Unary (no streaming)
   if (!requestStream && !responseStream) {
     if (!callback) {
@@ -1708,3 +1762,26 @@ export function sendGrpcError(
   // Bidirectional streaming
   sendGrpcBidiStreamingError(call as grpc.ServerDuplexStream<any, any>, error);
 }
+
+/**
+ * Abruptly close the HTTP/2 connection carrying a gRPC call
+ * 
+ * grpc-js does not expose the transport on its call objects, so the
+ * underlying stream is located through the (possibly intercepted) call
+ * chain. Every call on the connection fails, as with a real network drop.
+ * 
+ * @param call gRPC call (any streaming pattern)
+ * @returns True if the connection was closed
+ */
+export function dropGrpcConnection(call: unknown): boolean {
+  let inner: any = (call as any)?.call;
+  while (inner && !inner.stream && inner.nextCall) {
+    inner = inner.nextCall;
+  }
+  const session = inner?.stream?.session;
+  if (!session || session.destroyed) {
+    return false;
+  }
+  session.destroy();
+  return true;
+}
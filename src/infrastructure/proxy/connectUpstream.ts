@@ -0,0 +1,157 @@
+import type { UpstreamCall, UpstreamOptions, UpstreamStatus } from "./types.js";
+
+const TO_OBJECT_OPTIONS = { longs: String, enums: String, bytes: String, json: true } as const;
+
+// Connect error codes -> gRPC status numbers
+const CONNECT_CODES: Record<string, number> = {
+  canceled: 1,
+  unknown: 2,
+  invalid_argument: 3,
+  deadline_exceeded: 4,
+  not_found: 5,
+  already_exists: 6,
+  permission_denied: 7,
+  resource_exhausted: 8,
+  failed_precondition: 9,
+  aborted: 10,
+  out_of_range: 11,
+  unimplemented: 12,
+  internal: 13,
+  unavailable: 14,
+  data_loss: 15,
+  unauthenticated: 16,
+};
+
+// Plain HTTP headers that are not part of the RPC's metadata
+const TRANSPORT_HEADERS = new Set([
+  'content-type', 'content-length', 'content-encoding', 'date', 'connection',
+  'keep-alive', 'transfer-encoding', 'vary', 'server',
+]);
+
+function connectCodeToStatus(code: unknown): number {
+  return CONNECT_CODES[String(code || '').toLowerCase()] ?? 2;
+}
+
+function baseUrl(opts: UpstreamOptions): string {
+  if (/^https?:\/\//i.test(opts.target)) return opts.target.replace(/\/+$/, '');
+  return `${opts.tls ? 'https' : 'http'}://${opts.target}`;
+}
+
+function splitHeaders(res: Response): { headers: Record<string, string>; trailers: Record<string, string> } {
+  const headers: Record<string, string> = {};
+  const trailers: Record<string, string> = {};
+  res.headers.forEach((value, key) => {
+    if (key.startsWith('trailer-')) trailers[key.slice('trailer-'.length)] = value;
+    else if (!TRANSPORT_HEADERS.has(key) && !key.startsWith('access-control-')) headers[key] = value;
+  });
+  return { headers, trailers };
+}
+
+// Timeouts map to DEADLINE_EXCEEDED; anything else failed mid-response (INTERNAL)
+function failure(e: any, split: Pick<UpstreamStatus, 'headers' | 'trailers'>): UpstreamStatus {
+  const timedOut = e?.name === 'TimeoutError';
+  return { code: timedOut ? 4 : 13, message: String(e?.message || e), ...split };
+}
+
+function envelope(json: unknown, flags = 0): Buffer {
+  const payload = Buffer.from(JSON.stringify(json), 'utf8');
+  const head = Buffer.alloc(5);
+  head.writeUInt8(flags, 0);
+  head.writeUInt32BE(payload.length, 1);
+  return Buffer.concat([head, payload]);
+}
+
+/**
+ * Forward a call to a Connect upstream using the Connect JSON codec.
+ * Unary calls use a plain JSON POST; streaming calls use enveloped
+ * `application/connect+json` bodies (the client side is sent in full).
+ */
+export async function* invokeConnect(call: UpstreamCall, opts: UpstreamOptions): AsyncGenerator<unknown, UpstreamStatus> {
+  const url = `${baseUrl(opts)}/${call.service}/${call.method}`;
+  const toJson = (msg: unknown) => call.requestType.toObject(call.requestType.fromObject((msg ?? {}) as any), TO_OBJECT_OPTIONS);
+  const fromJson = (json: unknown) => call.responseType.toObject(call.responseType.fromObject((json ?? {}) as any), TO_OBJECT_OPTIONS);
+  const streaming = call.requestStream || call.responseStream;
+
+  const headers: Record<string, string> = {
+    ...call.metadata,
+    'content-type': streaming ? 'application/connect+json' : 'application/json',
+    'connect-protocol-version': '1',
+    'connect-timeout-ms': String(opts.timeoutMs),
+  };
+  const body = streaming
+    ? Buffer.concat(call.messages.map((m) => envelope(toJson(m))))
+    : JSON.stringify(toJson(call.messages[0]));
+
+  let res: Response;
+  try {
+    res = await fetch(url, { method: 'POST', headers, body, signal: AbortSignal.timeout(opts.timeoutMs) });
+  } catch (e: any) {
+    const timedOut = e?.name === 'TimeoutError';
+    return { code: timedOut ? 4 : 14, message: String(e?.message || e), headers: {}, trailers: {} };
+  }
+
+  const split = splitHeaders(res);
+
+  if (!streaming) {
+    if (res.status !== 200) {
+      const json: any = await res.json().catch(() => ({}));
+      return { code: connectCodeToStatus(json?.code), message: String(json?.message || ''), ...split };
+    }
+    let message: unknown;
+    try {
+      message = fromJson(await res.json());
+    } catch (e: any) {
+      return failure(e, split);
+    }
+    yield message;
+    return { code: 0, message: '', ...split };
+  }
+
+  if (res.status !== 200 || !res.body) {
+    const json: any = await res.json().catch(() => ({}));
+    return { code: connectCodeToStatus(json?.code), message: String(json?.message || ''), ...split };
+  }
+
+  // Parse response envelopes as they arrive; the end-stream frame carries status and trailers
+  let buffered = Buffer.alloc(0);
+  const status: UpstreamStatus = { code: 0, message: '', ...split };
+  const reader = (res.body as unknown as AsyncIterable<Uint8Array>)[Symbol.asyncIterator]();
+  try {
+    while (true) {
+      // The timeout can fire mid-stream and envelopes can be malformed: end with a status, not a throw
+      const messages: unknown[] = [];
+      let failed: UpstreamStatus | null = null;
+      try {
+        const { done, value } = await reader.next();
+        if (done) break;
+        buffered = Buffer.concat([buffered, Buffer.from(value)]);
+        while (buffered.length >= 5) {
+          const flags = buffered.readUInt8(0);
+          const len = buffered.readUInt32BE(1);
+          if (buffered.length < 5 + len) break;
+          const json = JSON.parse(buffered.subarray(5, 5 + len).toString('utf8') || '{}');
+          buffered = buffered.subarray(5 + len);
+          if (flags & 0x02) {
+            if (json?.error) {
+              status.code = connectCodeToStatus(json.error.code);
+              status.message = String(json.error.message || '');
+            }
+            for (const [k, v] of Object.entries(json?.metadata || {})) {
+              status.trailers[k] = Array.isArray(v) ? v.join(', ') : String(v);
+            }
+          } else {
+            messages.push(fromJson(json));
+          }
+        }
+      } catch (e: any) {
+        failed = failure(e, split);
+      }
+      yield* messages;
+      if (failed) return failed;
+    }
+  } finally {
+    // Also reached when the downstream client goes away mid-stream
+    await reader.return?.().catch(() => {});
+  }
+  return status;
+}
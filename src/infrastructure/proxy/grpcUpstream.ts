@@ -0,0 +1,110 @@
+import * as grpc from "@grpc/grpc-js";
+import type { UpstreamCall, UpstreamOptions, UpstreamStatus } from "./types.js";
+
+const TO_OBJECT_OPTIONS = { longs: String, enums: String, bytes: String } as const;
+
+const clients = new Map<string, grpc.Client>();
+
+function getClient(opts: UpstreamOptions): grpc.Client {
+  const key = `${opts.tls ? 'tls' : 'plain'}:${opts.target}`;
+  let client = clients.get(key);
+  if (!client) {
+    const creds = opts.tls ? grpc.credentials.createSsl() : grpc.credentials.createInsecure();
+    client = new grpc.Client(opts.target, creds);
+    clients.set(key, client);
+  }
+  return client;
+}
+
+/** Close cached upstream channels (all, or those of one target) when the target changes */
+export function closeGrpcUpstreams(target?: string) {
+  for (const [key, client] of clients.entries()) {
+    if (target !== undefined && key.slice(key.indexOf(':') + 1) !== target) continue;
+    client.close();
+    clients.delete(key);
+  }
+}
+
+function metadataToRecord(md: grpc.Metadata | undefined): Record<string, string> {
+  const out: Record<string, string> = {};
+  if (!md) return out;
+  for (const [k, v] of Object.entries(md.getMap())) {
+    // Transport headers are set by the server relaying the response
+    if (k === 'content-type' || k === 'date' || k.startsWith('grpc-')) continue;
+    // Binary headers cannot be represented in rule files
+    if (typeof v === 'string') out[k] = v;
+  }
+  return out;
+}
+
+/**
+ * Forward a call to a gRPC upstream using grpc-js generic client calls.
+ * Messages are re-encoded with the locally loaded protobuf types.
+ */
+export async function* invokeGrpc(call: UpstreamCall, opts: UpstreamOptions): AsyncGenerator<unknown, UpstreamStatus> {
+  const client = getClient(opts);
+  const path = `/${call.service}/${call.method}`;
+  const serialize = (msg: unknown) => Buffer.from(call.requestType.encode(call.requestType.fromObject(msg as any)).finish());
+  const deserialize = (buf: Buffer) => call.responseType.toObject(call.responseType.decode(buf), TO_OBJECT_OPTIONS);
+
+  const md = new grpc.Metadata();
+  for (const [k, v] of Object.entries(call.metadata)) md.add(k, v);
+  const options: grpc.CallOptions = { deadline: Date.now() + opts.timeoutMs };
+
+  let headers: Record<string, string> = {};
+  let resolveStatus!: (s: grpc.StatusObject) => void;
+  const statusPromise = new Promise<grpc.StatusObject>((resolve) => { resolveStatus = resolve; });
+  const toStatus = (s: grpc.StatusObject): UpstreamStatus => ({
+    code: s.code,
+    message: s.details || '',
+    headers,
+    trailers: metadataToRecord(s.metadata),
+  });
+
+  if (!call.responseStream) {
+    // Unary and client streaming: single response delivered via callback
+    const result = await new Promise<{ value?: unknown }>((resolve) => {
+      const callback = (e: grpc.ServiceError | null, value?: unknown) => resolve(e ? {} : { value });
+      const c = call.requestStream
+        ? client.makeClientStreamRequest(path, serialize, deserialize, md, options, callback)
+        : client.makeUnaryRequest(path, serialize, deserialize, call.messages[0] ?? {}, md, options, callback);
+      c.on('metadata', (m: grpc.Metadata) => { headers = metadataToRecord(m); });
+      c.on('status', resolveStatus);
+      if (call.requestStream) {
+        const writable = c as grpc.ClientWritableStream<unknown>;
+        for (const m of call.messages) writable.write(m);
+        writable.end();
+      }
+    });
+    const status = await statusPromise;
+    if (status.code === grpc.status.OK && result.value !== undefined) yield result.value;
+    return toStatus(status);
+  }
+
+  // Server and bidi streaming: relay messages as they arrive
+  const stream = call.requestStream
+    ? client.makeBidiStreamRequest(path, serialize, deserialize, md, options)
+    : client.makeServerStreamRequest(path, serialize, deserialize, call.messages[0] ?? {}, md, options);
+  stream.on('metadata', (m: grpc.Metadata) => { headers = metadataToRecord(m); });
+  stream.on('status', resolveStatus);
+  // Errors are reported through the 'status' event
+  stream.on('error', () => {});
+  if (call.requestStream) {
+    const duplex = stream as grpc.ClientDuplexStream<unknown, unknown>;
+    for (const m of call.messages) duplex.write(m);
+    duplex.end();
+  }
+
+  let drained = false;
+  try {
+    for await (const msg of stream as AsyncIterable<unknown>) yield msg;
+    drained = true;
+  } catch {
+    // Stream ended with a non-OK status
+    drained = true;
+  } finally {
+    // Downstream client went away before the upstream finished
+    if (!drained) stream.cancel();
+  }
+  return toStatus(await statusPromise);
+}
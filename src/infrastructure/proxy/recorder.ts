@@ -0,0 +1,100 @@
+import fs from "fs";
+import path from "path";
+import yaml from "js-yaml";
+import type { ResponseOption, RuleDoc } from "../../domain/types.js";
+import type { Recording } from "./types.js";
+
+// Response metadata that is transport noise rather than part of the mocked answer
+const SKIPPED_TRAILERS = new Set(['content-type', 'date', 'grpc-status', 'grpc-message', 'grpc-accept-encoding', 'grpc-encoding']);
+
+/**
+ * Flatten a request into `when` conditions (`request.user.id: 42`, `request.tags.0: a`).
+ * Binary values are skipped since rules cannot compare them.
+ */
+function flattenConditions(value: unknown, prefix: string, out: Record<string, unknown>) {
+  if (value === null || value === undefined) return;
+  if (value instanceof Uint8Array) return;
+  if (Array.isArray(value)) {
+    value.forEach((v, i) => flattenConditions(v, `${prefix}.${i}`, out));
+    return;
+  }
+  if (typeof value === 'object') {
+    for (const [k, v] of Object.entries(value as Record<string, unknown>)) {
+      flattenConditions(v, `${prefix}.${k}`, out);
+    }
+    return;
+  }
+  out[prefix] = value;
+}
+
+/**
+ * Build the rule response for a recording. Requests become `when` conditions
+ * (plus the selected metadata keys); an empty request yields a fallback entry.
+ */
+export function buildRecordedResponse(rec: Recording, metadataKeys: string[] = []): ResponseOption {
+  const when: Record<string, unknown> = {};
+  flattenConditions(rec.request, 'request', when);
+  for (const key of metadataKeys) {
+    const v = rec.metadata[key];
+    if (v !== undefined) when[`metadata.${key}`] = v;
+  }
+
+  const trailers: Record<string, string | number | boolean> = { 'grpc-status': String(rec.status.code) };
+  if (rec.status.code !== 0 && rec.status.message) trailers['grpc-message'] = rec.status.message;
+  for (const [k, v] of Object.entries(rec.status.trailers)) {
+    if (!SKIPPED_TRAILERS.has(k)) trailers[k] = v;
+  }
+
+  const response: ResponseOption = {};
+  if (Object.keys(when).length > 0) response.when = when;
+  // Upstream clients already strip transport headers
+  if (Object.keys(rec.status.headers).length > 0) response.headers = { ...rec.status.headers };
+  if (rec.status.code === 0) {
+    if (rec.responseStream) {
+      response.stream_items = rec.messages;
+      if (rec.streamDelayMs) response.stream_delay_ms = rec.streamDelayMs;
+    } else {
+      response.body = rec.messages[0] ?? {};
+    }
+  }
+  response.trailers = trailers;
+  return response;
+}
+
+function sameWhen(a: ResponseOption, b: ResponseOption): boolean {
+  return JSON.stringify(a.when ?? null) === JSON.stringify(b.when ?? null);
+}
+
+/**
+ * Write a recording into `<ruleDir>/<service.method>.yaml`. An existing rule
+ * file for the method is extended; a previous recording of the same request
+ * is replaced. Returns the path of the written file.
+ */
+export function writeRecording(ruleDir: string, rec: Recording, opts: { metadataKeys?: string[]; source?: string } = {}): string {
+  const base = `${rec.service}.${rec.method}`.toLowerCase();
+  if (!fs.existsSync(ruleDir)) fs.mkdirSync(ruleDir, { recursive: true });
+  const existing = ['.yaml', '.yml', '.json']
+    .map((ext) => path.join(ruleDir, base + ext))
+    .find((p) => fs.existsSync(p));
+  const file = existing || path.join(ruleDir, `${base}.yaml`);
+
+  let doc: RuleDoc = {};
+  if (existing) {
+    const raw = fs.readFileSync(existing, 'utf8');
+    const parsed: any = existing.endsWith('.json') ? JSON.parse(raw) : yaml.load(raw);
+    doc = Array.isArray(parsed) ? { responses: parsed } : (parsed || {});
+  }
+
+  const entry = buildRecordedResponse(rec, opts.metadataKeys);
+  const responses = [...(doc.responses || [])];
+  const idx = responses.findIndex((r) => sameWhen(r, entry));
+  if (idx >= 0) responses[idx] = entry;
+  else responses.push(entry);
+  doc = { ...doc, responses };
+
+  const content = file.endsWith('.json')
+    ? JSON.stringify(doc, null, 2) + '\n'
+    : `# Recorded by wishmock proxy${opts.source ? ` from ${opts.source}` : ''}\n` + yaml.dump(doc, { noRefs: true, lineWidth: 120 });
+  fs.writeFileSync(file, content, 'utf8');
+  return file;
+}
@@ -0,0 +1,189 @@
+import path from "path";
+import { invokeGrpc, closeGrpcUpstreams } from "./grpcUpstream.js";
+import { invokeConnect } from "./connectUpstream.js";
+import { writeRecording } from "./recorder.js";
+import type { ProxyProtocol, UpstreamCall, UpstreamInvoker, UpstreamStatus } from "./types.js";
+import { runtime as processLogger } from "../logging/runtime.js";
+import type { Logger } from "../logging/logger.js";
+
+// Request headers that belong to the incoming connection, not to the RPC
+const HOP_HEADERS = new Set([
+  'content-type', 'content-length', 'te', 'host', 'user-agent', 'accept', 'accept-encoding',
+  'connection', 'keep-alive', 'transfer-encoding', 'origin', 'referer',
+]);
+
+// Failures that describe the upstream's availability rather than its answer
+const TRANSIENT_STATUS = new Set([1, 4, 14]); // CANCELLED, DEADLINE_EXCEEDED, UNAVAILABLE
+
+export interface ProxyOptions {
+  /** Upstream as host:port or URL; empty turns proxying off */
+  target: string;
+  /** Protocol spoken to the upstream (default: grpc) */
+  protocol?: ProxyProtocol;
+  tls?: boolean;
+  /** Upstream call timeout (default: 10000) */
+  timeoutMs?: number;
+  /** Write each proxied exchange as a rule */
+  record?: boolean;
+  /** Rule directory recordings are written to (default: unchanged, see setRecordDir) */
+  recordDir?: string;
+  /** Request metadata keys kept in the recorded `when` conditions */
+  recordMetadata?: string[];
+}
+
+/**
+ * Read PROXY_TARGET, PROXY_PROTOCOL, PROXY_TLS, PROXY_TIMEOUT_MS, PROXY_RECORD,
+ * PROXY_RECORD_DIR and PROXY_RECORD_METADATA
+ */
+export function proxyOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): ProxyOptions {
+  const proto = String(env.PROXY_PROTOCOL || 'grpc').toLowerCase();
+  const tls = String(env.PROXY_TLS || '').toLowerCase();
+  const timeout = parseInt(env.PROXY_TIMEOUT_MS || '10000', 10);
+  const rec = String(env.PROXY_RECORD || '').toLowerCase();
+  return {
+    target: String(env.PROXY_TARGET || '').trim(),
+    protocol: proto === 'connect' ? 'connect' : 'grpc',
+    tls: tls === 'true' || tls === '1',
+    timeoutMs: Number.isFinite(timeout) && timeout > 0 ? timeout : 10000,
+    record: rec === 'true' || rec === '1',
+    recordDir: env.PROXY_RECORD_DIR || undefined,
+    recordMetadata: String(env.PROXY_RECORD_METADATA || '').split(','),
+  };
+}
+
+export interface ProxyInfo {
+  enabled: boolean;
+  target?: string;
+  protocol: ProxyProtocol;
+  record: boolean;
+  record_dir?: string;
+  recorded: number;
+}
+
+export class ProxyRuntime {
+  private target: string = '';
+  private protocol: ProxyProtocol = 'grpc';
+  private tls: boolean = false;
+  private timeoutMs: number = 10000;
+  private recordEnabled: boolean = false;
+  private recordDir: string = path.resolve('rules/grpc');
+  private recordMetadataKeys: string[] = [];
+  private recordedCount: number = 0;
+  private recordedListener: ((file: string) => void) | null = null;
+
+  configureFromEnv() {
+    this.configure(proxyOptionsFromEnv());
+  }
+
+  /** Replace the upstream settings (unset fields take their defaults) */
+  configure(options: ProxyOptions) {
+    const target = String(options.target || '').trim();
+    // Only this runtime's old upstream: other instances may share the client cache
+    if (this.target && target !== this.target) closeGrpcUpstreams(this.target);
+    this.target = target;
+    this.protocol = options.protocol === 'connect' ? 'connect' : 'grpc';
+    this.tls = !!options.tls;
+    const timeout = Number(options.timeoutMs);
+    this.timeoutMs = Number.isFinite(timeout) && timeout > 0 ? timeout : 10000;
+    this.recordEnabled = !!options.record;
+    if (options.recordDir) this.recordDir = path.resolve(options.recordDir);
+    this.recordMetadataKeys = (options.recordMetadata || [])
+      .map((k) => k.trim().toLowerCase())
+      .filter(Boolean);
+  }
+
+  // Active when an upstream target is configured
+  active(): boolean { return this.target.length > 0; }
+  isRecording(): boolean { return this.active() && this.recordEnabled; }
+  getTarget(): string { return this.target; }
+
+  /** Rule directory recordings are written to (defaults to rules/grpc) */
+  setRecordDir(dir: string) { this.recordDir = path.resolve(dir); }
+
+  /** Called with the written file after each recording (e.g. to reload rules) */
+  onRecorded(listener: ((file: string) => void) | null) { this.recordedListener = listener; }
+
+  getInfo(): ProxyInfo {
+    return {
+      enabled: this.active(),
+      target: this.active() ? this.target : undefined,
+      protocol: this.protocol,
+      record: this.isRecording(),
+      record_dir: this.isRecording() ? this.recordDir : undefined,
+      recorded: this.recordedCount,
+    };
+  }
+
+  /**
+   * Forward a call upstream, yielding response messages as they arrive and
+   * returning the final status. When recording, the exchange is written as a
+   * rule once the upstream finishes.
+   *
+   * @param call Call to forward
+   * @param request Request as rules match it, used for the recorded `when`
+   * @param logger Logger of the call (default: the process logger)
+   */
+  async *forward(call: UpstreamCall, request: unknown, logger: Logger = processLogger): AsyncGenerator<unknown, UpstreamStatus> {
+    const invoke: UpstreamInvoker = this.protocol === 'connect' ? invokeConnect : invokeGrpc;
+    const upstream = invoke(
+      { ...call, metadata: forwardableMetadata(call.metadata) },
+      { target: this.target, tls: this.tls, timeoutMs: this.timeoutMs }
+    );
+
+    const messages: unknown[] = [];
+    const arrivals: number[] = [];
+    let status: UpstreamStatus;
+    try {
+      let next = await upstream.next();
+      while (!next.done) {
+        messages.push(next.value);
+        arrivals.push(Date.now());
+        yield next.value;
+        next = await upstream.next();
+      }
+      status = next.value;
+    } finally {
+      // Ends the upstream call when the downstream client cancels mid-stream
+      await upstream.return(undefined as never);
+    }
+
+    if (this.isRecording() && !TRANSIENT_STATUS.has(status.code)) {
+      const gaps = arrivals.slice(1).map((t, i) => t - arrivals[i]);
+      const streamDelayMs = gaps.length
+        ? Math.max(1, Math.round(gaps.reduce((a, b) => a + b, 0) / gaps.length))
+        : undefined;
+      try {
+        const file = writeRecording(this.recordDir, {
+          service: call.service,
+          method: call.method,
+          request,
+          metadata: call.metadata,
+          responseStream: call.responseStream,
+          messages,
+          status,
+          streamDelayMs,
+        }, { metadataKeys: this.recordMetadataKeys, source: this.target });
+        this.recordedCount++;
+        this.recordedListener?.(file);
+      } catch (e) {
+        // A failed recording must not fail the proxied call
+        logger.error('[proxy] failed to record', `${call.service}/${call.method}:`, e);
+      }
+    }
+
+    return status;
+  }
+}
+
+function forwardableMetadata(metadata: Record<string, string>): Record<string, string> {
+  const out: Record<string, string> = {};
+  for (const [k, v] of Object.entries(metadata || {})) {
+    const key = k.toLowerCase();
+    if (key.startsWith(':') || key.startsWith('grpc-') || key.startsWith('connect-') || key.endsWith('-bin')) continue;
+    if (HOP_HEADERS.has(key)) continue;
+    out[key] = v;
+  }
+  return out;
+}
+
+export const runtime = new ProxyRuntime();
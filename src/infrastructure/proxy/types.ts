@@ -0,0 +1,53 @@
+import type protobuf from "protobufjs";
+
+export type ProxyProtocol = 'grpc' | 'connect';
+
+/**
+ * A call to forward upstream. Unary and server-streaming calls carry a single
+ * message; client and bidi streaming calls carry every message the client sent.
+ */
+export interface UpstreamCall {
+  service: string;
+  method: string;
+  metadata: Record<string, string>;
+  messages: unknown[];
+  requestType: protobuf.Type;
+  responseType: protobuf.Type;
+  requestStream: boolean;
+  responseStream: boolean;
+}
+
+/** How the upstream call ended (gRPC status semantics for both protocols) */
+export interface UpstreamStatus {
+  code: number;
+  message: string;
+  headers: Record<string, string>;
+  trailers: Record<string, string>;
+}
+
+/**
+ * Upstream transport: yields response messages (plain objects) as they arrive
+ * and returns the final status. Transport failures are reported as a status,
+ * never thrown.
+ */
+export type UpstreamInvoker = (call: UpstreamCall, opts: UpstreamOptions) => AsyncGenerator<unknown, UpstreamStatus>;
+
+export interface UpstreamOptions {
+  target: string;
+  tls: boolean;
+  timeoutMs: number;
+}
+
+/** One captured request/response pair, ready to be written as a rule */
+export interface Recording {
+  service: string;
+  method: string;
+  /** Request as rules see it (message for unary/server streaming, aggregated object otherwise) */
+  request: unknown;
+  metadata: Record<string, string>;
+  responseStream: boolean;
+  messages: unknown[];
+  status: UpstreamStatus;
+  /** Mean gap between streamed messages */
+  streamDelayMs?: number;
+}
@@ -0,0 +1,596 @@
+/**
+ * Rule linter
+ *
+ * Checks rule files against the loaded protos so mistakes surface before a
+ * call hits them: the `target` or file name must name a known method, `body` and
+ * `stream_items` must fit the response message, `when`/`match` paths must
+ * exist on the request message and condition objects must use the known
+ * operators. Each problem is reported with its file, line and rule path.
+ */
+
+import fs from "fs";
+import path from "path";
+import yaml from "js-yaml";
+import protobuf from "protobufjs";
+import { MATCH_OPERATORS } from "../domain/usecases/selectResponse.js";
+import { parseCel } from "../domain/cel/parser.js";
+import { encodeErrorDetails } from "./errorDetails.js";
+import { validateFaultProfile } from "../domain/faults/faultInjector.js";
+import { listRuleFiles, ruleKeyOf } from "./ruleLoader.js";
+
+export type LintSeverity = "error" | "warning";
+
+/**
+ * A single linter finding
+ */
+export interface LintDiagnostic {
+  /** Rule file path relative to the rule directory (e.g., helloworld.greeter.sayhello.yaml) */
+  file: string;
+  /** 1-based line in the file, when it can be located */
+  line?: number;
+  /** Path of the offending entry (e.g., responses[0].body.message) */
+  path: string;
+  severity: LintSeverity;
+  message: string;
+}
+
+/**
+ * Method a rule file can target (HandlerMeta satisfies this)
+ */
+export interface LintMethod {
+  ruleKey: string;
+  reqType: protobuf.Type;
+  resType: protobuf.Type;
+  requestStream: boolean;
+  responseStream: boolean;
+}
+
+// Keys of the aggregated request seen by client-streaming and bidi rules
+const STREAM_REQUEST_KEYS = ["stream", "items", "first", "last", "count"];
+const NUMERIC_OPERATORS = ["gt", "gte", "lt", "lte"];
+const NUMERIC_TYPES = new Set([
+  "double", "float", "int32", "uint32", "sint32", "fixed32", "sfixed32",
+  "int64", "uint64", "sint64", "fixed64", "sfixed64",
+]);
+
+interface LintContext {
+  file: string;
+  lines: string[];
+  // 0-based line where each parsed object or list starts
+  positions: WeakMap<object, number>;
+  diagnostics: LintDiagnostic[];
+}
+
+interface Location {
+  path: string;
+  parent?: object;
+  key?: string | number;
+}
+
+/**
+ * Lint every rule file in a directory and its subdirectories
+ *
+ * @param ruleDir Rule directory (e.g., rules/grpc)
+ * @param methods Methods of the loaded protos
+ * @returns Diagnostics ordered by file
+ */
+export function lintRuleDir(ruleDir: string, methods: Iterable<LintMethod>): LintDiagnostic[] {
+  if (!fs.existsSync(ruleDir)) return [];
+  const known = [...methods];
+  const files = listRuleFiles(ruleDir);
+  return files.flatMap((f) => lintRuleSource(f, fs.readFileSync(path.join(ruleDir, f), "utf8"), known));
+}
+
+/**
+ * Lint the content of one rule file
+ *
+ * @param file Rule file name; its base name selects the method unless the file sets `target`
+ * @param content YAML or JSON content
+ * @param methods Methods of the loaded protos
+ * @returns Diagnostics in document order
+ */
+export function lintRuleSource(file: string, content: string, methods: Iterable<LintMethod>): LintDiagnostic[] {
+  const ctx: LintContext = { file, lines: content.split(/\r?\n/), positions: new WeakMap(), diagnostics: [] };
+  const open: number[] = [];
+  let doc: unknown;
+  try {
+    doc = yaml.load(content, {
+      listener: (event: string, state: any) => {
+        if (event === "open") {
+          open.push(state.line);
+          return;
+        }
+        const line = open.pop();
+        if (line !== undefined && typeof state.result === "object" && state.result !== null) {
+          ctx.positions.set(state.result, line);
+        }
+      },
+    });
+  } catch (e: any) {
+    const line = typeof e?.mark?.line === "number" ? e.mark.line + 1 : undefined;
+    return [{ file, line, path: "", severity: "error", message: `invalid rule file: ${e?.reason || e?.message || e}` }];
+  }
+
+  const target = isPlainObject(doc) ? doc.target : undefined;
+  if (target !== undefined && typeof target !== "string") {
+    report(ctx, child({ path: "" }, doc as object, "target"), target, "error", `target expects a method name such as pkg.Service/Method, got ${describe(target)}`);
+  }
+  const ruleKey = ruleKeyOf(file, target);
+  const method = [...methods].find((m) => m.ruleKey === ruleKey);
+  if (!method) {
+    const at = typeof target === "string" ? child({ path: "" }, doc as object, "target") : { path: "" };
+    report(ctx, at, typeof target === "string" ? target : doc, "error", `no loaded method matches rule key "${ruleKey}"`);
+  }
+
+  lintDoc(ctx, Array.isArray(doc) ? { responses: doc } : doc, method);
+  return ctx.diagnostics;
+}
+
+function lintDoc(ctx: LintContext, doc: unknown, method: LintMethod | undefined): void {
+  const root: Location = { path: "" };
+  if (!isPlainObject(doc)) {
+    report(ctx, root, doc, "error", "rule file must be a mapping or a list of responses");
+    return;
+  }
+  // Bidi per_message rules see each inbound message; other streamed requests are aggregated
+  const aggregate = !!method?.requestStream && !(method.responseStream && doc.bidi_mode === "per_message");
+
+  if (doc.match !== undefined) {
+    lintMatch(ctx, child(root, doc, "match"), doc.match, method, aggregate);
+  }
+
+  if (doc.faults !== undefined && !isRef(doc.faults)) {
+    const error = validateFaultProfile(doc.faults);
+    if (error) report(ctx, child(root, doc, "faults"), doc.faults, "error", error);
+  }
+
+  if (doc.responses === undefined || isRef(doc.responses)) return;
+  const at = child(root, doc, "responses");
+  if (!Array.isArray(doc.responses)) {
+    report(ctx, at, doc.responses, "error", "responses must be a list");
+    return;
+  }
+  doc.responses.forEach((response, i) => {
+    const loc = child(at, doc.responses as unknown[], i);
+    if (!isPlainObject(response)) {
+      report(ctx, loc, response, "error", "response must be a mapping");
+      return;
+    }
+    if (response.when !== undefined) {
+      lintWhen(ctx, child(loc, response, "when"), response.when, method, aggregate);
+    }
+    if (response.match !== undefined) {
+      lintMatch(ctx, child(loc, response, "match"), response.match, method, aggregate);
+    }
+    lintPayload(ctx, loc, response, method);
+    if (response.sequence !== undefined) {
+      const seqLoc = child(loc, response, "sequence");
+      if (!Array.isArray(response.sequence)) {
+        report(ctx, seqLoc, response.sequence, "error", "sequence must be a list of steps");
+        return;
+      }
+      response.sequence.forEach((step, j) => {
+        const stepLoc = child(seqLoc, response.sequence as unknown[], j);
+        if (isPlainObject(step)) lintPayload(ctx, stepLoc, step, method);
+        else report(ctx, stepLoc, step, "error", "sequence step must be a mapping");
+      });
+    }
+  });
+}
+
+function lintMatch(ctx: LintContext, at: Location, match: unknown, method: LintMethod | undefined, aggregate: boolean): void {
+  if (!isPlainObject(match)) {
+    report(ctx, at, match, "error", "match must be a mapping");
+    return;
+  }
+  const { metadata, request, cel } = match;
+  if (cel !== undefined) lintCel(ctx, child(at, match, "cel"), cel);
+  if (metadata !== undefined) {
+    forEachEntry(ctx, child(at, match, "metadata"), metadata, (loc, _key, value) => lintCondition(ctx, loc, value));
+  }
+  if (request !== undefined) {
+    forEachEntry(ctx, child(at, match, "request"), request, (loc, key, value) => {
+      lintRequestPath(ctx, loc, value, splitPath(key), method, aggregate);
+      lintCondition(ctx, loc, value);
+    });
+  }
+  for (const key of ["any", "all"] as const) {
+    if (match[key] === undefined) continue;
+    lintGroup(ctx, child(at, match, key), match[key], (loc, block) => lintMatch(ctx, loc, block, method, aggregate));
+  }
+}
+
+function lintWhen(ctx: LintContext, at: Location, when: unknown, method: LintMethod | undefined, aggregate: boolean): void {
+  forEachEntry(ctx, at, when, (loc, key, value) => {
+    if (key === "cel") {
+      lintCel(ctx, loc, value);
+    } else if (key === "any" || key === "all") {
+      lintGroup(ctx, loc, value, (blockLoc, block) => lintWhen(ctx, blockLoc, block, method, aggregate));
+    } else {
+      lintWhenPath(ctx, loc, value, key, method, aggregate);
+      lintCondition(ctx, loc, value);
+    }
+  });
+}
+
+// `any` / `all`: a non-empty list of nested blocks
+function lintGroup(ctx: LintContext, at: Location, value: unknown, lintBlock: (loc: Location, block: unknown) => void): void {
+  const name = at.key;
+  if (!Array.isArray(value)) {
+    report(ctx, at, value, "error", `${name} expects a list of condition blocks, got ${describe(value)}`);
+    return;
+  }
+  if (value.length === 0) {
+    report(ctx, at, value, "warning", name === "any" ? "empty any never matches" : "empty all always matches");
+  }
+  value.forEach((block, i) => lintBlock(child(at, value, i), block));
+}
+
+// body, stream_items and error details of a response or sequence step
+function lintPayload(ctx: LintContext, loc: Location, response: Record<string, unknown>, method: LintMethod | undefined): void {
+  if (method && response.body !== undefined) {
+    lintMessage(ctx, child(loc, response, "body"), response.body, method.resType);
+  }
+  if (response.stream_items !== undefined) {
+    const at = child(loc, response, "stream_items");
+    if (!Array.isArray(response.stream_items)) {
+      report(ctx, at, response.stream_items, "error", "stream_items must be a list");
+    } else if (method) {
+      const items = response.stream_items;
+      items.forEach((item, i) => lintMessage(ctx, child(at, items, i), item, method.resType));
+    }
+  }
+  if (response.error !== undefined) {
+    const at = child(loc, response, "error");
+    const error = response.error;
+    if (!isPlainObject(error)) {
+      report(ctx, at, error, "error", "error must be a mapping");
+      return;
+    }
+    if (error.details === undefined) return;
+    const detailsLoc = child(at, error, "details");
+    if (!Array.isArray(error.details)) {
+      report(ctx, detailsLoc, error.details, "error", "error.details must be a list");
+      return;
+    }
+    const details = error.details;
+    details.forEach((detail, i) => {
+      try {
+        encodeErrorDetails([detail]);
+      } catch (e: any) {
+        report(ctx, child(detailsLoc, details, i), detail, "error", String(e?.message || e));
+      }
+    });
+  }
+}
+
+function lintMessage(ctx: LintContext, loc: Location, value: unknown, type: protobuf.Type): void {
+  if (isTemplate(value) || isRef(value) || isWellKnown(type)) return;
+  if (isDirective(value, "$if")) {
+    forEachBranch(loc, value, (at, branch) => lintMessage(ctx, at, branch, type));
+    return;
+  }
+  if (!isPlainObject(value)) {
+    report(ctx, loc, value, "error", `expected ${typeName(type)} object, got ${describe(value)}`);
+    return;
+  }
+  for (const [key, v] of Object.entries(value)) {
+    const at = child(loc, value, key);
+    const field = findField(type, key);
+    if (!field) {
+      report(ctx, at, v, "error", `unknown field "${key}" in ${typeName(type)}`);
+      continue;
+    }
+    lintField(ctx, at, key, v, field);
+  }
+}
+
+function lintField(ctx: LintContext, at: Location, key: string, v: unknown, field: protobuf.Field): void {
+  if (v === null || isTemplate(v) || isRef(v)) return;
+  if (isDirective(v, "$if")) {
+    forEachBranch(at, v, (branchLoc, branch) => lintField(ctx, branchLoc, key, branch, field));
+    return;
+  }
+  field.resolve();
+  if (isDirective(v, "$each") && (field.map || !field.repeated)) {
+    report(ctx, at, v, "error", `$each produces a list but field "${key}" is not repeated`);
+  } else if (field.map) {
+    if (!isPlainObject(v)) report(ctx, at, v, "error", `map field "${key}" expects a mapping, got ${describe(v)}`);
+    else for (const [k, entry] of Object.entries(v)) lintFieldValue(ctx, child(at, v, k), entry, field);
+  } else if (field.repeated) {
+    if (isDirective(v, "$each")) lintEach(ctx, at, v, field);
+    else if (!Array.isArray(v)) report(ctx, at, v, "error", `repeated field "${key}" expects a list, got ${describe(v)}`);
+    else v.forEach((entry, i) => {
+      if (isDirective(entry, "$each")) lintEach(ctx, child(at, v, i), entry, field);
+      else lintFieldValue(ctx, child(at, v, i), entry, field);
+    });
+  } else {
+    lintFieldValue(ctx, at, v, field);
+  }
+}
+
+function lintFieldValue(ctx: LintContext, loc: Location, value: unknown, field: protobuf.Field): void {
+  if (value === null || isTemplate(value) || isRef(value)) return;
+  if (isDirective(value, "$if")) {
+    forEachBranch(loc, value, (at, branch) => lintFieldValue(ctx, at, branch, field));
+    return;
+  }
+  const resolved = field.resolvedType;
+  if (resolved instanceof protobuf.Type) {
+    lintMessage(ctx, loc, value, resolved);
+    return;
+  }
+  if (resolved instanceof protobuf.Enum) {
+    if (typeof value === "string" && !Object.prototype.hasOwnProperty.call(resolved.values, value)) {
+      report(ctx, loc, value, "error",
+        `unknown ${typeName(resolved)} value "${value}" (expected one of ${Object.keys(resolved.values).join(", ")})`);
+    } else if (typeof value === "number" && !Object.prototype.hasOwnProperty.call(resolved.valuesById, value)) {
+      report(ctx, loc, value, "warning", `${value} is not a declared ${typeName(resolved)} value`);
+    } else if (typeof value !== "string" && typeof value !== "number") {
+      report(ctx, loc, value, "error", `expected ${typeName(resolved)} value, got ${describe(value)}`);
+    }
+    return;
+  }
+  if (typeof value === "object") {
+    report(ctx, loc, value, "error", `expected ${field.type}, got ${describe(value)}`);
+  } else if (NUMERIC_TYPES.has(field.type) && (typeof value === "boolean" || !Number.isFinite(Number(value)))) {
+    report(ctx, loc, value, "error", `expected ${field.type}, got ${describe(value)}`);
+  }
+}
+
+// Template directives ($if / $each, see templateEngine) stand in for a value
+function lintEach(ctx: LintContext, loc: Location, directive: Record<string, unknown>, field: protobuf.Field): void {
+  if (!("$template" in directive)) {
+    report(ctx, loc, directive, "error", "$each needs a $template");
+    return;
+  }
+  lintFieldValue(ctx, child(loc, directive, "$template"), directive.$template, field);
+}
+
+function forEachBranch(
+  loc: Location,
+  directive: Record<string, unknown>,
+  fn: (at: Location, branch: unknown) => void
+): void {
+  for (const key of ["$then", "$else"]) {
+    if (key in directive) fn(child(loc, directive, key), directive[key]);
+  }
+}
+
+// `cel` conditions: syntax only, field paths are resolved at match time
+function lintCel(ctx: LintContext, loc: Location, value: unknown): void {
+  if (typeof value !== "string") {
+    report(ctx, loc, value, "error", `cel expects an expression string, got ${describe(value)}`);
+    return;
+  }
+  try {
+    parseCel(value);
+  } catch (e: any) {
+    report(ctx, loc, value, "error", `invalid CEL: ${e?.message || e}`);
+  }
+}
+
+// `when` keys: request.* paths are checked against the request type
+function lintWhenPath(
+  ctx: LintContext,
+  loc: Location,
+  value: unknown,
+  key: string,
+  method: LintMethod | undefined,
+  aggregate: boolean
+): void {
+  const [head, ...rest] = splitPath(key);
+  if (head === "request") {
+    lintRequestPath(ctx, loc, value, rest, method, aggregate);
+  } else if (head !== "metadata" && head !== "stream") {
+    report(ctx, loc, value, "warning", `condition "${key}" does not start with request., metadata. or stream. and never resolves`);
+  }
+}
+
+function lintRequestPath(
+  ctx: LintContext,
+  loc: Location,
+  value: unknown,
+  segments: string[],
+  method: LintMethod | undefined,
+  aggregate: boolean
+): void {
+  if (!method) return;
+  let rest = segments;
+  if (aggregate) {
+    const [head, ...tail] = segments;
+    if (!STREAM_REQUEST_KEYS.includes(head)) {
+      report(ctx, loc, value, "error",
+        `unknown request path "${segments.join(".")}"; streamed requests expose ${STREAM_REQUEST_KEYS.join(", ")}`);
+      return;
+    }
+    if (head === "count") {
+      if (tail.length > 0) report(ctx, loc, value, "error", `count has no "${tail[0]}"`);
+      return;
+    }
+    rest = tail;
+    if (head === "stream" || head === "items") {
+      if (tail.length === 0 || tail[0] === "length") return;
+      if (!/^\d+$/.test(tail[0])) {
+        report(ctx, loc, value, "error", `${head} is a list; expected an index, got "${tail[0]}"`);
+        return;
+      }
+      rest = tail.slice(1);
+    }
+  }
+  const problem = resolvePath(method.reqType, rest);
+  if (problem) report(ctx, loc, value, "error", problem);
+}
+
+// Walk a field path through a message type; returns a problem description or undefined
+function resolvePath(type: protobuf.Type, segments: string[]): string | undefined {
+  let current: protobuf.Type = type;
+  for (let i = 0; i < segments.length; i++) {
+    if (isWellKnown(current)) return undefined;
+    const seg = segments[i];
+    const field = findField(current, seg);
+    if (!field) {
+      // proto-loader exposes each oneof as a virtual field holding the set member's name
+      const isOneof = Object.keys(current.oneofs || {}).includes(seg);
+      if (isOneof && i === segments.length - 1) return undefined;
+      return `unknown field "${seg}" in ${typeName(current)}`;
+    }
+    field.resolve();
+    if (field.map) {
+      // The next segment is a map key
+      i++;
+    } else if (field.repeated && i + 1 < segments.length) {
+      const next = segments[i + 1];
+      if (next === "length") return i + 2 < segments.length ? `length of "${seg}" has no "${segments[i + 2]}"` : undefined;
+      if (!/^\d+$/.test(next)) return `"${seg}" is repeated; expected an index, got "${next}"`;
+      i++;
+    }
+    if (i >= segments.length - 1) return undefined;
+    if (!(field.resolvedType instanceof protobuf.Type)) {
+      return `"${seg}" is a ${field.type} field and has no "${segments[i + 1]}"`;
+    }
+    current = field.resolvedType;
+  }
+  return undefined;
+}
+
+// Condition values: literals compare by string equality, objects must use known operators
+function lintCondition(ctx: LintContext, loc: Location, value: unknown): void {
+  if (!isPlainObject(value)) return;
+  const operators = MATCH_OPERATORS as readonly string[];
+  const keys = Object.keys(value);
+  const unknown = keys.filter((k) => !operators.includes(k));
+  if (unknown.length > 0) {
+    report(ctx, loc, value, "error",
+      `unknown operator${unknown.length > 1 ? "s" : ""} ${unknown.join(", ")} (expected one of ${operators.join(", ")})`);
+  }
+  if ("not" in value) lintCondition(ctx, child(loc, value, "not"), value.not);
+  if ("exists" in value && typeof value.exists !== "boolean") {
+    report(ctx, child(loc, value, "exists"), value.exists, "error", "exists expects true or false");
+  }
+  if ("flags" in value && !("regex" in value)) {
+    report(ctx, child(loc, value, "flags"), value.flags, "warning", "flags has no effect without regex");
+  }
+  if ("regex" in value) {
+    try {
+      new RegExp(String(value.regex ?? ""), String(value.flags ?? ""));
+    } catch (e: any) {
+      report(ctx, child(loc, value, "regex"), value.regex, "error", `invalid regex: ${e?.message || e}`);
+    }
+  }
+  if ("in" in value && !Array.isArray(value.in)) {
+    report(ctx, child(loc, value, "in"), value.in, "error", `in expects a list, got ${describe(value.in)}`);
+  }
+  for (const op of NUMERIC_OPERATORS) {
+    if (op in value && (typeof value[op] === "boolean" || !Number.isFinite(Number(value[op])))) {
+      report(ctx, child(loc, value, op), value[op], "error", `${op} expects a number, got ${describe(value[op])}`);
+    }
+  }
+  for (const op of ["contains", "eq", "ne"]) {
+    if (op in value && typeof value[op] === "object" && value[op] !== null) {
+      report(ctx, child(loc, value, op), value[op], "error", `${op} expects a scalar, got ${describe(value[op])}`);
+    }
+  }
+}
+
+function forEachEntry(
+  ctx: LintContext,
+  loc: Location,
+  value: unknown,
+  fn: (loc: Location, key: string, value: unknown) => void
+): void {
+  if (!isPlainObject(value)) {
+    report(ctx, loc, value, "error", `${loc.path} must be a mapping`);
+    return;
+  }
+  for (const [key, v] of Object.entries(value)) fn(child(loc, value, key), key, v);
+}
+
+function report(ctx: LintContext, loc: Location, value: unknown, severity: LintSeverity, message: string): void {
+  ctx.diagnostics.push({ file: ctx.file, line: lineOf(ctx, loc, value), path: loc.path, severity, message });
+}
+
+// Objects and lists know their own line; scalars are found by key below their parent
+function lineOf(ctx: LintContext, loc: Location, value: unknown): number | undefined {
+  if (typeof value === "object" && value !== null) {
+    const own = ctx.positions.get(value);
+    if (own !== undefined) return own + 1;
+  }
+  const start = loc.parent ? ctx.positions.get(loc.parent) : undefined;
+  if (start === undefined) return undefined;
+  if (typeof loc.key === "string") {
+    // Prefer a key at the indentation of the parent's first key over the same key in a nested block
+    const firstKey = Object.keys(loc.parent as object)[0];
+    const firstLine = firstKey === undefined ? undefined : findKeyLine(ctx, start, firstKey);
+    const indent = firstLine === undefined ? undefined : indentOf(ctx.lines[firstLine]);
+    const line = findKeyLine(ctx, start, loc.key, indent) ?? findKeyLine(ctx, start, loc.key);
+    if (line !== undefined) return line + 1;
+  }
+  return start + 1;
+}
+
+// 0-based line of `key:` at or after `start`, optionally at a given indentation
+function findKeyLine(ctx: LintContext, start: number, key: string, indent?: number): number | undefined {
+  const escaped = key.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  const keyLine = new RegExp(`(^|[\\s{,-])["']?${escaped}["']?\\s*:`);
+  for (let i = start; i < ctx.lines.length; i++) {
+    if (keyLine.test(ctx.lines[i]) && (indent === undefined || indentOf(ctx.lines[i]) === indent)) return i;
+  }
+  return undefined;
+}
+
+// Width of the leading spaces and list dashes of a YAML line
+function indentOf(line: string | undefined): number {
+  return line?.match(/^[\s-]*/)?.[0].length ?? 0;
+}
+
+function child(loc: Location, parent: object, key: string | number): Location {
+  let segment: string;
+  if (typeof key === "number") segment = `[${key}]`;
+  else if (/^[A-Za-z_$][\w-]*$/.test(key)) segment = loc.path ? `.${key}` : key;
+  else segment = `[${JSON.stringify(key)}]`;
+  return { path: loc.path + segment, parent, key };
+}
+
+// Same segmentation as getValue: "a.b[0].c" -> ["a", "b", "0", "c"]
+function splitPath(key: string): string[] {
+  return key.split(/[.[\]]/).filter(Boolean);
+}
+
+// Rules may name fields as in the proto (snake_case) or in JSON form (camelCase)
+function findField(type: protobuf.Type, name: string): protobuf.Field | undefined {
+  const camel = protobuf.util.camelCase(name);
+  return type.fieldsArray.find((f) => f.name === name || protobuf.util.camelCase(f.name) === camel);
+}
+
+function isWellKnown(type: protobuf.Type): boolean {
+  return type.fullName.startsWith(".google.protobuf.");
+}
+
+function isTemplate(value: unknown): boolean {
+  return typeof value === "string" && value.includes("{{");
+}
+
+function isDirective(value: unknown, name: "$if" | "$each"): value is Record<string, unknown> {
+  return isPlainObject(value) && name in value;
+}
+
+// `$ref` values are inlined by the rule loader from other files
+function isRef(value: unknown): boolean {
+  return isPlainObject(value) && "$ref" in value;
+}
+
+function isPlainObject(x: unknown): x is Record<string, unknown> {
+  return typeof x === "object" && x !== null && !Array.isArray(x);
+}
+
+function typeName(t: protobuf.ReflectionObject): string {
+  return t.fullName.replace(/^\./, "");
+}
+
+function describe(value: unknown): string {
+  if (Array.isArray(value)) return "a list";
+  if (value === null) return "null";
+  if (typeof value === "object") return "a mapping";
+  return typeof value === "string" ? `"${value}"` : String(value);
+}
@@ -1,17 +1,34 @@
 import fs from "fs";
 import path from "path";
 import yaml from "js-yaml";
-import type { RuleDoc } from "../domain/types.js";
+import type { ResponseOption, RuleDoc } from "../domain/types.js";
+import { validateFaultProfile } from "../domain/faults/faultInjector.js";
+import { validateMatchConditions } from "../domain/usecases/verifyRequests.js";
 
+const RULE_FILE = /\.(yaml|yml|json)$/i;
+// Directories holding shared `$ref` fragments rather than rules
+const FRAGMENT_DIR = "fragments";
+const MAX_REF_DEPTH = 32;
+
+/**
+ * Load every rule file under a directory, subdirectories included
+ *
+ * A file answers the method named by its `target` field (e.g.
+ * `helloworld.Greeter/SayHello`), or else by its base name. Files targeting
+ * the same method are merged in path order; `$ref` values are inlined.
+ *
+ * @param ruleDir Rule directory (e.g., rules/grpc)
+ * @returns Rule documents keyed by rule key (package.service.method, lowercase)
+ */
 export function loadRules(ruleDir: string): Map<string, RuleDoc> {
   const index = new Map<string, RuleDoc>();
   if (!fs.existsSync(ruleDir)) fs.mkdirSync(ruleDir, { recursive: true });
-  const files = fs.readdirSync(ruleDir).filter(f => f.endsWith(".yaml") || f.endsWith(".yml") || f.endsWith(".json"));
-  for (const f of files) {
+  const groups = new Map<string, RuleDoc[]>();
+  const refRoot = fs.realpathSync(ruleDir);
+  for (const f of listRuleFiles(ruleDir)) {
     const p = path.join(ruleDir, f);
-    const raw = fs.readFileSync(p, "utf8");
-    let doc: any = f.endsWith(".json") ? JSON.parse(raw) : yaml.load(raw);
-    
+    let doc: any = resolveRefs(readRuleFile(p), p, [p], refRoot);
+
     // Normalize: if doc is an array, wrap it as { responses: doc }
     // This supports both formats:
     // 1. Array format: [{ when: ..., body: ... }, ...]
@@ -19,10 +36,157 @@ export function loadRules(ruleDir: string): Map<string, RuleDoc> {
     if (Array.isArray(doc)) {
       doc = { responses: doc };
     }
-    
-    const base = path.basename(f).replace(/\.(yaml|yml|json)$/i, "");
-    index.set(base.toLowerCase(), doc as RuleDoc);
+    const error = validateRuleDoc(doc);
+    if (error) throw new Error(`${p}: ${error}`);
+
+    const key = ruleKeyOf(f, doc?.target);
+    groups.set(key, [...(groups.get(key) || []), doc as RuleDoc]);
+  }
+  for (const [key, docs] of groups) {
+    index.set(key, docs.length === 1 ? docs[0] : mergeRuleDocs(docs));
   }
   return index;
 }
 
+/**
+ * Check the parts of a rule document that would otherwise misbehave only at
+ * call time: the fault profile and the `cel` / `any` / `all` conditions of its
+ * match and `when` blocks
+ *
+ * @param doc Rule document (after `$ref` resolution)
+ * @returns Problem description starting with the field, or null when valid
+ */
+export function validateRuleDoc(doc: RuleDoc): string | null {
+  if (doc?.faults !== undefined) {
+    const error = validateFaultProfile(doc.faults);
+    if (error) return `faults: ${error}`;
+  }
+  const blocks: [string, unknown][] = [["match", doc?.match]];
+  if (Array.isArray(doc?.responses)) {
+    doc.responses.forEach((r, i) => blocks.push([`responses[${i}].when`, r?.when], [`responses[${i}].match`, r?.match]));
+  }
+  for (const [at, block] of blocks) {
+    if (typeof block !== "object" || block === null || Array.isArray(block)) continue;
+    const error = validateMatchConditions(block as Record<string, unknown>, `${at}.`);
+    if (error) return error;
+  }
+  return null;
+}
+
+/**
+ * Rule files under a directory, as sorted paths relative to it
+ *
+ * `fragments` directories are skipped: they hold `$ref` targets, not rules.
+ */
+export function listRuleFiles(ruleDir: string, sub = ""): string[] {
+  const files: string[] = [];
+  const entries = fs.readdirSync(path.join(ruleDir, sub), { withFileTypes: true })
+    .sort((a, b) => a.name.localeCompare(b.name));
+  for (const entry of entries) {
+    const rel = path.join(sub, entry.name);
+    if (entry.isDirectory()) {
+      if (entry.name !== FRAGMENT_DIR) files.push(...listRuleFiles(ruleDir, rel));
+    } else if (RULE_FILE.test(entry.name)) {
+      files.push(rel);
+    }
+  }
+  return files;
+}
+
+/**
+ * Rule key a file answers: its `target` (`pkg.Service/Method` or
+ * `pkg.Service.Method`) when set, else its base name
+ */
+export function ruleKeyOf(file: string, target?: unknown): string {
+  if (typeof target === "string" && target.trim() !== "") {
+    return target.trim().replace(/^\//, "").replace("/", ".").toLowerCase();
+  }
+  return path.basename(file).replace(RULE_FILE, "").toLowerCase();
+}
+
+function readRuleFile(file: string): unknown {
+  const raw = fs.readFileSync(file, "utf8");
+  return file.endsWith(".json") ? JSON.parse(raw) : yaml.load(raw);
+}
+
+// Replace `{ $ref: "fragments/user.yaml#/body" }` with the referenced value. The path is
+// relative to the referencing file (empty for the same file) and must stay inside the rule
+// directory; the fragment is a JSON pointer. Sibling keys of `$ref` are merged over a
+// referenced mapping.
+function resolveRefs(value: unknown, file: string, stack: string[], refRoot: string, root: unknown = value): unknown {
+  if (Array.isArray(value)) return value.map((v) => resolveRefs(v, file, stack, refRoot, root));
+  if (typeof value !== "object" || value === null) return value;
+  const obj = value as Record<string, unknown>;
+  const out: Record<string, unknown> = {};
+  for (const [k, v] of Object.entries(obj)) {
+    if (k !== "$ref") out[k] = resolveRefs(v, file, stack, refRoot, root);
+  }
+  if (!("$ref" in obj)) return out;
+
+  const ref = String(obj.$ref);
+  const hash = ref.indexOf("#");
+  const refPath = hash >= 0 ? ref.slice(0, hash) : ref;
+  const pointer = hash >= 0 ? ref.slice(hash + 1) : "";
+  const target = refPath ? path.resolve(path.dirname(file), refPath) : file;
+  const id = `${target}#${pointer}`;
+  if (stack.includes(id) || stack.length > MAX_REF_DEPTH) {
+    throw new Error(`${file}: circular $ref "${ref}"`);
+  }
+  if (refPath && !fs.existsSync(target)) {
+    throw new Error(`${file}: $ref "${ref}" not found`);
+  }
+  // Symlinks are followed before the check, so a link cannot point outside either
+  if (refPath && !isInside(refRoot, fs.realpathSync(target))) {
+    throw new Error(`${file}: $ref "${ref}" is outside the rule directory`);
+  }
+  const targetRoot = refPath ? readRuleFile(target) : root;
+  const found = resolvePointer(targetRoot, pointer);
+  if (found === undefined) {
+    throw new Error(`${file}: $ref "${ref}" points at nothing`);
+  }
+  const resolved = resolveRefs(found, target, [...stack, id], refRoot, targetRoot);
+  if (Object.keys(out).length === 0) return resolved;
+  if (typeof resolved !== "object" || resolved === null || Array.isArray(resolved)) {
+    throw new Error(`${file}: $ref "${ref}" with sibling keys must point at a mapping`);
+  }
+  return { ...resolved, ...out };
+}
+
+function isInside(dir: string, file: string): boolean {
+  const rel = path.relative(dir, file);
+  return rel !== "" && !rel.startsWith("..") && !path.isAbsolute(rel);
+}
+
+// RFC 6901 JSON pointer ("/responses/0/body"); "" is the whole document
+function resolvePointer(doc: unknown, pointer: string): unknown {
+  if (pointer === "" || pointer === "/") return doc;
+  let current: any = doc;
+  for (const raw of pointer.replace(/^\//, "").split("/")) {
+    const seg = decodeURIComponent(raw).replace(/~1/g, "/").replace(/~0/g, "~");
+    if (current === null || typeof current !== "object" || !Object.prototype.hasOwnProperty.call(current, seg)) {
+      return undefined;
+    }
+    current = current[seg];
+  }
+  return current;
+}
+
+// One document from several files: responses are concatenated (so priority ties go to the
+// earlier file), a file's top-level match guards only its own responses, and other keys
+// (scenario, faults, bidi_mode) come from the first file that sets them
+function mergeRuleDocs(docs: RuleDoc[]): RuleDoc {
+  const merged: RuleDoc = {};
+  const responses: ResponseOption[] = [];
+  for (const doc of docs) {
+    for (const [k, v] of Object.entries(doc)) {
+      if (k === "match" || k === "responses" || v === undefined) continue;
+      if ((merged as any)[k] === undefined) (merged as any)[k] = v;
+    }
+    for (const response of doc.responses || []) {
+      if (!doc.match) responses.push(response);
+      else responses.push({ ...response, match: response.match ? { all: [doc.match, response.match] } : doc.match });
+    }
+  }
+  merged.responses = responses;
+  return merged;
+}
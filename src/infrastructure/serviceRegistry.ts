@@ -17,6 +17,7 @@ import {
   handleClientStreamingRequest,
   handleBidiStreamingRequest,
 } from "../domain/usecases/handleRequest.js";
+import type { HandlerContext } from "../domain/usecases/handlerContext.js";
 import {
   normalizeConnectUnaryRequest,
   normalizeConnectServerStreamingRequest,
@@ -25,6 +26,7 @@ import {
   type ConnectContext,
 } from "./protocolAdapter.js";
 import { normalizeTypeName } from "./utils/protoUtils.js";
+import { toLogger, type LoggerLike } from "./logging/logger.js";
 
 /**
  * Rules index type (same as used in grpcServer.ts)
@@ -73,16 +75,17 @@ export interface ConnectServiceMeta {
  * 
  * @param root Protobuf root containing service definitions
  * @param rulesIndex Index of rules for matching requests
- * @param logger Logger function
- * @param errorLogger Error logger function
+ * @param logger Logger (or a function receiving every message)
+ * @param handlerContext Stores and runtimes calls are handled against
  * @returns Map of service name to service metadata
  */
 export function registerServices(
   root: protobuf.Root,
   rulesIndex: RulesIndex,
-  logger: (...args: any[]) => void,
-  errorLogger: (...args: any[]) => void
+  logger: LoggerLike,
+  handlerContext?: HandlerContext
 ): Map<string, ConnectServiceMeta> {
+  const log = toLogger(logger);
   const services = new Map<string, ConnectServiceMeta>();
 
   // Convert root to JSON for traversal (same approach as grpcServer.ts)
@@ -138,7 +141,7 @@ export function registerServices(
           reqType = root.lookupType(reqFqn);
           resType = root.lookupType(resFqn);
         } catch (e: any) {
-          errorLogger(
+          log.error(
             `Failed to lookup types for ${fullServiceName}/${methodName}:`,
             e?.message || e
           );
@@ -158,8 +161,8 @@ export function registerServices(
           responseStream,
           ruleKey,
           rulesIndex,
-          logger,
-          errorLogger
+          log,
+          handlerContext
         );
 
         // Add method to service
@@ -176,7 +179,7 @@ export function registerServices(
 
       // Register service
       services.set(fullServiceName, serviceMeta);
-      logger(
+      log.info(
         `Registered Connect service: ${fullServiceName} (${serviceMeta.methods.size} methods)`
       );
     }
@@ -207,11 +210,11 @@ export function registerServices(
   }
 
   if (services.size === 0) {
-    logger("(warn) No services discovered from protos for Connect RPC");
+    log.warn("No services discovered from protos for Connect RPC");
   } else {
     const serviceNames = Array.from(services.keys());
-    logger(
-      `(info) Discovered ${services.size} Connect services: ${serviceNames.join(", ")}`
+    log.info(
+      `Discovered ${services.size} Connect services: ${serviceNames.join(", ")}`
     );
   }
 
@@ -247,8 +250,8 @@ export function registerServices(
  * @param responseStream Whether response is streaming (server/bidi)
  * @param ruleKey Rule key for matching (e.g., "helloworld.greeter.sayhello")
  * @param rulesIndex Index of rules (shared with gRPC server)
- * @param logger Logger function for info messages
- * @param errorLogger Error logger function for error messages
+ * @param logger Logger (or a function receiving every message)
+ * @param handlerContext Stores and runtimes calls are handled against
  * @returns Connect method handler (function or async generator)
  */
 export function createMethodHandler(
@@ -260,9 +263,10 @@ export function createMethodHandler(
   responseStream: boolean,
   ruleKey: string,
   rulesIndex: RulesIndex,
-  logger: (...args: any[]) => void,
-  errorLogger: (...args: any[]) => void
+  logger: LoggerLike,
+  handlerContext?: HandlerContext
 ): ConnectMethodHandler {
+  const log = toLogger(logger);
   // Unary RPC: single request, single response
   if (!requestStream && !responseStream) {
     return async (req: any, context: ConnectContext): Promise<any> => {
@@ -278,7 +282,7 @@ export function createMethodHandler(
         );
 
         // Step 2: Call shared handler (validation, rule matching, response selection)
-        const result = await handleUnaryRequest(normalizedReq, rulesIndex, logger);
+        const result = await handleUnaryRequest(normalizedReq, rulesIndex, log, handlerContext);
 
         // Step 3: Convert normalized response back to Connect format
         if ('code' in result) {
@@ -288,7 +292,7 @@ export function createMethodHandler(
         
         return sendConnectResponse(result as NormalizedResponse, resType, context);
       } catch (error: any) {
-        errorLogger(
+        log.error(
           `[connect] ${serviceName}/${methodName} - error:`,
           error?.message || error
         );
@@ -315,7 +319,7 @@ export function createMethodHandler(
         );
 
         // Step 2: Call shared handler (validation, rule matching, streaming)
-        for await (const result of handleServerStreamingRequest(normalizedReq, rulesIndex, logger)) {
+        for await (const result of handleServerStreamingRequest(normalizedReq, rulesIndex, log, handlerContext)) {
           // Check for cancellation
           if (context.signal?.aborted) {
             break;
@@ -330,7 +334,7 @@ export function createMethodHandler(
           yield sendConnectResponse(result as NormalizedResponse, resType, context);
         }
       } catch (error: any) {
-        errorLogger(
+        log.error(
           `[connect] ${serviceName}/${methodName} - error:`,
           error?.message || error
         );
@@ -370,7 +374,8 @@ export function createMethodHandler(
         const result = await handleClientStreamingRequest(
           normalizeRequests(),
           rulesIndex,
-          logger
+          log,
+          handlerContext
         );
 
         // Step 3: Convert normalized response back to Connect format
@@ -381,7 +386,7 @@ export function createMethodHandler(
         
         return sendConnectResponse(result as NormalizedResponse, resType, context);
       } catch (error: any) {
-        errorLogger(
+        log.error(
           `[connect] ${serviceName}/${methodName} - error:`,
           error?.message || error
         );
@@ -420,7 +425,8 @@ export function createMethodHandler(
       for await (const result of handleBidiStreamingRequest(
         normalizeRequests(),
         rulesIndex,
-        logger
+        log,
+        handlerContext
       )) {
         // Check for cancellation
         if (context.signal?.aborted) {
@@ -436,7 +442,7 @@ export function createMethodHandler(
         yield sendConnectResponse(result as NormalizedResponse, resType, context);
       }
     } catch (error: any) {
-      errorLogger(
+      log.error(
         `[connect] ${serviceName}/${methodName} - error:`,
         error?.message || error
       );
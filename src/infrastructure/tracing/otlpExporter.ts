@@ -0,0 +1,101 @@
+import * as grpc from "@grpc/grpc-js";
+import { encodeExportRequest, OTLP_EXPORT_PATHS } from "../otlp/schema.js";
+
+export type OtlpProtocol = "http/json" | "http/protobuf" | "grpc";
+
+export interface OtlpExporterOptions {
+  /** Collector endpoint: full /v1/traces URL for HTTP, http(s)://host:port for gRPC */
+  endpoint: string;
+  protocol: OtlpProtocol;
+  headers: Record<string, string>;
+  timeoutMs: number;
+}
+
+/** Attribute in the OTLP JSON encoding */
+export interface OtlpKeyValue {
+  key: string;
+  value: { stringValue?: string; boolValue?: boolean; intValue?: string; doubleValue?: number };
+}
+
+/** Span in the OTLP JSON encoding (hex ids, nanosecond timestamps as strings) */
+export interface OtlpSpan {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  traceState?: string;
+  name: string;
+  /** SPAN_KIND_SERVER = 2 */
+  kind: number;
+  startTimeUnixNano: string;
+  endTimeUnixNano: string;
+  attributes: OtlpKeyValue[];
+  /** STATUS_CODE_UNSET = 0, STATUS_CODE_ERROR = 2 */
+  status: { code: number; message?: string };
+}
+
+/** ExportTraceServiceRequest in the OTLP JSON encoding */
+export interface OtlpTracesRequest {
+  resourceSpans: {
+    resource: { attributes: OtlpKeyValue[] };
+    scopeSpans: { scope: { name: string; version?: string }; spans: OtlpSpan[] }[];
+  }[];
+}
+
+const clients = new Map<string, grpc.Client>();
+
+/**
+ * Send spans to an OTLP collector
+ *
+ * @throws When the collector cannot be reached or rejects the export
+ */
+export async function exportTraces(request: OtlpTracesRequest, opts: OtlpExporterOptions): Promise<void> {
+  if (opts.protocol === "grpc") {
+    return exportGrpc(Buffer.from(encodeExportRequest("traces", request)), opts);
+  }
+
+  const json = opts.protocol === "http/json";
+  const res = await fetch(opts.endpoint, {
+    method: "POST",
+    headers: { ...opts.headers, "content-type": json ? "application/json" : "application/x-protobuf" },
+    body: json ? JSON.stringify(request) : new Uint8Array(encodeExportRequest("traces", request)),
+    signal: AbortSignal.timeout(opts.timeoutMs),
+  });
+  // Drain the body so the connection can be reused
+  await res.arrayBuffer().catch(() => undefined);
+  if (!res.ok) {
+    throw new Error(`collector answered HTTP ${res.status}`);
+  }
+}
+
+/** Close cached gRPC collector channels */
+export function closeOtlpExporters() {
+  for (const client of clients.values()) client.close();
+  clients.clear();
+}
+
+function exportGrpc(body: Buffer, opts: OtlpExporterOptions): Promise<void> {
+  const url = new URL(/^[a-z]+:\/\//i.test(opts.endpoint) ? opts.endpoint : `http://${opts.endpoint}`);
+  const tls = url.protocol === "https:";
+  const target = `${url.hostname}:${url.port || (tls ? 443 : 4317)}`;
+  const key = `${tls ? "tls" : "plain"}:${target}`;
+  let client = clients.get(key);
+  if (!client) {
+    client = new grpc.Client(target, tls ? grpc.credentials.createSsl() : grpc.credentials.createInsecure());
+    clients.set(key, client);
+  }
+
+  const md = new grpc.Metadata();
+  for (const [k, v] of Object.entries(opts.headers)) md.add(k.toLowerCase(), v);
+
+  return new Promise((resolve, reject) => {
+    client!.makeUnaryRequest(
+      OTLP_EXPORT_PATHS.traces,
+      (buf: Buffer) => buf,
+      (buf: Buffer) => buf,
+      body,
+      md,
+      { deadline: Date.now() + opts.timeoutMs },
+      (e) => (e ? reject(new Error(`collector answered ${e.message}`)) : resolve())
+    );
+  });
+}
@@ -0,0 +1,266 @@
+import * as grpc from "@grpc/grpc-js";
+import { extractTraceContext, newSpanId } from "./traceContext.js";
+import {
+  exportTraces,
+  closeOtlpExporters,
+  type OtlpExporterOptions,
+  type OtlpKeyValue,
+  type OtlpProtocol,
+  type OtlpSpan,
+} from "./otlpExporter.js";
+import { runtime as logger } from "../logging/runtime.js";
+
+// Spans are sent in batches; beyond the queue limit new spans are dropped
+const MAX_BATCH = 512;
+const MAX_QUEUE = 2048;
+const FLUSH_INTERVAL_MS = 1000;
+
+const SPAN_KIND_SERVER = 2;
+const STATUS_CODE_ERROR = 2;
+
+export interface TracingOptions {
+  /**
+   * Traces endpoint: a URL for http/protobuf and http/json (e.g.
+   * http://collector:4318/v1/traces), host:port for grpc; unset turns tracing off
+   */
+  endpoint?: string;
+  /** OTLP protocol (default: http/protobuf) */
+  protocol?: OtlpProtocol;
+  headers?: Record<string, string>;
+  /** Export timeout (default: 10000) */
+  timeoutMs?: number;
+  /** service.name of the exported spans (default: wishmock) */
+  serviceName?: string;
+}
+
+/**
+ * Read the standard OTEL_* exporter variables
+ *
+ * Tracing is on when OTEL_EXPORTER_OTLP_TRACES_ENDPOINT or
+ * OTEL_EXPORTER_OTLP_ENDPOINT is set, unless OTEL_TRACES_EXPORTER=none.
+ */
+export function tracingOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): TracingOptions {
+  const protocol = parseProtocol(env.OTEL_EXPORTER_OTLP_TRACES_PROTOCOL || env.OTEL_EXPORTER_OTLP_PROTOCOL);
+  const tracesEndpoint = String(env.OTEL_EXPORTER_OTLP_TRACES_ENDPOINT || '').trim();
+  const baseEndpoint = String(env.OTEL_EXPORTER_OTLP_ENDPOINT || '').trim();
+  const disabled = String(env.OTEL_TRACES_EXPORTER || '').toLowerCase() === 'none';
+  const serviceName = String(env.OTEL_SERVICE_NAME || '').trim() || undefined;
+  if (disabled || (!tracesEndpoint && !baseEndpoint)) return { serviceName };
+
+  // The base endpoint gets the signal path appended for HTTP; gRPC uses host:port only
+  const endpoint = tracesEndpoint
+    || (protocol === 'grpc' ? baseEndpoint : `${baseEndpoint.replace(/\/+$/, '')}/v1/traces`);
+  const timeout = parseInt(env.OTEL_EXPORTER_OTLP_TRACES_TIMEOUT || env.OTEL_EXPORTER_OTLP_TIMEOUT || '10000', 10);
+  return {
+    endpoint,
+    protocol,
+    headers: parseHeaders(env.OTEL_EXPORTER_OTLP_TRACES_HEADERS || env.OTEL_EXPORTER_OTLP_HEADERS),
+    timeoutMs: timeout,
+    serviceName,
+  };
+}
+
+export interface TracingInfo {
+  enabled: boolean;
+  endpoint?: string;
+  protocol?: OtlpProtocol;
+  service_name: string;
+  exported: number;
+  dropped: number;
+  last_error?: string;
+}
+
+/**
+ * A finished call, as recorded by the shared handlers
+ */
+export interface ServerCall {
+  service: string;
+  method: string;
+  metadata: Record<string, string>;
+  protocol?: string;
+  /** Final status code name (e.g., "OK", "NOT_FOUND") */
+  status: string;
+  message?: string;
+  ruleKey: string | null;
+  responseIndex: number | null;
+  proxied: boolean;
+  receivedAt: Date;
+  latencyMs: number;
+}
+
+export class TracingRuntime {
+  private exporter: OtlpExporterOptions | null = null;
+  private serviceName: string = 'wishmock';
+  private pending: OtlpSpan[] = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private inFlight: Set<Promise<void>> = new Set();
+  private exported: number = 0;
+  private dropped: number = 0;
+  private lastError: string | undefined;
+
+  /** Read the standard OTEL_* exporter variables (see tracingOptionsFromEnv) */
+  configureFromEnv() {
+    this.configure(tracingOptionsFromEnv());
+  }
+
+  /** Replace the exporter settings (unset fields take their defaults) */
+  configure(options: TracingOptions) {
+    this.serviceName = String(options.serviceName || '').trim() || 'wishmock';
+    const endpoint = String(options.endpoint || '').trim();
+    if (!endpoint) {
+      this.exporter = null;
+      return;
+    }
+    const timeout = Number(options.timeoutMs);
+    this.exporter = {
+      endpoint,
+      protocol: parseProtocol(options.protocol),
+      headers: options.headers || {},
+      timeoutMs: Number.isFinite(timeout) && timeout > 0 ? timeout : 10000,
+    };
+  }
+
+  // Active when a collector endpoint is configured
+  active(): boolean { return this.exporter !== null; }
+
+  getInfo(): TracingInfo {
+    return {
+      enabled: this.active(),
+      endpoint: this.exporter?.endpoint,
+      protocol: this.exporter?.protocol,
+      service_name: this.serviceName,
+      exported: this.exported,
+      dropped: this.dropped,
+      last_error: this.lastError,
+    };
+  }
+
+  /**
+   * Record a server span for a call that carried a sampled trace context
+   * (`traceparent` or `grpc-trace-bin`); other calls are not traced.
+   */
+  recordServerCall(call: ServerCall) {
+    if (!this.exporter) return;
+    const parent = extractTraceContext(call.metadata);
+    if (!parent || !parent.sampled) return;
+
+    if (this.pending.length >= MAX_QUEUE) {
+      this.dropped++;
+      return;
+    }
+
+    const startNs = BigInt(call.receivedAt.getTime()) * 1_000_000n;
+    const endNs = startNs + BigInt(Math.round(call.latencyMs * 1_000_000));
+    const attributes: OtlpKeyValue[] = [
+      str('rpc.system', call.protocol === 'connect' ? 'connect_rpc' : 'grpc'),
+      str('rpc.service', call.service),
+      str('rpc.method', call.method),
+      int('rpc.grpc.status_code', (grpc.status as any)[call.status] ?? grpc.status.UNKNOWN),
+    ];
+    if (call.protocol) attributes.push(str('wishmock.protocol', call.protocol));
+    if (call.ruleKey) attributes.push(str('wishmock.rule_key', call.ruleKey));
+    if (call.responseIndex !== null) attributes.push(int('wishmock.response_index', call.responseIndex));
+    if (call.proxied) attributes.push({ key: 'wishmock.proxied', value: { boolValue: true } });
+
+    this.pending.push({
+      traceId: parent.traceId,
+      spanId: newSpanId(),
+      parentSpanId: parent.spanId,
+      traceState: parent.traceState,
+      name: `${call.service}/${call.method}`,
+      kind: SPAN_KIND_SERVER,
+      startTimeUnixNano: startNs.toString(),
+      endTimeUnixNano: endNs.toString(),
+      attributes,
+      status: call.status === 'OK' ? { code: 0 } : { code: STATUS_CODE_ERROR, message: call.message },
+    });
+
+    if (this.pending.length >= MAX_BATCH) {
+      void this.flush();
+    } else if (!this.timer) {
+      this.timer = setTimeout(() => { void this.flush(); }, FLUSH_INTERVAL_MS);
+      this.timer.unref?.();
+    }
+  }
+
+  /**
+   * Export pending spans and wait for exports in progress
+   *
+   * Export failures are logged and counted, never thrown: a missing collector
+   * must not affect mocked calls.
+   */
+  async flush(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    if (this.exporter && this.pending.length > 0) {
+      const spans = this.pending.splice(0, this.pending.length);
+      const sent = this.send(spans, this.exporter);
+      this.inFlight.add(sent);
+      void sent.finally(() => this.inFlight.delete(sent));
+    }
+    await Promise.all(this.inFlight);
+  }
+
+  /** Drop pending spans and reset counters (for tests) */
+  reset() {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    this.pending = [];
+    this.exported = 0;
+    this.dropped = 0;
+    this.lastError = undefined;
+    closeOtlpExporters();
+  }
+
+  private async send(spans: OtlpSpan[], exporter: OtlpExporterOptions): Promise<void> {
+    try {
+      await exportTraces({
+        resourceSpans: [{
+          resource: { attributes: [str('service.name', this.serviceName)] },
+          scopeSpans: [{ scope: { name: 'wishmock' }, spans }],
+        }],
+      }, exporter);
+      this.exported += spans.length;
+      this.lastError = undefined;
+    } catch (e: any) {
+      this.dropped += spans.length;
+      this.lastError = e?.message || String(e);
+      logger.error(`[tracing] failed to export ${spans.length} span(s) to ${exporter.endpoint}:`, this.lastError);
+    }
+  }
+}
+
+function parseProtocol(value: string | undefined): OtlpProtocol {
+  const protocol = String(value || '').trim().toLowerCase();
+  if (protocol === 'grpc' || protocol === 'http/json') return protocol;
+  return 'http/protobuf';
+}
+
+// OTEL_EXPORTER_OTLP_HEADERS: comma-separated key=value pairs (values URL-encoded)
+function parseHeaders(value: string | undefined): Record<string, string> {
+  const out: Record<string, string> = {};
+  for (const pair of String(value || '').split(',')) {
+    const i = pair.indexOf('=');
+    if (i <= 0) continue;
+    const key = pair.slice(0, i).trim();
+    const raw = pair.slice(i + 1).trim();
+    try {
+      out[key] = decodeURIComponent(raw);
+    } catch {
+      out[key] = raw;
+    }
+  }
+  return out;
+}
+
+function str(key: string, value: string): OtlpKeyValue {
+  return { key, value: { stringValue: value } };
+}
+
+function int(key: string, value: number): OtlpKeyValue {
+  return { key, value: { intValue: String(value) } };
+}
+
+export const runtime = new TracingRuntime();
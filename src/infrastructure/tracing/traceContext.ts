@@ -0,0 +1,69 @@
+import { randomBytes } from "crypto";
+
+/**
+ * Trace context carried by an incoming call
+ */
+export interface TraceContext {
+  /** 32 lowercase hex characters */
+  traceId: string;
+  /** 16 lowercase hex characters (the caller's span) */
+  spanId: string;
+  /** Whether the caller sampled the trace */
+  sampled: boolean;
+  /** W3C tracestate, passed through unchanged */
+  traceState?: string;
+}
+
+const TRACEPARENT = /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})(?:-.*)?$/;
+const INVALID_TRACE_ID = "0".repeat(32);
+const INVALID_SPAN_ID = "0".repeat(16);
+
+/**
+ * Parse a W3C `traceparent` header (e.g. 00-<trace-id>-<span-id>-01)
+ *
+ * @returns Trace context, or null when the header is missing or malformed
+ */
+export function parseTraceparent(header: string | undefined, traceState?: string): TraceContext | null {
+  const match = TRACEPARENT.exec(String(header || "").trim().toLowerCase());
+  if (!match) return null;
+  const [, version, traceId, spanId, flags] = match;
+  // Version ff is forbidden; version 00 must not carry extra fields
+  if (version === "ff" || (version === "00" && header!.trim().length !== 55)) return null;
+  if (traceId === INVALID_TRACE_ID || spanId === INVALID_SPAN_ID) return null;
+  return { traceId, spanId, sampled: (parseInt(flags, 16) & 1) === 1, traceState: traceState || undefined };
+}
+
+/**
+ * Parse the OpenCensus binary `grpc-trace-bin` header
+ *
+ * Layout: version (0), then field 0 trace id (16 bytes), field 1 span id
+ * (8 bytes) and field 2 trace options (1 byte), each preceded by its field id.
+ *
+ * @param value Header value, base64 encoded (as -bin metadata is carried in requests)
+ * @returns Trace context, or null when the header is missing or malformed
+ */
+export function parseGrpcTraceBin(value: string | undefined): TraceContext | null {
+  if (!value) return null;
+  const buf = Buffer.from(value, "base64");
+  if (buf.length < 29 || buf[0] !== 0 || buf[1] !== 0 || buf[18] !== 1) return null;
+  const traceId = buf.subarray(2, 18).toString("hex");
+  const spanId = buf.subarray(19, 27).toString("hex");
+  if (traceId === INVALID_TRACE_ID || spanId === INVALID_SPAN_ID) return null;
+  const sampled = buf[27] === 2 ? (buf[28] & 1) === 1 : false;
+  return { traceId, spanId, sampled };
+}
+
+/**
+ * Trace context of a call from its metadata (`traceparent` wins over `grpc-trace-bin`)
+ */
+export function extractTraceContext(metadata: Record<string, string>): TraceContext | null {
+  return parseTraceparent(metadata["traceparent"], metadata["tracestate"])
+    ?? parseGrpcTraceBin(metadata["grpc-trace-bin"]);
+}
+
+/** New random span id (16 hex characters) */
+export function newSpanId(): string {
+  let id = randomBytes(8).toString("hex");
+  while (id === INVALID_SPAN_ID) id = randomBytes(8).toString("hex");
+  return id;
+}
@@ -27,7 +27,7 @@ export interface ValidationMetrics {
   byConstraintType: Record<string, { failure: number }>;
 }
 
-class ValidationRuntime {
+export class ValidationRuntime {
   private enabled: boolean = false;
   private source: ValidationSource = 'auto';
   private modeSetting: ValidationMode = 'per_message';
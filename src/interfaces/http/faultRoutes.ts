@@ -0,0 +1,31 @@
+import { validateFaultProfile, type FaultInjector } from '../../domain/faults/faultInjector.js';
+import { sendBadRequest, sendSuccess } from './responseHelper.js';
+
+function createFaultHandlers(injector: FaultInjector) {
+  return {
+    getFaults: (_req: any, res: any) => {
+      sendSuccess(res, { global: injector.getGlobal() });
+    },
+
+    setFaults: (req: any, res: any) => {
+      const profile = req.body;
+      const error = validateFaultProfile(profile);
+      if (error) return sendBadRequest(res, error);
+      injector.setGlobal(profile);
+      sendSuccess(res, { ok: true, global: profile });
+    },
+
+    clearFaults: (_req: any, res: any) => {
+      injector.setGlobal(null);
+      sendSuccess(res, { ok: true, global: null });
+    },
+  };
+}
+
+export function setupFaultRoutes(app: any, injector: FaultInjector) {
+  const handlers = createFaultHandlers(injector);
+
+  app.get("/admin/faults", handlers.getFaults);
+  app.put("/admin/faults", handlers.setFaults);
+  app.delete("/admin/faults", handlers.clearFaults);
+}
@@ -0,0 +1,44 @@
+import { isServingStatus, SERVING_STATUSES, type HealthStore } from '../../domain/health/healthStore.js';
+import { sendBadRequest, sendSuccess } from './responseHelper.js';
+
+function createHealthHandlers(store: HealthStore) {
+  const setStatus = (service: string, req: any, res: any) => {
+    const status = req.body?.status;
+    if (!isServingStatus(status)) {
+      return sendBadRequest(res, `status must be one of ${SERVING_STATUSES.join(", ")}`);
+    }
+    store.set(service, status);
+    sendSuccess(res, { ok: true, service, status });
+  };
+
+  return {
+    getHealth: (_req: any, res: any) => {
+      sendSuccess(res, store.getInfo());
+    },
+
+    // The overall server status (service "")
+    setOverall: (req: any, res: any) => setStatus("", req, res),
+
+    setService: (req: any, res: any) => setStatus(String(req.params.service), req, res),
+
+    clearService: (req: any, res: any) => {
+      store.clear(String(req.params.service));
+      sendSuccess(res, { ok: true });
+    },
+
+    clearAll: (_req: any, res: any) => {
+      store.clear();
+      sendSuccess(res, { ok: true });
+    },
+  };
+}
+
+export function setupHealthRoutes(app: any, store: HealthStore) {
+  const handlers = createHealthHandlers(store);
+
+  app.get("/admin/health", handlers.getHealth);
+  app.put("/admin/health", handlers.setOverall);
+  app.delete("/admin/health", handlers.clearAll);
+  app.put("/admin/health/:service", handlers.setService);
+  app.delete("/admin/health/:service", handlers.clearService);
+}
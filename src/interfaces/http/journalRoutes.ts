@@ -0,0 +1,86 @@
+import type { RequestJournal, JournalQuery } from '../../domain/journal/requestJournal.js';
+import { verifyRequests, validateCountSpec, validateMatchConditions } from '../../domain/usecases/verifyRequests.js';
+import { sendBadRequest, sendSuccess } from './responseHelper.js';
+import { requestSession } from './session.js';
+
+function isPlainObject(x: unknown): x is Record<string, unknown> {
+  return typeof x === "object" && x !== null && !Array.isArray(x);
+}
+
+/**
+ * Build a journal query from query-string or JSON body fields.
+ * `request` and `metadata` may arrive as objects (body) or JSON strings (query).
+ * A session header on the admin request scopes the query to that session.
+ */
+function parseJournalQuery(source: any, session?: string): JournalQuery | string {
+  const query: JournalQuery = {};
+  if (source?.service) query.service = String(source.service);
+  if (source?.method) query.method = String(source.method);
+  if (session ?? source?.session) query.session = String(session ?? source.session);
+  if (source?.limit !== undefined && source.limit !== "") {
+    const limit = Number(source.limit);
+    if (!Number.isInteger(limit) || limit < 0) return "limit must be a non-negative integer";
+    query.limit = limit;
+  }
+  for (const key of ["request", "metadata"] as const) {
+    let value = source?.[key];
+    if (value === undefined || value === "") continue;
+    if (typeof value === "string") {
+      try {
+        value = JSON.parse(value);
+      } catch {
+        return `${key} must be a JSON object`;
+      }
+    }
+    if (!isPlainObject(value)) return `${key} must be a JSON object`;
+    query[key] = value;
+  }
+  return query;
+}
+
+function createJournalHandlers(journal: RequestJournal) {
+  const respond = (res: any, parsed: JournalQuery | string) => {
+    if (typeof parsed === "string") return sendBadRequest(res, parsed);
+    const requests = journal.find(parsed);
+    sendSuccess(res, { count: requests.length, capacity: journal.getCapacity(), requests });
+  };
+
+  return {
+    listRequests: (req: any, res: any) => {
+      respond(res, parseJournalQuery(req.query, requestSession(req)));
+    },
+
+    findRequests: (req: any, res: any) => {
+      respond(res, parseJournalQuery(req.body || {}, requestSession(req)));
+    },
+
+    verify: (req: any, res: any) => {
+      const body = req.body || {};
+      const parsed = parseJournalQuery(body, requestSession(req));
+      if (typeof parsed === "string") return sendBadRequest(res, parsed);
+      const countError = validateCountSpec(body.count);
+      if (countError) return sendBadRequest(res, countError);
+      const conditionError = validateMatchConditions(body);
+      if (conditionError) return sendBadRequest(res, conditionError);
+      if (journal.getCapacity() <= 0) {
+        return sendBadRequest(res, "request journal is disabled (REQUEST_JOURNAL_SIZE=0)");
+      }
+      const { limit: _limit, ...spec } = parsed;
+      sendSuccess(res, verifyRequests(journal, { ...spec, cel: body.cel, any: body.any, all: body.all, count: body.count }));
+    },
+
+    resetRequests: (req: any, res: any) => {
+      journal.clear(requestSession(req));
+      sendSuccess(res, { ok: true });
+    },
+  };
+}
+
+export function setupJournalRoutes(app: any, journal: RequestJournal) {
+  const handlers = createJournalHandlers(journal);
+
+  app.get("/admin/requests", handlers.listRequests);
+  app.post("/admin/requests/find", handlers.findRequests);
+  app.delete("/admin/requests", handlers.resetRequests);
+  app.post("/admin/verify", handlers.verify);
+}
@@ -0,0 +1,40 @@
+import type { LintDiagnostic } from '../../infrastructure/ruleLinter.js';
+import { sendError, sendSuccess } from './responseHelper.js';
+import { validateUploadData } from './validator.js';
+import { HTTP_STATUS } from './constants.js';
+
+/**
+ * Lints the rule directory, or the given unsaved rule file.
+ * Returns null when no protos are loaded.
+ */
+export type RuleLintFn = (source?: { filename: string; content: string }) => LintDiagnostic[] | null;
+
+function createLintHandlers(lint: RuleLintFn) {
+  return {
+    lintRules: (req: any, res: any) => {
+      const { filename, content } = req.body || {};
+      let source: { filename: string; content: string } | undefined;
+      if (filename !== undefined || content !== undefined) {
+        if (!validateUploadData(filename, content, res)) return;
+        source = { filename: String(filename), content: String(content) };
+      }
+
+      try {
+        const diagnostics = lint(source);
+        if (diagnostics === null) {
+          return res.status(HTTP_STATUS.SERVICE_UNAVAILABLE).json({ error: "rule linter unavailable (no protos loaded)" });
+        }
+        const errors = diagnostics.filter((d) => d.severity === "error").length;
+        sendSuccess(res, { ok: errors === 0, errors, warnings: diagnostics.length - errors, diagnostics });
+      } catch (error) {
+        sendError(res, error, "Failed to lint rules");
+      }
+    },
+  };
+}
+
+export function setupLintRoutes(app: any, lint: RuleLintFn) {
+  const handlers = createLintHandlers(lint);
+
+  app.post("/admin/rules/lint", handlers.lintRules);
+}
@@ -0,0 +1,15 @@
+import type { SharedMetricsTracker } from '../../domain/metrics/sharedMetrics.js';
+import {
+  renderMetrics,
+  acceptsOpenMetrics,
+  OPENMETRICS_CONTENT_TYPE,
+  PROMETHEUS_CONTENT_TYPE,
+} from '../../domain/metrics/exposition.js';
+
+export function setupMetricsRoutes(app: any, metrics: SharedMetricsTracker) {
+  app.get("/metrics", (req: any, res: any) => {
+    const openMetrics = acceptsOpenMetrics(req.get("accept"));
+    res.set("Content-Type", openMetrics ? OPENMETRICS_CONTENT_TYPE : PROMETHEUS_CONTENT_TYPE);
+    res.send(renderMetrics(metrics.collect(), openMetrics));
+  });
+}
@@ -0,0 +1,92 @@
+import express from 'express';
+import type { TelemetryStore, TelemetryQuery, TelemetrySignal } from '../../domain/otlp/telemetryStore.js';
+import { decodeExportRequest } from '../../infrastructure/otlp/schema.js';
+import { sendBadRequest, sendNotFound, sendSuccess } from './responseHelper.js';
+
+const PROTOBUF = "application/x-protobuf";
+
+// Admin path segment → signal
+const SIGNALS: Record<string, TelemetrySignal> = { spans: "traces", metrics: "metrics", logs: "logs" };
+
+// Query keys with a meaning of their own; any other key filters on an attribute
+const RESERVED_KEYS = new Set(["name", "trace_id", "severity_text", "limit"]);
+
+/**
+ * Build a telemetry query from the query string (`?service.name=checkout&limit=10`)
+ */
+function parseTelemetryQuery(source: Record<string, unknown>): TelemetryQuery | string {
+  const query: TelemetryQuery = {};
+  const attributes: Record<string, string> = {};
+  for (const [key, raw] of Object.entries(source || {})) {
+    const value = String(Array.isArray(raw) ? raw[0] : raw);
+    if (key === "limit") {
+      const limit = Number(value);
+      if (!Number.isInteger(limit) || limit < 0) return "limit must be a non-negative integer";
+      query.limit = limit;
+    } else if (RESERVED_KEYS.has(key)) {
+      query[key as "name" | "trace_id" | "severity_text"] = value;
+    } else {
+      attributes[key] = value;
+    }
+  }
+  if (Object.keys(attributes).length > 0) query.attributes = attributes;
+  return query;
+}
+
+function createOtlpHandlers(store: TelemetryStore) {
+  const find = (signal: TelemetrySignal, query: TelemetryQuery) => {
+    if (signal === "traces") return store.findSpans(query);
+    if (signal === "metrics") return store.findMetrics(query);
+    return store.findLogs(query);
+  };
+
+  return {
+    // OTLP/HTTP receiver: protobuf or JSON Export request in, Export response out
+    receive: (signal: TelemetrySignal) => (req: any, res: any) => {
+      if (!store.isEnabled()) return sendNotFound(res, "OTLP sink is disabled (set OTLP_SINK_ENABLED=true)");
+      const protobuf = Buffer.isBuffer(req.body);
+      try {
+        store.ingest(signal, protobuf ? decodeExportRequest(signal, req.body) : req.body);
+      } catch (e: any) {
+        return sendBadRequest(res, `invalid OTLP ${signal} export: ${e?.message || e}`);
+      }
+      // An empty Export*ServiceResponse means full success
+      if (protobuf) return res.status(200).type(PROTOBUF).send(Buffer.alloc(0));
+      sendSuccess(res, {});
+    },
+
+    summary: (_req: any, res: any) => {
+      sendSuccess(res, { enabled: store.isEnabled(), capacity: store.getCapacity(), ...store.counts() });
+    },
+
+    list: (req: any, res: any) => {
+      const signal = SIGNALS[String(req.params.signal)];
+      if (!signal) return sendNotFound(res, `unknown signal: ${req.params.signal} (expected spans, metrics or logs)`);
+      const query = parseTelemetryQuery(req.query);
+      if (typeof query === "string") return sendBadRequest(res, query);
+      const records = find(signal, query);
+      sendSuccess(res, { count: records.length, capacity: store.getCapacity(), [req.params.signal]: records });
+    },
+
+    clear: (req: any, res: any) => {
+      const signal = req.params.signal ? SIGNALS[String(req.params.signal)] : undefined;
+      if (req.params.signal && !signal) return sendNotFound(res, `unknown signal: ${req.params.signal} (expected spans, metrics or logs)`);
+      store.clear(signal);
+      sendSuccess(res, { ok: true });
+    },
+  };
+}
+
+export function setupOtlpRoutes(app: any, store: TelemetryStore) {
+  const handlers = createOtlpHandlers(store);
+  const rawProtobuf = express.raw({ type: PROTOBUF, limit: "10mb" });
+
+  app.post("/v1/traces", rawProtobuf, handlers.receive("traces"));
+  app.post("/v1/metrics", rawProtobuf, handlers.receive("metrics"));
+  app.post("/v1/logs", rawProtobuf, handlers.receive("logs"));
+
+  app.get("/admin/otlp", handlers.summary);
+  app.delete("/admin/otlp", handlers.clear);
+  app.get("/admin/otlp/:signal", handlers.list);
+  app.delete("/admin/otlp/:signal", handlers.clear);
+}
@@ -0,0 +1,52 @@
+import type { ScenarioStore } from '../../domain/scenarios/scenarioStore.js';
+import { sendBadRequest, sendSuccess } from './responseHelper.js';
+import { validateFilename } from './validator.js';
+import { requestSession } from './session.js';
+
+function createScenarioHandlers(store: ScenarioStore) {
+  return {
+    listScenarios: (req: any, res: any) => {
+      sendSuccess(res, { scenarios: store.list(requestSession(req)) });
+    },
+
+    getScenario: (req: any, res: any) => {
+      const name = String(req.params.name || "");
+      if (!validateFilename(name, res)) return;
+      sendSuccess(res, { name, state: store.getState(name, requestSession(req)) });
+    },
+
+    setScenarioState: (req: any, res: any) => {
+      const name = String(req.params.name || "");
+      const state = req.body?.state;
+      if (!validateFilename(name, res)) return;
+      if (typeof state !== "string" || !state) {
+        return sendBadRequest(res, "state required");
+      }
+      store.setState(name, state, requestSession(req));
+      sendSuccess(res, { ok: true, name, state });
+    },
+
+    resetScenario: (req: any, res: any) => {
+      const name = String(req.params.name || "");
+      if (!validateFilename(name, res)) return;
+      const session = requestSession(req);
+      store.reset(name, session);
+      sendSuccess(res, { ok: true, name, state: store.getState(name, session) });
+    },
+
+    resetAllScenarios: (req: any, res: any) => {
+      store.reset(undefined, requestSession(req));
+      sendSuccess(res, { ok: true });
+    },
+  };
+}
+
+export function setupScenarioRoutes(app: any, store: ScenarioStore) {
+  const handlers = createScenarioHandlers(store);
+
+  app.get("/admin/scenarios", handlers.listScenarios);
+  app.delete("/admin/scenarios", handlers.resetAllScenarios);
+  app.get("/admin/scenarios/:name", handlers.getScenario);
+  app.put("/admin/scenarios/:name", handlers.setScenarioState);
+  app.delete("/admin/scenarios/:name", handlers.resetScenario);
+}
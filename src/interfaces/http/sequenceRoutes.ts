@@ -0,0 +1,39 @@
+import type { SequenceStore } from '../../domain/sequences/sequenceStore.js';
+import { sendSuccess } from './responseHelper.js';
+import { validateFilename } from './validator.js';
+import { requestSession } from './session.js';
+
+function createSequenceHandlers(store: SequenceStore) {
+  return {
+    listSequences: (req: any, res: any) => {
+      sendSuccess(res, { sequences: store.list(undefined, requestSession(req)) });
+    },
+
+    getSequence: (req: any, res: any) => {
+      const rule = String(req.params.rule || "").toLowerCase();
+      if (!validateFilename(rule, res)) return;
+      sendSuccess(res, { rule, sequences: store.list(rule, requestSession(req)) });
+    },
+
+    resetSequence: (req: any, res: any) => {
+      const rule = String(req.params.rule || "").toLowerCase();
+      if (!validateFilename(rule, res)) return;
+      store.reset(rule, requestSession(req));
+      sendSuccess(res, { ok: true, rule });
+    },
+
+    resetAllSequences: (req: any, res: any) => {
+      store.reset(undefined, requestSession(req));
+      sendSuccess(res, { ok: true });
+    },
+  };
+}
+
+export function setupSequenceRoutes(app: any, store: SequenceStore) {
+  const handlers = createSequenceHandlers(store);
+
+  app.get("/admin/sequences", handlers.listSequences);
+  app.delete("/admin/sequences", handlers.resetAllSequences);
+  app.get("/admin/sequences/:rule", handlers.getSequence);
+  app.delete("/admin/sequences/:rule", handlers.resetSequence);
+}
@@ -0,0 +1,10 @@
+import { SESSION_HEADER } from '../../domain/session.js';
+
+/**
+ * Session an admin request is scoped to: the `x-wishmock-session` header or
+ * the `?session=` query parameter
+ */
+export function requestSession(req: any): string | undefined {
+  const value = req.get?.(SESSION_HEADER) ?? req.query?.session;
+  return typeof value === "string" && value.trim() !== "" ? value.trim() : undefined;
+}
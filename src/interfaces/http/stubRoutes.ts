@@ -0,0 +1,58 @@
+import type { StubStore } from '../../domain/stubs/stubStore.js';
+import { ruleKeyOf, validateRuleDoc } from '../../infrastructure/ruleLoader.js';
+import { sendBadRequest, sendNotFound, sendSuccess } from './responseHelper.js';
+import { requestSession } from './session.js';
+
+function isPlainObject(x: unknown): x is Record<string, unknown> {
+  return typeof x === "object" && x !== null && !Array.isArray(x);
+}
+
+// Shape check for a posted rule document; returns a problem description or null
+function validateStub(doc: unknown): string | null {
+  if (!isPlainObject(doc)) return "stub must be a JSON rule document";
+  if (typeof doc.target !== "string" || doc.target.trim() === "") {
+    return "target is required (e.g. helloworld.Greeter/SayHello)";
+  }
+  if (doc.responses !== undefined && !Array.isArray(doc.responses)) return "responses must be a list";
+  if (Array.isArray(doc.responses) && doc.responses.some((r) => !isPlainObject(r))) return "each response must be an object";
+  if (doc.match !== undefined && !isPlainObject(doc.match)) return "match must be an object";
+  // Faults and cel/any/all conditions get the checks file rules get at load
+  return validateRuleDoc(doc);
+}
+
+function createStubHandlers(store: StubStore) {
+  return {
+    listStubs: (req: any, res: any) => {
+      const stubs = store.list(requestSession(req));
+      sendSuccess(res, { count: stubs.length, stubs });
+    },
+
+    createStub: (req: any, res: any) => {
+      const doc = req.body;
+      const error = validateStub(doc);
+      if (error) return sendBadRequest(res, error);
+      const stub = store.add(ruleKeyOf("", doc.target), doc, requestSession(req));
+      sendSuccess(res, stub);
+    },
+
+    deleteStub: (req: any, res: any) => {
+      const id = String(req.params.id || "");
+      if (!store.remove(id)) return sendNotFound(res, `stub not found: ${id}`);
+      sendSuccess(res, { ok: true, id });
+    },
+
+    resetStubs: (req: any, res: any) => {
+      const removed = store.reset(requestSession(req));
+      sendSuccess(res, { ok: true, removed });
+    },
+  };
+}
+
+export function setupStubRoutes(app: any, store: StubStore) {
+  const handlers = createStubHandlers(store);
+
+  app.get("/admin/stubs", handlers.listStubs);
+  app.post("/admin/stubs", handlers.createStub);
+  app.delete("/admin/stubs", handlers.resetStubs);
+  app.delete("/admin/stubs/:id", handlers.deleteStub);
+}
@@ -2,12 +2,30 @@ import express from "express";
 import fs from "fs";
 import path from "path";
 import { setupFileRoutes } from './http/fileRoutes.js';
+import { setupScenarioRoutes } from './http/scenarioRoutes.js';
+import { setupJournalRoutes } from './http/journalRoutes.js';
+import { setupFaultRoutes } from './http/faultRoutes.js';
+import { setupSequenceRoutes } from './http/sequenceRoutes.js';
+import { setupStubRoutes } from './http/stubRoutes.js';
+import { setupLintRoutes, type RuleLintFn } from './http/lintRoutes.js';
+import { setupMetricsRoutes } from './http/metricsRoutes.js';
+import { setupOtlpRoutes } from './http/otlpRoutes.js';
+import { setupHealthRoutes } from './http/healthRoutes.js';
 import { sendError, sendNotFound, sendSuccess } from './http/responseHelper.js';
 import { validateFilename } from './http/validator.js';
 import { HTTP_STATUS } from './http/constants.js';
 import { StatusResponse, ServicesResponse } from './types.js';
 import { AssetStore } from '../infrastructure/assetStore.js';
 import { createUploadController } from './httpAdmin/uploadController.js';
+import { scenarioStore as defaultScenarioStore, type ScenarioStore } from '../domain/scenarios/scenarioStore.js';
+import { requestJournal as defaultRequestJournal, type RequestJournal } from '../domain/journal/requestJournal.js';
+import { faultInjector as defaultFaultInjector, type FaultInjector } from '../domain/faults/faultInjector.js';
+import { sequenceStore as defaultSequenceStore, type SequenceStore } from '../domain/sequences/sequenceStore.js';
+import { stubStore as defaultStubStore, type StubStore } from '../domain/stubs/stubStore.js';
+import { sharedMetrics as defaultMetrics, type SharedMetricsTracker } from '../domain/metrics/sharedMetrics.js';
+import { runtime as loggingRuntime } from '../infrastructure/logging/runtime.js';
+import { telemetryStore as defaultTelemetryStore, type TelemetryStore } from '../domain/otlp/telemetryStore.js';
+import type { HealthStore } from '../domain/health/healthStore.js';
 
 interface AdminAppParams {
   httpPort: number | string;
@@ -18,8 +36,18 @@ interface AdminAppParams {
   listServices: () => ServicesResponse;
   getSchema: (typeName: string) => unknown | null | undefined;
   onRuleUpdated: () => void;
+  lintRules?: RuleLintFn;
   getReadiness?: () => boolean;
   assetStore?: AssetStore;
+  scenarioStore?: ScenarioStore;
+  requestJournal?: RequestJournal;
+  faultInjector?: FaultInjector;
+  sequenceStore?: SequenceStore;
+  stubStore?: StubStore;
+  metrics?: SharedMetricsTracker;
+  telemetryStore?: TelemetryStore;
+  /** Statuses of the instance's gRPC health service (routes served when given) */
+  healthStore?: HealthStore;
   logger?: (event: string, data: unknown) => void;
 }
 
@@ -93,6 +121,13 @@ function setupHealthChecks(app: any, getReadiness?: () => boolean) {
 
 export function createAdminApp(params: AdminAppParams) {
   const { httpPort, protoDir, ruleDir, onRuleUpdated, getReadiness, uploadsDir, assetStore, logger } = params;
+  const scenarioStore = params.scenarioStore ?? defaultScenarioStore;
+  const requestJournal = params.requestJournal ?? defaultRequestJournal;
+  const faultInjector = params.faultInjector ?? defaultFaultInjector;
+  const sequenceStore = params.sequenceStore ?? defaultSequenceStore;
+  const stubStore = params.stubStore ?? defaultStubStore;
+  const metrics = params.metrics ?? defaultMetrics;
+  const telemetryStore = params.telemetryStore ?? defaultTelemetryStore;
   const app = express();
   
   app.use(express.json({ limit: "10mb" }));
@@ -100,6 +135,15 @@ export function createAdminApp(params: AdminAppParams) {
   setupStaticFiles(app);
   setupFileRoutes(app, protoDir, ruleDir, onRuleUpdated);
   setupServiceRoutes(app, params);
+  setupScenarioRoutes(app, scenarioStore);
+  setupJournalRoutes(app, requestJournal);
+  setupFaultRoutes(app, faultInjector);
+  setupSequenceRoutes(app, sequenceStore);
+  setupStubRoutes(app, stubStore);
+  setupLintRoutes(app, params.lintRules ?? (() => null));
+  setupMetricsRoutes(app, metrics);
+  setupOtlpRoutes(app, telemetryStore);
+  if (params.healthStore) setupHealthRoutes(app, params.healthStore);
   setupHealthChecks(app, getReadiness);
   
   if (assetStore && logger) {
@@ -109,6 +153,9 @@ export function createAdminApp(params: AdminAppParams) {
     app.post('/admin/assets/refresh', uploadController.refreshAssets);
   }
   
-  const server = app.listen(httpPort, '0.0.0.0', () => console.log(`[wishmock] HTTP admin on ${httpPort}`));
+  const server = app.listen(httpPort, '0.0.0.0', () => {
+    const address = server.address();
+    loggingRuntime.info(`HTTP admin on ${typeof address === "object" && address ? address.port : httpPort}`);
+  });
   return server;
 }
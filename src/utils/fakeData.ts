@@ -0,0 +1,20 @@
+// Word lists for generated sample data (auto-mock responses and template helpers)
+
+export const FIRST_NAMES = ["Alice", "Bruno", "Chen", "Dewi", "Emma", "Farid", "Grace", "Hiro", "Ines", "Jonas", "Kemal", "Lena"];
+export const LAST_NAMES = ["Anderson", "Baker", "Castillo", "Dubois", "Evans", "Fischer", "Gunawan", "Hughes", "Ito", "Jansen"];
+export const COMPANIES = ["Acme Corp", "Globex", "Initech", "Umbrella Labs", "Stark Industries", "Wayne Enterprises"];
+export const CITIES = ["Amsterdam", "Bandung", "Chicago", "Dublin", "Lisbon", "Osaka", "Seoul", "Toronto"];
+export const COUNTRIES = ["Canada", "Germany", "Indonesia", "Japan", "Netherlands", "Portugal"];
+export const STREETS = ["Main St", "Oak Ave", "Maple Rd", "Park Lane", "River St"];
+export const SENTENCES = [
+    "Lorem ipsum dolor sit amet.",
+    "The quick brown fox jumps over the lazy dog.",
+    "All systems operational.",
+    "Order received and being processed.",
+    "Sample text generated from the schema.",
+];
+export const LOREM_WORDS = [
+    "lorem", "ipsum", "dolor", "sit", "amet", "consectetur", "adipiscing", "elit", "sed", "do",
+    "eiusmod", "tempor", "incididunt", "ut", "labore", "et", "dolore", "magna", "aliqua", "enim",
+    "minim", "veniam", "quis", "nostrud", "exercitation", "ullamco", "laboris", "nisi", "aliquip", "commodo",
+];
@@ -0,0 +1,60 @@
+/** Random number source returning values in [0, 1), like Math.random */
+export type Random = () => number;
+
+/**
+ * Hash a string to an unsigned 32-bit seed (FNV-1a)
+ */
+export function hashString(input: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < input.length; i++) {
+        hash ^= input.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
+
+/**
+ * Create a seeded random source (mulberry32); equal seeds give equal sequences
+ */
+export function createRandom(seed: number | string): Random {
+    let state = typeof seed === 'string' ? hashString(seed) : seed >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+/**
+ * Pick a random element of a non-empty list
+ */
+export function pickOne<T>(random: Random, list: readonly T[]): T {
+    return list[Math.floor(random() * list.length)];
+}
+
+/**
+ * Random integer between min and max (inclusive)
+ */
+export function randomInt(random: Random, min: number, max: number): number {
+    return min + Math.floor(random() * (max - min + 1));
+}
+
+/**
+ * Random lowercase hex string of the given length
+ */
+export function randomHex(random: Random, length: number): string {
+    let out = '';
+    for (let i = 0; i < length; i++) out += Math.floor(random() * 16).toString(16);
+    return out;
+}
+
+/**
+ * Random version 4 UUID drawn from the given source
+ */
+export function randomUuid(random: Random): string {
+    const h = randomHex(random, 32);
+    const variant = (8 + Math.floor(random() * 4)).toString(16);
+    return `${h.slice(0, 8)}-${h.slice(8, 12)}-4${h.slice(13, 16)}-${variant}${h.slice(17, 20)}-${h.slice(20)}`;
+}
@@ -0,0 +1,895 @@
+/**
+ * Programmatic Wishmock instances
+ *
+ * `createWishmock()` builds a mock server (native gRPC, Connect RPC and the
+ * HTTP admin API) from options instead of environment variables, so test
+ * suites can boot one in `beforeAll` without a child process or container.
+ * Each instance owns its servers, protos, rules, runtime stubs, scenario
+ * state, sequences, request journal, faults, metrics, validation, proxy and
+ * tracing settings; several can run in one process, e.g. on port 0:
+ *
+ * @example
+ * const mock = createWishmock({ protoDirs: ["test/protos"], rules: "test/rules", grpcPort: 0 });
+ * const { grpc } = await mock.start();
+ * mock.addRule({ target: "helloworld.Greeter/SayHello", responses: [{ body: { message: "hi" } }] });
+ * await mock.stop();
+ *
+ * `src/app.ts` is the CLI entry: it maps the environment onto these options.
+ */
+
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { fileURLToPath } from "url";
+import chokidar from "chokidar";
+import * as grpc from "@grpc/grpc-js";
+import protobuf from "protobufjs";
+import type { Server as HttpServer } from "http";
+import { loadProtos, type ProtoFileStatus } from "./infrastructure/protoLoader.js";
+import { loadRules as loadRulesFromDisk, ruleKeyOf, validateRuleDoc } from "./infrastructure/ruleLoader.js";
+import { lintRuleDir, lintRuleSource } from "./infrastructure/ruleLinter.js";
+import { createGrpcServer, type HandlerMeta } from "./infrastructure/grpcServer.js";
+import { createAdminApp } from "./interfaces/httpAdmin.js";
+import type { ProxyOptions } from "./infrastructure/proxy/runtime.js";
+import type { TracingOptions } from "./infrastructure/tracing/runtime.js";
+import { runtime as loggingRuntime } from "./infrastructure/logging/runtime.js";
+import { toLogger, type Logger, type LoggerLike } from "./infrastructure/logging/logger.js";
+import { createConnectServer, type ConnectServer } from "./infrastructure/connectServer.js";
+import { TelemetryStore } from "./domain/otlp/telemetryStore.js";
+import { createHandlerContext } from "./domain/usecases/handlerContext.js";
+import { addOtlpCollectorServices } from "./infrastructure/otlp/collector.js";
+import { HealthStore } from "./domain/health/healthStore.js";
+import { addHealthService } from "./infrastructure/health/healthService.js";
+import type { RuleDoc } from "./domain/types.js";
+import type { StatusResponse, ServicesResponse } from "./interfaces/types.js";
+
+export type { RuleDoc, ResponseOption } from "./domain/types.js";
+export type { Logger, LoggerLike, AccessLogEntry } from "./infrastructure/logging/logger.js";
+export type { HealthStore, HealthInfo, ServingStatus } from "./domain/health/healthStore.js";
+export type { ProxyOptions } from "./infrastructure/proxy/runtime.js";
+export type { TracingOptions } from "./infrastructure/tracing/runtime.js";
+
+/**
+ * TLS for the native gRPC server (served on its own port next to plaintext)
+ */
+export interface WishmockTlsOptions {
+  /** TLS port (default: 0) */
+  port?: number | string;
+  certPath: string;
+  keyPath: string;
+  /** CA bundle for verifying client certificates */
+  caPath?: string;
+  /** Require client certificates (mTLS) */
+  requireClientCert?: boolean;
+}
+
+/**
+ * Connect RPC server settings
+ */
+export interface WishmockConnectOptions {
+  /** Enable CORS for browser clients (default: true) */
+  corsEnabled?: boolean;
+  corsOrigins?: string[];
+  corsMethods?: string[];
+  corsHeaders?: string[];
+  tls?: { certPath: string; keyPath: string; caPath?: string };
+}
+
+export interface WishmockOptions {
+  /** Proto directories; top-level files of each are loaded (default: ["protos"]) */
+  protoDirs?: string[];
+  /**
+   * Rule directory (default: "rules/grpc"), or rule documents with a `target`
+   * served without any rule files (checked like rule files; see addRule)
+   */
+  rules?: string | RuleDoc[];
+  /** Native gRPC port (default: 0, a free port) */
+  grpcPort?: number | string;
+  /** Connect RPC port, or false to disable Connect (default: 0) */
+  connectPort?: number | string | false;
+  /** HTTP admin port, or false to run without the admin API (default: 0) */
+  httpPort?: number | string | false;
+  tls?: WishmockTlsOptions;
+  connect?: WishmockConnectOptions;
+  /** Watch proto/rule directories and reload on change (default: off) */
+  hotReload?: { protos?: boolean; rules?: boolean };
+  /** Regenerate the protoc descriptor set used by reflection before each load (default: false) */
+  regenerateDescriptors?: boolean;
+  /** Directory for versioned asset uploads (default: "uploads") */
+  uploadsDir?: string;
+  /**
+   * Forward calls no rule answers to an upstream (default: off). Recordings
+   * go to the rule directory unless `recordDir` is set, and are served right away.
+   */
+  proxy?: ProxyOptions;
+  /** Calls kept in the request journal; 0 disables it (default: 1000) */
+  journalSize?: number;
+  /** Answer methods without rules with responses generated from their schema (default: false) */
+  autoMock?: boolean;
+  /** Export server spans over OTLP (default: off) */
+  tracing?: TracingOptions;
+  /**
+   * Accept OTLP traces, metrics and logs on the gRPC ports and HTTP
+   * /v1/{traces,metrics,logs}, keeping `size` records per signal (default: off)
+   */
+  otlpSink?: boolean | { size?: number };
+  /** Seed for uuid(), random() and the other generated template values (default: unseeded) */
+  templateSeed?: string | number;
+  /**
+   * Logger for the servers and request handlers (default: the process logger,
+   * configured by the LOG_* variables)
+   */
+  logger?: LoggerLike;
+  /** Info logger; receives debug, info and warn messages (overrides logger) */
+  log?: (...a: any[]) => void;
+  /** Error logger; receives error messages (overrides logger) */
+  errorLog?: (...a: any[]) => void;
+}
+
+/**
+ * Ports an instance listens on (known once started)
+ */
+export interface WishmockPorts {
+  grpc: number;
+  grpcTls?: number;
+  connect?: number;
+  http?: number;
+}
+
+/**
+ * A Wishmock instance
+ */
+export interface Wishmock {
+  /** Load protos and rules, then start every server; resolves with the bound ports */
+  start(): Promise<WishmockPorts>;
+  /** Stop every server and watcher */
+  stop(): Promise<void>;
+  /** Reload protos and rules from disk and restart the servers on the same ports */
+  reload(): Promise<void>;
+  /** Reload rules only (servers keep running) */
+  reloadRules(): void;
+  /**
+   * Serve a rule document for its `target` method, in place of any rule file
+   * for that method; kept across reloads. Throws on what rule files are
+   * rejected for at load (invalid faults, malformed cel/any/all conditions).
+   */
+  addRule(doc: RuleDoc & { target: string }): void;
+  /** Ports bound by start() */
+  readonly ports: WishmockPorts;
+  /** Snapshot served by /admin/status */
+  status(): StatusResponse;
+  /** False while a reload is in progress */
+  isReady(): boolean;
+  /** Statuses served by grpc.health.v1.Health; set one to test client failover */
+  readonly health: HealthStore;
+}
+
+/**
+ * Create a Wishmock instance (not started)
+ */
+export function createWishmock(options: WishmockOptions = {}): Wishmock {
+  const protoDirs = (options.protoDirs?.length ? options.protoDirs : ["protos"]).map((d) => path.resolve(d));
+  const PROTO_DIR = protoDirs[0];
+  const uploadsDir = path.resolve(options.uploadsDir || "uploads");
+  const tls = options.tls;
+  const connectOpts = options.connect || {};
+  const CONNECT_ENABLED = options.connectPort !== false;
+  const CONNECT_CORS_ENABLED = connectOpts.corsEnabled ?? true;
+  const CONNECT_CORS_ORIGINS = connectOpts.corsOrigins || ["*"];
+  const CONNECT_CORS_METHODS = connectOpts.corsMethods || ["GET", "POST", "OPTIONS"];
+  const CONNECT_CORS_HEADERS = connectOpts.corsHeaders || ["*"];
+  const base = options.logger ? toLogger(options.logger) : loggingRuntime;
+  const logger: Logger = options.log || options.errorLog
+    ? toLogger(options.log || ((...a: any[]) => base.info(...a)), options.errorLog || ((...a: any[]) => base.error(...a)))
+    : base;
+  const log = (...a: any[]) => logger.info(...a);
+  const err = (...a: any[]) => logger.error(...a);
+
+  // Stores and runtimes the handlers of this instance work against
+  const context = createHandlerContext();
+  if (options.journalSize !== undefined) context.journal.setCapacity(options.journalSize);
+  context.autoMock.setEnabled(!!options.autoMock);
+  if (options.tracing) context.tracing.configure(options.tracing);
+  if (options.templateSeed !== undefined && options.templateSeed !== "") context.templateSeed = String(options.templateSeed);
+  const telemetry = new TelemetryStore();
+  telemetry.setEnabled(!!options.otlpSink);
+  if (typeof options.otlpSink === "object" && options.otlpSink.size) telemetry.setCapacity(options.otlpSink.size);
+
+  // Ports start as configured (0 = pick a free one) and keep the bound value,
+  // so reloads restart the servers where clients already point
+  const toPort = (p: number | string | undefined) => Number(p ?? 0);
+  let grpcPort = toPort(options.grpcPort);
+  let grpcTlsPort = toPort(tls?.port);
+  let connectPort = options.connectPort === false ? 0 : toPort(options.connectPort);
+  let httpPort = options.httpPort === false ? 0 : toPort(options.httpPort);
+
+  // Rules given as documents live in memory; a private directory backs the
+  // admin rule-file endpoints
+  const inlineRules = Array.isArray(options.rules) ? options.rules : null;
+  let ruleDir = inlineRules ? "" : path.resolve(typeof options.rules === "string" ? options.rules : "rules/grpc");
+  const addedRules = new Map<string, RuleDoc>();
+
+  // ----- state -----
+  let serverPlain: grpc.Server | null = null;
+  let serverTls: grpc.Server | null = null;
+  let tlsEnabled: boolean = false;
+  let tlsMtls: boolean = false;
+  let tlsError: string | null = null;
+  let servicesKeys: string[] = [];
+  let servicesMeta: Map<string, HandlerMeta> = new Map();
+  let currentRoot: protobuf.Root | null = null;
+  let protoReport: ProtoFileStatus[] = [];
+  const rulesIndex = new Map<string, any>();
+  let rebuildInProgress = false;
+  let lastReloadTimestamp: Date | null = null;
+  let lastReloadMode: 'cluster' | 'bun-watch' | 'initial' = 'initial';
+  let reloadDowntimeDetected = false;
+  let watchers: { close(): Promise<void> }[] = [];
+  let adminServer: HttpServer | null = null;
+  let started = false;
+  const health = new HealthStore();
+
+  // Connect RPC state
+  let connectServer: ConnectServer | null = null;
+  let connectEnabled: boolean = false;
+  let connectError: string | null = null;
+
+  function addRule(doc: RuleDoc & { target: string }) {
+    if (typeof doc?.target !== "string" || doc.target.trim() === "") {
+      throw new Error("addRule: target is required (e.g. helloworld.Greeter/SayHello)");
+    }
+    const error = validateRuleDoc(doc);
+    if (error) throw new Error(`addRule: ${doc.target}: ${error}`);
+    const key = ruleKeyOf("", doc.target);
+    addedRules.set(key, doc);
+    rulesIndex.set(key, doc);
+  }
+  for (const doc of inlineRules || []) addRule(doc as RuleDoc & { target: string });
+
+  // File rules, with rules added in code layered over them
+  function loadRuleIndex() {
+    const fresh = ruleDir ? loadRulesFromDisk(ruleDir) : new Map<string, RuleDoc>();
+    rulesIndex.clear();
+    for (const [k, v] of fresh.entries()) rulesIndex.set(k, v);
+    for (const [k, v] of addedRules.entries()) rulesIndex.set(k, v);
+  }
+
+  // Top-level proto files that loaded, as absolute paths (entry files for proto-loader)
+  function entryFiles(): string[] {
+    const loaded = new Set(protoReport.filter(r => r.status === "loaded").map(r => r.file));
+    return protoDirs
+      .flatMap(dir => fs.readdirSync(dir).filter(f => loaded.has(f)).map(f => path.join(dir, f)))
+      // Exclude validation_examples.proto from proto-loader due to map field limitations.
+      // It's still loaded via protobufjs, so validation rules work; reflection uses protoc descriptors.
+      .filter(f => !f.endsWith(path.sep + 'validation_examples.proto'));
+  }
+
+  // --- util: descriptor generation ---
+  async function regenerateDescriptors() {
+    try {
+      if (!options.regenerateDescriptors) {
+        log("Reflection descriptor regeneration disabled");
+        return;
+      }
+      // Locate the descriptor generation script
+      const localScriptPath = path.resolve("scripts/generate-descriptors.mjs");
+      const moduleDir = path.dirname(fileURLToPath(import.meta.url));
+      const packageScriptPath = path.resolve(moduleDir, "../scripts/generate-descriptors.mjs");
+      const scriptPath = fs.existsSync(localScriptPath)
+        ? localScriptPath
+        : (fs.existsSync(packageScriptPath) ? packageScriptPath : "");
+      if (!scriptPath) throw new Error("Descriptor generation script not found");
+
+      const descriptorPath = path.resolve('bin/.descriptors.bin');
+
+      // Skip if descriptor exists and is up-to-date (optimization for Docker pre-baked descriptors)
+      // Only regenerate if proto files are newer than descriptor
+      if (fs.existsSync(descriptorPath)) {
+        const descriptorTime = fs.statSync(descriptorPath).mtimeMs;
+        // Simple recursive find for proto files
+        const findProtos = (dir: string): string[] => {
+          let results: string[] = [];
+          if (!fs.existsSync(dir)) return results;
+          const list = fs.readdirSync(dir);
+          for (const file of list) {
+            const filePath = path.join(dir, file);
+            const stat = fs.statSync(filePath);
+            if (stat && stat.isDirectory()) results = results.concat(findProtos(filePath));
+            else if (file.endsWith('.proto')) results.push(filePath);
+          }
+          return results;
+        }
+        const protoFiles = protoDirs.flatMap(findProtos);
+
+        const hasNewerProto = protoFiles.some(f => {
+          try {
+            return fs.statSync(f).mtimeMs > descriptorTime;
+          } catch {
+            return false; // Skip files that can't be stat'd
+          }
+        });
+
+        if (!hasNewerProto) {
+          log("✓ Reflection descriptor up-to-date");
+          return; // Skip regeneration
+        }
+      }
+
+      log("Regenerating reflection descriptors...");
+      // Use node to execute the mjs script
+      const { execFileSync } = await import("child_process");
+      execFileSync(process.execPath, [scriptPath], { stdio: 'pipe' });
+      log("✓ Reflection descriptors regenerated");
+    } catch (e: any) {
+      err("Failed to regenerate descriptors:", e?.message || e);
+      throw e;
+    }
+  }
+
+  async function bindGrpc(server: grpc.Server, port: number, creds: grpc.ServerCredentials): Promise<number> {
+    return new Promise<number>((resolve, reject) => {
+      server.bindAsync(`0.0.0.0:${port}`, creds, (e: Error | null, bound: number) => {
+        if (e) return reject(e);
+        resolve(bound);
+      });
+    });
+  }
+
+  /**
+   * Reload servers with coordinated shutdown and restart
+   *
+   * This function implements atomic reload to ensure both servers are always in sync.
+   * The reload process is coordinated to prevent state divergence between gRPC and
+   * Connect RPC servers.
+   *
+   * Reload process:
+   * 1. Stop both gRPC and Connect servers gracefully (coordinated shutdown)
+   * 2. Reload protos and rules from disk (creates new shared state)
+   * 3. Restart both servers with the new shared state (coordinated startup)
+   *
+   * Both servers use the SAME instances of:
+   * - protoRoot: Protobuf definitions loaded from .proto files
+   * - rulesIndex: Mock rules loaded from YAML/JSON files
+   * - context: Stores and runtimes of the instance (validation, proxy, journal, ...)
+   *
+   * During reload, the readiness endpoint returns false to signal that the server
+   * is temporarily unavailable. This allows load balancers to route traffic away
+   * during the reload window.
+   *
+   * If the Connect server fails to start, the instance continues with gRPC only.
+   *
+   * Reload can be triggered by:
+   * - Boot (start())
+   * - File system changes (proto or rule files modified)
+   * - reload() / a cluster master signaling a reload
+   *
+   * @param reason - Description of why the reload was triggered (for logging)
+   */
+  async function reloadServers(reason: string) {
+    // Set rebuild flag to make readiness endpoint return false
+    rebuildInProgress = true;
+    const start = Date.now();
+    log(`[reload] ⏳ Coordinated reload start (reason: ${reason}) — readiness=not_ready`);
+
+    lastReloadTimestamp = new Date();
+    if (reason.includes('cluster') || process.env.START_CLUSTER) {
+      lastReloadMode = 'cluster';
+    } else if (reason.includes('watch')) {
+      lastReloadMode = 'bun-watch';
+    }
+
+    try {
+      // Step 1: Stop both servers gracefully using coordinated shutdown
+      await shutdownServers();
+
+      // Step 2: Reload protos and rules
+      log(`[reload] Reloading protos and rules...`);
+
+      // Regenerate descriptor set for reflection hot reload
+      await regenerateDescriptors();
+
+      // Load protos (creates new shared protoRoot)
+      const { root, report } = await loadProtos(protoDirs);
+      protoReport = report;
+      currentRoot = root;
+
+      const loaded = report.filter(r => r.status === "loaded").map(r => r.file);
+      const skipped = report.filter(r => r.status === "skipped");
+      if (loaded.length) log(`[reload] Loaded protos: ${loaded.join(", ")}`);
+      if (skipped.length) {
+        for (const s of skipped) err(`[reload] Skipped proto: ${s.file} (${s.error || "unknown error"})`);
+      }
+
+      // Load rules (updates shared rulesIndex)
+      loadRuleIndex();
+      log(`[reload] Loaded ${rulesIndex.size} rules`);
+
+      // Initialize validation runtime with new protoRoot
+      try {
+        context.validation.loadFromRoot(root);
+        log(`[reload] Validation runtime reinitialized`);
+      } catch (e) {
+        err('[reload] Validation runtime load failed', e);
+      }
+
+      // Step 3: Restart both servers with new shared state
+      log(`[reload] Restarting servers with new state...`);
+
+      // Start native gRPC server (plaintext)
+      const files = entryFiles();
+      const { server: s1, servicesMap } = await createGrpcServer(root, rulesIndex, logger, { protoDir: protoDirs, entryFiles: files, context });
+      servicesMeta = servicesMap;
+      servicesKeys = [...servicesMap.keys()];
+      const loadedServiceNames = new Set([...servicesMap.values()].map((m) => (m.pkg ? `${m.pkg}.${m.serviceName}` : m.serviceName)));
+      if (telemetry.isEnabled()) addOtlpCollectorServices(s1, telemetry, loadedServiceNames, logger);
+      addHealthService(s1, health, loadedServiceNames, logger);
+      health.setServices(loadedServiceNames);
+
+      grpcPort = await bindGrpc(s1, grpcPort, grpc.ServerCredentials.createInsecure());
+      log(`[reload] gRPC (plaintext) listening on ${grpcPort}`);
+      serverPlain = s1;
+
+      // Start native gRPC server (TLS if configured)
+      tlsEnabled = false;
+      tlsMtls = false;
+      tlsError = null;
+      if (tls) {
+        try {
+          const key = fs.readFileSync(tls.keyPath);
+          const cert = fs.readFileSync(tls.certPath);
+          const rootCerts = tls.caPath ? fs.readFileSync(tls.caPath) : null;
+          // Default is NO client certs required
+          const requireClientCert = !!tls.requireClientCert;
+          const creds = grpc.ServerCredentials.createSsl(rootCerts, [{ private_key: key, cert_chain: cert }], requireClientCert);
+          // Build separate secure server with the same handlers
+          const { server: s2 } = await createGrpcServer(root, rulesIndex, logger, { protoDir: protoDirs, entryFiles: files, context });
+          if (telemetry.isEnabled()) addOtlpCollectorServices(s2, telemetry, loadedServiceNames, logger);
+          addHealthService(s2, health, loadedServiceNames, logger);
+          grpcTlsPort = await bindGrpc(s2, grpcTlsPort, creds);
+          log(`[reload] gRPC (TLS${requireClientCert ? ", mTLS" : ""}) listening on ${grpcTlsPort}`);
+          serverTls = s2;
+          tlsEnabled = true;
+          tlsMtls = requireClientCert;
+        } catch (e: any) {
+          tlsError = e?.message || String(e);
+          err("[reload] TLS server failed to start; continuing with plaintext only:", tlsError);
+        }
+      }
+
+      // Start Connect RPC server (if enabled)
+      connectEnabled = false;
+      connectError = null;
+      if (CONNECT_ENABLED) {
+        try {
+          log("[reload] Starting Connect RPC server...");
+
+          const tlsConfig = connectOpts.tls
+            ? {
+              enabled: true,
+              keyPath: connectOpts.tls.keyPath,
+              certPath: connectOpts.tls.certPath,
+              caPath: connectOpts.tls.caPath || undefined,
+            }
+            : undefined;
+
+          // Create Connect server with shared protoRoot and rulesIndex
+          connectServer = await createConnectServer({
+            port: connectPort,
+            corsEnabled: CONNECT_CORS_ENABLED,
+            corsOrigins: CONNECT_CORS_ORIGINS,
+            corsMethods: CONNECT_CORS_METHODS,
+            corsHeaders: CONNECT_CORS_HEADERS,
+            protoRoot: root,
+            rulesIndex,
+            logger,
+            tls: tlsConfig,
+            health,
+            context,
+          });
+
+          await connectServer.start();
+          const address = connectServer.server.address();
+          if (typeof address === "object" && address) connectPort = address.port;
+
+          connectEnabled = true;
+          const serviceCount = connectServer.getServices().size;
+          log(`[reload] Connect RPC server started successfully with ${serviceCount} services`);
+        } catch (e: any) {
+          connectError = e?.message || String(e);
+          err("[reload] Connect RPC server failed to start:", connectError);
+          err("[reload] Continuing with native gRPC only");
+        }
+      } else {
+        log("[reload] Connect RPC server disabled");
+      }
+
+      health.setReady(true);
+      const dur = Date.now() - start;
+      log(`[reload] ✅ Coordinated reload complete in ${dur}ms (reason: ${reason}) — readiness=ready`);
+
+      reloadDowntimeDetected = dur > 1000;
+      if (reason !== "boot") context.metrics.recordReload("full", true);
+    } catch (e: any) {
+      const dur = Date.now() - start;
+      err(`[reload] ❌ Coordinated reload failed after ${dur}ms (reason: ${reason})`, e?.message || e);
+      reloadDowntimeDetected = true;
+      if (reason !== "boot") context.metrics.recordReload("full", false);
+      throw e;
+    } finally {
+      rebuildInProgress = false;
+    }
+  }
+
+  /**
+   * Shutdown all servers gracefully
+   *
+   * This function implements coordinated shutdown to ensure both gRPC and Connect
+   * servers are stopped cleanly without leaving resources hanging.
+   *
+   * Shutdown process:
+   * 1. Stop both gRPC servers (plaintext and TLS) gracefully using tryShutdown
+   * 2. Stop Connect RPC server gracefully using its stop() method
+   * 3. Handle errors during shutdown without throwing (best-effort cleanup)
+   * 4. Log clear status messages for each step for observability
+   * 5. Clear state variables to prevent stale references
+   *
+   * The function uses tryShutdown for gRPC servers, which:
+   * - Stops accepting new connections
+   * - Waits for in-flight requests to complete
+   * - Closes the server gracefully
+   *
+   * This function is idempotent and safe to call multiple times. It handles cases
+   * where servers may already be stopped or null without throwing errors.
+   */
+  async function shutdownServers(): Promise<void> {
+    log('[shutdown] Starting coordinated shutdown...');
+
+    // Report NOT_SERVING to health watchers, then end their streams so the
+    // servers do not wait on them
+    health.setReady(false);
+    health.endWatches();
+
+    // Track errors but don't throw - we want to attempt shutdown of all servers
+    // even if some fail
+    const errors: string[] = [];
+
+    // Helper to shutdown a gRPC server gracefully
+    const shutdownGrpcServer = async (
+      server: grpc.Server | null,
+      name: string
+    ): Promise<void> => {
+      if (!server) {
+        log(`[shutdown] ${name} already stopped`);
+        return;
+      }
+
+      try {
+        log(`[shutdown] Stopping ${name}...`);
+        await new Promise<void>((resolve, reject) => {
+          server.tryShutdown((error?: Error) => {
+            if (error) {
+              reject(error);
+            } else {
+              resolve();
+            }
+          });
+        });
+        log(`[shutdown] ✓ ${name} stopped successfully`);
+      } catch (e: any) {
+        const errorMsg = `Failed to stop ${name}: ${e?.message || e}`;
+        err(`[shutdown] ${errorMsg}`);
+        errors.push(errorMsg);
+      }
+    };
+
+    // Shutdown plaintext gRPC server
+    await shutdownGrpcServer(serverPlain, 'gRPC server (plaintext)');
+    serverPlain = null;
+
+    // Shutdown TLS gRPC server
+    await shutdownGrpcServer(serverTls, 'gRPC server (TLS)');
+    serverTls = null;
+
+    // Shutdown Connect RPC server
+    if (connectServer) {
+      try {
+        log('[shutdown] Stopping Connect RPC server...');
+        await connectServer.stop();
+        log('[shutdown] ✓ Connect RPC server stopped successfully');
+      } catch (e: any) {
+        const errorMsg = `Failed to stop Connect RPC server: ${e?.message || e}`;
+        err(`[shutdown] ${errorMsg}`);
+        errors.push(errorMsg);
+      }
+      connectServer = null;
+    } else {
+      log('[shutdown] Connect RPC server already stopped');
+    }
+
+    // Clear state
+    connectEnabled = false;
+    tlsEnabled = false;
+
+    // Report final status
+    if (errors.length > 0) {
+      err(`[shutdown] ⚠ Shutdown completed with ${errors.length} error(s):`);
+      errors.forEach(error => err(`[shutdown]   - ${error}`));
+    } else {
+      log('[shutdown] ✅ All servers stopped successfully');
+    }
+  }
+
+  function reloadRules() {
+    const start = Date.now();
+    log(`[rules] ⏳ Reload start`);
+    try {
+      loadRuleIndex();
+      const dur = Date.now() - start;
+      log(`[rules] ✅ Reload complete in ${dur}ms — total=${rulesIndex.size}`);
+      context.metrics.recordReload("rules", true);
+    } catch (e) {
+      const dur = Date.now() - start;
+      err(`[rules] ❌ Reload failed after ${dur}ms`, e);
+      context.metrics.recordReload("rules", false);
+    }
+  }
+
+  // Proxy mode: recordings land in the rule directory (the private one for
+  // inline rules) and are reloaded right away, so the next identical call is
+  // served from the recording
+  function startProxy() {
+    if (!options.proxy) return;
+    context.proxy.configure({ ...options.proxy, recordDir: options.proxy.recordDir || ruleDir });
+    context.proxy.onRecorded(() => reloadRules());
+  }
+
+  function logSettings() {
+    if (context.autoMock.isEnabled()) log('[auto-mock] methods without rules answer with schema-generated responses');
+    if (context.templateSeed !== undefined) log(`[templates] generated values seeded with ${context.templateSeed}`);
+    if (context.proxy.active()) {
+      const info = context.proxy.getInfo();
+      log(`[proxy] forwarding unmatched calls to ${info.target} (${info.protocol})${info.record ? ` — recording into ${info.record_dir}` : ''}`);
+    }
+    if (context.tracing.active()) {
+      const info = context.tracing.getInfo();
+      log(`[tracing] exporting spans to ${info.endpoint} (${info.protocol}) as service ${info.service_name}`);
+    }
+    if (telemetry.isEnabled()) log(`[otlp] sink enabled on gRPC and HTTP /v1/{traces,metrics,logs} (keeping ${telemetry.getCapacity()} records per signal)`);
+  }
+
+  // watchers (hot-reload)
+  function startWatchers() {
+    const isBun = typeof (globalThis as any).Bun !== "undefined";
+    const watchOpts: any = { ignoreInitial: true, ...(isBun ? { usePolling: true, interval: 500, binaryInterval: 500 } : {}) };
+
+    if (options.hotReload?.protos) {
+      try {
+        const protoWatcher = chokidar.watch(protoDirs, watchOpts);
+        protoWatcher.on("all", async () => { await reloadServers(".proto changed").catch(() => {}); });
+        protoWatcher.on("error", (e: unknown) => err("Watcher error (protos)", e));
+        watchers.push(protoWatcher);
+        log(`[watch] protos hot-reload: enabled`);
+      } catch (e) {
+        err("Failed to start proto watcher; continuing without hot reload", e);
+      }
+    } else {
+      log(`[watch] protos hot-reload: disabled`);
+    }
+
+    if (options.hotReload?.rules) {
+      try {
+        const ruleWatcher = chokidar.watch(ruleDir, watchOpts);
+        ruleWatcher.on("all", async () => { reloadRules(); });
+        ruleWatcher.on("error", (e: unknown) => err("Watcher error (rules)", e));
+        watchers.push(ruleWatcher);
+        log(`[watch] rules hot-reload: enabled`);
+      } catch (e) {
+        err("Failed to start rule watcher; continuing without hot reload", e);
+      }
+    } else {
+      log(`[watch] rules hot-reload: disabled`);
+    }
+  }
+
+  function status() {
+    return {
+      // Back-compat key; show plaintext port
+      grpc_port: grpcPort,
+      grpc_ports: {
+        plaintext: grpcPort,
+        tls: tlsEnabled ? grpcTlsPort : undefined,
+        tls_enabled: tlsEnabled,
+        mtls: tlsMtls || undefined,
+        tls_error: tlsError,
+      },
+      connect_rpc: {
+        enabled: connectEnabled,
+        port: connectEnabled ? connectPort : undefined,
+        cors_enabled: CONNECT_CORS_ENABLED,
+        cors_origins: CONNECT_CORS_ENABLED ? CONNECT_CORS_ORIGINS : undefined,
+        tls_enabled: !!connectOpts.tls,
+        error: connectError,
+        services: connectServer ? Array.from(connectServer.getServices().keys()) : [],
+        reflection_enabled: connectServer ? connectServer.hasReflection() : false,
+        metrics: connectServer ? connectServer.getMetrics() : undefined,
+      },
+      loaded_services: servicesKeys,
+      rules: [...rulesIndex.keys()],
+      protos: {
+        loaded: protoReport.filter(r => r.status === "loaded").map(r => r.file),
+        skipped: protoReport.filter(r => r.status === "skipped")
+      },
+      validation: context.validation.getCoverageInfo(),
+      proxy: context.proxy.getInfo(),
+      tracing: context.tracing.getInfo(),
+      logging: loggingRuntime.getInfo(),
+      otlp_sink: { enabled: telemetry.isEnabled(), capacity: telemetry.getCapacity(), ...telemetry.counts() },
+      reload: {
+        last_triggered: lastReloadTimestamp?.toISOString(),
+        mode: lastReloadMode,
+        downtime_detected: reloadDowntimeDetected
+      },
+      shared_metrics: context.metrics.getMetrics(),
+    };
+  }
+
+  function listServices(): ServicesResponse {
+    // Group HandlerMeta by service
+    const byService = new Map<string, { pkg: string; service: string; methods: any[] }>();
+    for (const [fqmn, meta] of servicesMeta.entries()) {
+      const fullServiceName = meta.pkg ? `${meta.pkg}.${meta.serviceName}` : meta.serviceName;
+      if (!byService.has(fullServiceName)) byService.set(fullServiceName, { pkg: meta.pkg, service: meta.serviceName, methods: [] });
+      byService.get(fullServiceName)!.methods.push({
+        name: meta.methodName,
+        full_method: fqmn,
+        rule_key: meta.ruleKey,
+        request_type: meta.reqType.fullName?.replace(/^\./, "") || meta.reqType.name,
+        response_type: meta.resType.fullName?.replace(/^\./, "") || meta.resType.name,
+        request_stream: meta.requestStream,
+        response_stream: meta.responseStream,
+      });
+    }
+    return { services: [...byService.entries()].map(([name, v]) => ({ name, package: v.pkg, service: v.service, methods: v.methods })) };
+  }
+
+  function getSchema(typeName: string) {
+    const root = currentRoot;
+    if (!root) return null;
+    const norm = typeName?.startsWith(".") ? typeName : `.${typeName}`;
+    const found = root.lookup(norm);
+    if (!found) return undefined;
+    // Message type
+    if ((found as any).fields) {
+      const t = found as unknown as protobuf.Type;
+      const fields = t.fieldsArray.map((f) => {
+        const keyType = (f as any).keyType as string | undefined;
+        const isMap = typeof keyType === "string" && keyType.length > 0;
+        return {
+          name: f.name,
+          id: f.id,
+          type: f.type,
+          repeated: !!f.repeated,
+          optional: !!(f.options && (f.options as any).proto3_optional),
+          map: isMap,
+          keyType: isMap ? keyType : undefined,
+        };
+      });
+      const oneofs = t.oneofs ? Object.fromEntries(Object.entries(t.oneofs).map(([k, v]) => [k, (v as any).oneof])) : undefined;
+      return {
+        kind: "message",
+        name: t.fullName?.replace(/^\./, "") || t.name,
+        fields,
+        oneofs,
+      };
+    }
+    // Enum type
+    if ((found as any).values) {
+      const e = found as unknown as protobuf.Enum;
+      return {
+        kind: "enum",
+        name: e.fullName?.replace(/^\./, "") || e.name,
+        values: e.values,
+      };
+    }
+    return { kind: "unknown", name: (found as any).fullName?.replace(/^\./, "") || (found as any).name };
+  }
+
+  // HTTP admin (upload proto/rules)
+  async function startAdmin() {
+    const server = createAdminApp({
+      httpPort,
+      protoDir: PROTO_DIR,
+      ruleDir,
+      uploadsDir,
+      getStatus: status,
+      getReadiness: () => !rebuildInProgress,
+      healthStore: health,
+      stubStore: context.stubs,
+      scenarioStore: context.scenarios,
+      sequenceStore: context.sequences,
+      requestJournal: context.journal,
+      faultInjector: context.faults,
+      metrics: context.metrics,
+      telemetryStore: telemetry,
+      listServices,
+      getSchema,
+      lintRules: (source) => {
+        if (!currentRoot) return null;
+        const methods = servicesMeta.values();
+        return source ? lintRuleSource(source.filename, source.content, methods) : lintRuleDir(ruleDir, methods);
+      },
+      onRuleUpdated: () => reloadRules()
+    });
+    await new Promise<void>((resolve, reject) => {
+      server.once("listening", resolve);
+      server.once("error", reject);
+    });
+    const address = server.address();
+    if (typeof address === "object" && address) httpPort = address.port;
+    adminServer = server;
+  }
+
+  function ports(): WishmockPorts {
+    return {
+      grpc: grpcPort,
+      grpcTls: tlsEnabled ? grpcTlsPort : undefined,
+      connect: connectEnabled ? connectPort : undefined,
+      http: adminServer ? httpPort : undefined,
+    };
+  }
+
+  async function start(): Promise<WishmockPorts> {
+    if (started) throw new Error("wishmock instance already started");
+    started = true;
+    try {
+      for (const dir of protoDirs) {
+        if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
+      }
+      if (inlineRules) ruleDir = fs.mkdtempSync(path.join(os.tmpdir(), "wishmock-rules-"));
+      startProxy();
+      logSettings();
+
+      await reloadServers("boot");
+      startWatchers();
+      if (options.httpPort !== false) await startAdmin();
+    } catch (e) {
+      await stop();
+      throw e;
+    }
+    return ports();
+  }
+
+  async function stop(): Promise<void> {
+    if (!started) return;
+    await Promise.all(watchers.map((w) => w.close()));
+    watchers = [];
+    if (adminServer) {
+      const server = adminServer;
+      adminServer = null;
+      await new Promise<void>((resolve) => {
+        server.close(() => resolve());
+        (server as any).closeAllConnections?.();
+      });
+    }
+    await shutdownServers();
+    // Send the spans of the last calls before the process goes away
+    await context.tracing.flush();
+    if (inlineRules && ruleDir) {
+      fs.rmSync(ruleDir, { recursive: true, force: true });
+      ruleDir = "";
+    }
+    started = false;
+  }
+
+  return {
+    start,
+    stop,
+    reload: () => reloadServers("reload"),
+    reloadRules,
+    addRule,
+    get ports() { return ports(); },
+    status,
+    isReady: () => started && !rebuildInProgress,
+    health,
+  };
+}
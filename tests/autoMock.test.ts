@@ -0,0 +1,99 @@
+import { describe, it, expect, beforeAll, afterAll } from "bun:test";
+import protobuf from "protobufjs";
+import { generateMockMessage, autoMock } from "../src/domain/mocks/autoMock.js";
+import { handleUnaryRequest, handleServerStreamingRequest } from "../src/domain/usecases/handleRequest.js";
+import { runtime as validationRuntime } from "../src/infrastructure/validation/runtime.js";
+import type { NormalizedRequest, NormalizedResponse, NormalizedError } from "../src/domain/types/normalized.js";
+
+const root = new protobuf.Root();
+root.addJSON(protobuf.common.get("google/protobuf/timestamp.proto")!.nested!);
+protobuf.parse(`
+  syntax = "proto3";
+  package shop;
+  import "google/protobuf/timestamp.proto";
+  enum Status { STATUS_UNSPECIFIED = 0; PAID = 1; SHIPPED = 2; }
+  message Item { string sku_id = 1; int32 quantity = 2; double price = 3; }
+  message Order {
+    string order_id = 1;
+    string customer_email = 2;
+    string receipt_url = 3;
+    Status status = 4;
+    repeated Item items = 5;
+    map<string, string> labels = 6;
+    google.protobuf.Timestamp created_at = 7;
+    oneof payment { string card_token = 8; string voucher_code = 9; }
+    Order parent = 10;
+  }
+  message GetOrderRequest { string order_id = 1; }
+`, root, { keepCase: true });
+root.resolveAll();
+const Order = root.lookupType("shop.Order");
+const GetOrderRequest = root.lookupType("shop.GetOrderRequest");
+
+describe("generateMockMessage", () => {
+  it("builds a typed message from the schema", () => {
+    const order = generateMockMessage(Order, { order_id: "o-1" }) as any;
+    expect(order.order_id).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/);
+    expect(order.customer_email).toMatch(/^[a-z]+\.\d+@example\.com$/);
+    expect(order.receipt_url).toMatch(/^https:\/\/example\.com\/receipt\/\d+$/);
+    expect(["PAID", "SHIPPED"]).toContain(order.status);
+    expect(order.items.length).toBeGreaterThanOrEqual(2);
+    expect(order.items.length).toBeLessThanOrEqual(3);
+    expect(order.items[0].quantity).toBeGreaterThanOrEqual(1);
+    expect(Object.keys(order.labels)).toEqual(["labels_1", "labels_2"]);
+    expect(order.created_at.seconds).toBeGreaterThanOrEqual(1704067200);
+    expect(["card_token", "voucher_code"].filter((k) => k in order)).toHaveLength(1);
+
+    // Recursive types stop at a fixed depth and the result encodes cleanly
+    let depth = 0;
+    for (let o = order; o.parent; o = o.parent) depth++;
+    expect(depth).toBe(3);
+    expect(() => Order.encode(Order.fromObject(order)).finish()).not.toThrow();
+  });
+
+  it("is deterministic per request", () => {
+    const a = generateMockMessage(Order, { order_id: "o-1", page: 1 });
+    expect(generateMockMessage(Order, { page: 1, order_id: "o-1" })).toEqual(a);
+    expect(generateMockMessage(Order, { order_id: "o-2", page: 1 })).not.toEqual(a);
+  });
+});
+
+describe("shared handlers with auto-mock", () => {
+  const logger = () => {};
+  const call = (method: string, responseStream = false): NormalizedRequest => ({
+    service: "shop.Orders",
+    method,
+    metadata: {},
+    data: { order_id: "o-1" },
+    requestType: GetOrderRequest,
+    responseType: Order,
+    requestStream: false,
+    responseStream,
+  });
+
+  beforeAll(() => {
+    process.env.VALIDATION_ENABLED = "false";
+    validationRuntime.configureFromEnv();
+  });
+
+  afterAll(() => {
+    autoMock.setEnabled(false);
+  });
+
+  it("answers unruled methods only when enabled", async () => {
+    autoMock.setEnabled(false);
+    const missing = await handleUnaryRequest(call("GetOrder"), new Map(), logger) as NormalizedError;
+    expect(missing.code).toBe("UNIMPLEMENTED");
+
+    autoMock.setEnabled(true);
+    const res = await handleUnaryRequest(call("GetOrder"), new Map(), logger) as NormalizedResponse;
+    expect(res.data).toEqual(generateMockMessage(Order, { order_id: "o-1" }));
+
+    const items: NormalizedResponse[] = [];
+    for await (const r of handleServerStreamingRequest(call("WatchOrders", true), new Map(), logger)) {
+      items.push(r as NormalizedResponse);
+    }
+    expect(items).toHaveLength(3);
+    expect(items[0].data).not.toEqual(items[1].data);
+  });
+});
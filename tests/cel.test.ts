@@ -0,0 +1,70 @@
+import { describe, it, expect } from "bun:test";
+import { evaluateCel, matchesCel } from "../src/domain/cel/evaluator.js";
+import { parseCel } from "../src/domain/cel/parser.js";
+
+const vars = {
+  request: {
+    name: "Ada",
+    total_cents: "1250",
+    items: [{ sku: "A-1", qty: 2 }, { sku: "B-2", qty: 0 }],
+    labels: { region: "eu" },
+    tags: [],
+  },
+  metadata: { "x-tenant": "acme" },
+};
+
+describe("CEL evaluator", () => {
+  it("evaluates operators with CEL precedence", () => {
+    expect(evaluateCel("1 + 2 * 3 - 4 / 2", {})).toBe(5);
+    expect(evaluateCel("(1 + 2) * 3 % 4", {})).toBe(1);
+    expect(evaluateCel("-2 * 3 < 0 && !false", {})).toBe(true);
+    expect(evaluateCel("true ? 'a' : 'b'", {})).toBe("a");
+    expect(evaluateCel("'ab' + \"cd\" + r'\\n'", {})).toBe("abcd\\n");
+    expect(evaluateCel("'tab\\there'", {})).toBe("tab\there");
+    expect(evaluateCel("[1, 2] + [3]", {})).toEqual([1, 2, 3]);
+    expect(evaluateCel("{'a': 1}.a == 1 && 2 in [1, 2] && 'a' in {'a': 1}", {})).toBe(true);
+    expect(evaluateCel("0x1F == 31u && 1.5e1 == 15.0", {})).toBe(true);
+  });
+
+  it("reads request fields, metadata and lists", () => {
+    expect(matchesCel("request.items.size() > 1 && metadata['x-tenant'] == 'acme'", vars)).toBe(true);
+    expect(matchesCel("request.labels.region == 'eu' || request.missing == 1", vars)).toBe(true);
+    expect(matchesCel("request.total_cents > 1000 && request.total_cents == 1250", vars)).toBe(true);
+    expect(matchesCel("request.name.startsWith('A') && request.name.matches('(?i)^ada$')", vars)).toBe(true);
+    expect(matchesCel("has(request.labels) && !has(request.tags) && !has(request.nope)", vars)).toBe(true);
+    expect(evaluateCel("size(request.name) + request.items[0].qty", vars)).toBe(5);
+  });
+
+  it("supports list macros", () => {
+    expect(evaluateCel("request.items.exists(i, i.qty == 0)", vars)).toBe(true);
+    expect(evaluateCel("request.items.all(i, i.sku.startsWith('A'))", vars)).toBe(false);
+    expect(evaluateCel("request.items.exists_one(i, i.qty > 0)", vars)).toBe(true);
+    expect(evaluateCel("request.items.filter(i, i.qty > 0).map(i, i.sku)", vars)).toEqual(["A-1"]);
+    expect(evaluateCel("request.items.map(i, i.qty > 0, i.qty * 10)", vars)).toEqual([20]);
+    expect(evaluateCel("request.labels.all(k, k == 'region')", vars)).toBe(true);
+    expect(evaluateCel("[1, 2, 2].unique() || [1, 2].unique()", {})).toBe(true);
+  });
+
+  it("absorbs errors the way CEL does", () => {
+    expect(evaluateCel("request.missing == 1 || true", vars)).toBe(true);
+    expect(evaluateCel("false && request.missing == 1", vars)).toBe(false);
+    expect(() => evaluateCel("request.missing == 1 || false", vars)).toThrow("no such key: 'missing'");
+    expect(() => evaluateCel("request.name + 1", vars)).toThrow("no such overload: +(string, int)");
+    expect(() => evaluateCel("unknown > 1", vars)).toThrow("undeclared reference to 'unknown'");
+    expect(matchesCel("request.items.size()", vars)).toBe(false);
+  });
+
+  it("cannot reach host objects", () => {
+    expect(() => evaluateCel("request.constructor", vars)).toThrow("no such key: 'constructor'");
+    expect(() => evaluateCel("request.name.constructor('x')", vars)).toThrow("undeclared function 'constructor'");
+    expect(() => evaluateCel("toString(request)", vars)).toThrow("undeclared function 'toString'");
+    expect(evaluateCel("{'__proto__': 1}.__proto__", {})).toBe(1);
+  });
+
+  it("reports syntax errors with a position", () => {
+    expect(() => parseCel("request.items.size( > 2")).toThrow("unexpected \">\" at position 20");
+    expect(() => parseCel("'open")).toThrow("unterminated string at position 0");
+    expect(() => parseCel("has(request)")).toThrow("has() expects a field selection such as has(request.name) at position 0");
+    expect(() => parseCel("a ? b")).toThrow("expected \":\", got end of expression at position 5");
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from "bun:test";
+import { WishmockClient } from "../src/client/index.js";
+import { startWishmock, stub, resetWishmock, type WishmockInstance } from "../src/client/testing.js";
+import { createAdminApp } from "../src/interfaces/httpAdmin.js";
+import { StubStore } from "../src/domain/stubs/stubStore.js";
+import { ScenarioStore } from "../src/domain/scenarios/scenarioStore.js";
+import { SequenceStore } from "../src/domain/sequences/sequenceStore.js";
+import { RequestJournal } from "../src/domain/journal/requestJournal.js";
+
+describe("WishmockClient", () => {
+  const stubStore = new StubStore();
+  const scenarioStore = new ScenarioStore();
+  const sequenceStore = new SequenceStore();
+  const requestJournal = new RequestJournal(10);
+  let server: any;
+  let client: WishmockClient;
+
+  beforeAll(async () => {
+    server = createAdminApp({
+      httpPort: 0,
+      protoDir: "protos",
+      ruleDir: "rules/grpc",
+      uploadsDir: "uploads",
+      getStatus: () => ({ loaded_services: ["helloworld.Greeter"], rules: [] }),
+      listServices: () => ({ services: [] }),
+      getSchema: () => null,
+      onRuleUpdated: () => {},
+      stubStore,
+      scenarioStore,
+      sequenceStore,
+      requestJournal,
+    });
+    await new Promise((resolve) => server.once("listening", resolve));
+    client = new WishmockClient({ baseUrl: `http://127.0.0.1:${server.address().port}/` });
+  });
+
+  afterAll(() => {
+    server?.close();
+  });
+
+  beforeEach(() => {
+    stubStore.reset();
+    scenarioStore.reset();
+  });
+
+  it("reads status and rule files", async () => {
+    expect(await client.ready()).toBe(true);
+    expect((await client.status()).loaded_services).toEqual(["helloworld.Greeter"]);
+    expect((await client.listRules()).map((f) => f.filename)).toContain("helloworld.greeter.sayhello.yaml");
+    expect(await client.getRule("helloworld.greeter.sayhello.yaml")).toContain("responses");
+  });
+
+  it("scopes stubs and scenario state to the client's session", async () => {
+    const session = client.withSession("s1");
+    const created = await stub(session, "helloworld.Greeter/SayHello", { body: { message: "hi" } });
+    await client.addStub({ target: "helloworld.Greeter/SayHello", responses: [{ body: { message: "global" } }] });
+    await session.setScenarioState("checkout", "paid");
+
+    expect(created.rule).toBe("helloworld.greeter.sayhello");
+    expect((await session.listStubs()).map((s) => s.id)).toEqual([created.id]);
+    expect(await session.getScenarioState("checkout")).toBe("paid");
+    expect(await client.getScenarioState("checkout")).toBe("Started");
+
+    await resetWishmock(session);
+    expect(await session.listStubs()).toEqual([]);
+    expect(await client.listStubs()).toHaveLength(1);
+    expect(await session.getScenarioState("checkout")).toBe("Started");
+  });
+
+  it("throws with the server's error message", async () => {
+    await expect(client.addStub({ responses: [] } as any)).rejects.toThrow(
+      "POST /admin/stubs failed (HTTP 400): target is required (e.g. helloworld.Greeter/SayHello)",
+    );
+    await expect(client.removeStub("missing")).rejects.toThrow("HTTP 404");
+    await expect(client.schema("helloworld.HelloRequest")).rejects.toThrow("HTTP 503");
+  });
+});
+
+describe("startWishmock", () => {
+  let mock: WishmockInstance;
+
+  beforeAll(async () => {
+    mock = await startWishmock({ protoDirs: ["protos"], rules: [], errorLog: () => {}, session: "client-test" });
+  });
+
+  afterAll(async () => {
+    await mock?.stop();
+  });
+
+  it("boots a server on free ports that answers with the session's stubs", async () => {
+    await stub(mock.client, "helloworld.Greeter/SayHello", { body: { message: "stubbed" } });
+    const res = await fetch(`${mock.connectUrl}/helloworld.Greeter/SayHello`, {
+      method: "POST",
+      headers: { "content-type": "application/json", "x-wishmock-session": "client-test" },
+      body: JSON.stringify({ name: "Ada" }),
+    });
+    expect(await res.json()).toEqual({ message: "stubbed" });
+
+    const verified = await mock.client.verify({ service: "helloworld.Greeter", method: "SayHello", count: 1 });
+    expect(verified.pass).toBe(true);
+  }, 30000);
+});
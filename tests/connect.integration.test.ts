@@ -90,7 +90,6 @@ describe("Connect RPC Integration Tests", () => {
     services = registerServices(
       protoRoot,
       rulesIndex,
-      () => {},
       () => {}
     );
   });
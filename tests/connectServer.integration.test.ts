@@ -31,7 +31,6 @@ describe("Connect RPC Server Integration", () => {
       protoRoot,
       rulesIndex: new Map(),
       logger: () => {},
-      errorLogger: () => {},
     });
 
     expect(server).toBeDefined();
@@ -52,7 +51,6 @@ describe("Connect RPC Server Integration", () => {
       protoRoot,
       rulesIndex: new Map(),
       logger: () => {},
-      errorLogger: () => {},
     });
 
     const services = server.getServices();
@@ -78,7 +76,6 @@ describe("Connect RPC Server Integration", () => {
       protoRoot,
       rulesIndex: new Map(),
       logger: () => {},
-      errorLogger: () => {},
     });
 
     await server.start();
@@ -99,7 +96,6 @@ describe("Connect RPC Server Integration", () => {
       protoRoot,
       rulesIndex: new Map(),
       logger: () => {},
-      errorLogger: () => {},
     });
 
     await server.start();
@@ -125,7 +121,6 @@ describe("Connect RPC Server Integration", () => {
       protoRoot,
       rulesIndex: new Map(),
       logger: () => {},
-      errorLogger: () => {},
     });
 
     expect(server).toBeDefined();
@@ -141,7 +136,6 @@ describe("Connect RPC Server Integration", () => {
       protoRoot,
       rulesIndex: new Map(),
       logger: () => {},
-      errorLogger: () => {},
       tls: undefined,
     });
 
@@ -157,7 +151,6 @@ describe("Connect RPC Server Integration", () => {
       protoRoot,
       rulesIndex: new Map(),
       logger: () => {},
-      errorLogger: () => {},
     });
 
     await server.start();
@@ -208,7 +201,6 @@ describe("Connect RPC Server Integration", () => {
       protoRoot: multiRoot,
       rulesIndex: new Map(),
       logger: () => {},
-      errorLogger: () => {},
     });
 
     const services = server.getServices();
@@ -227,7 +219,6 @@ describe("Connect RPC Server Integration", () => {
       protoRoot,
       rulesIndex: new Map(),
       logger: () => {},
-      errorLogger: () => {},
     });
 
     await server.start();
@@ -299,7 +290,6 @@ describe("Connect RPC Server Integration", () => {
       protoRoot,
       rulesIndex: new Map(),
       logger: () => {},
-      errorLogger: () => {},
     });
 
     await server.start();
@@ -324,7 +314,6 @@ describe("Connect RPC Server Integration", () => {
       protoRoot,
       rulesIndex: new Map(),
       logger: () => {},
-      errorLogger: () => {},
     });
 
     await server.start();
@@ -354,7 +343,6 @@ describe("Connect RPC Server Integration", () => {
         protoRoot,
         rulesIndex: new Map(),
         logger: () => {},
-        errorLogger: () => {},
       });
 
       await server.start();
@@ -390,7 +378,6 @@ describe("Connect RPC Server Integration", () => {
         protoRoot,
         rulesIndex: new Map(),
         logger: () => {},
-        errorLogger: () => {},
       });
 
       await server.start();
@@ -421,7 +408,6 @@ describe("Connect RPC Server Integration", () => {
         protoRoot,
         rulesIndex: new Map(),
         logger: () => {},
-        errorLogger: () => {},
       });
 
       await server.start();
@@ -450,7 +436,6 @@ describe("Connect RPC Server Integration", () => {
         protoRoot,
         rulesIndex: new Map(),
         logger: () => {},
-        errorLogger: () => {},
       });
 
       await server.start();
@@ -482,7 +467,6 @@ describe("Connect RPC Server Integration", () => {
         protoRoot,
         rulesIndex: new Map(),
         logger: () => {},
-        errorLogger: () => {},
       });
 
       await server.start();
@@ -508,7 +492,6 @@ describe("Connect RPC Server Integration", () => {
         protoRoot,
         rulesIndex: new Map(),
         logger: () => {},
-        errorLogger: () => {},
       });
 
       await server.start();
@@ -538,7 +521,6 @@ describe("Connect RPC Server Integration", () => {
         protoRoot,
         rulesIndex: new Map(),
         logger: () => {},
-        errorLogger: () => {},
       });
 
       await server.start();
@@ -567,7 +549,6 @@ describe("Connect RPC Server Integration", () => {
         protoRoot,
         rulesIndex: new Map(),
         logger: () => {},
-        errorLogger: () => {},
       });
 
       // Server should have hasReflection method
@@ -589,7 +570,6 @@ describe("Connect RPC Server Integration", () => {
         protoRoot,
         rulesIndex: new Map(),
         logger: () => {},
-        errorLogger: () => {},
       });
 
       await server.start();
@@ -615,7 +595,6 @@ describe("Connect RPC Server Integration", () => {
         protoRoot,
         rulesIndex: new Map(),
         logger: () => {},
-        errorLogger: () => {},
       });
 
       await server.start();
@@ -654,7 +633,6 @@ describe("Connect RPC Server Integration", () => {
         protoRoot,
         rulesIndex: new Map(),
         logger: () => {},
-        errorLogger: () => {},
       });
 
       await server.start();
@@ -692,7 +670,6 @@ describe("Connect RPC Server Integration", () => {
         protoRoot,
         rulesIndex: new Map(),
         logger: () => {},
-        errorLogger: () => {},
       });
 
       await server.start();
@@ -730,7 +707,6 @@ describe("Connect RPC Server Integration", () => {
         protoRoot,
         rulesIndex: new Map(),
         logger: () => {},
-        errorLogger: () => {},
       });
 
       await server.start();
@@ -764,7 +740,6 @@ describe("Connect RPC Server Integration", () => {
         protoRoot,
         rulesIndex: new Map(),
         logger: () => {},
-        errorLogger: () => {},
       });
 
       await server.start();
@@ -42,7 +42,6 @@ describe("Connect RPC Server", () => {
       protoRoot,
       rulesIndex: new Map(),
       logger: () => {},
-      errorLogger: () => {},
     });
 
     expect(server).toBeDefined();
@@ -91,7 +90,6 @@ describe("Connect RPC Server", () => {
       protoRoot,
       rulesIndex: new Map(),
       logger: () => {},
-      errorLogger: () => {},
     });
 
     expect(corsServer).toBeDefined();
@@ -106,7 +104,6 @@ describe("Connect RPC Server", () => {
       protoRoot,
       rulesIndex: new Map(),
       logger: () => {},
-      errorLogger: () => {},
     });
 
     expect(noCorsServer).toBeDefined();
@@ -0,0 +1,175 @@
+import { describe, it, expect, beforeAll, afterAll } from "bun:test";
+import * as grpc from "@grpc/grpc-js";
+import protobuf from "protobufjs";
+import {
+  encodeGrpcStatusDetails,
+  lookupErrorDetailType,
+  toConnectErrorDetails,
+} from "../src/infrastructure/errorDetails.js";
+import { handleUnaryRequest } from "../src/domain/usecases/handleRequest.js";
+import { sendGrpcError } from "../src/infrastructure/protocolAdapter.js";
+import { createConnectServer, type ConnectServer } from "../src/infrastructure/connectServer.js";
+import { runtime as validationRuntime } from "../src/infrastructure/validation/runtime.js";
+import type { RuleDoc } from "../src/domain/types.js";
+import type { NormalizedError } from "../src/domain/types/normalized.js";
+
+// Client-side view of google.rpc.Status
+const Status = new protobuf.Type("Status")
+  .add(new protobuf.Field("code", 1, "int32"))
+  .add(new protobuf.Field("message", 2, "string"))
+  .add(new protobuf.Field("details", 3, "Any", "repeated"))
+  .add(new protobuf.Type("Any").add(new protobuf.Field("type_url", 1, "string")).add(new protobuf.Field("value", 2, "bytes")));
+new protobuf.Root().add(Status).resolveAll();
+
+const ErrorInfo = lookupErrorDetailType("google.rpc.ErrorInfo")!;
+const RetryInfo = lookupErrorDetailType("google.rpc.RetryInfo")!;
+
+const details = [
+  { "@type": "google.rpc.ErrorInfo", reason: "QUOTA_EXCEEDED", domain: "example.com", metadata: { plan: "free" } },
+  { "@type": "type.googleapis.com/google.rpc.RetryInfo", retryDelay: "1.5s" },
+];
+
+const decodeStatus = (bin: Buffer) => Status.toObject(Status.decode(bin)) as any;
+
+describe("error detail encoding", () => {
+  it("packs details into a google.rpc.Status", () => {
+    const status = decodeStatus(encodeGrpcStatusDetails(8, "slow down", details));
+    expect(status.code).toBe(8);
+    expect(status.message).toBe("slow down");
+    expect(status.details.map((d: any) => d.type_url)).toEqual([
+      "type.googleapis.com/google.rpc.ErrorInfo",
+      "type.googleapis.com/google.rpc.RetryInfo",
+    ]);
+    expect(ErrorInfo.toObject(ErrorInfo.decode(status.details[0].value))).toEqual({
+      reason: "QUOTA_EXCEEDED",
+      domain: "example.com",
+      metadata: { plan: "free" },
+    });
+    const retry = RetryInfo.toObject(RetryInfo.decode(status.details[1].value), { longs: Number }) as any;
+    expect(retry.retry_delay).toEqual({ seconds: 1, nanos: 500000000 });
+  });
+
+  it("converts details to the Connect wire format", () => {
+    const [info] = toConnectErrorDetails([details[0], { field: "name" }]) as any[];
+    expect(info.type).toBe("google.rpc.ErrorInfo");
+    expect(info.debug).toEqual({ reason: "QUOTA_EXCEEDED", domain: "example.com", metadata: { plan: "free" } });
+    expect(ErrorInfo.decode(Buffer.from(info.value, "base64")).toJSON().reason).toBe("QUOTA_EXCEEDED");
+    // Entries without @type (validation violations) pass through
+    expect(toConnectErrorDetails([{ field: "name" }])).toEqual([{ field: "name" }]);
+  });
+
+  it("rejects unknown types and fields", () => {
+    expect(() => toConnectErrorDetails([{ "@type": "acme.Error" }])).toThrow("unsupported error detail type");
+    expect(() => toConnectErrorDetails([{ "@type": "google.rpc.ErrorInfo", reasons: "x" }])).toThrow("no field reasons");
+  });
+});
+
+describe("rule error details over the transports", () => {
+  const root = new protobuf.Root();
+  const ns = root.define("helloworld");
+  ns.add(new protobuf.Type("HelloRequest").add(new protobuf.Field("name", 1, "string")));
+  ns.add(new protobuf.Type("HelloReply").add(new protobuf.Field("message", 1, "string")));
+  ns.add(new protobuf.Service("Greeter").add(new protobuf.Method("SayHello", "rpc", "HelloRequest", "HelloReply")));
+  const reqType = root.lookupType("helloworld.HelloRequest");
+  const resType = root.lookupType("helloworld.HelloReply");
+
+  const rulesIndex = new Map<string, RuleDoc>([
+    ["helloworld.greeter.sayhello", {
+      responses: [{
+        trailers: { "grpc-status": 8, "grpc-message": "slow down" },
+        error: { details },
+      }],
+    }],
+  ]);
+
+  let connect: ConnectServer;
+
+  beforeAll(async () => {
+    process.env.VALIDATION_ENABLED = "false";
+    validationRuntime.configureFromEnv();
+    connect = await createConnectServer({
+      port: 0,
+      corsEnabled: false,
+      corsOrigins: [],
+      protoRoot: root,
+      rulesIndex,
+      logger: () => {},
+    });
+    await connect.start();
+  });
+
+  afterAll(async () => {
+    await connect?.stop();
+  });
+
+  it("carries the details on the shared handler result", async () => {
+    const result = await handleUnaryRequest({
+      service: "helloworld.Greeter",
+      method: "SayHello",
+      metadata: {},
+      data: { name: "Bob" },
+      requestType: reqType,
+      responseType: resType,
+      requestStream: false,
+      responseStream: false,
+    }, rulesIndex, () => {}) as NormalizedError;
+    expect(result).toEqual({ code: "RESOURCE_EXHAUSTED", message: "slow down", details });
+  });
+
+  it("sends grpc-status-details-bin on grpc-js", async () => {
+    const codec = (t: protobuf.Type) => ({
+      serialize: (msg: any) => Buffer.from(t.encode(t.fromObject(msg)).finish()),
+      deserialize: (buf: Buffer) => t.toObject(t.decode(buf)),
+    });
+    const server = new grpc.Server();
+    server.addService({
+      SayHello: {
+        path: "/helloworld.Greeter/SayHello",
+        requestStream: false,
+        responseStream: false,
+        requestSerialize: codec(reqType).serialize,
+        requestDeserialize: codec(reqType).deserialize,
+        responseSerialize: codec(resType).serialize,
+        responseDeserialize: codec(resType).deserialize,
+      },
+    } as any, {
+      SayHello: (c: any, cb: any) =>
+        sendGrpcError(c, { code: "RESOURCE_EXHAUSTED", message: "slow down", details }, false, false, cb),
+    });
+    const port = await new Promise<number>((resolve, reject) =>
+      server.bindAsync("127.0.0.1:0", grpc.ServerCredentials.createInsecure(), (e, p) => (e ? reject(e) : resolve(p)))
+    );
+    const client = new grpc.Client(`127.0.0.1:${port}`, grpc.credentials.createInsecure());
+    try {
+      const error = await new Promise<grpc.ServiceError>((resolve) => {
+        client.makeUnaryRequest(
+          "/helloworld.Greeter/SayHello",
+          codec(reqType).serialize,
+          codec(resType).deserialize,
+          { name: "Bob" },
+          (e) => resolve(e as grpc.ServiceError)
+        );
+      });
+      expect(error.code).toBe(grpc.status.RESOURCE_EXHAUSTED);
+      expect(error.details).toBe("slow down");
+      const status = decodeStatus(error.metadata.get("grpc-status-details-bin")[0] as Buffer);
+      expect(ErrorInfo.decode(status.details[0].value).toJSON().reason).toBe("QUOTA_EXCEEDED");
+    } finally {
+      client.close();
+      server.forceShutdown();
+    }
+  });
+
+  it("sends Connect error details", async () => {
+    const res = await fetch(`http://127.0.0.1:${(connect.server.address() as any).port}/helloworld.Greeter/SayHello`, {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ name: "Bob" }),
+    });
+    expect(res.status).toBe(429);
+    const body = await res.json();
+    expect(body.code).toBe("resource_exhausted");
+    expect(body.details.map((d: any) => d.type)).toEqual(["google.rpc.ErrorInfo", "google.rpc.RetryInfo"]);
+    expect(body.details[1].debug).toEqual({ retryDelay: "1.5s" });
+  });
+});
@@ -0,0 +1,194 @@
+import { describe, it, expect, afterAll, beforeEach } from "bun:test";
+import * as grpc from "@grpc/grpc-js";
+import protobuf from "protobufjs";
+import { FaultInjector, faultInjector, validateFaultProfile } from "../src/domain/faults/faultInjector.js";
+import { handleUnaryRequest, handleServerStreamingRequest } from "../src/domain/usecases/handleRequest.js";
+import { sendGrpcError } from "../src/infrastructure/protocolAdapter.js";
+import { createConnectServer, type ConnectServer } from "../src/infrastructure/connectServer.js";
+import { runtime as validationRuntime } from "../src/infrastructure/validation/runtime.js";
+import type { RuleDoc } from "../src/domain/types.js";
+import type { NormalizedRequest, NormalizedResponse, NormalizedError } from "../src/domain/types/normalized.js";
+
+const reqType = new protobuf.Type("HelloRequest").add(new protobuf.Field("name", 1, "string"));
+const resType = new protobuf.Type("HelloReply").add(new protobuf.Field("message", 1, "string"));
+const logger = () => {};
+
+const call = (method: string, responseStream = false): NormalizedRequest => ({
+  service: "helloworld.Greeter",
+  method,
+  metadata: {},
+  data: { name: "Bob" },
+  requestType: reqType,
+  responseType: resType,
+  requestStream: false,
+  responseStream,
+});
+
+// Deterministic randomness: replays the given values in order
+const sequence = (...values: number[]) => {
+  let i = 0;
+  return () => values[i++ % values.length];
+};
+
+describe("FaultInjector", () => {
+  it("plans errors, drops and stream aborts from probabilities", () => {
+    const injector = new FaultInjector(sequence(0.1, 0.9, 0.9, 0.1));
+    const profile = { error: { probability: 0.5, code: 14 }, drop: { probability: 0.05 } };
+    // drop roll 0.1 misses, error roll 0.9 misses
+    expect(injector.plan(profile)).toBeNull();
+    // drop roll 0.9 misses, error roll 0.1 hits
+    expect(injector.plan(profile)).toEqual({
+      delayMs: 0,
+      drop: false,
+      error: { code: "UNAVAILABLE", message: "Injected UNAVAILABLE fault" },
+    });
+    expect(new FaultInjector(() => 0).plan({ stream_abort: { after_items: 2, code: "aborted" } })!.abort)
+      .toEqual({ afterItems: 2, code: "ABORTED", message: "Stream aborted after 2 messages", drop: false });
+    // after_items defaults to 0
+    expect(new FaultInjector(() => 0).plan({ stream_abort: {} })!.abort)
+      .toEqual({ afterItems: 0, code: "UNAVAILABLE", message: "Stream aborted after 0 messages", drop: false });
+  });
+
+  it("samples latency distributions and p99 spikes", () => {
+    expect(new FaultInjector(() => 0.5).plan({ latency: { min_ms: 100, max_ms: 200 } })!.delayMs).toBe(150);
+    // u = 1 - 0.5, v = 0.25 -> cos(pi/2) = 0, so the sample is the mean
+    expect(new FaultInjector(sequence(0.5, 0.25)).plan({ latency: { distribution: "normal", mean_ms: 80, stddev_ms: 30 } })!.delayMs)
+      .toBe(80);
+    expect(new FaultInjector(() => 0.005).plan({ latency: { min_ms: 10, spike_ms: 2000 } })!.delayMs).toBe(2000);
+    expect(new FaultInjector(() => 0.5).plan({ latency: { min_ms: 10, spike_ms: 2000 } })!.delayMs).toBe(10);
+  });
+
+  it("validates profiles", () => {
+    expect(validateFaultProfile({ error: { probability: 0.1, code: "INTERNAL" }, latency: { min_ms: 1, max_ms: 5 } })).toBeNull();
+    expect(validateFaultProfile({ error: { probability: 2 } })).toContain("error.probability");
+    expect(validateFaultProfile({ error: { probability: 1, code: "OK" } })).toContain("error.code");
+    expect(validateFaultProfile({ latency: { min_ms: 10, max_ms: 5 } })).toContain("max_ms");
+    expect(validateFaultProfile({ stream_abort: { after_items: -1 } })).toContain("after_items");
+    expect(validateFaultProfile({ stream_abort: {} })).toBeNull();
+    expect(validateFaultProfile({ chaos: true })).toContain("unknown fault");
+  });
+});
+
+describe("fault injection in the shared handlers", () => {
+  const rulesIndex = new Map<string, RuleDoc>([
+    ["helloworld.greeter.sayhello", {
+      faults: { error: { probability: 1, code: "RESOURCE_EXHAUSTED", message: "slow down" } },
+      responses: [{ body: { message: "hi" } }],
+    }],
+    ["helloworld.greeter.saygoodbye", { responses: [{ body: { message: "bye" } }] }],
+    ["helloworld.greeter.listgreetings", {
+      faults: { stream_abort: { after_items: 2 } },
+      responses: [{ stream_items: [{ message: "1" }, { message: "2" }, { message: "3" }], stream_delay_ms: 1 }],
+    }],
+  ]);
+
+  beforeEach(() => {
+    process.env.VALIDATION_ENABLED = "false";
+    validationRuntime.configureFromEnv();
+    faultInjector.setGlobal(null);
+  });
+
+  afterAll(() => {
+    faultInjector.setGlobal(null);
+  });
+
+  it("fails calls with the rule's error fault", async () => {
+    const res = await handleUnaryRequest(call("SayHello"), rulesIndex, logger) as NormalizedError;
+    expect(res).toEqual({ code: "RESOURCE_EXHAUSTED", message: "slow down" });
+  });
+
+  it("applies the global profile to rules without faults", async () => {
+    faultInjector.setGlobal({ latency: { min_ms: 30, max_ms: 30 }, drop: { probability: 1 } });
+    const started = performance.now();
+    const res = await handleUnaryRequest(call("SayGoodbye"), rulesIndex, logger) as NormalizedError;
+    expect(performance.now() - started).toBeGreaterThanOrEqual(25);
+    expect(res).toMatchObject({ code: "UNAVAILABLE", drop: true });
+
+    // The rule's own profile still wins
+    const own = await handleUnaryRequest(call("SayHello"), rulesIndex, logger) as NormalizedError;
+    expect(own.code).toBe("RESOURCE_EXHAUSTED");
+  });
+
+  it("aborts server streams after the configured number of items", async () => {
+    const results: Array<NormalizedResponse | NormalizedError> = [];
+    for await (const r of handleServerStreamingRequest(call("ListGreetings", true), rulesIndex, logger)) {
+      results.push(r);
+    }
+    expect(results).toHaveLength(3);
+    expect((results[1] as NormalizedResponse).data).toEqual({ message: "2" });
+    expect(results[2]).toMatchObject({ code: "UNAVAILABLE", message: "Stream aborted after 2 messages" });
+  });
+});
+
+describe("dropped connections", () => {
+  it("closes the HTTP/2 connection of a gRPC call", async () => {
+    const codec = (t: protobuf.Type) => ({
+      serialize: (msg: any) => Buffer.from(t.encode(t.fromObject(msg)).finish()),
+      deserialize: (buf: Buffer) => t.toObject(t.decode(buf)),
+    });
+    const server = new grpc.Server();
+    server.addService({
+      SayHello: {
+        path: "/helloworld.Greeter/SayHello",
+        requestStream: false,
+        responseStream: false,
+        requestSerialize: codec(reqType).serialize,
+        requestDeserialize: codec(reqType).deserialize,
+        responseSerialize: codec(resType).serialize,
+        responseDeserialize: codec(resType).deserialize,
+      },
+    } as any, {
+      SayHello: (c: any, cb: any) => sendGrpcError(c, { code: "UNAVAILABLE", message: "dropped", drop: true }, false, false, cb),
+    });
+    const port = await new Promise<number>((resolve, reject) =>
+      server.bindAsync("127.0.0.1:0", grpc.ServerCredentials.createInsecure(), (e, p) => (e ? reject(e) : resolve(p)))
+    );
+    const client = new grpc.Client(`127.0.0.1:${port}`, grpc.credentials.createInsecure());
+    try {
+      const error = await new Promise<grpc.ServiceError>((resolve) => {
+        client.makeUnaryRequest(
+          "/helloworld.Greeter/SayHello",
+          codec(reqType).serialize,
+          codec(resType).deserialize,
+          { name: "Bob" },
+          (e) => resolve(e as grpc.ServiceError)
+        );
+      });
+      // The client sees a transport failure (its code depends on the runtime), not the server's status
+      expect(error.code).not.toBe(grpc.status.OK);
+      expect(error.details).not.toBe("dropped");
+    } finally {
+      client.close();
+      server.forceShutdown();
+    }
+  });
+
+  it("destroys the socket of a Connect call", async () => {
+    const root = new protobuf.Root();
+    const ns = root.define("helloworld");
+    ns.add(new protobuf.Type("HelloRequest").add(new protobuf.Field("name", 1, "string")));
+    ns.add(new protobuf.Type("HelloReply").add(new protobuf.Field("message", 1, "string")));
+    ns.add(new protobuf.Service("Greeter").add(new protobuf.Method("SayHello", "rpc", "HelloRequest", "HelloReply")));
+
+    const connect: ConnectServer = await createConnectServer({
+      port: 0,
+      corsEnabled: false,
+      corsOrigins: [],
+      protoRoot: root,
+      rulesIndex: new Map([["helloworld.greeter.sayhello", { faults: { drop: { probability: 1 } }, responses: [{ body: { message: "hi" } }] }]]),
+      logger: () => {},
+    });
+    await connect.start();
+    try {
+      const url = `http://127.0.0.1:${(connect.server.address() as any).port}/helloworld.Greeter/SayHello`;
+      const request = fetch(url, {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ name: "Bob" }),
+      });
+      await expect(request).rejects.toThrow();
+    } finally {
+      await connect.stop();
+    }
+  });
+});
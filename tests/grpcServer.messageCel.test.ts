@@ -62,7 +62,6 @@ describe("gRPC Server - Message-level CEL enforcement (Protovalidate)", () => {
     const handlers = buildHandlersFromRoot(
       root,
       rules as any,
-      () => {},
       () => {}
     );
     const meta = handlers.get("example.Val/Check");
@@ -96,7 +95,6 @@ describe("gRPC Server - Message-level CEL enforcement (Protovalidate)", () => {
     const handlers = buildHandlersFromRoot(
       root,
       rules as any,
-      () => {},
       () => {}
     );
     const meta = handlers.get("example.Val/Check");
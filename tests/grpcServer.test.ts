@@ -68,13 +68,11 @@ describe("createGrpcServer", () => {
     loadPackageDefinitionMock.mockReturnValue(packageObject);
 
     const log = vi.fn();
-    const err = vi.fn();
 
     const { servicesMap } = await createGrpcServer(
       root,
       rules as any,
       log,
-      err,
       { entryFiles: ["/virtual/hello.proto"] },
       {
         grpc: mockGrpc,
@@ -110,13 +108,11 @@ describe("createGrpcServer", () => {
     loadPackageDefinitionMock.mockReturnValue({});
 
     const log = vi.fn();
-    const err = vi.fn();
 
     const { servicesMap } = await createGrpcServer(
       root,
       rules as any,
       log,
-      err,
       { entryFiles: ["/virtual/hello.proto"] },
       {
         grpc: mockGrpc,
@@ -59,7 +59,7 @@ describe("gRPC streaming handlers", () => {
     rulesIndex.set("helloworld.greeter.uploadhello", uploadRule);
     rulesIndex.set("helloworld.greeter.chathello", chatRule);
 
-    const handlers = buildHandlersFromRoot(root, rulesIndex, () => {}, () => {});
+    const handlers = buildHandlersFromRoot(root, rulesIndex, () => {});
     const uploadMeta = handlers.get("helloworld.Greeter/UploadHello");
     const chatMeta = handlers.get("helloworld.Greeter/ChatHello");
     if (!uploadMeta || !chatMeta) throw new Error("Expected streaming handlers to be registered");
@@ -0,0 +1,156 @@
+import { describe, it, expect, afterAll, beforeAll } from "bun:test";
+import * as grpc from "@grpc/grpc-js";
+import protobuf from "protobufjs";
+import { HealthStore, type ServingStatus } from "../src/domain/health/healthStore.js";
+import { createWishmock, type Wishmock } from "../src/wishmock.js";
+import { WishmockClient } from "../src/client/index.js";
+
+const quiet = { log: () => {}, errorLog: () => {} };
+
+describe("HealthStore", () => {
+  it("follows readiness for loaded services and the overall server", () => {
+    const store = new HealthStore();
+    store.setServices(["helloworld.Greeter"]);
+    expect(store.check("")).toBe("NOT_SERVING");
+    expect(store.check("helloworld.Greeter")).toBe("NOT_SERVING");
+    expect(store.check("missing.Service")).toBeNull();
+
+    store.setReady(true);
+    expect(store.check("")).toBe("SERVING");
+    expect(store.check("helloworld.Greeter")).toBe("SERVING");
+  });
+
+  it("lets overrides win while ready and clears them", () => {
+    const store = new HealthStore();
+    store.setReady(true);
+    store.setServices(["helloworld.Greeter"]);
+    store.set("helloworld.Greeter", "NOT_SERVING");
+    store.set("extra.Service", "SERVING");
+    store.set("", "SERVICE_UNKNOWN");
+
+    expect(store.getInfo()).toEqual({
+      ready: true,
+      services: { "": "SERVICE_UNKNOWN", "extra.Service": "SERVING", "helloworld.Greeter": "NOT_SERVING" },
+      overrides: { "helloworld.Greeter": "NOT_SERVING", "extra.Service": "SERVING", "": "SERVICE_UNKNOWN" },
+    });
+    expect(store.check("")).toBeNull();
+
+    store.clear("helloworld.Greeter");
+    expect(store.check("helloworld.Greeter")).toBe("SERVING");
+    store.clear();
+    expect(store.check("extra.Service")).toBeNull();
+  });
+
+  it("sends watchers each status change once and ends them on request", () => {
+    const store = new HealthStore();
+    const seen: ServingStatus[] = [];
+    let ended = false;
+    const stop = store.watch("helloworld.Greeter", (s) => seen.push(s), () => (ended = true));
+
+    store.setServices(["helloworld.Greeter"]);
+    store.setReady(true);
+    store.setReady(true);
+    store.set("helloworld.Greeter", "NOT_SERVING");
+    expect(seen).toEqual(["SERVICE_UNKNOWN", "NOT_SERVING", "SERVING", "NOT_SERVING"]);
+
+    store.endWatches();
+    expect(ended).toBe(true);
+    store.clear();
+    expect(seen).toHaveLength(4);
+    stop();
+  });
+});
+
+describe("grpc.health.v1.Health", () => {
+  const healthRoot = protobuf.Root.fromJSON({
+    nested: {
+      HealthCheckRequest: { fields: { service: { type: "string", id: 1 } } },
+      HealthCheckResponse: { fields: { status: { type: "int32", id: 1 } } },
+    },
+  });
+  const Request = healthRoot.lookupType("HealthCheckRequest");
+  const Response = healthRoot.lookupType("HealthCheckResponse");
+  const serialize = (m: any) => Buffer.from(Request.encode(m).finish());
+  const deserialize = (b: Buffer) => (Response.decode(b) as any).status as number;
+  const SERVING = 1;
+  const NOT_SERVING = 2;
+
+  let mock: Wishmock;
+  let client: grpc.Client;
+  let admin: WishmockClient;
+  let connect: string;
+
+  const check = (service: string) =>
+    new Promise<number>((resolve, reject) =>
+      client.makeUnaryRequest("/grpc.health.v1.Health/Check", serialize, deserialize, { service }, (e, status) =>
+        e ? reject(e) : resolve(status!)
+      )
+    );
+
+  beforeAll(async () => {
+    mock = createWishmock({ ...quiet, protoDirs: ["protos"], rules: [] });
+    const ports = await mock.start();
+    client = new grpc.Client(`127.0.0.1:${ports.grpc}`, grpc.credentials.createInsecure());
+    admin = new WishmockClient({ baseUrl: `http://127.0.0.1:${ports.http}` });
+    connect = `http://127.0.0.1:${ports.connect}`;
+  });
+
+  afterAll(async () => {
+    client?.close();
+    await mock?.stop();
+  });
+
+  it("answers Check from readiness and admin overrides", async () => {
+    expect(await check("")).toBe(SERVING);
+    expect(await check("helloworld.Greeter")).toBe(SERVING);
+    const error = await check("missing.Service").catch((e: grpc.ServiceError) => e);
+    expect((error as grpc.ServiceError).code).toBe(grpc.status.NOT_FOUND);
+
+    await admin.setHealth("helloworld.Greeter", "NOT_SERVING");
+    expect(await check("helloworld.Greeter")).toBe(NOT_SERVING);
+    await expect(admin.setHealth("helloworld.Greeter", "BROKEN" as any)).rejects.toThrow("HTTP 400");
+    expect((await admin.getHealth()).overrides).toEqual({ "helloworld.Greeter": "NOT_SERVING" });
+
+    await admin.clearHealth();
+    expect(await check("helloworld.Greeter")).toBe(SERVING);
+  });
+
+  it("answers Check over Connect", async () => {
+    await admin.setHealth("", "NOT_SERVING");
+    const res = await fetch(`${connect}/grpc.health.v1.Health/Check`, {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ service: "" }),
+    });
+    expect(await res.json()).toEqual({ status: "NOT_SERVING" });
+    await admin.clearHealth();
+  });
+
+  it("streams Watch transitions and ends the stream on shutdown", async () => {
+    const statuses: number[] = [];
+    let notify = () => {};
+    const call = client.makeServerStreamRequest("/grpc.health.v1.Health/Watch", serialize, deserialize, {
+      service: "helloworld.Greeter",
+    });
+    call.on("data", (status: number) => {
+      statuses.push(status);
+      notify();
+    });
+    const ended = new Promise<grpc.ServiceError>((resolve) => call.on("error", resolve));
+    const received = async (n: number) => {
+      while (statuses.length < n) await new Promise<void>((resolve) => (notify = resolve));
+    };
+
+    await received(1);
+    await admin.setHealth("helloworld.Greeter", "NOT_SERVING");
+    await received(2);
+    await admin.clearHealth("helloworld.Greeter");
+    await received(3);
+    expect(statuses).toEqual([SERVING, NOT_SERVING, SERVING]);
+
+    await mock.reload();
+    expect((await ended).code).toBe(grpc.status.UNAVAILABLE);
+    expect(statuses.at(-1)).toBe(NOT_SERVING);
+    expect(await check("helloworld.Greeter")).toBe(SERVING);
+  }, 30000);
+});
@@ -0,0 +1,222 @@
+import { describe, it, expect, beforeAll, afterAll } from "bun:test";
+import http from "http";
+import * as grpc from "@grpc/grpc-js";
+import protobuf from "protobufjs";
+import { handleBidiStreamingRequest } from "../src/domain/usecases/handleRequest.js";
+import { buildHandlersFromRoot } from "../src/infrastructure/grpcServer.js";
+import { createConnectServer, type ConnectServer } from "../src/infrastructure/connectServer.js";
+import { runtime as validationRuntime } from "../src/infrastructure/validation/runtime.js";
+import { createHandlerContext } from "../src/domain/usecases/handlerContext.js";
+import { SESSION_HEADER } from "../src/domain/session.js";
+import type { RuleDoc } from "../src/domain/types.js";
+import type { NormalizedRequest, NormalizedResponse } from "../src/domain/types/normalized.js";
+
+const root = new protobuf.Root();
+const ns = root.define("chat");
+ns.add(new protobuf.Type("ChatMessage").add(new protobuf.Field("text", 1, "string")));
+ns.add(new protobuf.Service("Room").add(new protobuf.Method("Talk", "rpc", "ChatMessage", "ChatMessage", true, true)));
+const messageType = root.lookupType("chat.ChatMessage");
+const logger = () => {};
+
+const rulesIndex = new Map<string, RuleDoc>([
+  ["chat.room.talk", {
+    bidi_mode: "per_message",
+    responses: [
+      { when: { "stream.index": 0 }, body: { text: "welcome {{request.text}}" }, priority: 1 },
+      { when: { "request.text": "ping" }, body: { text: "pong #{{stream.index}}" } },
+      { when: { "request.text": "count" }, stream_items: [{ text: "1" }, { text: "2" }], stream_delay_ms: 1 },
+      { when: { "request.text": "bye" }, trailers: { "grpc-status": 9, "grpc-message": "closed" } },
+    ],
+  }],
+]);
+
+// Async iterable fed by the test, so replies can be observed between messages
+function inbox(metadata: Record<string, string> = {}) {
+  const queue: Array<string | null> = [];
+  let wake: (() => void) | null = null;
+  return {
+    send(text: string | null) {
+      queue.push(text);
+      wake?.();
+    },
+    async *[Symbol.asyncIterator](): AsyncGenerator<NormalizedRequest> {
+      while (true) {
+        if (queue.length === 0) await new Promise<void>((resolve) => (wake = resolve));
+        const text = queue.shift()!;
+        if (text === null) return;
+        yield {
+          service: "chat.Room",
+          method: "Talk",
+          metadata,
+          data: { text },
+          requestType: messageType,
+          responseType: messageType,
+          requestStream: true,
+          responseStream: true,
+        };
+      }
+    },
+  };
+}
+
+beforeAll(() => {
+  process.env.VALIDATION_ENABLED = "false";
+  validationRuntime.configureFromEnv();
+});
+
+describe("per_message bidi in the shared handler", () => {
+  it("answers each message before the next one arrives", async () => {
+    const messages = inbox();
+    const replies = handleBidiStreamingRequest(messages, rulesIndex, logger);
+    const next = async () => ((await replies.next()).value as NormalizedResponse).data;
+
+    messages.send("ann");
+    expect(await next()).toEqual({ text: "welcome ann" });
+    messages.send("ping");
+    expect(await next()).toEqual({ text: "pong #1" });
+    // Unmatched messages get no reply
+    messages.send("???");
+    messages.send("count");
+    expect(await next()).toEqual({ text: "1" });
+    expect(await next()).toEqual({ text: "2" });
+    messages.send(null);
+    expect((await replies.next()).done).toBe(true);
+  });
+
+  it("ends the call on an error response", async () => {
+    const messages = inbox();
+    const replies = handleBidiStreamingRequest(messages, rulesIndex, logger);
+    messages.send("ann");
+    await replies.next();
+    messages.send("bye");
+    expect((await replies.next()).value).toEqual({ code: "FAILED_PRECONDITION", message: "closed" });
+    expect((await replies.next()).done).toBe(true);
+  });
+
+  it("replies per message from a session stub matching on the first message", async () => {
+    const context = createHandlerContext();
+    context.stubs.add("chat.room.talk", {
+      bidi_mode: "per_message",
+      responses: [{ when: { "request.text": "hi" }, body: { text: "stubbed {{request.text}}" } }],
+    }, "s1");
+    const messages = inbox({ [SESSION_HEADER]: "s1" });
+    const replies = handleBidiStreamingRequest(messages, new Map(), logger, context);
+
+    messages.send("hi");
+    expect(((await replies.next()).value as NormalizedResponse).data).toEqual({ text: "stubbed hi" });
+    messages.send(null);
+    expect((await replies.next()).done).toBe(true);
+  });
+});
+
+describe("per_message bidi over the transports", () => {
+  let grpcServer: grpc.Server;
+  let grpcPort: number;
+  let connect: ConnectServer;
+  let connectPort: number;
+
+  beforeAll(async () => {
+    const meta = buildHandlersFromRoot(root, rulesIndex, logger).get("chat.Room/Talk")!;
+    grpcServer = new grpc.Server();
+    grpcServer.addService({
+      Talk: {
+        path: "/chat.Room/Talk",
+        requestStream: true,
+        responseStream: true,
+        requestSerialize: (m: any) => Buffer.from(messageType.encode(messageType.fromObject(m)).finish()),
+        requestDeserialize: (b: Buffer) => messageType.toObject(messageType.decode(b)),
+        responseSerialize: (m: any) => Buffer.from(messageType.encode(messageType.fromObject(m)).finish()),
+        responseDeserialize: (b: Buffer) => messageType.toObject(messageType.decode(b)),
+      },
+    } as any, { Talk: meta.handler as any });
+    grpcPort = await new Promise<number>((resolve, reject) =>
+      grpcServer.bindAsync("127.0.0.1:0", grpc.ServerCredentials.createInsecure(), (e, p) => (e ? reject(e) : resolve(p)))
+    );
+
+    connect = await createConnectServer({
+      port: 0,
+      corsEnabled: false,
+      corsOrigins: [],
+      protoRoot: root,
+      rulesIndex,
+      logger,
+    });
+    await connect.start();
+    connectPort = (connect.server.address() as any).port;
+  });
+
+  afterAll(async () => {
+    grpcServer?.forceShutdown();
+    await connect?.stop();
+  });
+
+  it("replies on grpc-js while the client keeps the stream open", async () => {
+    const client = new grpc.Client(`127.0.0.1:${grpcPort}`, grpc.credentials.createInsecure());
+    try {
+      const call = client.makeBidiStreamRequest(
+        "/chat.Room/Talk",
+        (m: any) => Buffer.from(messageType.encode(messageType.fromObject(m)).finish()),
+        (b: Buffer) => messageType.toObject(messageType.decode(b))
+      );
+      const reply = () => new Promise<any>((resolve) => call.once("data", resolve));
+
+      call.write({ text: "ann" });
+      expect(await reply()).toEqual({ text: "welcome ann" });
+      call.write({ text: "ping" });
+      expect(await reply()).toEqual({ text: "pong #1" });
+      call.end();
+      const status = new Promise<grpc.StatusObject>((resolve) => call.on("status", resolve));
+      call.resume();
+      expect((await status).code).toBe(grpc.status.OK);
+    } finally {
+      client.close();
+    }
+  });
+
+  it("replies over the Connect streaming protocol", async () => {
+    const envelope = (flags: number, body: unknown) => {
+      const payload = Buffer.from(JSON.stringify(body));
+      const header = Buffer.alloc(5);
+      header[0] = flags;
+      header.writeUInt32BE(payload.length, 1);
+      return Buffer.concat([header, payload]);
+    };
+
+    const req = http.request({
+      host: "127.0.0.1",
+      port: connectPort,
+      method: "POST",
+      path: "/chat.Room/Talk",
+      headers: { "content-type": "application/connect+json" },
+    });
+    const res = await new Promise<http.IncomingMessage>((resolve) => {
+      req.on("response", resolve);
+      req.write(envelope(0, { text: "ann" }));
+    });
+    expect(res.headers["content-type"]).toBe("application/connect+json");
+
+    // Collect frames as they arrive
+    const frames: Array<{ flags: number; body: any }> = [];
+    let buffered = Buffer.alloc(0);
+    let waiter: (() => void) | null = null;
+    res.on("data", (chunk: Buffer) => {
+      buffered = Buffer.concat([buffered, chunk]);
+      while (buffered.length >= 5 && buffered.length >= 5 + buffered.readUInt32BE(1)) {
+        const length = buffered.readUInt32BE(1);
+        frames.push({ flags: buffered[0], body: JSON.parse(buffered.subarray(5, 5 + length).toString()) });
+        buffered = buffered.subarray(5 + length);
+      }
+      waiter?.();
+    });
+    const frame = async (n: number) => {
+      while (frames.length < n) await new Promise<void>((resolve) => (waiter = resolve));
+      return frames[n - 1];
+    };
+
+    expect(await frame(1)).toEqual({ flags: 0, body: { text: "welcome ann" } });
+    req.write(envelope(0, { text: "ping" }));
+    expect(await frame(2)).toEqual({ flags: 0, body: { text: "pong #1" } });
+    req.end();
+    expect(await frame(3)).toEqual({ flags: 2, body: {} });
+  });
+});
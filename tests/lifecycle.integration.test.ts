@@ -4,6 +4,7 @@ import { createGrpcServer } from "../src/infrastructure/grpcServer.js";
 import { createConnectServer, type ConnectServer } from "../src/infrastructure/connectServer.js";
 import { loadProtos } from "../src/infrastructure/protoLoader.js";
 import { loadRules } from "../src/infrastructure/ruleLoader.js";
+import { toLogger } from "../src/infrastructure/logging/logger.js";
 import path from "path";
 
 /**
@@ -74,7 +75,6 @@ describeLifecycle("Lifecycle Management", () => {
       root,
       rules,
       logger,
-      logger,
       { protoDir: PROTO_DIR }
     );
     
@@ -101,7 +101,6 @@ describeLifecycle("Lifecycle Management", () => {
       protoRoot: root,
       rulesIndex: rules,
       logger,
-      errorLogger: logger,
     });
     
     await connectServer.start();
@@ -127,7 +126,6 @@ describeLifecycle("Lifecycle Management", () => {
       initialRoot,
       initialRules,
       logger,
-      logger,
       { protoDir: PROTO_DIR }
     );
     
@@ -151,7 +149,6 @@ describeLifecycle("Lifecycle Management", () => {
       protoRoot: initialRoot,
       rulesIndex: initialRules,
       logger,
-      errorLogger: logger,
     });
     
     await connectServer1.start();
@@ -174,7 +171,6 @@ describeLifecycle("Lifecycle Management", () => {
       newRoot,
       newRules,
       logger,
-      logger,
       { protoDir: PROTO_DIR }
     );
     
@@ -200,7 +196,6 @@ describeLifecycle("Lifecycle Management", () => {
       protoRoot: newRoot,
       rulesIndex: newRules,
       logger,
-      errorLogger: logger,
     });
     
     await connectServer2.start();
@@ -226,7 +221,6 @@ describeLifecycle("Lifecycle Management", () => {
       root,
       rules,
       logger,
-      logger,
       { protoDir: PROTO_DIR }
     );
     
@@ -250,7 +244,6 @@ describeLifecycle("Lifecycle Management", () => {
       protoRoot: root,
       rulesIndex: rules,
       logger,
-      errorLogger: logger,
     });
     
     await connectServer.start();
@@ -281,8 +274,10 @@ describeLifecycle("Lifecycle Management", () => {
   it("should handle Connect server errors gracefully with fallback", async () => {
     const logs: string[] = [];
     const errors: string[] = [];
-    const logger = (...args: any[]) => logs.push(args.join(" "));
-    const errorLogger = (...args: any[]) => errors.push(args.join(" "));
+    const logger = toLogger(
+      (...args: any[]) => logs.push(args.join(" ")),
+      (...args: any[]) => errors.push(args.join(" "))
+    );
     
     // Start gRPC server successfully
     const { root } = await loadProtos(PROTO_DIR);
@@ -292,7 +287,6 @@ describeLifecycle("Lifecycle Management", () => {
       root,
       rules,
       logger,
-      errorLogger,
       { protoDir: PROTO_DIR }
     );
     
@@ -320,7 +314,6 @@ describeLifecycle("Lifecycle Management", () => {
       protoRoot: root,
       rulesIndex: rules,
       logger,
-      errorLogger,
       tls: {
         enabled: true,
         keyPath: "/nonexistent/key.pem",
@@ -0,0 +1,177 @@
+import { describe, it, expect, afterEach } from "bun:test";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import protobuf from "protobufjs";
+import { createLogger, redact, toLogger, type AccessLogEntry, type Logger } from "../src/infrastructure/logging/logger.js";
+import { RotatingFileSink } from "../src/infrastructure/logging/fileSink.js";
+import { runtime as loggingRuntime } from "../src/infrastructure/logging/runtime.js";
+import { handleUnaryRequest } from "../src/domain/usecases/handleRequest.js";
+import type { NormalizedRequest } from "../src/domain/types/normalized.js";
+import type { RuleDoc } from "../src/domain/types.js";
+
+describe("createLogger", () => {
+  it("writes JSON lines at or above the configured level", () => {
+    const lines: string[] = [];
+    const logger = createLogger({ level: "info", format: "json", write: (line) => lines.push(line) });
+    logger.debug("hidden");
+    logger.info("listening on", 50050);
+    logger.error("boom");
+
+    expect(lines).toHaveLength(2);
+    expect(JSON.parse(lines[0])).toMatchObject({ level: "info", msg: "listening on 50050" });
+    expect(JSON.parse(lines[1])).toMatchObject({ level: "error", msg: "boom" });
+    expect(Date.parse(JSON.parse(lines[0]).time)).not.toBeNaN();
+  });
+
+  it("keeps the [wishmock] prefix in pretty mode and tags other levels", () => {
+    const lines: string[] = [];
+    const logger = createLogger({ level: "debug", format: "pretty", write: (line) => lines.push(line) });
+    logger.info("ready");
+    logger.warn("careful");
+
+    expect(lines).toEqual(["[wishmock] ready", "[wishmock] (warn) careful"]);
+  });
+});
+
+describe("redact", () => {
+  it("masks sensitive keys at any depth, case-insensitively", () => {
+    const keys = new Set(["password", "token"]);
+    expect(redact({ user: "ada", Password: "x", nested: [{ token: "t", id: 1 }] }, keys)).toEqual({
+      user: "ada",
+      Password: "[REDACTED]",
+      nested: [{ token: "[REDACTED]", id: 1 }],
+    });
+  });
+});
+
+describe("RotatingFileSink", () => {
+  it("rotates by size and keeps a bounded number of files", () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "wishmock-log-"));
+    const file = path.join(dir, "access.log");
+    const sink = new RotatingFileSink(file, 20, 2);
+    try {
+      for (const line of ["line-one-xxxx", "line-two-xxxx", "line-three-xx", "line-four-xxx"]) sink.write(line);
+      sink.close();
+
+      expect(fs.readFileSync(file, "utf8")).toBe("line-four-xxx\n");
+      expect(fs.readFileSync(`${file}.1`, "utf8")).toBe("line-three-xx\n");
+      expect(fs.readFileSync(`${file}.2`, "utf8")).toBe("line-two-xxxx\n");
+      expect(fs.existsSync(`${file}.3`)).toBe(false);
+    } finally {
+      sink.close();
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("logging runtime", () => {
+  afterEach(() => {
+    loggingRuntime.configure({});
+  });
+
+  it("falls back to the console when the log file cannot be written", () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "wishmock-log-"));
+    const errors: string[] = [];
+    const lines: string[] = [];
+    const { error, log } = console;
+    console.error = (line: string) => errors.push(line);
+    console.log = (line: string) => lines.push(line);
+    try {
+      // A directory cannot be opened for appending
+      loggingRuntime.configure({ file: dir });
+      loggingRuntime.info("first");
+      loggingRuntime.info("second");
+    } finally {
+      Object.assign(console, { error, log });
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toContain(`cannot write log file ${dir}`);
+    expect(lines).toEqual(["[wishmock] first", "[wishmock] second"]);
+  });
+});
+
+describe("access log", () => {
+  const requestType = new protobuf.Type("LoginRequest")
+    .add(new protobuf.Field("user", 1, "string"))
+    .add(new protobuf.Field("password", 2, "string"));
+  const responseType = new protobuf.Type("LoginReply").add(new protobuf.Field("token", 1, "string"));
+  const rulesIndex = new Map<string, RuleDoc>([
+    ["auth.auth.login", { responses: [{ body: { token: "secret-token" } }] }],
+  ]);
+  const call: NormalizedRequest = {
+    service: "auth.Auth",
+    method: "Login",
+    metadata: { "x-wishmock-session": "run-1" },
+    data: { user: "ada", password: "hunter2" },
+    requestType,
+    responseType,
+    requestStream: false,
+    responseStream: false,
+    protocol: "grpc",
+    peer: "ipv4:127.0.0.1:52344",
+  };
+  const capture = () => {
+    const entries: AccessLogEntry[] = [];
+    const logger: Logger = { ...toLogger(() => {}), access: (entry) => entries.push(entry) };
+    return { entries, logger };
+  };
+
+  afterEach(() => {
+    loggingRuntime.configure({});
+  });
+
+  it("writes one entry per call through the call's logger, without bodies by default", async () => {
+    const { entries, logger } = capture();
+    await handleUnaryRequest(call, rulesIndex, logger);
+    await handleUnaryRequest({ ...call, method: "Logout" }, rulesIndex, logger);
+
+    expect(entries).toHaveLength(2);
+    expect(entries[0]).toMatchObject({
+      protocol: "grpc",
+      peer: "ipv4:127.0.0.1:52344",
+      service: "auth.Auth",
+      method: "Login",
+      status: "OK",
+      rule_key: "auth.auth.login",
+      response_index: 0,
+      proxied: false,
+      session: "run-1",
+    });
+    expect(entries[0].latency_ms).toBeGreaterThanOrEqual(0);
+    expect(entries[0].request).toBeUndefined();
+    expect(entries[1]).toMatchObject({ method: "Logout", status: "UNIMPLEMENTED", rule_key: null });
+  });
+
+  it("includes redacted bodies when enabled and can be turned off", async () => {
+    loggingRuntime.configure({ accessBodies: true, redactKeys: ["password", "token"] });
+    const first = capture();
+    await handleUnaryRequest(call, rulesIndex, first.logger);
+    expect(first.entries[0].request).toEqual({ user: "ada", password: "[REDACTED]" });
+    expect(first.entries[0].response).toEqual({ token: "[REDACTED]" });
+
+    loggingRuntime.configure({ access: false });
+    const second = capture();
+    await handleUnaryRequest(call, rulesIndex, second.logger);
+    expect(second.entries).toHaveLength(0);
+  });
+
+  it("reads its settings from the environment", () => {
+    const saved = { ...process.env };
+    try {
+      Object.assign(process.env, { LOG_LEVEL: "warn", LOG_FORMAT: "json", ACCESS_LOG_BODIES: "true", LOG_FILE_MAX_SIZE: "1m" });
+      loggingRuntime.configureFromEnv();
+      expect(loggingRuntime.getInfo()).toEqual({
+        level: "warn",
+        format: "json",
+        file: undefined,
+        access_log: true,
+        access_log_bodies: true,
+      });
+    } finally {
+      for (const key of ["LOG_LEVEL", "LOG_FORMAT", "ACCESS_LOG_BODIES", "LOG_FILE_MAX_SIZE"]) delete process.env[key];
+      Object.assign(process.env, saved);
+    }
+  });
+});
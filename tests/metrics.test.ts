@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeEach, afterAll } from "bun:test";
+import protobuf from "protobufjs";
+import { sharedMetrics } from "../src/domain/metrics/sharedMetrics.js";
+import { renderMetrics, type MetricFamily } from "../src/domain/metrics/exposition.js";
+import { handleUnaryRequest, handleServerStreamingRequest } from "../src/domain/usecases/handleRequest.js";
+import type { NormalizedRequest } from "../src/domain/types/normalized.js";
+import type { RuleDoc } from "../src/domain/types.js";
+import { createAdminApp } from "../src/interfaces/httpAdmin.js";
+
+describe("renderMetrics", () => {
+  const families: MetricFamily[] = [
+    {
+      name: "demo_requests_total",
+      help: "Requests.",
+      type: "counter",
+      samples: [{ labels: { method: 'Say"Hi"\n' }, value: 3 }],
+    },
+    {
+      name: "demo_duration_seconds",
+      help: "Latency.",
+      type: "histogram",
+      bounds: [0.1, 1],
+      samples: [{ labels: { method: "A" }, buckets: [2, 1], sum: 0.9, count: 4 }],
+    },
+  ];
+
+  it("renders counters and cumulative histogram buckets in the Prometheus format", () => {
+    expect(renderMetrics(families)).toBe([
+      "# HELP demo_requests_total Requests.",
+      "# TYPE demo_requests_total counter",
+      'demo_requests_total{method="Say\\"Hi\\"\\n"} 3',
+      "# HELP demo_duration_seconds Latency.",
+      "# TYPE demo_duration_seconds histogram",
+      'demo_duration_seconds_bucket{method="A",le="0.1"} 2',
+      'demo_duration_seconds_bucket{method="A",le="1"} 3',
+      'demo_duration_seconds_bucket{method="A",le="+Inf"} 4',
+      'demo_duration_seconds_sum{method="A"} 0.9',
+      'demo_duration_seconds_count{method="A"} 4',
+      "",
+    ].join("\n"));
+  });
+
+  it("names counter families without _total and ends with # EOF in OpenMetrics", () => {
+    const text = renderMetrics(families, true);
+    expect(text).toContain("# TYPE demo_requests counter\n");
+    expect(text).toContain('demo_requests_total{method="Say\\"Hi\\"\\n"} 3');
+    expect(text.endsWith("# EOF\n")).toBe(true);
+  });
+});
+
+describe("/metrics", () => {
+  const requestType = new protobuf.Type("HelloRequest").add(new protobuf.Field("name", 1, "string"));
+  const responseType = new protobuf.Type("HelloReply").add(new protobuf.Field("message", 1, "string"));
+  const rulesIndex = new Map<string, RuleDoc>([
+    ["helloworld.greeter.sayhello", { responses: [{ body: { message: "hi" } }] }],
+    ["helloworld.greeter.sayhellostream", { responses: [{ stream_items: [{ message: "a" }, { message: "b" }] }] }],
+  ]);
+  const request = (method: string, responseStream = false): NormalizedRequest => ({
+    service: "helloworld.Greeter",
+    method,
+    metadata: {},
+    data: { name: "Ada" },
+    requestType,
+    responseType,
+    requestStream: false,
+    responseStream,
+    protocol: "connect",
+  });
+
+  let server: any;
+  const scrape = async (accept?: string) => {
+    const res = await fetch(`http://127.0.0.1:${server.address().port}/metrics`, { headers: accept ? { accept } : {} });
+    return { contentType: res.headers.get("content-type"), text: await res.text() };
+  };
+
+  beforeEach(async () => {
+    sharedMetrics.reset();
+    if (!server) {
+      server = createAdminApp({
+        httpPort: 0,
+        protoDir: "protos",
+        ruleDir: "rules/grpc",
+        uploadsDir: "uploads",
+        getStatus: () => ({}) as any,
+        listServices: () => ({ services: [] }),
+        getSchema: () => null,
+        onRuleUpdated: () => {},
+      });
+      await new Promise((resolve) => server.once("listening", resolve));
+    }
+  });
+
+  afterAll(() => {
+    server?.close();
+  });
+
+  it("exposes labeled request counters, latency histograms and rule hits/misses", async () => {
+    await handleUnaryRequest(request("SayHello"), rulesIndex, () => {});
+    await handleUnaryRequest(request("SayGoodbye"), rulesIndex, () => {});
+    sharedMetrics.recordReload("rules", true);
+
+    const { contentType, text } = await scrape();
+    expect(contentType).toMatch(/^text\/plain;.*version=0.0.4/);
+    expect(text).toContain('wishmock_requests_total{protocol="connect",service="helloworld.Greeter",method="SayHello",code="OK"} 1');
+    expect(text).toContain('wishmock_requests_total{protocol="connect",service="helloworld.Greeter",method="SayGoodbye",code="UNIMPLEMENTED"} 1');
+    expect(text).toContain('wishmock_request_duration_seconds_bucket{protocol="connect",service="helloworld.Greeter",method="SayHello",le="+Inf"} 1');
+    expect(text).toContain('wishmock_request_duration_seconds_count{protocol="connect",service="helloworld.Greeter",method="SayHello"} 1');
+    expect(text).toContain('wishmock_rule_matches_total{rule="helloworld.greeter.sayhello",result="hit"} 1');
+    expect(text).toContain('wishmock_rule_matches_total{rule="helloworld.greeter.saygoodbye",result="miss"} 1');
+    expect(text).toContain('wishmock_reloads_total{kind="rules",result="success"} 1');
+  });
+
+  it("counts streamed messages and serves OpenMetrics on request", async () => {
+    for await (const _ of handleServerStreamingRequest(request("SayHelloStream", true), rulesIndex, () => {})) {
+      // drain
+    }
+
+    const { contentType, text } = await scrape("application/openmetrics-text; version=1.0.0");
+    expect(contentType).toContain("application/openmetrics-text");
+    expect(text).toContain('wishmock_stream_messages_total{service="helloworld.Greeter",method="SayHelloStream",direction="sent"} 2');
+    expect(text).toContain("# TYPE wishmock_stream_messages counter");
+    expect(text.endsWith("# EOF\n")).toBe(true);
+  });
+});
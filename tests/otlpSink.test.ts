@@ -0,0 +1,198 @@
+import { describe, it, expect, beforeEach, afterAll } from "bun:test";
+import * as grpc from "@grpc/grpc-js";
+import { TelemetryStore } from "../src/domain/otlp/telemetryStore.js";
+import { decodeExportRequest, encodeExportRequest, OTLP_EXPORT_PATHS } from "../src/infrastructure/otlp/schema.js";
+import { createWishmock, type Wishmock } from "../src/wishmock.js";
+
+const TRACE_ID = "4bf92f3577b34da6a3ce929d0e0e4736";
+const SPAN_ID = "00f067aa0ba902b7";
+
+const str = (key: string, value: string) => ({ key, value: { stringValue: value } });
+
+const traces = (service: string, spanName: string, attributes: object[] = []) => ({
+  resourceSpans: [{
+    resource: { attributes: [str("service.name", service)] },
+    scopeSpans: [{
+      scope: { name: "checkout-instrumentation", version: "1.0.0" },
+      spans: [{
+        traceId: TRACE_ID,
+        spanId: SPAN_ID,
+        name: spanName,
+        kind: 2,
+        startTimeUnixNano: "1700000000000000000",
+        endTimeUnixNano: "1700000000250000000",
+        attributes,
+        status: { code: 2, message: "boom" },
+      }],
+    }],
+  }],
+});
+
+const metrics = {
+  resourceMetrics: [{
+    resource: { attributes: [str("service.name", "checkout")] },
+    scopeMetrics: [{
+      metrics: [{
+        name: "orders_total",
+        unit: "1",
+        sum: {
+          aggregationTemporality: 2,
+          isMonotonic: true,
+          dataPoints: [{ attributes: [str("region", "eu")], timeUnixNano: "1700000000000000000", asInt: "7" }],
+        },
+      }],
+    }],
+  }],
+};
+
+const logs = {
+  resourceLogs: [{
+    resource: { attributes: [str("service.name", "checkout")] },
+    scopeLogs: [{
+      logRecords: [
+        { severityNumber: 17, severityText: "ERROR", body: { stringValue: "payment declined" }, traceId: TRACE_ID, spanId: SPAN_ID },
+        { severityNumber: 9, severityText: "INFO", body: { stringValue: "order placed" } },
+      ],
+    }],
+  }],
+};
+
+describe("TelemetryStore", () => {
+  it("flattens spans, metrics and logs and filters them by name, trace and attributes", () => {
+    const store = new TelemetryStore();
+    expect(store.ingest("traces", traces("checkout", "PlaceOrder", [str("http.route", "/orders")]))).toBe(1);
+    store.ingest("traces", traces("billing", "Charge"));
+    store.ingest("metrics", metrics);
+    store.ingest("logs", logs);
+
+    const [span] = store.findSpans({ attributes: { "service.name": "checkout" } });
+    expect(span).toMatchObject({
+      trace_id: TRACE_ID,
+      span_id: SPAN_ID,
+      name: "PlaceOrder",
+      duration_ms: 250,
+      resource: { "service.name": "checkout" },
+      scope: { name: "checkout-instrumentation", version: "1.0.0" },
+      attributes: { "http.route": "/orders" },
+      status: { code: 2, message: "boom" },
+    });
+    expect(store.findSpans({ name: "Charge" })).toHaveLength(1);
+    expect(store.findSpans({ trace_id: TRACE_ID.toUpperCase() })).toHaveLength(2);
+    expect(store.findSpans({ limit: 1 })[0].name).toBe("Charge");
+
+    const [metric] = store.findMetrics({ name: "orders_total", attributes: { region: "eu" } });
+    expect(metric).toMatchObject({ type: "sum", is_monotonic: true, data_points: [{ as_int: "7", attributes: { region: "eu" } }] });
+    expect(store.findMetrics({ attributes: { region: "us" } })).toHaveLength(0);
+
+    expect(store.findLogs({ severity_text: "error" }).map((l) => l.body)).toEqual(["payment declined"]);
+    expect(store.counts()).toEqual({ spans: 2, metrics: 1, logs: 2 });
+  });
+
+  it("keeps the newest records up to its capacity", () => {
+    const store = new TelemetryStore(2);
+    for (const name of ["a", "b", "c"]) store.ingest("traces", traces("checkout", name));
+    expect(store.findSpans().map((s) => s.name)).toEqual(["b", "c"]);
+    store.clear("traces");
+    expect(store.counts().spans).toBe(0);
+    expect(() => store.ingest("traces", "nope")).toThrow();
+  });
+
+  it("round-trips Export requests through the protobuf encoding", () => {
+    const decoded = decodeExportRequest("traces", encodeExportRequest("traces", traces("checkout", "PlaceOrder"))) as any;
+    const span = decoded.resourceSpans[0].scopeSpans[0].spans[0];
+    expect(span.traceId).toBe(TRACE_ID);
+    expect(span.spanId).toBe(SPAN_ID);
+    expect(span.startTimeUnixNano).toBe("1700000000000000000");
+  });
+});
+
+const quiet = { log: () => {}, errorLog: () => {} };
+
+describe("OTLP sink", () => {
+  let mock: Wishmock;
+  let ports: Awaited<ReturnType<Wishmock["start"]>>;
+
+  const admin = (path: string, init?: RequestInit) => fetch(`http://127.0.0.1:${ports.http}${path}`, init);
+
+  beforeEach(async () => {
+    if (!mock) {
+      mock = createWishmock({ ...quiet, protoDirs: ["protos"], rules: [], connectPort: false, otlpSink: true });
+      ports = await mock.start();
+    }
+    await admin("/admin/otlp", { method: "DELETE" });
+  });
+
+  afterAll(async () => {
+    await mock?.stop();
+  });
+
+  it("accepts gRPC exports on the mock's gRPC port", async () => {
+    const client = new grpc.Client(`127.0.0.1:${ports.grpc}`, grpc.credentials.createInsecure());
+    const raw = (b: Buffer) => b;
+    const payload = Buffer.from(encodeExportRequest("logs", logs));
+    try {
+      await new Promise<void>((resolve, reject) =>
+        client.makeUnaryRequest(OTLP_EXPORT_PATHS.logs, raw, raw, payload, (e) => (e ? reject(e) : resolve()))
+      );
+      const code = await new Promise<number>((resolve) =>
+        client.makeUnaryRequest(OTLP_EXPORT_PATHS.traces, raw, raw, Buffer.from([0xff, 0xff]), (e) => resolve(e?.code ?? 0))
+      );
+      expect(code).toBe(grpc.status.INVALID_ARGUMENT);
+    } finally {
+      client.close();
+    }
+
+    const body = await (await admin("/admin/otlp/logs?severity_text=ERROR")).json();
+    expect(body.count).toBe(1);
+    expect(body.logs[0]).toMatchObject({ body: "payment declined", trace_id: TRACE_ID, resource: { "service.name": "checkout" } });
+  }, 30000);
+
+  it("accepts OTLP/HTTP exports as JSON and protobuf and serves them to the admin API", async () => {
+    const json = await admin("/v1/traces", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify(traces("checkout", "PlaceOrder")),
+    });
+    expect(json.status).toBe(200);
+    expect(await json.json()).toEqual({});
+
+    const proto = await admin("/v1/metrics", {
+      method: "POST",
+      headers: { "content-type": "application/x-protobuf" },
+      body: new Uint8Array(encodeExportRequest("metrics", metrics)),
+    });
+    expect(proto.status).toBe(200);
+    expect(proto.headers.get("content-type")).toContain("application/x-protobuf");
+
+    const bad = await admin("/v1/logs", { method: "POST", headers: { "content-type": "application/json" }, body: "[]" });
+    expect(bad.status).toBe(400);
+
+    const spans = await (await admin("/admin/otlp/spans?service.name=checkout&name=PlaceOrder")).json();
+    expect(spans.count).toBe(1);
+    expect(spans.spans[0]).toMatchObject({ trace_id: TRACE_ID, name: "PlaceOrder" });
+    expect((await (await admin("/admin/otlp/metrics?region=eu")).json()).metrics[0].name).toBe("orders_total");
+    expect((await admin("/admin/otlp/spans?limit=-1")).status).toBe(400);
+    expect((await admin("/admin/otlp/events")).status).toBe(404);
+
+    expect(await (await admin("/admin/otlp")).json()).toMatchObject({ enabled: true, spans: 1, metrics: 1, logs: 0 });
+    expect((await (await admin("/admin/status")).json()).otlp_sink).toMatchObject({ enabled: true, spans: 1 });
+    expect((await admin("/admin/otlp/spans", { method: "DELETE" })).status).toBe(200);
+    expect(await (await admin("/admin/otlp")).json()).toMatchObject({ spans: 0, metrics: 1 });
+  }, 30000);
+
+  it("answers 404 on the OTLP/HTTP paths while disabled", async () => {
+    const plain = createWishmock({ ...quiet, protoDirs: ["protos"], rules: [], connectPort: false });
+    const { http } = await plain.start();
+    try {
+      const res = await fetch(`http://127.0.0.1:${http}/v1/traces`, {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: "{}",
+      });
+      expect(res.status).toBe(404);
+      expect((await (await fetch(`http://127.0.0.1:${http}/admin/status`)).json()).otlp_sink.enabled).toBe(false);
+    } finally {
+      await plain.stop();
+    }
+  }, 30000);
+});
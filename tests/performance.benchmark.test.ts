@@ -93,7 +93,6 @@ describeBenchmark("Performance Benchmarks", () => {
         protoRoot,
         rulesIndex,
         logger: () => { }, // Silent logger for benchmarks
-        errorLogger: () => { },
       });
       await connectServer.start();
       console.log(`Connect server started on port ${connectPort}`);
@@ -107,7 +106,6 @@ describeBenchmark("Performance Benchmarks", () => {
         protoRoot,
         rulesIndex,
         () => { }, // Silent logger for benchmarks
-        () => { }, // Silent error logger
         { protoDir: path.join(process.cwd(), "protos") }
       );
 
@@ -16,4 +16,28 @@ describe("protoLoader", () => {
       fs.rmSync(tmpDir, { recursive: true, force: true });
     }
   });
+
+  it("loads each directory and resolves imports across them", async () => {
+    const shared = fs.mkdtempSync(path.join(os.tmpdir(), "wishmock-shared-protos-"));
+    const service = fs.mkdtempSync(path.join(os.tmpdir(), "wishmock-service-protos-"));
+    try {
+      fs.mkdirSync(path.join(shared, "common"));
+      fs.writeFileSync(path.join(shared, "common", "money.proto"), 'syntax = "proto3";\npackage common;\nmessage Money { int64 cents = 1; }\n');
+      fs.writeFileSync(path.join(service, "shop.proto"), [
+        'syntax = "proto3";',
+        'package shop;',
+        'import "common/money.proto";',
+        'message PriceRequest { string sku = 1; }',
+        'service Prices { rpc Get (PriceRequest) returns (common.Money); }',
+      ].join("\n"));
+
+      const { root, report } = await loadProtos([service, shared]);
+      expect(report).toEqual([{ file: "shop.proto", status: "loaded" }]);
+      expect(root.lookupService("shop.Prices")).toBeTruthy();
+      expect(root.lookupType("common.Money")).toBeTruthy();
+    } finally {
+      fs.rmSync(shared, { recursive: true, force: true });
+      fs.rmSync(service, { recursive: true, force: true });
+    }
+  });
 });
@@ -73,6 +73,17 @@ describe('Protocol Adapter - Metadata Extraction', () => {
     expect(metadata['x-single']).toBe('single-value');
   });
 
+  test('should keep only the first x-wishmock-session value', () => {
+    const context: ConnectContext = {
+      requestHeader: { 'X-Wishmock-Session': ['run-1', 'run-2'] },
+      responseHeader: {},
+      responseTrailer: {},
+      protocol: 'connect',
+    };
+
+    expect(extractMetadata(context)['x-wishmock-session']).toBe('run-1');
+  });
+
   test('should skip pseudo-headers', () => {
     const context: ConnectContext = {
       requestHeader: {
@@ -699,6 +710,15 @@ describe('Protocol Adapter - gRPC Metadata Extraction', () => {
     expect(extracted['x-boolean']).toBe('true');
   });
 
+  test('should encode binary values as base64', () => {
+    const metadata = new grpc.Metadata();
+    metadata.set('grpc-trace-bin', Buffer.from([0, 1, 2, 255]));
+
+    const extracted = extractGrpcMetadata(metadata);
+
+    expect(extracted['grpc-trace-bin']).toBe('AAEC/w==');
+  });
+
   test('should handle multiple values for same key', () => {
     const metadata = new grpc.Metadata();
     metadata.add('x-tags', 'tag1');
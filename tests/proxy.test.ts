@@ -0,0 +1,312 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from "bun:test";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import http from "http";
+import yaml from "js-yaml";
+import * as grpc from "@grpc/grpc-js";
+import protobuf from "protobufjs";
+import { handleUnaryRequest, handleServerStreamingRequest } from "../src/domain/usecases/handleRequest.js";
+import { runtime as proxyRuntime } from "../src/infrastructure/proxy/runtime.js";
+import { buildRecordedResponse, writeRecording } from "../src/infrastructure/proxy/recorder.js";
+import { loadRules } from "../src/infrastructure/ruleLoader.js";
+import { runtime as validationRuntime } from "../src/infrastructure/validation/runtime.js";
+import type { RuleDoc } from "../src/domain/types.js";
+import type { NormalizedRequest, NormalizedResponse, NormalizedError } from "../src/domain/types/normalized.js";
+
+const reqType = new protobuf.Type("HelloRequest").add(new protobuf.Field("name", 1, "string"));
+const resType = new protobuf.Type("HelloReply").add(new protobuf.Field("message", 1, "string"));
+const logger = () => {};
+
+const call = (method: string, name: string, responseStream = false): NormalizedRequest => ({
+  service: "test.Greeter",
+  method,
+  metadata: { "x-tenant": "acme", "user-agent": "tests" },
+  data: { name },
+  requestType: reqType,
+  responseType: resType,
+  requestStream: false,
+  responseStream,
+});
+
+function setProxyEnv(env: Record<string, string | undefined>) {
+  for (const key of ["PROXY_TARGET", "PROXY_PROTOCOL", "PROXY_RECORD", "PROXY_RECORD_METADATA", "PROXY_TIMEOUT_MS"]) {
+    if (env[key] === undefined) delete process.env[key];
+    else process.env[key] = env[key];
+  }
+  proxyRuntime.configureFromEnv();
+}
+
+describe("proxy recorder", () => {
+  const base = {
+    service: "test.Greeter",
+    method: "SayHello",
+    metadata: { "x-tenant": "acme" },
+    responseStream: false,
+    messages: [{ message: "hi" }],
+    status: { code: 0, message: "", headers: {}, trailers: { "x-upstream": "1" } },
+  };
+
+  it("turns the request into when conditions", () => {
+    const entry = buildRecordedResponse({ ...base, request: { name: "Tom", tags: ["a"] } }, ["x-tenant"]);
+    expect(entry).toEqual({
+      when: { "request.name": "Tom", "request.tags.0": "a", "metadata.x-tenant": "acme" },
+      body: { message: "hi" },
+      trailers: { "grpc-status": "0", "x-upstream": "1" },
+    });
+  });
+
+  it("keeps upstream initial metadata as response headers", () => {
+    const status = { ...base.status, headers: { "x-request-id": "abc" } };
+    expect(buildRecordedResponse({ ...base, request: {}, status }).headers).toEqual({ "x-request-id": "abc" });
+  });
+
+  it("records an empty request as a fallback and replaces repeated recordings", () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "wishmock-rec-"));
+    try {
+      writeRecording(dir, { ...base, request: {} });
+      writeRecording(dir, { ...base, request: { name: "Tom" } });
+      const file = writeRecording(dir, { ...base, request: { name: "Tom" }, messages: [{ message: "again" }] });
+      expect(path.basename(file)).toBe("test.greeter.sayhello.yaml");
+      const doc = yaml.load(fs.readFileSync(file, "utf8")) as RuleDoc;
+      expect(doc.responses).toHaveLength(2);
+      expect(doc.responses![0].when).toBeUndefined();
+      expect(doc.responses![1].body).toEqual({ message: "again" });
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("proxy mode against a gRPC upstream", () => {
+  let upstream: grpc.Server;
+  let target: string;
+  let dir: string;
+  let upstreamCalls = 0;
+  let seenTenant: string | undefined;
+  let upstreamCancelled: () => void = () => {};
+
+  const codec = (t: protobuf.Type) => ({
+    serialize: (msg: any) => Buffer.from(t.encode(t.fromObject(msg)).finish()),
+    deserialize: (buf: Buffer) => t.toObject(t.decode(buf)),
+  });
+
+  beforeAll(async () => {
+    const req = codec(reqType);
+    const res = codec(resType);
+    const def = (name: string, responseStream: boolean) => ({
+      path: `/test.Greeter/${name}`,
+      requestStream: false,
+      responseStream,
+      requestSerialize: req.serialize,
+      requestDeserialize: req.deserialize,
+      responseSerialize: res.serialize,
+      responseDeserialize: res.deserialize,
+    });
+    upstream = new grpc.Server();
+    upstream.addService({ SayHello: def("SayHello", false), ListGreetings: def("ListGreetings", true) } as any, {
+      SayHello: (c: any, cb: any) => {
+        upstreamCalls++;
+        seenTenant = c.metadata.get("x-tenant")[0];
+        if (c.request.name === "missing") {
+          cb({ code: grpc.status.NOT_FOUND, details: "no such user" });
+          return;
+        }
+        const trailer = new grpc.Metadata();
+        trailer.set("x-upstream", "real");
+        cb(null, { message: `Hello ${c.request.name}` }, trailer);
+      },
+      ListGreetings: (c: any) => {
+        if (c.request.name === "endless") {
+          // Never ends on its own; only a cancel from the proxy stops it
+          c.write({ message: "first" });
+          c.write({ message: "second" });
+          c.on("cancelled", () => upstreamCancelled());
+          return;
+        }
+        for (let i = 1; i <= 3; i++) c.write({ message: `${c.request.name} #${i}` });
+        c.end();
+      },
+    });
+    const port = await new Promise<number>((resolve, reject) =>
+      upstream.bindAsync("127.0.0.1:0", grpc.ServerCredentials.createInsecure(), (e, p) => (e ? reject(e) : resolve(p)))
+    );
+    target = `127.0.0.1:${port}`;
+    process.env.VALIDATION_ENABLED = "false";
+    validationRuntime.configureFromEnv();
+  });
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "wishmock-proxy-"));
+    proxyRuntime.setRecordDir(dir);
+    setProxyEnv({ PROXY_TARGET: target, PROXY_RECORD: "true", PROXY_RECORD_METADATA: "x-tenant" });
+    upstreamCalls = 0;
+  });
+
+  afterAll(() => {
+    setProxyEnv({});
+    proxyRuntime.setRecordDir("rules/grpc");
+    upstream.forceShutdown();
+    if (dir) fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("forwards unmatched unary calls and replays the recording", async () => {
+    const res = await handleUnaryRequest(call("SayHello", "Tom"), new Map(), logger) as NormalizedResponse;
+    expect(res.data).toEqual({ message: "Hello Tom" });
+    expect(res.trailer).toEqual({ "x-upstream": "real" });
+    expect(seenTenant).toBe("acme");
+
+    const rules = loadRules(dir);
+    const doc = rules.get("test.greeter.sayhello")!;
+    expect(doc.responses![0]).toMatchObject({
+      when: { "request.name": "Tom", "metadata.x-tenant": "acme" },
+      body: { message: "Hello Tom" },
+      trailers: { "grpc-status": "0", "x-upstream": "real" },
+    });
+
+    const replayed = await handleUnaryRequest(call("SayHello", "Tom"), rules, logger) as NormalizedResponse;
+    expect(replayed.data).toEqual({ message: "Hello Tom" });
+    expect(upstreamCalls).toBe(1);
+
+    // A request the recording does not cover still goes upstream
+    await handleUnaryRequest(call("SayHello", "Ann"), rules, logger);
+    expect(upstreamCalls).toBe(2);
+    expect(loadRules(dir).get("test.greeter.sayhello")!.responses).toHaveLength(2);
+  });
+
+  it("relays and records upstream errors", async () => {
+    const res = await handleUnaryRequest(call("SayHello", "missing"), new Map(), logger) as NormalizedError;
+    expect(res).toEqual({ code: "NOT_FOUND", message: "no such user" });
+    const doc = loadRules(dir).get("test.greeter.sayhello")!;
+    expect(doc.responses![0].trailers).toMatchObject({ "grpc-status": "5", "grpc-message": "no such user" });
+  });
+
+  it("forwards server streaming calls and records stream_items", async () => {
+    const items: any[] = [];
+    for await (const r of handleServerStreamingRequest(call("ListGreetings", "Bo", true), new Map(), logger)) {
+      items.push((r as NormalizedResponse).data);
+    }
+    expect(items.map((i) => i.message)).toEqual(["Bo #1", "Bo #2", "Bo #3"]);
+    const doc = loadRules(dir).get("test.greeter.listgreetings")!;
+    expect(doc.responses![0].stream_items).toHaveLength(3);
+  });
+
+  it("cancels the upstream stream when the downstream client goes away", async () => {
+    const cancelled = new Promise<void>((resolve) => (upstreamCancelled = resolve));
+    for await (const r of handleServerStreamingRequest(call("ListGreetings", "endless", true), new Map(), logger)) {
+      expect((r as NormalizedResponse).data).toEqual({ message: "first" });
+      break;
+    }
+    await cancelled;
+    expect(fs.readdirSync(dir)).toEqual([]);
+  }, 10000);
+
+  it("reports a failed recording to the logger of the call", async () => {
+    const file = path.join(dir, "not-a-dir");
+    fs.writeFileSync(file, "");
+    proxyRuntime.setRecordDir(file);
+    const errors: string[] = [];
+    const callLogger = { debug() {}, info() {}, warn() {}, access() {}, error: (...a: unknown[]) => errors.push(a.join(" ")) };
+    const res = await handleUnaryRequest(call("SayHello", "Tom"), new Map(), callLogger) as NormalizedResponse;
+    expect(res.data).toEqual({ message: "Hello Tom" });
+    expect(errors.some((e) => e.startsWith("[proxy] failed to record test.Greeter/SayHello:"))).toBe(true);
+  });
+
+  it("does not record when recording is off", async () => {
+    setProxyEnv({ PROXY_TARGET: target });
+    const res = await handleUnaryRequest(call("SayHello", "Tom"), new Map(), logger) as NormalizedResponse;
+    expect(res.data).toEqual({ message: "Hello Tom" });
+    expect(fs.readdirSync(dir)).toEqual([]);
+  });
+
+  it("reports an unreachable upstream without recording it", async () => {
+    setProxyEnv({ PROXY_TARGET: "127.0.0.1:1", PROXY_RECORD: "true" });
+    const res = await handleUnaryRequest(call("SayHello", "Tom"), new Map(), logger) as NormalizedError;
+    expect(res.code).toBe("UNAVAILABLE");
+    expect(fs.readdirSync(dir)).toEqual([]);
+  });
+});
+
+describe("proxy mode against a Connect upstream", () => {
+  let upstream: http.Server;
+  let dir: string;
+  let target: string;
+
+  const frame = (payload: string) => {
+    const head = Buffer.alloc(5);
+    head.writeUInt32BE(Buffer.byteLength(payload), 1);
+    return Buffer.concat([head, Buffer.from(payload)]);
+  };
+
+  beforeAll(async () => {
+    upstream = http.createServer((req, res) => {
+      const chunks: Buffer[] = [];
+      req.on("data", (c) => chunks.push(c));
+      req.on("end", () => {
+        if (req.url === "/test.Greeter/ListGreetings") {
+          const { name } = JSON.parse(Buffer.concat(chunks).subarray(5).toString());
+          res.writeHead(200, { "content-type": "application/connect+json" });
+          res.write(frame(JSON.stringify({ message: `${name} #1` })));
+          // "slow" never ends the stream, so the proxy timeout fires mid-stream
+          if (name === "broken") res.end(frame("{not json"));
+          return;
+        }
+        const { name } = JSON.parse(Buffer.concat(chunks).toString() || "{}");
+        if (req.url !== "/test.Greeter/SayHello" || name === "missing") {
+          res.writeHead(404, { "content-type": "application/json" });
+          res.end(JSON.stringify({ code: "not_found", message: "nope" }));
+          return;
+        }
+        res.writeHead(200, { "content-type": "application/json", "trailer-x-upstream": "connect" });
+        res.end(JSON.stringify({ message: `Hi ${name}` }));
+      });
+    });
+    await new Promise<void>((resolve) => upstream.listen(0, "127.0.0.1", resolve));
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "wishmock-proxy-connect-"));
+    proxyRuntime.setRecordDir(dir);
+    const { port } = upstream.address() as any;
+    target = `http://127.0.0.1:${port}`;
+    setProxyEnv({ PROXY_TARGET: target, PROXY_PROTOCOL: "connect", PROXY_RECORD: "true" });
+  });
+
+  afterAll(() => {
+    setProxyEnv({});
+    proxyRuntime.setRecordDir("rules/grpc");
+    upstream.closeAllConnections();
+    upstream.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("forwards unary calls with the Connect JSON codec", async () => {
+    const res = await handleUnaryRequest(call("SayHello", "Tom"), new Map(), logger) as NormalizedResponse;
+    expect(res.data).toEqual({ message: "Hi Tom" });
+    expect(res.trailer).toEqual({ "x-upstream": "connect" });
+
+    const err = await handleUnaryRequest(call("SayHello", "missing"), new Map(), logger) as NormalizedError;
+    expect(err.code).toBe("NOT_FOUND");
+
+    const doc = loadRules(dir).get("test.greeter.sayhello")!;
+    expect(doc.responses).toHaveLength(2);
+  });
+
+  it("ends streams with a status on malformed envelopes and mid-stream timeouts", async () => {
+    const collect = async (name: string) => {
+      const out: Array<NormalizedResponse | NormalizedError> = [];
+      for await (const r of handleServerStreamingRequest(call("ListGreetings", name, true), new Map(), logger)) out.push(r);
+      return out;
+    };
+
+    let out = await collect("broken");
+    expect((out[0] as NormalizedResponse).data).toEqual({ message: "broken #1" });
+    expect((out[1] as NormalizedError).code).toBe("INTERNAL");
+
+    setProxyEnv({ PROXY_TARGET: target, PROXY_PROTOCOL: "connect", PROXY_TIMEOUT_MS: "300" });
+    try {
+      out = await collect("slow");
+    } finally {
+      setProxyEnv({ PROXY_TARGET: target, PROXY_PROTOCOL: "connect", PROXY_RECORD: "true" });
+    }
+    expect((out[0] as NormalizedResponse).data).toEqual({ message: "slow #1" });
+    expect((out[1] as NormalizedError).code).toBe("DEADLINE_EXCEEDED");
+  });
+});
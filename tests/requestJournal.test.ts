@@ -0,0 +1,216 @@
+import { describe, it, expect, beforeEach, beforeAll, afterAll } from "bun:test";
+import protobuf from "protobufjs";
+import { RequestJournal, requestJournal } from "../src/domain/journal/requestJournal.js";
+import { handleUnaryRequest, handleClientStreamingRequest } from "../src/domain/usecases/handleRequest.js";
+import { createConnectServer, type ConnectServer } from "../src/infrastructure/connectServer.js";
+import { createAdminApp } from "../src/interfaces/httpAdmin.js";
+import { runtime as validationRuntime } from "../src/infrastructure/validation/runtime.js";
+import type { RuleDoc } from "../src/domain/types.js";
+import type { NormalizedRequest } from "../src/domain/types/normalized.js";
+
+const entry = (service: string, method: string, request: unknown, metadata: Record<string, string> = {}) => ({
+  received_at: new Date().toISOString(),
+  service,
+  method,
+  metadata,
+  request,
+  rule_key: null,
+  response_index: null,
+  proxied: false,
+  status: "OK",
+  latency_ms: 1,
+});
+
+describe("RequestJournal", () => {
+  let journal: RequestJournal;
+
+  beforeEach(() => {
+    journal = new RequestJournal(3);
+  });
+
+  it("drops the oldest entries once full", () => {
+    for (const name of ["a", "b", "c", "d"]) journal.record(entry("helloworld.Greeter", "SayHello", { name }));
+    const all = journal.find();
+    expect(all.map((e) => (e.request as any).name)).toEqual(["b", "c", "d"]);
+    expect(all.map((e) => e.id)).toEqual([2, 3, 4]);
+  });
+
+  it("filters by service, method and rule operators", () => {
+    journal.record(entry("helloworld.Greeter", "SayHello", { name: "Bob", age: 30 }, { authorization: "Bearer x" }));
+    journal.record(entry("helloworld.Greeter", "SayHello", { name: "Alice", age: 17 }));
+    journal.record(entry("helloworld.Greeter", "SayGoodbye", { name: "Bob" }));
+
+    expect(journal.find({ service: "helloworld.greeter", method: "sayhello" })).toHaveLength(2);
+    expect(journal.find({ method: "SayHello", request: { name: "Bob" } })).toHaveLength(1);
+    expect(journal.find({ request: { age: { gte: 18 } } })).toHaveLength(1);
+    expect(journal.find({ request: { name: { in: ["Bob", "Alice"] } } })).toHaveLength(3);
+    expect(journal.find({ metadata: { authorization: { regex: "^Bearer " } } })).toHaveLength(1);
+    expect(journal.find({ limit: 1 })[0].method).toBe("SayGoodbye");
+  });
+
+  it("filters and clears by session", () => {
+    journal.record({ ...entry("helloworld.Greeter", "SayHello", { name: "a" }), session: "s1" });
+    journal.record(entry("helloworld.Greeter", "SayHello", { name: "b" }));
+    journal.record({ ...entry("helloworld.Greeter", "SayHello", { name: "c" }), session: "s2" });
+
+    expect(journal.find({ session: "s1" }).map((e) => (e.request as any).name)).toEqual(["a"]);
+    expect(journal.find()).toHaveLength(3);
+    journal.clear("s1");
+    expect(journal.find().map((e) => e.session)).toEqual([undefined, "s2"]);
+  });
+
+  it("records nothing when disabled", () => {
+    journal.setCapacity(0);
+    expect(journal.record(entry("s", "m", {}))).toBeUndefined();
+    expect(journal.size()).toBe(0);
+  });
+});
+
+describe("request journal from the shared handlers", () => {
+  const reqType = new protobuf.Type("HelloRequest").add(new protobuf.Field("name", 1, "string"));
+  const resType = new protobuf.Type("HelloReply").add(new protobuf.Field("message", 1, "string"));
+  const logger = () => {};
+  const rulesIndex = new Map<string, RuleDoc>([
+    ["helloworld.greeter.sayhello", {
+      responses: [
+        { when: { "request.name": "missing" }, trailers: { "grpc-status": 5, "grpc-message": "not found" } },
+        { body: { message: "hi" } },
+      ],
+    }],
+    ["helloworld.greeter.uploadhello", {
+      responses: [{ when: { "request.count": 2 }, body: { message: "two" } }],
+    }],
+  ]);
+
+  const call = (method: string, name: string, requestStream = false): NormalizedRequest => ({
+    service: "helloworld.Greeter",
+    method,
+    metadata: { "x-user": "u1" },
+    data: { name },
+    requestType: reqType,
+    responseType: resType,
+    requestStream,
+    responseStream: false,
+    protocol: "grpc",
+  });
+
+  beforeEach(() => {
+    process.env.VALIDATION_ENABLED = "false";
+    validationRuntime.configureFromEnv();
+    requestJournal.clear();
+  });
+
+  it("records rule, response index, status and latency", async () => {
+    await handleUnaryRequest(call("SayHello", "Bob"), rulesIndex, logger);
+    await handleUnaryRequest(call("SayHello", "missing"), rulesIndex, logger);
+    await handleUnaryRequest(call("SayGoodbye", "Bob"), rulesIndex, logger);
+
+    const [ok, notFound, unmatched] = requestJournal.find();
+    expect(ok).toMatchObject({
+      protocol: "grpc",
+      service: "helloworld.Greeter",
+      method: "SayHello",
+      metadata: { "x-user": "u1" },
+      request: { name: "Bob" },
+      rule_key: "helloworld.greeter.sayhello",
+      response_index: 1,
+      status: "OK",
+    });
+    expect(ok.latency_ms).toBeGreaterThanOrEqual(0);
+    expect(notFound).toMatchObject({ response_index: 0, status: "NOT_FOUND", message: "not found" });
+    expect(unmatched).toMatchObject({ rule_key: null, response_index: null, status: "UNIMPLEMENTED" });
+  });
+
+  it("records client streams as the aggregated request", async () => {
+    async function* messages() {
+      yield call("UploadHello", "a", true);
+      yield call("UploadHello", "b", true);
+    }
+    await handleClientStreamingRequest(messages(), rulesIndex, logger);
+
+    const found = requestJournal.find({ method: "UploadHello", request: { "stream.1.name": "b" } });
+    expect(found).toHaveLength(1);
+    expect(found[0]).toMatchObject({ request: { count: 2 }, response_index: 0, status: "OK" });
+  });
+});
+
+describe("request journal over Connect and the admin API", () => {
+  let connect: ConnectServer;
+  let admin: any;
+  let connectUrl: string;
+  let adminUrl: string;
+
+  beforeAll(async () => {
+    process.env.VALIDATION_ENABLED = "false";
+    validationRuntime.configureFromEnv();
+
+    const root = new protobuf.Root();
+    const ns = root.define("helloworld");
+    ns.add(new protobuf.Type("HelloRequest").add(new protobuf.Field("name", 1, "string")));
+    ns.add(new protobuf.Type("HelloReply").add(new protobuf.Field("message", 1, "string")));
+    ns.add(new protobuf.Service("Greeter").add(new protobuf.Method("SayHello", "rpc", "HelloRequest", "HelloReply")));
+
+    connect = await createConnectServer({
+      port: 0,
+      corsEnabled: false,
+      corsOrigins: [],
+      protoRoot: root,
+      rulesIndex: new Map([["helloworld.greeter.sayhello", { responses: [{ body: { message: "hi" } }] }]]),
+      logger: () => {},
+    });
+    await connect.start();
+    connectUrl = `http://127.0.0.1:${(connect.server.address() as any).port}`;
+
+    admin = createAdminApp({
+      httpPort: 0,
+      protoDir: "protos",
+      ruleDir: "rules/grpc",
+      uploadsDir: "uploads",
+      getStatus: () => ({ loaded_services: [], rules: [] }),
+      listServices: () => ({ services: [] }),
+      getSchema: () => null,
+      onRuleUpdated: () => {},
+    });
+    await new Promise((resolve) => admin.once("listening", resolve));
+    adminUrl = `http://127.0.0.1:${admin.address().port}`;
+    requestJournal.clear();
+  });
+
+  afterAll(async () => {
+    await connect?.stop();
+    admin?.close();
+    requestJournal.clear();
+  });
+
+  it("lists Connect calls and resets the journal", async () => {
+    for (const name of ["Bob", "Bob", "Ann"]) {
+      const res = await fetch(`${connectUrl}/helloworld.Greeter/SayHello`, {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ name }),
+      });
+      expect(res.status).toBe(200);
+    }
+
+    const request = encodeURIComponent(JSON.stringify({ name: "Bob" }));
+    let res = await fetch(`${adminUrl}/admin/requests?service=helloworld.Greeter&method=SayHello&request=${request}`);
+    let body = await res.json();
+    expect(body.count).toBe(2);
+    expect(body.requests[0]).toMatchObject({ protocol: "connect", rule_key: "helloworld.greeter.sayhello", status: "OK" });
+
+    res = await fetch(`${adminUrl}/admin/requests/find`, {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ request: { name: { regex: "^A" } } }),
+    });
+    body = await res.json();
+    expect(body.count).toBe(1);
+
+    res = await fetch(`${adminUrl}/admin/requests?request=not-json`);
+    expect(res.status).toBe(400);
+
+    res = await fetch(`${adminUrl}/admin/requests`, { method: "DELETE" });
+    expect(res.status).toBe(200);
+    expect(requestJournal.size()).toBe(0);
+  });
+});
@@ -0,0 +1,154 @@
+import { describe, it, expect, beforeAll, afterAll } from "bun:test";
+import * as grpc from "@grpc/grpc-js";
+import protobuf from "protobufjs";
+import { handleUnaryRequest, handleServerStreamingRequest } from "../src/domain/usecases/handleRequest.js";
+import { buildHandlersFromRoot } from "../src/infrastructure/grpcServer.js";
+import { createConnectServer, type ConnectServer } from "../src/infrastructure/connectServer.js";
+import { runtime as validationRuntime } from "../src/infrastructure/validation/runtime.js";
+import type { RuleDoc } from "../src/domain/types.js";
+import type { NormalizedRequest, NormalizedResponse } from "../src/domain/types/normalized.js";
+
+const root = new protobuf.Root();
+const ns = root.define("helloworld");
+ns.add(new protobuf.Type("HelloRequest").add(new protobuf.Field("name", 1, "string")));
+ns.add(new protobuf.Type("HelloReply").add(new protobuf.Field("message", 1, "string")));
+ns.add(new protobuf.Service("Greeter")
+  .add(new protobuf.Method("SayHello", "rpc", "HelloRequest", "HelloReply"))
+  .add(new protobuf.Method("ListGreetings", "rpc", "HelloRequest", "HelloReply", false, true)));
+const reqType = root.lookupType("helloworld.HelloRequest");
+const resType = root.lookupType("helloworld.HelloReply");
+const logger = () => {};
+
+const rulesIndex = new Map<string, RuleDoc>([
+  ["helloworld.greeter.sayhello", {
+    responses: [{
+      headers: { "x-request-id": "req-{{request.name}}", "x-session-token": "{{metadata.x-user}}-token", "x-attempt": 1 },
+      body: { message: "hi" },
+    }],
+  }],
+  ["helloworld.greeter.listgreetings", {
+    responses: [{
+      headers: { "x-request-id": "stream-{{request.name}}" },
+      stream_items: [{ message: "1" }, { message: "2" }],
+      stream_delay_ms: 1,
+    }],
+  }],
+]);
+
+const call = (method: string, responseStream = false): NormalizedRequest => ({
+  service: "helloworld.Greeter",
+  method,
+  metadata: { "x-user": "bob" },
+  data: { name: "Bob" },
+  requestType: reqType,
+  responseType: resType,
+  requestStream: false,
+  responseStream,
+});
+
+beforeAll(() => {
+  process.env.VALIDATION_ENABLED = "false";
+  validationRuntime.configureFromEnv();
+});
+
+describe("rule headers in the shared handlers", () => {
+  it("renders headers into the response metadata", async () => {
+    const res = await handleUnaryRequest(call("SayHello"), rulesIndex, logger) as NormalizedResponse;
+    expect(res.metadata).toEqual({ "x-request-id": "req-Bob", "x-session-token": "bob-token", "x-attempt": "1" });
+  });
+
+  it("attaches stream headers to the first message only", async () => {
+    const results: NormalizedResponse[] = [];
+    for await (const r of handleServerStreamingRequest(call("ListGreetings", true), rulesIndex, logger)) {
+      results.push(r as NormalizedResponse);
+    }
+    expect(results.map((r) => r.metadata)).toEqual([{ "x-request-id": "stream-Bob" }, undefined]);
+  });
+});
+
+describe("rule headers over the transports", () => {
+  let grpcServer: grpc.Server;
+  let grpcPort: number;
+  let connect: ConnectServer;
+  let connectUrl: string;
+
+  beforeAll(async () => {
+    const handlers = buildHandlersFromRoot(root, rulesIndex, logger);
+    const codec = (t: protobuf.Type) => ({
+      serialize: (m: any) => Buffer.from(t.encode(t.fromObject(m)).finish()),
+      deserialize: (b: Buffer) => t.toObject(t.decode(b)),
+    });
+    grpcServer = new grpc.Server();
+    grpcServer.addService({
+      SayHello: {
+        path: "/helloworld.Greeter/SayHello",
+        requestStream: false,
+        responseStream: false,
+        requestSerialize: codec(reqType).serialize,
+        requestDeserialize: codec(reqType).deserialize,
+        responseSerialize: codec(resType).serialize,
+        responseDeserialize: codec(resType).deserialize,
+      },
+    } as any, { SayHello: handlers.get("helloworld.Greeter/SayHello")!.handler as any });
+    grpcPort = await new Promise<number>((resolve, reject) =>
+      grpcServer.bindAsync("127.0.0.1:0", grpc.ServerCredentials.createInsecure(), (e, p) => (e ? reject(e) : resolve(p)))
+    );
+
+    connect = await createConnectServer({
+      port: 0,
+      corsEnabled: false,
+      corsOrigins: [],
+      protoRoot: root,
+      rulesIndex,
+      logger,
+    });
+    await connect.start();
+    connectUrl = `http://127.0.0.1:${(connect.server.address() as any).port}/helloworld.Greeter`;
+  });
+
+  afterAll(async () => {
+    grpcServer?.forceShutdown();
+    await connect?.stop();
+  });
+
+  it("sends initial metadata on grpc-js", async () => {
+    const client = new grpc.Client(`127.0.0.1:${grpcPort}`, grpc.credentials.createInsecure());
+    try {
+      const metadata = new grpc.Metadata();
+      metadata.set("x-user", "ann");
+      const headers = await new Promise<grpc.Metadata>((resolve, reject) => {
+        const c = client.makeUnaryRequest(
+          "/helloworld.Greeter/SayHello",
+          (m: any) => Buffer.from(reqType.encode(reqType.fromObject(m)).finish()),
+          (b: Buffer) => resType.toObject(resType.decode(b)),
+          { name: "Ann" },
+          metadata,
+          (e) => e && reject(e)
+        );
+        c.on("metadata", resolve);
+      });
+      expect(headers.get("x-request-id")).toEqual(["req-Ann"]);
+      expect(headers.get("x-session-token")).toEqual(["ann-token"]);
+    } finally {
+      client.close();
+    }
+  });
+
+  it("sends HTTP response headers on Connect", async () => {
+    const post = (method: string) => fetch(`${connectUrl}/${method}`, {
+      method: "POST",
+      headers: { "content-type": "application/json", "x-user": "tom" },
+      body: JSON.stringify({ name: "Tom" }),
+    });
+
+    const unary = await post("SayHello");
+    expect(unary.headers.get("x-request-id")).toBe("req-Tom");
+    expect(unary.headers.get("x-session-token")).toBe("tom-token");
+    expect(unary.headers.get("content-type")).toBe("application/json");
+    expect(await unary.json()).toEqual({ message: "hi" });
+
+    const stream = await post("ListGreetings");
+    expect(stream.headers.get("x-request-id")).toBe("stream-Tom");
+    expect((await stream.text()).trim().split("\n")).toHaveLength(2);
+  });
+});
@@ -0,0 +1,239 @@
+import { describe, it, expect, beforeAll, afterAll } from "bun:test";
+import protobuf from "protobufjs";
+import { lintRuleSource, type LintMethod } from "../src/infrastructure/ruleLinter.js";
+import { createAdminApp } from "../src/interfaces/httpAdmin.js";
+
+const root = protobuf.parse(`
+  syntax = "proto3";
+  package shop;
+  enum Status { STATUS_UNSPECIFIED = 0; PAID = 1; SHIPPED = 2; }
+  message Item { string sku = 1; int32 qty = 2; }
+  message OrderRequest { string order_id = 1; repeated Item items = 2; map<string, string> labels = 3; }
+  message OrderReply { string order_id = 1; Status status = 2; repeated Item items = 3; int64 total_cents = 4; }
+`, { keepCase: true }).root;
+root.resolveAll();
+
+const method = (name: string, requestStream = false): LintMethod => ({
+  ruleKey: `shop.orders.${name}`,
+  reqType: root.lookupType("shop.OrderRequest"),
+  resType: root.lookupType("shop.OrderReply"),
+  requestStream,
+  responseStream: false,
+});
+const methods = [method("getorder"), method("uploaditems", true)];
+
+const lint = (file: string, content: string) =>
+  lintRuleSource(file, content, methods).map(({ line, path, severity, message }) => ({ line, path, severity, message }));
+
+describe("rule linter", () => {
+  it("accepts a rule that fits the method", () => {
+    const rule = `
+match:
+  request:
+    order_id: { regex: "^o-", flags: "i" }
+responses:
+  - when:
+      request.items[0].qty: { gte: 2 }
+      request.labels.region: eu
+      metadata.x-tenant: { in: [a, b] }
+    body:
+      orderId: "{{request.order_id}}"
+      status: SHIPPED
+      items: [{ sku: abc, qty: 2 }]
+      total_cents: "1200"
+  - sequence:
+      - trailers: { grpc-status: 14 }
+        error:
+          details:
+            - "@type": google.rpc.RetryInfo
+              retryDelay: 1s
+      - body: { status: PAID }
+`;
+    expect(lint("shop.orders.getorder.yaml", rule)).toEqual([]);
+  });
+
+  it("reports schema and operator mistakes with line and path", () => {
+    const rule = `responses:
+  - when:
+      request.order_idd: o-1
+      request.items.qty: { gt: two }
+      requst.order_id: o-1
+    body:
+      status: CANCELLED
+      item: []
+      items: { sku: abc }
+  - when:
+      request.order_id: { regex: "(", between: [1, 2] }
+      metadata.x-tenant: { in: a, exists: yes }
+    error:
+      details:
+        - "@type": google.rpc.ErrorInfo
+          reasons: x
+`;
+    expect(lint("shop.orders.getorder.yaml", rule)).toEqual([
+      { line: 3, path: 'responses[0].when["request.order_idd"]', severity: "error", message: 'unknown field "order_idd" in shop.OrderRequest' },
+      { line: 4, path: 'responses[0].when["request.items.qty"]', severity: "error", message: '"items" is repeated; expected an index, got "qty"' },
+      { line: 4, path: 'responses[0].when["request.items.qty"].gt', severity: "error", message: 'gt expects a number, got "two"' },
+      { line: 5, path: 'responses[0].when["requst.order_id"]', severity: "warning", message: 'condition "requst.order_id" does not start with request., metadata. or stream. and never resolves' },
+      { line: 7, path: "responses[0].body.status", severity: "error", message: 'unknown shop.Status value "CANCELLED" (expected one of STATUS_UNSPECIFIED, PAID, SHIPPED)' },
+      { line: 8, path: "responses[0].body.item", severity: "error", message: 'unknown field "item" in shop.OrderReply' },
+      { line: 9, path: "responses[0].body.items", severity: "error", message: 'repeated field "items" expects a list, got a mapping' },
+      { line: 11, path: 'responses[1].when["request.order_id"]', severity: "error", message: "unknown operator between (expected one of not, exists, regex, flags, contains, in, gt, gte, lt, lte, eq, ne)" },
+      { line: 11, path: 'responses[1].when["request.order_id"].regex', severity: "error", message: "invalid regex: Invalid regular expression: missing )" },
+      { line: 12, path: 'responses[1].when["metadata.x-tenant"].exists', severity: "error", message: "exists expects true or false" },
+      { line: 12, path: 'responses[1].when["metadata.x-tenant"].in', severity: "error", message: 'in expects a list, got "a"' },
+      { line: 15, path: "responses[1].error.details[0]", severity: "error", message: "google.rpc.ErrorInfo has no field reasons" },
+    ]);
+  });
+
+  it("checks the rule's fault profile", () => {
+    const rule = `faults:
+  stream_abort: { after_items: -1 }
+responses:
+  - body: { order_id: o-1 }
+`;
+    expect(lint("shop.orders.getorder.yaml", rule)).toEqual([
+      { line: 1, path: "faults", severity: "error", message: "stream_abort.after_items must be a non-negative integer" },
+    ]);
+  });
+
+  it("checks streamed requests against the aggregated shape", () => {
+    const rule = JSON.stringify({
+      match: { request: { count: { gte: 1 } } },
+      responses: [
+        { when: { "request.first.order_id": "o-1", "request.items[1].items[0].sku": "abc" }, body: { order_id: "o-1" } },
+        { when: { "request.order_id": "o-1" }, stream_items: [{ total_cents: "lots" }] },
+      ],
+    }, null, 2);
+    expect(lint("shop.orders.uploaditems.json", rule).map((d) => [d.path, d.message])).toEqual([
+      ['responses[1].when["request.order_id"]', 'unknown request path "order_id"; streamed requests expose stream, items, first, last, count'],
+      ["responses[1].stream_items[0].total_cents", 'expected int64, got "lots"'],
+    ]);
+  });
+
+  it("checks the branches and items of template directives", () => {
+    const rule = JSON.stringify({
+      responses: [{
+        body: {
+          status: { $if: "{{request.items}}", $then: "PAID", $else: "REFUNDED" },
+          items: { $each: "{{request.items}}", $template: { sku: "{{item.sku}}", qty: "{{item.qty * 2}}", note: "x" } },
+          order_id: { $each: "request.items", $template: "{{item.sku}}" },
+          total_cents: { $if: "request.items", $then: 100 },
+        },
+      }],
+    });
+    expect(lint("shop.orders.getorder.json", rule).map((d) => [d.path, d.message])).toEqual([
+      ["responses[0].body.status.$else", 'unknown shop.Status value "REFUNDED" (expected one of STATUS_UNSPECIFIED, PAID, SHIPPED)'],
+      ["responses[0].body.items.$template.note", 'unknown field "note" in shop.Item'],
+      ["responses[0].body.order_id", '$each produces a list but field "order_id" is not repeated'],
+    ]);
+  });
+
+  it("checks the syntax of CEL conditions", () => {
+    const rule = `match:
+  cel: "request.items.size() > 0"
+responses:
+  - when:
+      cel: "request.items.exists(i, i.qty >)"
+    body: { order_id: x }
+  - when: { cel: 42 }
+    body: { order_id: y }
+`;
+    expect(lint("shop.orders.getorder.yaml", rule)).toEqual([
+      { line: 5, path: "responses[0].when.cel", severity: "error", message: 'invalid CEL: unexpected ")" at position 31' },
+      { line: 7, path: "responses[1].when.cel", severity: "error", message: "cel expects an expression string, got 42" },
+    ]);
+  });
+
+  it("checks conditions nested in any/all groups", () => {
+    const rule = `match:
+  any:
+    - request: { order_idd: o-1 }
+    - metadata: { x-tenant: acme }
+responses:
+  - when:
+      any:
+        - request.order_id: { gt: one }
+        - all: []
+      all: request.order_id
+    body: { order_id: x }
+`;
+    expect(lint("shop.orders.getorder.yaml", rule)).toEqual([
+      { line: 3, path: "match.any[0].request.order_idd", severity: "error", message: 'unknown field "order_idd" in shop.OrderRequest' },
+      { line: 8, path: 'responses[0].when.any[0]["request.order_id"].gt', severity: "error", message: 'gt expects a number, got "one"' },
+      { line: 9, path: "responses[0].when.any[1].all", severity: "warning", message: "empty all always matches" },
+      { line: 10, path: "responses[0].when.all", severity: "error", message: 'all expects a list of condition blocks, got "request.order_id"' },
+    ]);
+  });
+
+  it("resolves the method from target and skips $ref values", () => {
+    const rule = `target: shop.Orders/GetOrder
+responses:
+  - body: { $ref: "fragments/order.yaml#/body" }
+  - body:
+      items: [{ $ref: "fragments/order.yaml#/item" }]
+      order_idd: x
+`;
+    expect(lint("team-a/orders.yaml", rule)).toEqual([
+      { line: 6, path: "responses[1].body.order_idd", severity: "error", message: 'unknown field "order_idd" in shop.OrderReply' },
+    ]);
+    expect(lint("team-a/orders.yaml", "target: shop.Orders/Missing\nresponses: []\n")).toEqual([
+      { line: 1, path: "target", severity: "error", message: 'no loaded method matches rule key "shop.orders.missing"' },
+    ]);
+  });
+
+  it("reports unknown methods and parse errors", () => {
+    expect(lint("shop.orders.getordr.yaml", "- body: { order_id: x }")).toEqual([
+      { line: 1, path: "", severity: "error", message: 'no loaded method matches rule key "shop.orders.getordr"' },
+    ]);
+    const [parseError] = lint("shop.orders.getorder.yaml", "responses:\n  - body: [\n");
+    expect(parseError.severity).toBe("error");
+    expect(parseError.message).toStartWith("invalid rule file:");
+    expect(parseError.line).toBeGreaterThan(1);
+  });
+});
+
+describe("Admin API - rule lint", () => {
+  let server: any;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    server = createAdminApp({
+      httpPort: 0,
+      protoDir: "protos",
+      ruleDir: "rules/grpc",
+      uploadsDir: "uploads",
+      getStatus: () => ({ loaded_services: [], rules: [] }),
+      listServices: () => ({ services: [] }),
+      getSchema: () => null,
+      onRuleUpdated: () => {},
+      lintRules: (source) => source ? lintRuleSource(source.filename, source.content, methods) : [],
+    });
+    await new Promise((resolve) => server.once("listening", resolve));
+    baseUrl = `http://localhost:${server.address().port}`;
+  });
+
+  afterAll(() => {
+    server?.close();
+  });
+
+  const post = (body: unknown) => fetch(`${baseUrl}/admin/rules/lint`, {
+    method: "POST",
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify(body),
+  });
+
+  it("lints the rule directory or posted content", async () => {
+    let res = await post({});
+    expect(await res.json()).toEqual({ ok: true, errors: 0, warnings: 0, diagnostics: [] });
+
+    res = await post({ filename: "shop.orders.getorder.yaml", content: "- body:\n    status: LOST\n" });
+    const body = await res.json();
+    expect(body.ok).toBe(false);
+    expect(body.errors).toBe(1);
+    expect(body.diagnostics[0]).toMatchObject({ file: "shop.orders.getorder.yaml", line: 2, path: "responses[0].body.status" });
+
+    res = await post({ filename: "shop.orders.getorder.yaml" });
+    expect(res.status).toBe(400);
+  });
+});
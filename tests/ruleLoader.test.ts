@@ -0,0 +1,123 @@
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { loadRules } from "../src/infrastructure/ruleLoader.js";
+import { selectResponse } from "../src/domain/usecases/selectResponse.js";
+
+describe("loadRules", () => {
+  let dir: string;
+  const write = (file: string, content: string) => {
+    fs.mkdirSync(path.dirname(path.join(dir, file)), { recursive: true });
+    fs.writeFileSync(path.join(dir, file), content);
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "wishmock-rules-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("keys files by name and loads subdirectories", () => {
+    write("helloworld.greeter.sayhello.yaml", "- body: { message: hi }\n");
+    write("team-a/shop.orders.getorder.json", JSON.stringify({ responses: [{ body: { id: 1 } }] }));
+    const rules = loadRules(dir);
+    expect([...rules.keys()].sort()).toEqual(["helloworld.greeter.sayhello", "shop.orders.getorder"]);
+    expect(rules.get("shop.orders.getorder")!.responses![0].body).toEqual({ id: 1 });
+  });
+
+  it("merges files that target the same method in path order", () => {
+    write("helloworld.greeter.sayhello.yaml", "responses:\n  - body: { message: base }\n");
+    write("team-a/vip.yaml", [
+      "target: helloworld.Greeter/SayHello",
+      "scenario: vip",
+      "match:",
+      "  metadata: { x-tier: vip }",
+      "responses:",
+      "  - when: { request.name: Ada }",
+      "    body: { message: vip Ada }",
+      "  - body: { message: vip }",
+      "    priority: 5",
+    ].join("\n"));
+    write("team-b/sayhello.yaml", "target: helloworld.Greeter.SayHello\nresponses:\n  - when: { request.name: Ada }\n    body: { message: Ada }\n");
+
+    const rules = loadRules(dir);
+    expect(rules.size).toBe(1);
+    const doc = rules.get("helloworld.greeter.sayhello")!;
+    expect(doc.scenario).toBe("vip");
+    expect(doc.match).toBeUndefined();
+    expect(doc.responses!.map((r) => (r.body as any).message)).toEqual(["base", "vip Ada", "vip", "Ada"]);
+
+    // A file's match only guards its own responses
+    expect(selectResponse(doc, { name: "Ada" }, { "x-tier": "vip" }).body).toEqual({ message: "vip Ada" });
+    expect(selectResponse(doc, { name: "Ada" }, {}).body).toEqual({ message: "Ada" });
+    expect(selectResponse(doc, { name: "Bob" }, { "x-tier": "vip" }).body).toEqual({ message: "vip" });
+    expect(selectResponse(doc, { name: "Bob" }, {}).body).toEqual({ message: "base" });
+  });
+
+  it("inlines $ref fragments and skips fragments directories", () => {
+    write("fragments/user.yaml", "body:\n  id: 7\n  name: Ada\n  roles: [admin]\nnested:\n  $ref: \"#/body\"\n");
+    write("users.getuser.yaml", [
+      "responses:",
+      "  - when: { request.id: \"7\" }",
+      "    body: { $ref: \"fragments/user.yaml#/body\" }",
+      "  - body:",
+      "      $ref: fragments/user.yaml#/nested",
+      "      name: \"{{request.name}}\"",
+    ].join("\n"));
+    write("team-a/users.listusers.yaml", "- body: { users: [{ $ref: \"../fragments/user.yaml#/body\" }] }\n");
+
+    const rules = loadRules(dir);
+    expect([...rules.keys()].sort()).toEqual(["users.getuser", "users.listusers"]);
+    const responses = rules.get("users.getuser")!.responses!;
+    expect(responses[0].body).toEqual({ id: 7, name: "Ada", roles: ["admin"] });
+    expect(responses[1].body).toEqual({ id: 7, name: "{{request.name}}", roles: ["admin"] });
+    expect(rules.get("users.listusers")!.responses![0].body).toEqual({ users: [{ id: 7, name: "Ada", roles: ["admin"] }] });
+  });
+
+  it("rejects missing and circular references", () => {
+    write("a.b.c.yaml", "- body: { $ref: \"fragments/none.yaml#/body\" }\n");
+    expect(() => loadRules(dir)).toThrow("not found");
+
+    fs.rmSync(path.join(dir, "a.b.c.yaml"));
+    write("a.b.c.yaml", "loop: { $ref: \"#/loop\" }\nresponses: []\n");
+    expect(() => loadRules(dir)).toThrow("circular $ref");
+
+    fs.rmSync(path.join(dir, "a.b.c.yaml"));
+    write("fragments/user.yaml", "body: { id: 1 }\n");
+    write("a.b.c.yaml", "- body: { $ref: \"fragments/user.yaml#/head\" }\n");
+    expect(() => loadRules(dir)).toThrow("points at nothing");
+  });
+
+  it("rejects invalid fault profiles with the file name", () => {
+    write("team-a/a.b.c.yaml", "faults: { error: { probability: 2 } }\nresponses: []\n");
+    expect(() => loadRules(dir)).toThrow(/team-a\/a\.b\.c\.yaml: faults: error\.probability must be a number between 0 and 1/);
+  });
+
+  it("rejects malformed cel and any/all conditions with the file name", () => {
+    write("a.b.c.yaml", "- when: { any: [{ cel: \"request.name ==\" }] }\n  body: {}\n");
+    expect(() => loadRules(dir)).toThrow(/a\.b\.c\.yaml: responses\[0\]\.when\.any\[0\]\.cel is invalid/);
+  });
+
+  it("rejects references outside the rule directory", () => {
+    const outside = path.join(path.dirname(dir), `${path.basename(dir)}-secret.yaml`);
+    fs.writeFileSync(outside, "token: s3cr3t\n");
+    try {
+      // Absolute and relative paths alike
+      for (const ref of [outside, `../${path.basename(outside)}`]) {
+        write("a.b.c.yaml", `- body: { $ref: "${ref}" }\n`);
+        expect(() => loadRules(dir)).toThrow("outside the rule directory");
+      }
+
+      fs.rmSync(path.join(dir, "a.b.c.yaml"));
+      fs.mkdirSync(path.join(dir, "fragments"), { recursive: true });
+      fs.symlinkSync(outside, path.join(dir, "fragments", "link.yaml"));
+      write("a.b.c.yaml", "- body: { $ref: \"fragments/link.yaml\" }\n");
+      expect(() => loadRules(dir)).toThrow("outside the rule directory");
+    } finally {
+      fs.rmSync(outside, { force: true });
+    }
+  });
+});
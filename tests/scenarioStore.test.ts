@@ -0,0 +1,216 @@
+import { describe, it, expect, beforeEach, beforeAll, afterAll } from "bun:test";
+import protobuf from "protobufjs";
+import { ScenarioStore, SCENARIO_STARTED, scenarioStore } from "../src/domain/scenarios/scenarioStore.js";
+import { resolveScenarioRule, advanceScenario } from "../src/domain/usecases/scenarioState.js";
+import { handleUnaryRequest } from "../src/domain/usecases/handleRequest.js";
+import { createAdminApp } from "../src/interfaces/httpAdmin.js";
+import { runtime as validationRuntime } from "../src/infrastructure/validation/runtime.js";
+import type { RuleDoc } from "../src/domain/types.js";
+import type { NormalizedRequest, NormalizedResponse, NormalizedError } from "../src/domain/types/normalized.js";
+
+describe("ScenarioStore", () => {
+  let store: ScenarioStore;
+
+  beforeEach(() => {
+    store = new ScenarioStore();
+  });
+
+  it("reports untouched scenarios as Started", () => {
+    expect(store.getState("checkout")).toBe(SCENARIO_STARTED);
+    expect(store.list()).toEqual([]);
+  });
+
+  it("tracks transitions and resets", () => {
+    store.setState("checkout", "PENDING");
+    store.setState("auth", "LOGGED_IN");
+    expect(store.getState("checkout")).toBe("PENDING");
+    expect(store.list().map((s) => s.name)).toEqual(["auth", "checkout"]);
+
+    store.reset("checkout");
+    expect(store.getState("checkout")).toBe(SCENARIO_STARTED);
+    expect(store.getState("auth")).toBe("LOGGED_IN");
+
+    store.reset();
+    expect(store.list()).toEqual([]);
+  });
+
+  it("keeps the state of each session apart", () => {
+    store.setState("checkout", "PENDING");
+    store.setState("checkout", "PAID", "s1");
+    expect(store.getState("checkout")).toBe("PENDING");
+    expect(store.getState("checkout", "s1")).toBe("PAID");
+    expect(store.getState("checkout", "s2")).toBe(SCENARIO_STARTED);
+    expect(store.list("s1").map((s) => [s.name, s.state, s.session])).toEqual([["checkout", "PAID", "s1"]]);
+    expect(store.list().map((s) => s.session)).toEqual([undefined, "s1"]);
+
+    store.reset(undefined, "s1");
+    expect(store.getState("checkout", "s1")).toBe(SCENARIO_STARTED);
+    expect(store.getState("checkout")).toBe("PENDING");
+  });
+});
+
+describe("scenario state selection", () => {
+  const rule: RuleDoc = {
+    scenario: "checkout",
+    responses: [
+      { body: { status: "NONE" }, required_state: "Started" },
+      { body: { status: "PENDING" }, required_state: "CREATED" },
+      { body: { status: "ANY" } },
+    ],
+  };
+
+  it("keeps responses without required_state and those matching the state", () => {
+    const store = new ScenarioStore();
+    store.setState("checkout", "CREATED");
+    const resolved = resolveScenarioRule(rule, store);
+    expect(resolved.responses?.map((r) => (r.body as any).status)).toEqual(["PENDING", "ANY"]);
+  });
+
+  it("leaves rules without a scenario untouched", () => {
+    const plain: RuleDoc = { responses: [{ body: {}, required_state: "X" }] };
+    expect(resolveScenarioRule(plain, new ScenarioStore())).toBe(plain);
+  });
+
+  it("only transitions when the rule has a scenario and the response a new_state", () => {
+    const store = new ScenarioStore();
+    expect(advanceScenario({ responses: [] }, { new_state: "X" }, store)).toBeUndefined();
+    expect(advanceScenario(rule, { body: {} }, store)).toBeUndefined();
+    expect(advanceScenario(rule, { new_state: "PAID" }, store)).toBe("PAID");
+    expect(store.getState("checkout")).toBe("PAID");
+  });
+});
+
+describe("handleUnaryRequest with scenarios", () => {
+  let rulesIndex: Map<string, RuleDoc>;
+  const logger = () => {};
+  const reqType = new protobuf.Type("OrderRequest").add(new protobuf.Field("id", 1, "string"));
+  const resType = new protobuf.Type("OrderReply").add(new protobuf.Field("status", 1, "string"));
+
+  const call = (method: string, metadata: Record<string, string> = {}): NormalizedRequest => ({
+    service: "shop.Orders",
+    method,
+    metadata,
+    data: { id: "o-1" },
+    requestType: reqType,
+    responseType: resType,
+    requestStream: false,
+    responseStream: false,
+  });
+
+  beforeEach(() => {
+    process.env.VALIDATION_ENABLED = "false";
+    validationRuntime.configureFromEnv();
+    scenarioStore.reset();
+    rulesIndex = new Map<string, RuleDoc>([
+      ["shop.orders.createorder", {
+        scenario: "checkout",
+        responses: [{ body: { status: "CREATED" }, new_state: "PENDING" }],
+      }],
+      ["shop.orders.getorder", {
+        scenario: "checkout",
+        responses: [
+          { body: { status: "PENDING" }, required_state: "PENDING" },
+          { body: { status: "PAID" }, required_state: "PAID" },
+          { trailers: { "grpc-status": 5, "grpc-message": "order not found" }, required_state: "Started" },
+        ],
+      }],
+      ["shop.orders.pay", {
+        scenario: "checkout",
+        responses: [
+          { body: { status: "PAID" }, required_state: "PENDING", new_state: "PAID" },
+          { trailers: { "grpc-status": 9, "grpc-message": "nothing to pay" } },
+        ],
+      }],
+    ]);
+  });
+
+  it("walks a create -> get -> pay -> get flow", async () => {
+    const notFound = await handleUnaryRequest(call("GetOrder"), rulesIndex, logger) as NormalizedError;
+    expect(notFound.code).toBe("NOT_FOUND");
+
+    await handleUnaryRequest(call("CreateOrder"), rulesIndex, logger);
+    const pending = await handleUnaryRequest(call("GetOrder"), rulesIndex, logger) as NormalizedResponse;
+    expect(pending.data).toEqual({ status: "PENDING" });
+
+    await handleUnaryRequest(call("Pay"), rulesIndex, logger);
+    const paid = await handleUnaryRequest(call("GetOrder"), rulesIndex, logger) as NormalizedResponse;
+    expect(paid.data).toEqual({ status: "PAID" });
+
+    const again = await handleUnaryRequest(call("Pay"), rulesIndex, logger) as NormalizedError;
+    expect(again.code).toBe("FAILED_PRECONDITION");
+  });
+
+  it("moves scenarios per x-wishmock-session", async () => {
+    const session = { "x-wishmock-session": "run-1" };
+    await handleUnaryRequest(call("CreateOrder", session), rulesIndex, logger);
+    const pending = await handleUnaryRequest(call("GetOrder", session), rulesIndex, logger) as NormalizedResponse;
+    expect(pending.data).toEqual({ status: "PENDING" });
+
+    const global = await handleUnaryRequest(call("GetOrder"), rulesIndex, logger) as NormalizedError;
+    expect(global.code).toBe("NOT_FOUND");
+    const other = await handleUnaryRequest(call("GetOrder", { "x-wishmock-session": "run-2" }), rulesIndex, logger) as NormalizedError;
+    expect(other.code).toBe("NOT_FOUND");
+  });
+});
+
+describe("Admin API - scenarios", () => {
+  let server: any;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    server = createAdminApp({
+      httpPort: 0,
+      protoDir: "protos",
+      ruleDir: "rules/grpc",
+      uploadsDir: "uploads",
+      getStatus: () => ({ loaded_services: [], rules: [] }),
+      listServices: () => ({ services: [] }),
+      getSchema: () => null,
+      onRuleUpdated: () => {},
+    });
+    await new Promise((resolve) => server.once("listening", resolve));
+    baseUrl = `http://localhost:${server.address().port}`;
+    scenarioStore.reset();
+  });
+
+  afterAll(() => {
+    server?.close();
+    scenarioStore.reset();
+  });
+
+  it("sets, inspects and resets scenario state", async () => {
+    let res = await fetch(`${baseUrl}/admin/scenarios/checkout`, {
+      method: "PUT",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ state: "PENDING" }),
+    });
+    expect(res.status).toBe(200);
+
+    res = await fetch(`${baseUrl}/admin/scenarios`);
+    const list = await res.json();
+    expect(list.scenarios).toHaveLength(1);
+    expect(list.scenarios[0]).toMatchObject({ name: "checkout", state: "PENDING" });
+
+    res = await fetch(`${baseUrl}/admin/scenarios/checkout`, { method: "DELETE" });
+    expect(await res.json()).toMatchObject({ ok: true, state: SCENARIO_STARTED });
+
+    res = await fetch(`${baseUrl}/admin/scenarios/checkout`);
+    expect(await res.json()).toEqual({ name: "checkout", state: SCENARIO_STARTED });
+  });
+
+  it("rejects a missing state", async () => {
+    const res = await fetch(`${baseUrl}/admin/scenarios/checkout`, {
+      method: "PUT",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({}),
+    });
+    expect(res.status).toBe(400);
+  });
+
+  it("resets every scenario", async () => {
+    scenarioStore.setState("a", "X");
+    const res = await fetch(`${baseUrl}/admin/scenarios`, { method: "DELETE" });
+    expect(res.status).toBe(200);
+    expect(scenarioStore.list()).toEqual([]);
+  });
+});
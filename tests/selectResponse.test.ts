@@ -282,9 +282,9 @@ describe("selectResponse", () => {
 
     const res = selectResponse(rule, { foo: "bar" }, {});
     expect(res.stream_items).toEqual([
-      { i: "0", t: "3", first: "true",  last: "false" },
-      { i: "1", t: "3", first: "false", last: "false" },
-      { i: "2", t: "3", first: "false", last: "true"  },
+      { i: 0, t: 3, first: true,  last: false },
+      { i: 1, t: 3, first: false, last: false },
+      { i: 2, t: 3, first: false, last: true  },
     ]);
   });
 
@@ -303,10 +303,10 @@ describe("selectResponse", () => {
     } as any;
 
     const res0 = selectResponse(rule, {}, {}, 0, 3);
-    expect(res0.body).toEqual({ first: "true", last: "false", msg: "item 0 of 3" });
+    expect(res0.body).toEqual({ first: true, last: false, msg: "item 0 of 3" });
 
     const resLast = selectResponse(rule, {}, {}, 2, 3);
-    expect(resLast.body).toEqual({ first: "false", last: "true", msg: "item 2 of 3" });
+    expect(resLast.body).toEqual({ first: false, last: true, msg: "item 2 of 3" });
   });
 
   it("treats 'flags' only object as known operator and matches true", () => {
@@ -320,4 +320,82 @@ describe("selectResponse", () => {
     const res = selectResponse(rule, { any: "whatever" }, {});
     expect(res.body).toEqual({ ok: true });
   });
+
+  it("matches CEL conditions in match and when", () => {
+    const rule: RuleDoc = {
+      match: { cel: "request.items.size() > 0" },
+      responses: [
+        { when: { cel: "request.items.exists(i, i.qty > 5) || metadata['x-tenant'] == 'acme'" }, body: { tier: "bulk" }, priority: 1 },
+        { when: { cel: "!(request.items.all(i, i.qty > 0))", "request.note": "rush" }, body: { tier: "partial" } },
+        { when: { cel: "stream.index == 0" }, body: { tier: "first" } },
+        { body: { tier: "default" } },
+      ],
+    };
+    const items = (...qty: number[]) => ({ items: qty.map((q) => ({ qty: q })), note: "rush" });
+
+    expect(selectResponse(rule, items(1, 9), {}).body).toEqual({ tier: "bulk" });
+    expect(selectResponse(rule, items(1), { "x-tenant": "acme" }).body).toEqual({ tier: "bulk" });
+    expect(selectResponse(rule, items(1, 0), {}).body).toEqual({ tier: "partial" });
+    // stream is only bound for streamed calls; the reference fails and the condition is false
+    expect(selectResponse(rule, items(1), {}).body).toEqual({ tier: "default" });
+    expect(selectResponse(rule, items(1), {}, 0, 2).body).toEqual({ tier: "first" });
+    // match.cel fails -> fallback
+    expect(selectResponse(rule, { items: [] }, { "x-tenant": "acme" }).body).toEqual({ tier: "default" });
+  });
+
+  it("supports any/all groups in when blocks", () => {
+    const rule: RuleDoc = {
+      responses: [
+        {
+          when: {
+            any: [
+              { "metadata.x-tenant": "acme" },
+              { "metadata.x-role": { in: ["admin", "owner"] } },
+            ],
+            "request.region": "eu",
+          },
+          body: { route: "priority" },
+        },
+        {
+          when: {
+            all: [
+              { "request.amount": { gte: 100 } },
+              { any: [{ "request.currency": "EUR" }, { "request.currency": "USD" }] },
+            ],
+          },
+          body: { route: "review" },
+        },
+        { body: { route: "default" } },
+      ],
+    };
+
+    expect(selectResponse(rule, { region: "eu" }, { "x-tenant": "acme" }).body).toEqual({ route: "priority" });
+    expect(selectResponse(rule, { region: "eu" }, { "x-role": "owner" }).body).toEqual({ route: "priority" });
+    expect(selectResponse(rule, { region: "us" }, { "x-role": "owner" }).body).toEqual({ route: "default" });
+    expect(selectResponse(rule, { amount: 150, currency: "USD" }, {}).body).toEqual({ route: "review" });
+    expect(selectResponse(rule, { amount: 150, currency: "JPY" }, {}).body).toEqual({ route: "default" });
+    expect(selectResponse(rule, { amount: 50, currency: "EUR" }, {}).body).toEqual({ route: "default" });
+  });
+
+  it("supports any/all groups in the top-level match", () => {
+    const rule: RuleDoc = {
+      match: {
+        request: { region: "eu" },
+        any: [
+          { metadata: { "x-tenant": "acme" } },
+          { request: { "user.role": "admin" }, all: [{ metadata: { "x-mfa": "true" } }] },
+        ],
+      },
+      responses: [
+        { when: { "request.region": "eu" }, body: { ok: true } },
+        { body: { ok: false } },
+      ],
+    };
+
+    expect(selectResponse(rule, { region: "eu" }, { "x-tenant": "acme" }).body).toEqual({ ok: true });
+    expect(selectResponse(rule, { region: "eu", user: { role: "admin" } }, { "x-mfa": "true" }).body).toEqual({ ok: true });
+    expect(selectResponse(rule, { region: "eu", user: { role: "admin" } }, {}).body).toEqual({ ok: false });
+    expect(selectResponse(rule, { region: "us" }, { "x-tenant": "acme" }).body).toEqual({ ok: false });
+    expect(selectResponse({ ...rule, match: { any: [] } }, { region: "eu" }, {}).body).toEqual({ ok: false });
+  });
 });
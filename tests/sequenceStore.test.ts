@@ -0,0 +1,202 @@
+import { describe, it, expect, beforeEach, beforeAll, afterAll } from "bun:test";
+import protobuf from "protobufjs";
+import { SequenceStore, sequenceStore } from "../src/domain/sequences/sequenceStore.js";
+import { advanceSequence } from "../src/domain/usecases/sequenceState.js";
+import { handleUnaryRequest } from "../src/domain/usecases/handleRequest.js";
+import { createHandlerContext } from "../src/domain/usecases/handlerContext.js";
+import { createAdminApp } from "../src/interfaces/httpAdmin.js";
+import { runtime as validationRuntime } from "../src/infrastructure/validation/runtime.js";
+import type { ResponseOption, RuleDoc } from "../src/domain/types.js";
+import type { NormalizedRequest, NormalizedResponse, NormalizedError } from "../src/domain/types/normalized.js";
+
+describe("SequenceStore", () => {
+  it("counts calls per rule and response, and resets", () => {
+    const store = new SequenceStore();
+    expect(store.next("a.b.c", 0)).toBe(0);
+    expect(store.next("a.b.c", 0)).toBe(1);
+    expect(store.next("a.b.c", 2)).toBe(0);
+    expect(store.next("x.y.z", 0)).toBe(0);
+    expect(store.list("a.b.c")).toEqual([
+      { rule: "a.b.c", response_index: 0, calls: 2 },
+      { rule: "a.b.c", response_index: 2, calls: 1 },
+    ]);
+
+    store.reset("a.b.c");
+    expect(store.list().map((s) => s.rule)).toEqual(["x.y.z"]);
+    store.reset();
+    expect(store.list()).toEqual([]);
+  });
+
+  it("counts the calls of each session separately", () => {
+    const store = new SequenceStore();
+    expect(store.next("a.b.c", 0)).toBe(0);
+    expect(store.next("a.b.c", 0, "s1")).toBe(0);
+    expect(store.next("a.b.c", 0, "s1")).toBe(1);
+    expect(store.list("a.b.c", "s1")).toEqual([{ rule: "a.b.c", response_index: 0, calls: 2, session: "s1" }]);
+
+    store.reset("a.b.c", "s1");
+    expect(store.list()).toEqual([{ rule: "a.b.c", response_index: 0, calls: 1 }]);
+  });
+
+  it("counts the calls of each stub apart from the file rule", () => {
+    const store = new SequenceStore();
+    expect(store.next("a.b.c", 0)).toBe(0);
+    expect(store.next("a.b.c", 0, undefined, "stub-1")).toBe(0);
+    expect(store.next("a.b.c", 0, undefined, "stub-1")).toBe(1);
+    expect(store.next("a.b.c", 0)).toBe(1);
+    expect(store.list("a.b.c")).toEqual([
+      { rule: "a.b.c", response_index: 0, calls: 2 },
+      { rule: "a.b.c", response_index: 0, stub: "stub-1", calls: 2 },
+    ]);
+  });
+});
+
+describe("sequence step selection", () => {
+  const response = (end?: ResponseOption["sequence_end"]): ResponseOption => ({
+    headers: { "x-kind": "seq" },
+    sequence: [
+      { trailers: { "grpc-status": 14 } },
+      { body: { n: 2 } },
+    ],
+    sequence_end: end,
+  });
+  const steps = (end: ResponseOption["sequence_end"], calls: number) => {
+    const store = new SequenceStore();
+    return Array.from({ length: calls }, () => advanceSequence("r", 0, response(end), store).step);
+  };
+
+  it("merges the step over the response", () => {
+    const { response: served, step } = advanceSequence("r", 0, response(), new SequenceStore());
+    expect(step).toBe(0);
+    expect(served).toEqual({ headers: { "x-kind": "seq" }, trailers: { "grpc-status": 14 } });
+  });
+
+  it("repeats the last step, cycles or fails once exhausted", () => {
+    expect(steps(undefined, 4)).toEqual([0, 1, 1, 1]);
+    expect(steps("cycle", 4)).toEqual([0, 1, 0, 1]);
+    expect(steps("error", 3)).toEqual([0, 1, -1]);
+
+    const store = new SequenceStore();
+    store.next("r", 0);
+    store.next("r", 0);
+    expect(advanceSequence("r", 0, response("error"), store).response.trailers)
+      .toEqual({ "grpc-status": 9, "grpc-message": "sequence exhausted" });
+  });
+
+  it("leaves plain responses untouched", () => {
+    const plain = { body: {} };
+    const store = new SequenceStore();
+    expect(advanceSequence("r", 0, plain, store)).toEqual({ response: plain });
+    expect(store.list()).toEqual([]);
+  });
+});
+
+describe("handleUnaryRequest with sequences", () => {
+  const logger = () => {};
+  const reqType = new protobuf.Type("HelloRequest").add(new protobuf.Field("name", 1, "string"));
+  const resType = new protobuf.Type("HelloReply").add(new protobuf.Field("message", 1, "string"));
+  const rulesIndex = new Map<string, RuleDoc>([
+    ["helloworld.greeter.sayhello", {
+      responses: [{
+        sequence: [
+          { trailers: { "grpc-status": 14, "grpc-message": "try again" } },
+          { body: { message: "hello {{request.name}}" } },
+        ],
+      }],
+    }],
+  ]);
+
+  const call = (): NormalizedRequest => ({
+    service: "helloworld.Greeter",
+    method: "SayHello",
+    metadata: {},
+    data: { name: "Bob" },
+    requestType: reqType,
+    responseType: resType,
+    requestStream: false,
+    responseStream: false,
+  });
+
+  beforeEach(() => {
+    process.env.VALIDATION_ENABLED = "false";
+    validationRuntime.configureFromEnv();
+    sequenceStore.reset();
+  });
+
+  afterAll(() => {
+    sequenceStore.reset();
+  });
+
+  it("fails the first call and succeeds on retry", async () => {
+    const first = await handleUnaryRequest(call(), rulesIndex, logger) as NormalizedError;
+    expect(first).toEqual({ code: "UNAVAILABLE", message: "try again" });
+    const second = await handleUnaryRequest(call(), rulesIndex, logger) as NormalizedResponse;
+    expect(second.data).toEqual({ message: "hello Bob" });
+
+    sequenceStore.reset("helloworld.greeter.sayhello");
+    const again = await handleUnaryRequest(call(), rulesIndex, logger) as NormalizedError;
+    expect(again.code).toBe("UNAVAILABLE");
+  });
+
+  it("keeps the file rule's position when a stub for the method comes and goes", async () => {
+    const context = createHandlerContext();
+    const stub = context.stubs.add("helloworld.greeter.sayhello", {
+      responses: [{ sequence: [{ body: { message: "stub 1" } }, { body: { message: "stub 2" } }] }],
+    });
+    const stubbed = await handleUnaryRequest(call(), rulesIndex, logger, context) as NormalizedResponse;
+    expect(stubbed.data).toEqual({ message: "stub 1" });
+
+    context.stubs.remove(stub.id);
+    const first = await handleUnaryRequest(call(), rulesIndex, logger, context) as NormalizedError;
+    expect(first.code).toBe("UNAVAILABLE");
+    expect(context.sequences.list().map((c) => c.stub)).toEqual([undefined, stub.id]);
+  });
+});
+
+describe("Admin API - sequences", () => {
+  let server: any;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    server = createAdminApp({
+      httpPort: 0,
+      protoDir: "protos",
+      ruleDir: "rules/grpc",
+      uploadsDir: "uploads",
+      getStatus: () => ({ loaded_services: [], rules: [] }),
+      listServices: () => ({ services: [] }),
+      getSchema: () => null,
+      onRuleUpdated: () => {},
+    });
+    await new Promise((resolve) => server.once("listening", resolve));
+    baseUrl = `http://localhost:${server.address().port}`;
+    sequenceStore.reset();
+  });
+
+  afterAll(() => {
+    server?.close();
+    sequenceStore.reset();
+  });
+
+  it("lists and resets counters", async () => {
+    sequenceStore.next("helloworld.greeter.sayhello", 0);
+    sequenceStore.next("shop.orders.pay", 1);
+
+    let res = await fetch(`${baseUrl}/admin/sequences`);
+    expect((await res.json()).sequences).toHaveLength(2);
+
+    res = await fetch(`${baseUrl}/admin/sequences/Helloworld.Greeter.SayHello`);
+    expect(await res.json()).toEqual({
+      rule: "helloworld.greeter.sayhello",
+      sequences: [{ rule: "helloworld.greeter.sayhello", response_index: 0, calls: 1 }],
+    });
+
+    res = await fetch(`${baseUrl}/admin/sequences/helloworld.greeter.sayhello`, { method: "DELETE" });
+    expect(res.status).toBe(200);
+    expect(sequenceStore.list().map((s) => s.rule)).toEqual(["shop.orders.pay"]);
+
+    res = await fetch(`${baseUrl}/admin/sequences`, { method: "DELETE" });
+    expect(res.status).toBe(200);
+    expect(sequenceStore.list()).toEqual([]);
+  });
+});
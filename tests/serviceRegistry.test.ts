@@ -15,14 +15,17 @@ import {
 } from '../src/infrastructure/serviceRegistry.js';
 import type { RuleDoc } from '../src/domain/types.js';
 import type { ConnectContext } from '../src/infrastructure/protocolAdapter.js';
+import { toLogger } from '../src/infrastructure/logging/logger.js';
 
 describe('Service Registry - Service Discovery', () => {
   let protoRoot: protobuf.Root;
   let rulesIndex: Map<string, RuleDoc>;
   const logs: string[] = [];
   const errors: string[] = [];
-  const logger = (...args: any[]) => logs.push(args.join(' '));
-  const errorLogger = (...args: any[]) => errors.push(args.join(' '));
+  const logger = toLogger(
+    (...args: any[]) => logs.push(args.join(' ')),
+    (...args: any[]) => errors.push(args.join(' '))
+  );
 
   beforeAll(() => {
     // Create a test proto root with multiple services
@@ -68,7 +71,7 @@ describe('Service Registry - Service Discovery', () => {
     logs.length = 0;
     errors.length = 0;
     
-    const services = registerServices(protoRoot, rulesIndex, logger, errorLogger);
+    const services = registerServices(protoRoot, rulesIndex, logger);
     
     // Should discover 2 services
     expect(services.size).toBe(2);
@@ -77,7 +80,7 @@ describe('Service Registry - Service Discovery', () => {
   });
 
   test('should correctly identify service metadata', () => {
-    const services = registerServices(protoRoot, rulesIndex, logger, errorLogger);
+    const services = registerServices(protoRoot, rulesIndex, logger);
     
     const greeter = services.get('helloworld.Greeter');
     expect(greeter).toBeDefined();
@@ -93,7 +96,7 @@ describe('Service Registry - Service Discovery', () => {
   });
 
   test('should discover all methods in each service', () => {
-    const services = registerServices(protoRoot, rulesIndex, logger, errorLogger);
+    const services = registerServices(protoRoot, rulesIndex, logger);
     
     const greeter = services.get('helloworld.Greeter');
     expect(greeter?.methods.size).toBe(2);
@@ -106,7 +109,7 @@ describe('Service Registry - Service Discovery', () => {
   });
 
   test('should correctly identify method metadata', () => {
-    const services = registerServices(protoRoot, rulesIndex, logger, errorLogger);
+    const services = registerServices(protoRoot, rulesIndex, logger);
     
     const greeter = services.get('helloworld.Greeter');
     const sayHello = greeter?.methods.get('SayHello');
@@ -123,7 +126,7 @@ describe('Service Registry - Service Discovery', () => {
   });
 
   test('should generate correct rule keys', () => {
-    const services = registerServices(protoRoot, rulesIndex, logger, errorLogger);
+    const services = registerServices(protoRoot, rulesIndex, logger);
     
     const greeter = services.get('helloworld.Greeter');
     expect(greeter?.methods.get('SayHello')?.ruleKey).toBe('helloworld.greeter.sayhello');
@@ -136,7 +139,7 @@ describe('Service Registry - Service Discovery', () => {
   test('should log service registration', () => {
     logs.length = 0;
     
-    registerServices(protoRoot, rulesIndex, logger, errorLogger);
+    registerServices(protoRoot, rulesIndex, logger);
     
     // Should log registration for each service
     const registrationLogs = logs.filter(log => log.includes('Registered Connect service'));
@@ -151,7 +154,7 @@ describe('Service Registry - Service Discovery', () => {
     logs.length = 0;
     const emptyRoot = new protobuf.Root();
     
-    const services = registerServices(emptyRoot, rulesIndex, logger, errorLogger);
+    const services = registerServices(emptyRoot, rulesIndex, logger);
     
     expect(services.size).toBe(0);
     
@@ -168,7 +171,7 @@ describe('Service Registry - Service Discovery', () => {
     msg.add(new protobuf.Field('text', 1, 'string'));
     ns.add(msg);
     
-    const services = registerServices(messagesOnlyRoot, rulesIndex, logger, errorLogger);
+    const services = registerServices(messagesOnlyRoot, rulesIndex, logger);
     
     expect(services.size).toBe(0);
   });
@@ -185,7 +188,7 @@ describe('Service Registry - Service Discovery', () => {
     badService.add(new protobuf.Method('BadMethod', 'rpc', 'MissingRequest', 'MissingResponse'));
     ns.add(badService);
     
-    const services = registerServices(badRoot, rulesIndex, logger, errorLogger);
+    const services = registerServices(badRoot, rulesIndex, logger);
     
     // Service should be registered but method should be skipped
     const badSvc = services.get('bad.BadService');
@@ -203,7 +206,6 @@ describe('Service Registry - Streaming Method Detection', () => {
   let protoRoot: protobuf.Root;
   let rulesIndex: Map<string, RuleDoc>;
   const logger = () => {};
-  const errorLogger = () => {};
 
   beforeAll(() => {
     // Create proto root with streaming methods
@@ -246,7 +248,7 @@ describe('Service Registry - Streaming Method Detection', () => {
   });
 
   test('should detect unary methods', () => {
-    const services = registerServices(protoRoot, rulesIndex, logger, errorLogger);
+    const services = registerServices(protoRoot, rulesIndex, logger);
     const streamService = services.get('streaming.StreamService');
     const unary = streamService?.methods.get('Unary');
     
@@ -255,7 +257,7 @@ describe('Service Registry - Streaming Method Detection', () => {
   });
 
   test('should detect server streaming methods', () => {
-    const services = registerServices(protoRoot, rulesIndex, logger, errorLogger);
+    const services = registerServices(protoRoot, rulesIndex, logger);
     const streamService = services.get('streaming.StreamService');
     const serverStream = streamService?.methods.get('ServerStream');
     
@@ -264,7 +266,7 @@ describe('Service Registry - Streaming Method Detection', () => {
   });
 
   test('should detect client streaming methods', () => {
-    const services = registerServices(protoRoot, rulesIndex, logger, errorLogger);
+    const services = registerServices(protoRoot, rulesIndex, logger);
     const streamService = services.get('streaming.StreamService');
     const clientStream = streamService?.methods.get('ClientStream');
     
@@ -273,7 +275,7 @@ describe('Service Registry - Streaming Method Detection', () => {
   });
 
   test('should detect bidirectional streaming methods', () => {
-    const services = registerServices(protoRoot, rulesIndex, logger, errorLogger);
+    const services = registerServices(protoRoot, rulesIndex, logger);
     const streamService = services.get('streaming.StreamService');
     const bidiStream = streamService?.methods.get('BidiStream');
     
@@ -287,7 +289,6 @@ describe('Service Registry - Handler Generation', () => {
   let resType: protobuf.Type;
   let rulesIndex: Map<string, RuleDoc>;
   const logger = () => {};
-  const errorLogger = () => {};
 
   beforeAll(() => {
     // Create test types
@@ -321,8 +322,7 @@ describe('Service Registry - Handler Generation', () => {
       false, // responseStream
       'test.service.method',
       rulesIndex,
-      logger,
-      errorLogger
+      logger
     );
     
     expect(handler).toBeDefined();
@@ -339,8 +339,7 @@ describe('Service Registry - Handler Generation', () => {
       true,  // responseStream
       'test.service.method',
       rulesIndex,
-      logger,
-      errorLogger
+      logger
     );
     
     expect(handler).toBeDefined();
@@ -357,8 +356,7 @@ describe('Service Registry - Handler Generation', () => {
       false, // responseStream
       'test.service.method',
       rulesIndex,
-      logger,
-      errorLogger
+      logger
     );
     
     expect(handler).toBeDefined();
@@ -375,8 +373,7 @@ describe('Service Registry - Handler Generation', () => {
       true, // responseStream
       'test.service.method',
       rulesIndex,
-      logger,
-      errorLogger
+      logger
     );
     
     expect(handler).toBeDefined();
@@ -393,8 +390,7 @@ describe('Service Registry - Handler Generation', () => {
       false,
       'test.service.method',
       rulesIndex,
-      logger,
-      errorLogger
+      logger
     );
     
     const context: ConnectContext = {
@@ -418,8 +414,7 @@ describe('Service Registry - Handler Generation', () => {
       true,
       'test.service.method',
       rulesIndex,
-      logger,
-      errorLogger
+      logger
     );
     
     const context: ConnectContext = {
@@ -442,7 +437,6 @@ describe('Service Registry - Method Registration', () => {
   let protoRoot: protobuf.Root;
   let rulesIndex: Map<string, RuleDoc>;
   const logger = () => {};
-  const errorLogger = () => {};
 
   beforeAll(() => {
     // Create proto root with multiple methods
@@ -467,7 +461,7 @@ describe('Service Registry - Method Registration', () => {
   });
 
   test('should register all methods in service', () => {
-    const services = registerServices(protoRoot, rulesIndex, logger, errorLogger);
+    const services = registerServices(protoRoot, rulesIndex, logger);
     const testService = services.get('registration.TestService');
     
     expect(testService?.methods.size).toBe(3);
@@ -477,7 +471,7 @@ describe('Service Registry - Method Registration', () => {
   });
 
   test('should create unique handlers for each method', () => {
-    const services = registerServices(protoRoot, rulesIndex, logger, errorLogger);
+    const services = registerServices(protoRoot, rulesIndex, logger);
     const testService = services.get('registration.TestService');
     
     const handler1 = testService?.methods.get('Method1')?.handler;
@@ -491,7 +485,7 @@ describe('Service Registry - Method Registration', () => {
   });
 
   test('should associate correct types with each method', () => {
-    const services = registerServices(protoRoot, rulesIndex, logger, errorLogger);
+    const services = registerServices(protoRoot, rulesIndex, logger);
     const testService = services.get('registration.TestService');
     
     const method1 = testService?.methods.get('Method1');
@@ -504,7 +498,7 @@ describe('Service Registry - Method Registration', () => {
   });
 
   test('should generate unique rule keys for each method', () => {
-    const services = registerServices(protoRoot, rulesIndex, logger, errorLogger);
+    const services = registerServices(protoRoot, rulesIndex, logger);
     const testService = services.get('registration.TestService');
     
     const ruleKeys = new Set<string>();
@@ -524,7 +518,6 @@ describe('Service Registry - Complex Package Structures', () => {
   let protoRoot: protobuf.Root;
   let rulesIndex: Map<string, RuleDoc>;
   const logger = () => {};
-  const errorLogger = () => {};
 
   beforeAll(() => {
     // Create proto root with deeply nested packages
@@ -552,14 +545,14 @@ describe('Service Registry - Complex Package Structures', () => {
   });
 
   test('should handle deeply nested packages', () => {
-    const services = registerServices(protoRoot, rulesIndex, logger, errorLogger);
+    const services = registerServices(protoRoot, rulesIndex, logger);
     
     expect(services.size).toBe(1);
     expect(services.has('com.example.api.v1.ApiService')).toBe(true);
   });
 
   test('should generate correct full service name for nested packages', () => {
-    const services = registerServices(protoRoot, rulesIndex, logger, errorLogger);
+    const services = registerServices(protoRoot, rulesIndex, logger);
     const apiService = services.get('com.example.api.v1.ApiService');
     
     expect(apiService?.fullServiceName).toBe('com.example.api.v1.ApiService');
@@ -568,7 +561,7 @@ describe('Service Registry - Complex Package Structures', () => {
   });
 
   test('should generate correct rule key for nested packages', () => {
-    const services = registerServices(protoRoot, rulesIndex, logger, errorLogger);
+    const services = registerServices(protoRoot, rulesIndex, logger);
     const apiService = services.get('com.example.api.v1.ApiService');
     const execute = apiService?.methods.get('Execute');
     
@@ -580,7 +573,6 @@ describe('Service Registry - Multiple Services in Same Package', () => {
   let protoRoot: protobuf.Root;
   let rulesIndex: Map<string, RuleDoc>;
   const logger = () => {};
-  const errorLogger = () => {};
 
   beforeAll(() => {
     // Create proto root with multiple services in same package
@@ -614,7 +606,7 @@ describe('Service Registry - Multiple Services in Same Package', () => {
   });
 
   test('should register all services in same package', () => {
-    const services = registerServices(protoRoot, rulesIndex, logger, errorLogger);
+    const services = registerServices(protoRoot, rulesIndex, logger);
     
     expect(services.size).toBe(3);
     expect(services.has('mypackage.ServiceA')).toBe(true);
@@ -623,7 +615,7 @@ describe('Service Registry - Multiple Services in Same Package', () => {
   });
 
   test('should maintain separate method maps for each service', () => {
-    const services = registerServices(protoRoot, rulesIndex, logger, errorLogger);
+    const services = registerServices(protoRoot, rulesIndex, logger);
     
     const serviceA = services.get('mypackage.ServiceA');
     const serviceB = services.get('mypackage.ServiceB');
@@ -639,7 +631,7 @@ describe('Service Registry - Multiple Services in Same Package', () => {
   });
 
   test('should generate unique rule keys for methods in different services', () => {
-    const services = registerServices(protoRoot, rulesIndex, logger, errorLogger);
+    const services = registerServices(protoRoot, rulesIndex, logger);
     
     const serviceA = services.get('mypackage.ServiceA');
     const serviceB = services.get('mypackage.ServiceB');
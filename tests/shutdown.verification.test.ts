@@ -59,7 +59,6 @@ describe("Coordinated Shutdown", () => {
       protoRoot,
       rulesIndex,
       logger: () => {},
-      errorLogger: () => {},
     });
 
     await server.start();
@@ -0,0 +1,170 @@
+import { describe, it, expect, beforeEach, beforeAll, afterAll } from "bun:test";
+import protobuf from "protobufjs";
+import { StubStore, stubStore } from "../src/domain/stubs/stubStore.js";
+import { handleUnaryRequest } from "../src/domain/usecases/handleRequest.js";
+import { createAdminApp } from "../src/interfaces/httpAdmin.js";
+import { runtime as validationRuntime } from "../src/infrastructure/validation/runtime.js";
+import type { RuleDoc } from "../src/domain/types.js";
+import type { NormalizedRequest, NormalizedResponse } from "../src/domain/types/normalized.js";
+
+const reply = (message: string): RuleDoc => ({ responses: [{ body: { message } }] });
+
+describe("StubStore", () => {
+  it("resolves the newest answering stub, session stubs first", () => {
+    const store = new StubStore();
+    const conditional: RuleDoc = { responses: [{ when: { "request.name": "Ada" }, body: { message: "ada" } }] };
+    store.add("a.b.c", reply("old"));
+    store.add("a.b.c", conditional);
+    store.add("a.b.c", reply("mine"), "s1");
+    store.add("x.y.z", reply("other"));
+
+    expect(store.resolve("a.b.c", { name: "Ada" }, {})).toBe(conditional);
+    expect(store.resolve("a.b.c", { name: "Bob" }, {})!.responses![0].body).toEqual({ message: "old" });
+    expect(store.resolve("a.b.c", { name: "Ada" }, { "x-wishmock-session": "s1" })!.responses![0].body).toEqual({ message: "mine" });
+    expect(store.resolve("q.q.q", {}, {})).toBeUndefined();
+  });
+
+  it("removes stubs by id and resets by session", () => {
+    const store = new StubStore();
+    const first = store.add("a.b.c", reply("1"));
+    store.add("a.b.c", reply("2"), "s1");
+    store.add("a.b.c", reply("3"), "s2");
+
+    expect(store.list("s1").map((s) => s.doc)).toEqual([reply("2")]);
+    expect(store.remove(first.id)).toBe(true);
+    expect(store.remove(first.id)).toBe(false);
+    expect(store.reset("s1")).toBe(1);
+    expect(store.list().map((s) => s.session)).toEqual(["s2"]);
+    expect(store.reset()).toBe(1);
+    expect(store.list()).toEqual([]);
+  });
+});
+
+describe("handleUnaryRequest with stubs", () => {
+  const logger = () => {};
+  const reqType = new protobuf.Type("HelloRequest").add(new protobuf.Field("name", 1, "string"));
+  const resType = new protobuf.Type("HelloReply").add(new protobuf.Field("message", 1, "string"));
+  const rulesIndex = new Map<string, RuleDoc>([["helloworld.greeter.sayhello", reply("from file")]]);
+
+  const call = (metadata: Record<string, string> = {}): NormalizedRequest => ({
+    service: "helloworld.Greeter",
+    method: "SayHello",
+    metadata,
+    data: { name: "Bob" },
+    requestType: reqType,
+    responseType: resType,
+    requestStream: false,
+    responseStream: false,
+  });
+  const message = async (metadata?: Record<string, string>) =>
+    ((await handleUnaryRequest(call(metadata), rulesIndex, logger)) as NormalizedResponse).data;
+
+  beforeEach(() => {
+    process.env.VALIDATION_ENABLED = "false";
+    validationRuntime.configureFromEnv();
+    stubStore.reset();
+  });
+
+  afterAll(() => {
+    stubStore.reset();
+  });
+
+  it("layers stubs over file rules", async () => {
+    expect(await message()).toEqual({ message: "from file" });
+
+    stubStore.add("helloworld.greeter.sayhello", { responses: [{ when: { "request.name": "Ada" }, body: { message: "stub" } }] });
+    expect(await message()).toEqual({ message: "from file" });
+
+    const stub = stubStore.add("helloworld.greeter.sayhello", reply("hi {{request.name}}"));
+    expect(await message()).toEqual({ message: "hi Bob" });
+
+    stubStore.add("helloworld.greeter.sayhello", reply("session"), "s1");
+    expect(await message({ "x-wishmock-session": "s1" })).toEqual({ message: "session" });
+    expect(await message({ "x-wishmock-session": "s2" })).toEqual({ message: "hi Bob" });
+
+    stubStore.remove(stub.id);
+    expect(await message()).toEqual({ message: "from file" });
+  });
+});
+
+describe("Admin API - stubs", () => {
+  let server: any;
+  let baseUrl: string;
+  const post = (body: unknown, headers: Record<string, string> = {}) => fetch(`${baseUrl}/admin/stubs`, {
+    method: "POST",
+    headers: { "content-type": "application/json", ...headers },
+    body: JSON.stringify(body),
+  });
+
+  beforeAll(async () => {
+    server = createAdminApp({
+      httpPort: 0,
+      protoDir: "protos",
+      ruleDir: "rules/grpc",
+      uploadsDir: "uploads",
+      getStatus: () => ({ loaded_services: [], rules: [] }),
+      listServices: () => ({ services: [] }),
+      getSchema: () => null,
+      onRuleUpdated: () => {},
+    });
+    await new Promise((resolve) => server.once("listening", resolve));
+    baseUrl = `http://localhost:${server.address().port}`;
+    stubStore.reset();
+  });
+
+  afterAll(() => {
+    server?.close();
+    stubStore.reset();
+  });
+
+  it("creates, lists and deletes stubs", async () => {
+    let res = await post({ target: "helloworld.Greeter/SayHello", responses: [{ body: { message: "hi" } }] });
+    expect(res.status).toBe(200);
+    const created = await res.json();
+    expect(created).toMatchObject({ rule: "helloworld.greeter.sayhello", doc: { target: "helloworld.Greeter/SayHello" } });
+    expect(typeof created.id).toBe("string");
+
+    res = await post({ target: "helloworld.Greeter/SayHello", responses: [] }, { "x-wishmock-session": "s1" });
+    expect((await res.json()).session).toBe("s1");
+
+    res = await fetch(`${baseUrl}/admin/stubs`);
+    expect((await res.json()).count).toBe(2);
+    res = await fetch(`${baseUrl}/admin/stubs?session=s1`);
+    expect((await res.json()).stubs.map((s: any) => s.session)).toEqual(["s1"]);
+
+    res = await fetch(`${baseUrl}/admin/stubs/${created.id}`, { method: "DELETE" });
+    expect(await res.json()).toEqual({ ok: true, id: created.id });
+    res = await fetch(`${baseUrl}/admin/stubs/${created.id}`, { method: "DELETE" });
+    expect(res.status).toBe(404);
+
+    res = await fetch(`${baseUrl}/admin/stubs`, { method: "DELETE" });
+    expect(await res.json()).toEqual({ ok: true, removed: 1 });
+    expect(stubStore.list()).toEqual([]);
+  });
+
+  it("rejects stubs without a target or with malformed responses", async () => {
+    let res = await post({ responses: [] });
+    expect(res.status).toBe(400);
+    expect((await res.json()).error).toBe("target is required (e.g. helloworld.Greeter/SayHello)");
+    res = await post({ target: "a.B/C", responses: { body: {} } });
+    expect((await res.json()).error).toBe("responses must be a list");
+  });
+
+  it("rejects stubs with malformed faults or conditions", async () => {
+    const errorOf = async (doc: Record<string, unknown>) => {
+      const res = await post({ target: "a.B/C", ...doc });
+      expect(res.status).toBe(400);
+      return (await res.json()).error as string;
+    };
+    expect(await errorOf({ faults: { latency: { min_ms: "abc" } } })).toStartWith("faults: latency.");
+    expect(await errorOf({ faults: { error: { probability: 1, code: "NOPE" } } })).toStartWith("faults: error.code");
+    expect(await errorOf({ match: { cel: "request.name ==" } })).toStartWith("match.cel is invalid:");
+    expect(await errorOf({ responses: [{ when: { any: { cel: "true" } }, body: {} }] })).toBe(
+      "responses[0].when.any must be a list of match blocks"
+    );
+    expect(await errorOf({ responses: [{ when: { all: [{ cel: 1 }] }, body: {} }] })).toBe(
+      "responses[0].when.all[0].cel must be a string"
+    );
+    expect(stubStore.list()).toEqual([]);
+  });
+});
@@ -1,5 +1,5 @@
-import { describe, it, expect } from "bun:test";
-import { renderTemplate, createTemplateContext } from "../src/domain/usecases/templateEngine.js";
+import { describe, it, expect, afterEach } from "bun:test";
+import { renderTemplate, createTemplateContext, setTemplateSeed } from "../src/domain/usecases/templateEngine.js";
 
 describe("Template Engine", () => {
   it("should render simple string templates", () => {
@@ -27,7 +27,7 @@ describe("Template Engine", () => {
     const result = renderTemplate(template, context);
     expect(result).toEqual({
       message: "Hello Alice!",
-      age: "25",
+      age: 25,
       client: "test-client"
     });
   });
@@ -55,13 +55,13 @@ describe("Template Engine", () => {
 
     const result = renderTemplate(template, context) as any;
     
-    expect(typeof result.timestamp).toBe("string");
-    expect(result.timestamp).toMatch(/^\d+$/);
+    expect(typeof result.timestamp).toBe("number");
+    expect(Number.isInteger(result.timestamp)).toBe(true);
     expect(typeof result.uuid).toBe("string");
     expect(result.uuid).toMatch(/^[0-9a-f-]+$/);
-    expect(typeof result.random).toBe("string");
-    expect(parseFloat(result.random)).toBeGreaterThanOrEqual(1);
-    expect(parseFloat(result.random)).toBeLessThanOrEqual(10);
+    expect(typeof result.random).toBe("number");
+    expect(result.random).toBeGreaterThanOrEqual(1);
+    expect(result.random).toBeLessThanOrEqual(10);
     expect(result.formatted).toBe("Hello Bob");
   });
 
@@ -81,8 +81,8 @@ describe("Template Engine", () => {
     const result = renderTemplate(template, context);
     expect(result).toEqual({
       message: "Message 1 of 3",
-      is_first: "false",
-      is_last: "false"
+      is_first: false,
+      is_last: false
     });
   });
 
@@ -136,7 +136,7 @@ describe("Template Engine", () => {
     expect(result.welcome.theme).toBe("Your theme is dark");
     expect(result.welcome.auth).toBe("Token: Bearer abc123");
     expect(result.welcome.version).toBe("Client: 1.0.0");
-    expect(typeof result.timestamp).toBe("string");
+    expect(typeof result.timestamp).toBe("number");
   });
 
   it("should allow deterministic utils via utilsOverrides", () => {
@@ -161,9 +161,9 @@ describe("Template Engine", () => {
 
     const result = renderTemplate(template, context);
     expect(result).toEqual({
-      ts: "1700000000000",
+      ts: 1700000000000,
       id: "00000000-0000-4000-8000-000000000000",
-      rnd: String(0.5 * (20 - 10) + 10),
+      rnd: 0.5 * (20 - 10) + 10,
       msg: "F:Hello %s|Dana",
     });
   });
@@ -257,3 +257,155 @@ describe("Template Engine", () => {
     expect(result).toBe("It\\'s fine");
   });
 });
+
+describe("Template helpers", () => {
+  afterEach(() => setTemplateSeed(undefined));
+
+  const fixedNow = { now: () => Date.UTC(2024, 0, 15, 12, 0, 0) };
+
+  it("evaluates arithmetic on request fields", () => {
+    const context = createTemplateContext({ qty: 3, price: 2.5 }, {}, { index: 1, total: 3 });
+    expect(renderTemplate("{{request.qty * request.price + 1}}", context)).toBe(8.5);
+    expect(renderTemplate("#{{stream.index + 1}}", context)).toBe("#2");
+    expect(renderTemplate("{{request.qty - 5}}", context)).toBe(-2);
+    // Non-numeric operands keep the token
+    expect(renderTemplate("{{request.missing + 1}}", context)).toBe("{{request.missing + 1}}");
+  });
+
+  it("formats dates, numbers and encodings", () => {
+    const context = createTemplateContext({ amount: 1234567.891, text: "hi" }, {}, undefined, fixedNow);
+    expect(renderTemplate({
+      now: "{{utils.isoDate()}}",
+      later: "{{utils.isoDate('+2d')}}",
+      earlier: "{{utils.date('-3h')}}",
+      amount: "{{utils.formatNumber(request.amount, 2)}}",
+      b64: "{{utils.base64(request.text)}}",
+      plain: "{{utils.fromBase64('aGk=')}}",
+      sha: "{{utils.hash(request.text)}}",
+      md5: "{{utils.hash('hi', 'md5')}}",
+    }, context)).toEqual({
+      now: "2024-01-15T12:00:00.000Z",
+      later: "2024-01-17T12:00:00.000Z",
+      earlier: "2024-01-15",
+      amount: "1,234,567.89",
+      b64: "aGk=",
+      plain: "hi",
+      sha: "8f434346648f6b96df89dda901c5176b10a6d83961dd3c1ac88b59b2dc327aa4",
+      md5: "49f68a5c8493ec2c0bf489821c21fc3b",
+    });
+  });
+
+  it("generates sample data and repeated items", () => {
+    const context = createTemplateContext({ name: "Ada Lovelace" }, {});
+    const result = renderTemplate({
+      email: "{{utils.email(request.name)}}",
+      picked: "{{utils.pick('red', 'green')}}",
+      tags: "{{utils.repeat(3, 'utils.lorem(2)')}}",
+      ids: "{{utils.repeat(2, 'index * 10')}}",
+      label: "names: {{utils.repeat(2, 'index')}}",
+    }, context) as any;
+
+    expect(result.email).toBe("ada.lovelace@example.com");
+    expect(["red", "green"]).toContain(result.picked);
+    expect(result.tags).toHaveLength(3);
+    expect(result.tags[0]).toMatch(/^[a-z]+ [a-z]+$/);
+    expect(result.ids).toEqual([0, 10]);
+    expect(result.label).toBe("names: 0,1");
+  });
+
+  it("reproduces generated values with a seed", () => {
+    const template = {
+      id: "{{utils.uuid()}}",
+      name: "{{utils.name()}}",
+      city: "{{utils.city()}}",
+      score: "{{utils.int(1, 1000)}}",
+    };
+    const render = (metadata: Record<string, unknown>, stream?: { index: number }) =>
+      renderTemplate(template, createTemplateContext({}, metadata, stream)) as Record<string, string>;
+
+    const seeded = render({ "x-wishmock-seed": "42" });
+    expect(seeded.id).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/);
+    expect(render({ "x-wishmock-seed": "42" })).toEqual(seeded);
+    expect(render({ "x-wishmock-seed": "43" })).not.toEqual(seeded);
+    // Stream items get their own sequence
+    expect(render({ "x-wishmock-seed": "42" }, { index: 1 })).not.toEqual(render({ "x-wishmock-seed": "42" }, { index: 2 }));
+
+    setTemplateSeed("42");
+    expect(render({})).toEqual(seeded);
+    expect(render({ "x-wishmock-seed": "7" })).toEqual(render({ "x-wishmock-seed": "7" }));
+  });
+});
+
+describe("Template typed values and directives", () => {
+  const order = {
+    customer: { name: "Ada", vip: true },
+    count: 2,
+    items: [{ sku: "A-1", qty: 2 }, { sku: "B-2", qty: 0 }],
+  };
+
+  it("keeps the type of single-expression strings", () => {
+    const context = createTemplateContext(order, {});
+    expect(renderTemplate({
+      count: "{{request.count}}",
+      vip: "{{request.customer.vip}}",
+      customer: "{{request.customer}}",
+      missing: "{{request.missing}}",
+      text: "{{request.count}} items",
+    }, context)).toEqual({
+      count: 2,
+      vip: true,
+      customer: { name: "Ada", vip: true },
+      missing: undefined,
+      text: "2 items",
+    });
+  });
+
+  it("applies default values and comparisons", () => {
+    const context = createTemplateContext({ name: "", status: "ACTIVE", count: 3 }, {});
+    expect(renderTemplate({
+      name: "{{request.name | default('anon')}}",
+      nick: "hi {{request.nick | default(request.status)}}",
+      active: "{{request.status == 'ACTIVE'}}",
+      many: "{{request.count > 2}}",
+      few: "{{request.count - 1 <= 1}}",
+      unknown: "{{request.name | upper}}",
+    }, context)).toEqual({
+      name: "anon",
+      nick: "hi ACTIVE",
+      active: true,
+      many: true,
+      few: false,
+      unknown: "{{request.name | upper}}",
+    });
+  });
+
+  it("renders $if and $each blocks", () => {
+    const context = createTemplateContext(order, {});
+    const template = {
+      greeting: { $if: "{{request.customer.vip}}", $then: "Welcome back", $else: "Hello" },
+      discount: { $if: "request.count > 5", $then: { percent: 10 } },
+      lines: {
+        $each: "{{request.items}}",
+        $template: {
+          position: "{{index + 1}}",
+          sku: "{{item.sku}}",
+          status: { $if: "item.qty", $then: "IN_STOCK", $else: "BACKORDER" },
+        },
+      },
+      tags: ["order", { $each: "request.items", $as: "line", $template: "sku:{{line.sku}}" }],
+      empty: { $each: "request.missing", $template: "x" },
+    };
+
+    expect(renderTemplate(template, context)).toEqual({
+      greeting: "Welcome back",
+      lines: [
+        { position: 1, sku: "A-1", status: "IN_STOCK" },
+        { position: 2, sku: "B-2", status: "BACKORDER" },
+      ],
+      tags: ["order", "sku:A-1", "sku:B-2"],
+      empty: [],
+    });
+    expect("discount" in (renderTemplate(template, context) as object)).toBe(false);
+  });
+});
+
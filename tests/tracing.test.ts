@@ -0,0 +1,193 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach } from "bun:test";
+import http from "http";
+import path from "path";
+import * as grpc from "@grpc/grpc-js";
+import protobuf from "protobufjs";
+import { parseTraceparent, parseGrpcTraceBin } from "../src/infrastructure/tracing/traceContext.js";
+import { runtime as tracingRuntime } from "../src/infrastructure/tracing/runtime.js";
+import { handleUnaryRequest } from "../src/domain/usecases/handleRequest.js";
+import type { NormalizedRequest } from "../src/domain/types/normalized.js";
+import type { RuleDoc } from "../src/domain/types.js";
+
+const TRACE_ID = "4bf92f3577b34da6a3ce929d0e0e4736";
+const PARENT_ID = "00f067aa0ba902b7";
+
+function grpcTraceBin(traceId: string, spanId: string, sampled: boolean): string {
+  return Buffer.concat([
+    Buffer.from([0, 0]), Buffer.from(traceId, "hex"),
+    Buffer.from([1]), Buffer.from(spanId, "hex"),
+    Buffer.from([2, sampled ? 1 : 0]),
+  ]).toString("base64");
+}
+
+describe("trace context", () => {
+  it("parses traceparent and rejects malformed or invalid headers", () => {
+    expect(parseTraceparent(`00-${TRACE_ID}-${PARENT_ID}-01`, "vendor=x")).toEqual({
+      traceId: TRACE_ID, spanId: PARENT_ID, sampled: true, traceState: "vendor=x",
+    });
+    expect(parseTraceparent(`00-${TRACE_ID}-${PARENT_ID}-00`)?.sampled).toBe(false);
+    expect(parseTraceparent(`00-${"0".repeat(32)}-${PARENT_ID}-01`)).toBeNull();
+    expect(parseTraceparent(`ff-${TRACE_ID}-${PARENT_ID}-01`)).toBeNull();
+    expect(parseTraceparent("garbage")).toBeNull();
+  });
+
+  it("parses grpc-trace-bin", () => {
+    expect(parseGrpcTraceBin(grpcTraceBin(TRACE_ID, PARENT_ID, true))).toEqual({ traceId: TRACE_ID, spanId: PARENT_ID, sampled: true });
+    expect(parseGrpcTraceBin(Buffer.from([0, 1, 2]).toString("base64"))).toBeNull();
+  });
+});
+
+describe("tracing runtime", () => {
+  const requestType = new protobuf.Type("HelloRequest").add(new protobuf.Field("name", 1, "string"));
+  const responseType = new protobuf.Type("HelloReply").add(new protobuf.Field("message", 1, "string"));
+  const rulesIndex = new Map<string, RuleDoc>([
+    ["helloworld.greeter.sayhello", { responses: [{ body: { message: "hi" } }] }],
+  ]);
+  const call = (metadata: Record<string, string>, method = "SayHello"): NormalizedRequest => ({
+    service: "helloworld.Greeter",
+    method,
+    metadata,
+    data: { name: "Ada" },
+    requestType,
+    responseType,
+    requestStream: false,
+    responseStream: false,
+    protocol: "connect",
+  });
+  const saved = { ...process.env };
+
+  afterEach(() => {
+    for (const key of Object.keys(process.env)) if (key.startsWith("OTEL_")) delete process.env[key];
+    Object.assign(process.env, saved);
+    tracingRuntime.reset();
+    tracingRuntime.configureFromEnv();
+  });
+
+  describe("OTLP HTTP/JSON", () => {
+    let collector: http.Server;
+    const bodies: any[] = [];
+    const headers: http.IncomingHttpHeaders[] = [];
+
+    beforeAll(async () => {
+      collector = http.createServer((req, res) => {
+        let body = "";
+        req.on("data", (chunk) => { body += chunk; });
+        req.on("end", () => {
+          bodies.push(JSON.parse(body));
+          headers.push(req.headers);
+          res.end("{}");
+        });
+      });
+      await new Promise<void>((resolve) => collector.listen(0, "127.0.0.1", resolve));
+    });
+
+    afterAll(() => {
+      collector.close();
+    });
+
+    it("exports a server span continuing the caller's trace", async () => {
+      process.env.OTEL_EXPORTER_OTLP_ENDPOINT = `http://127.0.0.1:${(collector.address() as any).port}`;
+      process.env.OTEL_EXPORTER_OTLP_PROTOCOL = "http/json";
+      process.env.OTEL_EXPORTER_OTLP_HEADERS = "x-api-key=secret";
+      process.env.OTEL_SERVICE_NAME = "payments-mock";
+      tracingRuntime.configureFromEnv();
+
+      await handleUnaryRequest(call({ traceparent: `00-${TRACE_ID}-${PARENT_ID}-01` }), rulesIndex, () => {});
+      await handleUnaryRequest(call({ traceparent: `00-${TRACE_ID}-${PARENT_ID}-01` }, "SayGoodbye"), rulesIndex, () => {});
+      await handleUnaryRequest(call({ traceparent: `00-${TRACE_ID}-${PARENT_ID}-00` }), rulesIndex, () => {});
+      await handleUnaryRequest(call({}), rulesIndex, () => {});
+      await tracingRuntime.flush();
+
+      expect(bodies).toHaveLength(1);
+      expect(headers[0]["x-api-key"]).toBe("secret");
+      const [resourceSpans] = bodies[0].resourceSpans;
+      expect(resourceSpans.resource.attributes).toEqual([{ key: "service.name", value: { stringValue: "payments-mock" } }]);
+
+      const spans = resourceSpans.scopeSpans[0].spans;
+      expect(spans).toHaveLength(2);
+      const [ok, failed] = spans;
+      expect(ok.traceId).toBe(TRACE_ID);
+      expect(ok.parentSpanId).toBe(PARENT_ID);
+      expect(ok.spanId).toMatch(/^[0-9a-f]{16}$/);
+      expect(ok.name).toBe("helloworld.Greeter/SayHello");
+      expect(ok.kind).toBe(2);
+      expect(BigInt(ok.endTimeUnixNano) >= BigInt(ok.startTimeUnixNano)).toBe(true);
+      expect(ok.attributes).toContainEqual({ key: "wishmock.rule_key", value: { stringValue: "helloworld.greeter.sayhello" } });
+      expect(ok.attributes).toContainEqual({ key: "wishmock.response_index", value: { intValue: "0" } });
+      expect(ok.attributes).toContainEqual({ key: "rpc.grpc.status_code", value: { intValue: "0" } });
+      expect(ok.status).toEqual({ code: 0 });
+      expect(failed.status.code).toBe(2);
+      expect(failed.attributes).toContainEqual({ key: "rpc.grpc.status_code", value: { intValue: "12" } });
+      expect(tracingRuntime.getInfo()).toMatchObject({ enabled: true, protocol: "http/json", exported: 2, dropped: 0 });
+    });
+
+    it("counts failed exports without failing calls", async () => {
+      process.env.OTEL_EXPORTER_OTLP_TRACES_ENDPOINT = "http://127.0.0.1:1/v1/traces";
+      process.env.OTEL_EXPORTER_OTLP_PROTOCOL = "http/json";
+      tracingRuntime.configureFromEnv();
+
+      const result = await handleUnaryRequest(call({ traceparent: `00-${TRACE_ID}-${PARENT_ID}-01` }), rulesIndex, () => {});
+      await tracingRuntime.flush();
+
+      expect(result).toMatchObject({ data: { message: "hi" } });
+      expect(tracingRuntime.getInfo()).toMatchObject({ exported: 0, dropped: 1 });
+      expect(tracingRuntime.getInfo().last_error).toBeDefined();
+    });
+  });
+
+  describe("OTLP gRPC", () => {
+    let collector: grpc.Server;
+    let port: number;
+    const received: Buffer[] = [];
+
+    beforeAll(async () => {
+      collector = new grpc.Server();
+      collector.addService({
+        Export: {
+          path: "/opentelemetry.proto.collector.trace.v1.TraceService/Export",
+          requestStream: false,
+          responseStream: false,
+          requestSerialize: (b: Buffer) => b,
+          requestDeserialize: (b: Buffer) => b,
+          responseSerialize: (b: Buffer) => b,
+          responseDeserialize: (b: Buffer) => b,
+        },
+      }, {
+        Export: (c: grpc.ServerUnaryCall<Buffer, Buffer>, cb: grpc.sendUnaryData<Buffer>) => {
+          received.push(c.request);
+          cb(null, Buffer.alloc(0));
+        },
+      });
+      port = await new Promise<number>((resolve, reject) =>
+        collector.bindAsync("127.0.0.1:0", grpc.ServerCredentials.createInsecure(), (e, p) => (e ? reject(e) : resolve(p)))
+      );
+    });
+
+    afterAll(() => {
+      collector.forceShutdown();
+    });
+
+    it("continues grpc-trace-bin context and exports protobuf spans", async () => {
+      process.env.OTEL_EXPORTER_OTLP_ENDPOINT = `http://127.0.0.1:${port}`;
+      process.env.OTEL_EXPORTER_OTLP_PROTOCOL = "grpc";
+      tracingRuntime.configureFromEnv();
+
+      await handleUnaryRequest(call({ "grpc-trace-bin": grpcTraceBin(TRACE_ID, PARENT_ID, true) }), rulesIndex, () => {});
+      await tracingRuntime.flush();
+
+      // TracesData shares ExportTraceServiceRequest's wire format
+      const root = new protobuf.Root();
+      root.resolvePath = (_origin, target) => path.resolve("protos", target);
+      await root.load("opentelemetry/proto/trace/v1/trace.proto");
+      const TracesData = root.lookupType("opentelemetry.proto.trace.v1.TracesData");
+      const data = TracesData.toObject(TracesData.decode(received[0]), { bytes: String, longs: String }) as any;
+      const span = data.resourceSpans[0].scopeSpans[0].spans[0];
+
+      expect(Buffer.from(span.traceId, "base64").toString("hex")).toBe(TRACE_ID);
+      expect(Buffer.from(span.parentSpanId, "base64").toString("hex")).toBe(PARENT_ID);
+      expect(span.name).toBe("helloworld.Greeter/SayHello");
+      expect(span.kind).toBe(2);
+      expect(span.attributes).toContainEqual({ key: "wishmock.rule_key", value: { stringValue: "helloworld.greeter.sayhello" } });
+    });
+  });
+});
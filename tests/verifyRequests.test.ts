@@ -0,0 +1,134 @@
+import { describe, it, expect, beforeEach, beforeAll, afterAll } from "bun:test";
+import { RequestJournal } from "../src/domain/journal/requestJournal.js";
+import { verifyRequests, validateCountSpec, validateMatchConditions } from "../src/domain/usecases/verifyRequests.js";
+import { createAdminApp } from "../src/interfaces/httpAdmin.js";
+
+const entry = (method: string, request: unknown, metadata: Record<string, string> = {}) => ({
+  received_at: new Date().toISOString(),
+  service: "helloworld.Greeter",
+  method,
+  metadata,
+  request,
+  rule_key: null,
+  response_index: null,
+  proxied: false,
+  status: "OK",
+  latency_ms: 1,
+});
+
+describe("verifyRequests", () => {
+  let journal: RequestJournal;
+
+  beforeEach(() => {
+    journal = new RequestJournal(10);
+    journal.record(entry("SayHello", { name: "Bob", age: 30 }, { authorization: "Bearer x" }));
+    journal.record(entry("SayHello", { name: "Bob", age: 12 }));
+    journal.record(entry("SayGoodbye", { name: "Ann" }));
+  });
+
+  it("passes when the count expectation holds", () => {
+    expect(verifyRequests(journal, { method: "SayHello", request: { name: "Bob" }, count: { eq: 2 } }))
+      .toEqual({ pass: true, expected: { eq: 2 }, actual: 2, near_misses: [] });
+    expect(verifyRequests(journal, { method: "sayhello", request: { age: { gte: 18 } } }).pass).toBe(true);
+    expect(verifyRequests(journal, { method: "SayHello", count: 2 }).pass).toBe(true);
+  });
+
+  it("reports the closest mismatches on failure", () => {
+    const result = verifyRequests(journal, {
+      method: "SayHello",
+      request: { name: "Bob" },
+      metadata: { authorization: { regex: "^Bearer " } },
+      count: { eq: 2 },
+    });
+    expect(result.pass).toBe(false);
+    expect(result.actual).toBe(1);
+    expect(result.near_misses.map((m) => m.id)).toEqual([2, 3]);
+    expect(result.near_misses[0].mismatches).toEqual([
+      { field: "metadata.authorization", expected: { regex: "^Bearer " }, actual: undefined },
+    ]);
+    expect(result.near_misses[1].mismatches.map((m) => m.field)).toEqual([
+      "method", "metadata.authorization", "request.name",
+    ]);
+  });
+
+  it("evaluates cel and any/all groups", () => {
+    expect(verifyRequests(journal, { method: "SayHello", any: [{ request: { age: 30 } }], count: 1 }).pass).toBe(true);
+    expect(verifyRequests(journal, { cel: "request.age < 18", count: 1 }).pass).toBe(true);
+
+    const result = verifyRequests(journal, { method: "SayHello", all: [{ request: { age: { gte: 18 } } }], count: 2 });
+    expect(result.pass).toBe(false);
+    expect(result.actual).toBe(1);
+    expect(result.near_misses[0].mismatches).toEqual([
+      { field: "all", expected: [{ request: { age: { gte: 18 } } }], actual: false },
+    ]);
+  });
+
+  it("rejects malformed cel and any/all groups", () => {
+    expect(validateMatchConditions({ cel: "request.age > 1", any: [{ all: [{ request: {} }] }] })).toBeNull();
+    expect(validateMatchConditions({ cel: "request.age >" })).toContain("cel is invalid");
+    expect(validateMatchConditions({ any: { request: {} } })).toBe("any must be a list of match blocks");
+    expect(validateMatchConditions({ all: [{ any: ["x"] }] })).toBe("all[0].any[0] must be a match block");
+  });
+
+  it("rejects unknown count shapes", () => {
+    expect(validateCountSpec({ gte: 1 })).toBeNull();
+    expect(validateCountSpec(3)).toBeNull();
+    expect(validateCountSpec({ atLeast: 1 })).toContain("count must be");
+    expect(validateCountSpec("2")).toContain("count must be");
+  });
+});
+
+describe("POST /admin/verify", () => {
+  const journal = new RequestJournal(10);
+  let admin: any;
+  let url: string;
+
+  const verify = async (body: unknown) => {
+    const res = await fetch(`${url}/admin/verify`, {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify(body),
+    });
+    return { status: res.status, body: await res.json() };
+  };
+
+  beforeAll(async () => {
+    admin = createAdminApp({
+      httpPort: 0,
+      protoDir: "protos",
+      ruleDir: "rules/grpc",
+      uploadsDir: "uploads",
+      getStatus: () => ({ loaded_services: [], rules: [] }),
+      listServices: () => ({ services: [] }),
+      getSchema: () => null,
+      onRuleUpdated: () => {},
+      requestJournal: journal,
+    });
+    await new Promise((resolve) => admin.once("listening", resolve));
+    url = `http://127.0.0.1:${admin.address().port}`;
+    journal.record(entry("SayHello", { name: "Bob" }));
+  });
+
+  afterAll(() => {
+    admin?.close();
+  });
+
+  it("returns pass/fail and validates the body", async () => {
+    let res = await verify({ service: "helloworld.Greeter", method: "SayHello", request: { name: "Bob" }, count: { eq: 1 } });
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({ pass: true, actual: 1 });
+
+    res = await verify({ method: "SayHello", request: { name: "Tom" } });
+    expect(res.status).toBe(200);
+    expect(res.body.pass).toBe(false);
+    expect(res.body.near_misses[0].mismatches[0]).toEqual({ field: "request.name", expected: "Tom", actual: "Bob" });
+
+    res = await verify({ method: "SayHello", any: [{ request: { name: "Tom" } }] });
+    expect(res.body.pass).toBe(false);
+
+    res = await verify({ method: "SayHello", count: { between: [1, 2] } });
+    expect(res.status).toBe(400);
+    res = await verify({ method: "SayHello", cel: 42 });
+    expect(res.status).toBe(400);
+  });
+});
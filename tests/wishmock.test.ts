@@ -0,0 +1,98 @@
+import { describe, it, expect, afterAll } from "bun:test";
+import { createWishmock, type Wishmock } from "../src/wishmock.js";
+import { WishmockClient } from "../src/client/index.js";
+
+const quiet = { log: () => {}, errorLog: () => {} };
+const sayHello = (message: string) => ({ target: "helloworld.Greeter/SayHello", responses: [{ body: { message } }] });
+
+async function callSayHello(connectPort: number | undefined, name = "Ada") {
+  const res = await fetch(`http://127.0.0.1:${connectPort}/helloworld.Greeter/SayHello`, {
+    method: "POST",
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify({ name }),
+  });
+  return res.json();
+}
+
+describe("createWishmock", () => {
+  const instances: Wishmock[] = [];
+  const create = (...args: Parameters<typeof createWishmock>) => {
+    const instance = createWishmock(args[0]);
+    instances.push(instance);
+    return instance;
+  };
+
+  afterAll(async () => {
+    for (const instance of instances) await instance.stop();
+  });
+
+  it("runs several instances in one process on free ports", async () => {
+    const first = create({ ...quiet, protoDirs: ["protos"], rules: [sayHello("first")], httpPort: false });
+    const second = create({ ...quiet, protoDirs: ["protos"], rules: [sayHello("second")], httpPort: false });
+    const a = await first.start();
+    const b = await second.start();
+
+    expect(a.grpc).toBeGreaterThan(0);
+    expect(a.connect).toBeGreaterThan(0);
+    expect(new Set([a.grpc, a.connect, b.grpc, b.connect]).size).toBe(4);
+    expect(a.http).toBeUndefined();
+    expect(await callSayHello(a.connect)).toEqual({ message: "first" });
+    expect(await callSayHello(b.connect)).toEqual({ message: "second" });
+  }, 30000);
+
+  it("keeps stubs, the journal and settings of each instance apart", async () => {
+    const first = create({ ...quiet, protoDirs: ["protos"], rules: [] });
+    const second = create({ ...quiet, protoDirs: ["protos"], rules: [], autoMock: true, journalSize: 0, templateSeed: 7 });
+    const a = await first.start();
+    const b = await second.start();
+    const adminA = new WishmockClient({ baseUrl: `http://127.0.0.1:${a.http}` });
+    const adminB = new WishmockClient({ baseUrl: `http://127.0.0.1:${b.http}` });
+
+    await adminA.addStub(sayHello("stubbed"));
+    expect(await callSayHello(a.connect)).toEqual({ message: "stubbed" });
+    const generated = await callSayHello(b.connect);
+    expect(typeof generated.message).toBe("string");
+    expect(generated.message).not.toBe("stubbed");
+    expect(await adminB.listStubs()).toEqual([]);
+
+    expect((await adminA.findRequests()).count).toBe(1);
+    expect(await adminB.findRequests()).toMatchObject({ count: 0, capacity: 0 });
+    expect(first.status().shared_metrics?.rule_matching).toMatchObject({ matches_total: 1, misses_total: 0 });
+    expect(second.status().shared_metrics?.rule_matching).toMatchObject({ matches_total: 0, misses_total: 1 });
+
+    // The instance's seed makes generated values repeat across calls
+    second.addRule(sayHello("{{utils.uuid()}}"));
+    const seeded = await callSayHello(b.connect);
+    expect(await callSayHello(b.connect)).toEqual(seeded);
+  }, 30000);
+
+  it("layers added rules over rule files and keeps them and the ports across reloads", async () => {
+    const mock = create({ ...quiet, protoDirs: ["protos"], rules: "rules/grpc" });
+    const ports = await mock.start();
+    expect(mock.isReady()).toBe(true);
+    expect((await (await fetch(`http://127.0.0.1:${ports.http}/admin/status`)).json()).grpc_port).toBe(ports.grpc);
+
+    mock.addRule(sayHello("added"));
+    expect(await callSayHello(ports.connect)).toEqual({ message: "added" });
+
+    await mock.reload();
+    expect(mock.ports).toEqual(ports);
+    expect(await callSayHello(ports.connect)).toEqual({ message: "added" });
+    expect(mock.status().rules).toContain("helloworld.greeter.sayhello");
+  }, 30000);
+
+  it("rejects rules without a target and a second start", async () => {
+    const mock = create({ ...quiet, rules: [], connectPort: false, httpPort: false });
+    expect(() => mock.addRule({ responses: [] } as any)).toThrow("addRule: target is required");
+    expect(() => mock.addRule({ target: "helloworld.Greeter/SayHello", faults: { latency: { min_ms: "abc" } } } as any)).toThrow(
+      "addRule: helloworld.Greeter/SayHello: faults: latency."
+    );
+    expect(() => create({ ...quiet, rules: [{ target: "helloworld.Greeter/SayHello", match: { cel: "request.name ==" } }] })).toThrow(
+      "addRule: helloworld.Greeter/SayHello: match.cel is invalid"
+    );
+    await mock.start();
+    await expect(mock.start()).rejects.toThrow("already started");
+    await mock.stop();
+    expect(mock.isReady()).toBe(false);
+  }, 30000);
+});